@@ -2,6 +2,7 @@ import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { AuthForm } from './components/AuthForm';
 import { WaiterDashboard } from './components/WaiterDashboard';
 import { CashierDashboard } from './components/CashierDashboard';
+import { KitchenDashboard } from './components/KitchenDashboard';
 
 function AppContent() {
   const { user, profile, loading } = useAuth();
@@ -26,6 +27,10 @@ function AppContent() {
     return <CashierDashboard />;
   }
 
+  if (profile.role === 'kitchen') {
+    return <KitchenDashboard />;
+  }
+
   return null;
 }
 
@@ -1,15 +1,15 @@
 import { useState, useMemo } from 'react';
-import { Order, Profile } from '../lib/supabase';
-import { Calendar, ChevronLeft, ChevronRight, Eye } from 'lucide-react';
-
-type OrderWithWaiter = Order & { waiter: Profile };
+import { Order, OrderWithWaiter, Profile } from '../lib/supabase';
+import { ArrowRightLeft, Calendar, ChevronLeft, ChevronRight, Eye, Tag } from 'lucide-react';
 
 type AllOrdersListProps = {
   orders: OrderWithWaiter[];
   onViewDetails: (order: Order, waiter: Profile) => void;
+  onTransfer?: (order: Order) => void;
+  onDiscount?: (order: Order) => void;
 };
 
-export function AllOrdersList({ orders, onViewDetails }: AllOrdersListProps) {
+export function AllOrdersList({ orders, onViewDetails, onTransfer, onDiscount }: AllOrdersListProps) {
   const [dateFilter, setDateFilter] = useState<string>('');
   const [statusFilter, setStatusFilter] = useState<'all' | 'pending' | 'paid' | 'confirmed'>('all');
   const [waiterFilter, setWaiterFilter] = useState<string>('all');
@@ -135,6 +135,14 @@ export function AllOrdersList({ orders, onViewDetails }: AllOrdersListProps) {
                   <div className="flex items-center gap-3">
                     <div className="text-right">
                       <div className="font-bold text-gray-900">${Number(order.total_amount).toFixed(2)}</div>
+                      {Number(order.discount_amount) > 0 && (
+                        <div className="text-xs text-green-700">-${Number(order.discount_amount).toFixed(2)} discount</div>
+                      )}
+                      {Number(order.service_charge_amount) > 0 && (
+                        <div className="text-xs text-gray-500">
+                          +${Number(order.service_charge_amount).toFixed(2)} service charge
+                        </div>
+                      )}
                     </div>
                     <button
                       onClick={() => onViewDetails(order, order.waiter)}
@@ -143,6 +151,24 @@ export function AllOrdersList({ orders, onViewDetails }: AllOrdersListProps) {
                       <Eye className="w-4 h-4" />
                       View
                     </button>
+                    {onTransfer && order.status !== 'confirmed' && (
+                      <button
+                        onClick={() => onTransfer(order)}
+                        className="flex items-center gap-1 px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-100 rounded-lg font-medium transition"
+                      >
+                        <ArrowRightLeft className="w-4 h-4" />
+                        Move
+                      </button>
+                    )}
+                    {onDiscount && order.status === 'pending' && (
+                      <button
+                        onClick={() => onDiscount(order)}
+                        className="flex items-center gap-1 px-3 py-1.5 text-xs text-green-700 hover:bg-green-50 rounded-lg font-medium transition"
+                      >
+                        <Tag className="w-4 h-4" />
+                        Discount
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -7,7 +7,7 @@ export function AuthForm() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [fullName, setFullName] = useState('');
-  const [role, setRole] = useState<'waiter' | 'cashier'>('waiter');
+  const [role, setRole] = useState<'waiter' | 'cashier' | 'kitchen'>('waiter');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const { signIn, signUp } = useAuth();
@@ -21,7 +21,7 @@ export function AuthForm() {
       if (isLogin) {
         await signIn(email, password);
       } else {
-        await signUp(email, password, fullName, role.toLowerCase() as 'waiter' | 'cashier');
+        await signUp(email, password, fullName, role.toLowerCase() as 'waiter' | 'cashier' | 'kitchen');
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -94,11 +94,12 @@ export function AuthForm() {
               </label>
               <select
                 value={role}
-                onChange={(e) => setRole(e.target.value as 'waiter' | 'cashier')}
+                onChange={(e) => setRole(e.target.value as 'waiter' | 'cashier' | 'kitchen')}
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
               >
                 <option value="waiter">Waiter</option>
                 <option value="cashier">Cashier</option>
+                <option value="kitchen">Kitchen</option>
               </select>
             </div>
           )}
@@ -1,7 +1,31 @@
-import { useState, useEffect } from 'react';
-import { supabase, Payment, Order, Profile, Bank } from '../lib/supabase';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { supabase, Order, OrderWithWaiter, Profile } from '../lib/supabase';
+import {
+  fetchActiveWaiters,
+  fetchOrdersWithWaiters,
+  fetchOrderWithWaiter,
+  fetchPaymentTotals,
+  fetchPaymentWithDetails,
+  PaymentFilters,
+  PaymentTotals,
+  PaymentTotalsByStatus,
+} from '../lib/data';
+import {
+  applyPaymentChangeToTotals,
+  byCreatedAtDesc,
+  canApplyToTotals,
+  changedRowId,
+  createChangeFeed,
+  PaymentChange,
+  removeRow,
+  subscribeToChanges,
+  TableChange,
+  toPaymentChange,
+  upsertRow,
+} from '../lib/realtime';
+import { errorMessage } from '../lib/errors';
 import { useAuth } from '../contexts/AuthContext';
-import { LogOut, X, BarChart3, Menu as MenuIcon, Users, Filter, Building2 } from 'lucide-react';
+import { LogOut, X, BarChart3, Menu as MenuIcon, Users, Filter, Building2, Boxes, Truck, LayoutGrid, Tag, ConciergeBell } from 'lucide-react';
 import { PaymentsList } from './PaymentsList';
 import { MenuManagement } from './MenuManagement';
 import { OrderDetailsView } from './OrderDetailsView';
@@ -9,62 +33,127 @@ import { AllOrdersList } from './AllOrdersList';
 import { PaginatedPayments } from './PaginatedPayments';
 import { UserManagement } from './UserManagement';
 import { BankManagement } from './BankManagement';
-
-type PaymentWithDetails = Payment & {
-  order: Order;
-  waiter: Profile;
-  bank?: Bank;
-};
+import { InventoryManagement } from './InventoryManagement';
+import { PurchasingManagement } from './PurchasingManagement';
+import { FloorPlanEditor } from './FloorPlanEditor';
+import { OrderTransferModal } from './OrderTransferModal';
+import { GrossProfitReport } from './GrossProfitReport';
+import { MenuEngineeringReport } from './MenuEngineeringReport';
+import { TaxReport } from './TaxReport';
+import { FiscalReceiptRegister } from './FiscalReceiptRegister';
+import { DiscountForm } from './DiscountForm';
+import { DiscountManagement } from './DiscountManagement';
+import { DiscountAuthorizations } from './DiscountAuthorizations';
+import { ServiceChargeManagement } from './ServiceChargeManagement';
+
+function todayApprovedFilters(): PaymentFilters {
+  const todayStart = new Date();
+  todayStart.setHours(0, 0, 0, 0);
+  const tomorrowStart = new Date(todayStart);
+  tomorrowStart.setDate(tomorrowStart.getDate() + 1);
+
+  return {
+    status: 'approved',
+    confirmedFrom: todayStart.toISOString(),
+    confirmedTo: tomorrowStart.toISOString(),
+  };
+}
 
 export function CashierDashboard() {
   const { profile, signOut } = useAuth();
-  const [payments, setPayments] = useState<PaymentWithDetails[]>([]);
-  const [orders, setOrders] = useState<(Order & { waiter: Profile })[]>([]);
+  const [paymentTotals, setPaymentTotals] = useState<PaymentTotalsByStatus | null>(null);
+  const [todayTotals, setTodayTotals] = useState<PaymentTotals | null>(null);
+  const [filteredPendingTotals, setFilteredPendingTotals] = useState<PaymentTotals | null>(null);
+  const paymentChanges = useRef(createChangeFeed<PaymentChange>());
+  const [totalsReloadKey, setTotalsReloadKey] = useState(0);
+  const [orders, setOrders] = useState<OrderWithWaiter[]>([]);
   const [waiters, setWaiters] = useState<Profile[]>([]);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [showReports, setShowReports] = useState(false);
   const [showMenuManagement, setShowMenuManagement] = useState(false);
   const [showUserManagement, setShowUserManagement] = useState(false);
   const [showBankManagement, setShowBankManagement] = useState(false);
+  const [showInventory, setShowInventory] = useState(false);
+  const [showPurchasing, setShowPurchasing] = useState(false);
+  const [showFloorPlan, setShowFloorPlan] = useState(false);
+  const [showDiscounts, setShowDiscounts] = useState(false);
+  const [showServiceCharges, setShowServiceCharges] = useState(false);
+  const [transferringOrder, setTransferringOrder] = useState<Order | null>(null);
+  const [discountingOrder, setDiscountingOrder] = useState<Order | null>(null);
   const [selectedOrderDetails, setSelectedOrderDetails] = useState<{
     order: Order;
     waiter: Profile;
   } | null>(null);
   const [declineModal, setDeclineModal] = useState<{
     paymentId: string;
-    orderId: string;
   } | null>(null);
   const [declineReason, setDeclineReason] = useState('');
+  const [reviewError, setReviewError] = useState('');
   const [loading, setLoading] = useState(true);
   const [selectedDate, setSelectedDate] = useState('');
   const [selectedWaiterId, setSelectedWaiterId] = useState('');
 
+  const pendingFilters = useMemo<PaymentFilters>(
+    () => ({ status: 'pending', dateFrom: selectedDate, dateTo: selectedDate, waiterId: selectedWaiterId }),
+    [selectedDate, selectedWaiterId]
+  );
+
   useEffect(() => {
     loadPayments();
     loadWaiters();
-    const subscription = supabase
-      .channel('payments-changes')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'payments' }, () => {
-        loadPayments();
-      })
-      .subscribe();
-
-    return () => {
-      subscription.unsubscribe();
-    };
+
+    return subscribeToChanges('cashier-changes', [{ table: 'payments' }, { table: 'orders' }], (change) => {
+      if (change.table === 'payments') {
+        handlePaymentChange(change);
+      } else {
+        handleOrderChange(change);
+      }
+    });
   }, []);
 
+  useEffect(() => {
+    const loadFilteredPendingTotals = async () => {
+      try {
+        const totals = await fetchPaymentTotals(pendingFilters);
+        setFilteredPendingTotals(totals.pending);
+      } catch (error) {
+        console.error('Error loading pending count:', error);
+      }
+    };
+
+    loadFilteredPendingTotals();
+  }, [pendingFilters, totalsReloadKey]);
+
+  useEffect(() => {
+    return paymentChanges.current.subscribe((change) => {
+      if (!canApplyToTotals(change)) {
+        setTotalsReloadKey((key) => key + 1);
+        return;
+      }
+
+      const apply = (totals: PaymentTotals, filters: PaymentFilters) =>
+        applyPaymentChangeToTotals(totals, change, filters) ?? totals;
+
+      setPaymentTotals(
+        (totals) =>
+          totals && {
+            pending: apply(totals.pending, { status: 'pending' }),
+            approved: apply(totals.approved, { status: 'approved' }),
+            declined: apply(totals.declined, { status: 'declined' }),
+          }
+      );
+      setTodayTotals((totals) => totals && apply(totals, todayApprovedFilters()));
+      setFilteredPendingTotals((totals) => totals && apply(totals, pendingFilters));
+    });
+  }, [pendingFilters]);
+
+  useEffect(() => {
+    if (totalsReloadKey > 0) loadPayments();
+  }, [totalsReloadKey]);
+
   const loadWaiters = async () => {
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('role', 'waiter')
-        .eq('active', true)
-        .order('full_name');
-
-      if (error) throw error;
-      setWaiters(data || []);
+      setWaiters(await fetchActiveWaiters());
     } catch (error) {
       console.error('Error loading waiters:', error);
     }
@@ -72,71 +161,15 @@ export function CashierDashboard() {
 
   const loadPayments = async () => {
     try {
-      const { data: paymentsData, error: paymentsError } = await supabase
-        .from('payments')
-        .select('*')
-        .order('submitted_at', { ascending: false });
-
-      if (paymentsError) throw paymentsError;
-
-      const paymentsWithDetails = await Promise.all(
-        (paymentsData || []).map(async (payment) => {
-          const { data: orderData } = await supabase
-            .from('orders')
-            .select('*')
-            .eq('id', payment.order_id)
-            .maybeSingle();
-
-          const { data: waiterData } = await supabase
-            .from('profiles')
-            .select('*')
-            .eq('id', orderData?.waiter_id)
-            .maybeSingle();
-
-          let bankData = null;
-          if (payment.bank_id) {
-            const { data } = await supabase
-              .from('banks')
-              .select('*')
-              .eq('id', payment.bank_id)
-              .maybeSingle();
-            bankData = data;
-          }
-
-          return {
-            ...payment,
-            order: orderData as Order,
-            waiter: waiterData as Profile,
-            bank: bankData as Bank | undefined,
-          };
-        })
-      );
-
-      setPayments(paymentsWithDetails.filter((p) => p.order && p.waiter));
-
-      const { data: ordersData, error: ordersError } = await supabase
-        .from('orders')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (ordersError) throw ordersError;
-
-      const ordersWithWaiters = await Promise.all(
-        (ordersData || []).map(async (order) => {
-          const { data: waiterData } = await supabase
-            .from('profiles')
-            .select('*')
-            .eq('id', order.waiter_id)
-            .maybeSingle();
-
-          return {
-            ...order,
-            waiter: waiterData as Profile,
-          };
-        })
-      );
-
-      setOrders(ordersWithWaiters.filter((o) => o.waiter));
+      const [totals, today, ordersWithWaiters] = await Promise.all([
+        fetchPaymentTotals({}),
+        fetchPaymentTotals(todayApprovedFilters()),
+        fetchOrdersWithWaiters(),
+      ]);
+
+      setPaymentTotals(totals);
+      setTodayTotals(today.approved);
+      setOrders(ordersWithWaiters);
     } catch (error) {
       console.error('Error loading payments:', error);
     } finally {
@@ -144,77 +177,57 @@ export function CashierDashboard() {
     }
   };
 
-  const approvePayment = async (paymentId: string, orderId: string) => {
+  const handlePaymentChange = async (change: TableChange) => {
     try {
-      const { error: paymentError } = await supabase
-        .from('payments')
-        .update({
-          status: 'approved',
-          confirmed_at: new Date().toISOString(),
-          confirmed_by: profile?.id,
-        })
-        .eq('id', paymentId);
-
-      if (paymentError) throw paymentError;
+      const current = change.eventType === 'DELETE' ? null : await fetchPaymentWithDetails(changedRowId(change));
+      paymentChanges.current.publish(toPaymentChange(change, current));
+    } catch (error) {
+      console.error('Error loading changed payment:', error);
+    }
+  };
 
-      const { error: orderError } = await supabase
-        .from('orders')
-        .update({ status: 'confirmed' })
-        .eq('id', orderId);
+  const handleOrderChange = async (change: TableChange) => {
+    const orderId = changedRowId(change);
+    try {
+      const order = change.eventType === 'DELETE' ? null : await fetchOrderWithWaiter(orderId);
+      setOrders((rows) => (order ? upsertRow(rows, order, byCreatedAtDesc) : removeRow(rows, orderId)));
+    } catch (error) {
+      console.error('Error loading changed order:', error);
+    }
+  };
 
-      if (orderError) throw orderError;
+  const approvePayment = async (paymentId: string) => {
+    setReviewError('');
+    try {
+      const { error } = await supabase.rpc('approve_payment', { p_payment_id: paymentId });
 
-      loadPayments();
+      if (error) throw error;
     } catch (error) {
       console.error('Error approving payment:', error);
+      setReviewError(errorMessage(error, 'Failed to approve payment'));
     }
   };
 
   const declinePayment = async () => {
     if (!declineModal || !declineReason.trim()) return;
 
+    setReviewError('');
     try {
-      const { error: paymentError } = await supabase
-        .from('payments')
-        .update({
-          status: 'declined',
-          declined_at: new Date().toISOString(),
-          declined_reason: declineReason,
-          confirmed_by: profile?.id,
-        })
-        .eq('id', declineModal.paymentId);
-
-      if (paymentError) throw paymentError;
+      const { error } = await supabase.rpc('decline_payment', {
+        p_payment_id: declineModal.paymentId,
+        p_reason: declineReason,
+      });
 
-      const { error: orderError } = await supabase
-        .from('orders')
-        .update({ status: 'pending' })
-        .eq('id', declineModal.orderId);
-
-      if (orderError) throw orderError;
-
-      setDeclineModal(null);
-      setDeclineReason('');
-      loadPayments();
+      if (error) throw error;
     } catch (error) {
       console.error('Error declining payment:', error);
+      setReviewError(errorMessage(error, 'Failed to decline payment'));
+    } finally {
+      setDeclineModal(null);
+      setDeclineReason('');
     }
   };
 
-  const calculateTodayRevenue = () => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    return payments
-      .filter((p) => {
-        if (p.status !== 'approved') return false;
-        const confirmedDate = new Date(p.confirmed_at!);
-        confirmedDate.setHours(0, 0, 0, 0);
-        return confirmedDate.getTime() === today.getTime();
-      })
-      .reduce((sum, p) => sum + Number(p.amount) + Number(p.tip_amount), 0);
-  };
-
   if (showMenuManagement) {
     return <MenuManagement onBack={() => setShowMenuManagement(false)} />;
   }
@@ -227,6 +240,26 @@ export function CashierDashboard() {
     return <BankManagement onBack={() => setShowBankManagement(false)} />;
   }
 
+  if (showInventory) {
+    return <InventoryManagement onBack={() => setShowInventory(false)} />;
+  }
+
+  if (showPurchasing) {
+    return <PurchasingManagement onBack={() => setShowPurchasing(false)} />;
+  }
+
+  if (showFloorPlan) {
+    return <FloorPlanEditor onBack={() => setShowFloorPlan(false)} />;
+  }
+
+  if (showDiscounts) {
+    return <DiscountManagement onBack={() => setShowDiscounts(false)} />;
+  }
+
+  if (showServiceCharges) {
+    return <ServiceChargeManagement onBack={() => setShowServiceCharges(false)} />;
+  }
+
   if (showReports) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-emerald-50 to-slate-100 p-4 sm:p-6">
@@ -243,13 +276,28 @@ export function CashierDashboard() {
 
           <div className="bg-white rounded-2xl shadow-lg p-4 sm:p-6">
             <PaymentsList
-              payments={payments}
               onViewImage={setSelectedImage}
               onViewOrderDetails={(order, waiter) => setSelectedOrderDetails({ order, waiter })}
-              isWaiter={false}
               isCashierReport={true}
+              paymentChanges={paymentChanges.current}
             />
           </div>
+
+          <div className="bg-white rounded-2xl shadow-lg p-4 sm:p-6 mt-6">
+            <GrossProfitReport />
+          </div>
+
+          <div className="bg-white rounded-2xl shadow-lg p-4 sm:p-6 mt-6">
+            <MenuEngineeringReport />
+          </div>
+
+          <div className="bg-white rounded-2xl shadow-lg p-4 sm:p-6 mt-6">
+            <TaxReport />
+          </div>
+
+          <div className="bg-white rounded-2xl shadow-lg p-4 sm:p-6 mt-6">
+            <FiscalReceiptRegister />
+          </div>
         </div>
 
         {selectedImage && (
@@ -277,25 +325,13 @@ export function CashierDashboard() {
     );
   }
 
-  const pendingPayments = payments.filter((p) => p.status === 'pending');
-  const approvedPayments = payments.filter((p) => p.status === 'approved');
-  const declinedPayments = payments.filter((p) => p.status === 'declined');
-
-  const filteredPendingPayments = pendingPayments.filter((payment) => {
-    if (selectedDate) {
-      const paymentDate = new Date(payment.submitted_at);
-      const filterDate = new Date(selectedDate);
-      paymentDate.setHours(0, 0, 0, 0);
-      filterDate.setHours(0, 0, 0, 0);
-      if (paymentDate.getTime() !== filterDate.getTime()) return false;
-    }
-
-    if (selectedWaiterId && payment.order.waiter_id !== selectedWaiterId) {
-      return false;
-    }
-
-    return true;
-  });
+  const pendingCount = paymentTotals?.pending.count ?? 0;
+  const approvedCount = paymentTotals?.approved.count ?? 0;
+  const declinedCount = paymentTotals?.declined.count ?? 0;
+  const todayRevenue = todayTotals ? todayTotals.amount + todayTotals.tip : 0;
+  const totalRevenue = paymentTotals ? paymentTotals.approved.amount + paymentTotals.approved.tip : 0;
+  const todayServiceCharge = todayTotals?.serviceCharge ?? 0;
+  const totalServiceCharge = paymentTotals?.approved.serviceCharge ?? 0;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-emerald-50 to-slate-100">
@@ -328,6 +364,41 @@ export function CashierDashboard() {
                 <MenuIcon className="w-4 h-4 sm:w-5 sm:h-5" />
                 <span className="hidden sm:inline">Menu</span>
               </button>
+              <button
+                onClick={() => setShowInventory(true)}
+                className="flex-1 sm:flex-none flex items-center justify-center gap-2 px-3 sm:px-4 py-2 bg-teal-600 text-white hover:bg-teal-700 rounded-lg transition text-sm sm:text-base"
+              >
+                <Boxes className="w-4 h-4 sm:w-5 sm:h-5" />
+                <span className="hidden sm:inline">Inventory</span>
+              </button>
+              <button
+                onClick={() => setShowPurchasing(true)}
+                className="flex-1 sm:flex-none flex items-center justify-center gap-2 px-3 sm:px-4 py-2 bg-amber-600 text-white hover:bg-amber-700 rounded-lg transition text-sm sm:text-base"
+              >
+                <Truck className="w-4 h-4 sm:w-5 sm:h-5" />
+                <span className="hidden sm:inline">Purchasing</span>
+              </button>
+              <button
+                onClick={() => setShowFloorPlan(true)}
+                className="flex-1 sm:flex-none flex items-center justify-center gap-2 px-3 sm:px-4 py-2 bg-indigo-600 text-white hover:bg-indigo-700 rounded-lg transition text-sm sm:text-base"
+              >
+                <LayoutGrid className="w-4 h-4 sm:w-5 sm:h-5" />
+                <span className="hidden sm:inline">Floor Plan</span>
+              </button>
+              <button
+                onClick={() => setShowDiscounts(true)}
+                className="flex-1 sm:flex-none flex items-center justify-center gap-2 px-3 sm:px-4 py-2 bg-pink-600 text-white hover:bg-pink-700 rounded-lg transition text-sm sm:text-base"
+              >
+                <Tag className="w-4 h-4 sm:w-5 sm:h-5" />
+                <span className="hidden sm:inline">Discounts</span>
+              </button>
+              <button
+                onClick={() => setShowServiceCharges(true)}
+                className="flex-1 sm:flex-none flex items-center justify-center gap-2 px-3 sm:px-4 py-2 bg-cyan-600 text-white hover:bg-cyan-700 rounded-lg transition text-sm sm:text-base"
+              >
+                <ConciergeBell className="w-4 h-4 sm:w-5 sm:h-5" />
+                <span className="hidden sm:inline">Service</span>
+              </button>
               <button
                 onClick={() => setShowReports(true)}
                 className="flex-1 sm:flex-none flex items-center justify-center gap-2 px-3 sm:px-4 py-2 bg-emerald-600 text-white hover:bg-emerald-700 rounded-lg transition text-sm sm:text-base"
@@ -353,31 +424,37 @@ export function CashierDashboard() {
           </div>
           <div className="bg-white rounded-xl shadow-lg p-3 sm:p-6">
             <div className="text-yellow-600 text-xs sm:text-sm font-medium mb-1 sm:mb-2">Pending</div>
-            <div className="text-2xl sm:text-4xl font-bold text-gray-900">{pendingPayments.length}</div>
+            <div className="text-2xl sm:text-4xl font-bold text-gray-900">{pendingCount}</div>
           </div>
           <div className="bg-white rounded-xl shadow-lg p-3 sm:p-6">
             <div className="text-green-600 text-xs sm:text-sm font-medium mb-1 sm:mb-2">Approved</div>
-            <div className="text-2xl sm:text-4xl font-bold text-gray-900">{approvedPayments.length}</div>
+            <div className="text-2xl sm:text-4xl font-bold text-gray-900">{approvedCount}</div>
           </div>
           <div className="bg-white rounded-xl shadow-lg p-3 sm:p-6">
             <div className="text-red-600 text-xs sm:text-sm font-medium mb-1 sm:mb-2">Declined</div>
-            <div className="text-2xl sm:text-4xl font-bold text-gray-900">{declinedPayments.length}</div>
+            <div className="text-2xl sm:text-4xl font-bold text-gray-900">{declinedCount}</div>
           </div>
           <div className="bg-white rounded-xl shadow-lg p-3 sm:p-6">
             <div className="text-purple-600 text-xs sm:text-sm font-medium mb-1 sm:mb-2">Today Revenue</div>
             <div className="text-xl sm:text-3xl font-bold text-gray-900">
-              ${calculateTodayRevenue().toFixed(2)}
+              ${todayRevenue.toFixed(2)}
             </div>
+            {todayServiceCharge > 0 && (
+              <div className="text-xs text-gray-500 mt-1">incl. ${todayServiceCharge.toFixed(2)} service charge</div>
+            )}
           </div>
           <div className="bg-white rounded-xl shadow-lg p-3 sm:p-6">
             <div className="text-emerald-600 text-xs sm:text-sm font-medium mb-1 sm:mb-2">Total Revenue</div>
             <div className="text-xl sm:text-3xl font-bold text-gray-900">
-              ${approvedPayments.reduce((sum, p) => sum + Number(p.amount) + Number(p.tip_amount), 0).toFixed(2)}
+              ${totalRevenue.toFixed(2)}
             </div>
+            {totalServiceCharge > 0 && (
+              <div className="text-xs text-gray-500 mt-1">incl. ${totalServiceCharge.toFixed(2)} service charge</div>
+            )}
           </div>
         </div>
 
-        
+        <DiscountAuthorizations />
 
         <div className="bg-white rounded-2xl shadow-lg p-4 sm:p-6 mb-6">
           <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-4 sm:mb-6">
@@ -385,7 +462,7 @@ export function CashierDashboard() {
             <div className="flex items-center gap-2 text-sm text-gray-600">
               <Filter className="w-4 h-4" />
               <span>
-                {filteredPendingPayments.length} of {pendingPayments.length}
+                {filteredPendingTotals?.count ?? 0} of {pendingCount}
               </span>
             </div>
           </div>
@@ -418,6 +495,15 @@ export function CashierDashboard() {
             </div>
           </div>
 
+          {reviewError && (
+            <div className="flex items-start justify-between gap-3 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+              <span>{reviewError}</span>
+              <button onClick={() => setReviewError('')} className="p-1 hover:bg-red-100 rounded transition flex-shrink-0">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
           {selectedDate || selectedWaiterId ? (
             <div className="mb-4">
               <button
@@ -436,10 +522,11 @@ export function CashierDashboard() {
             <div className="text-center py-12 text-gray-500">Loading payments...</div>
           ) : (
             <PaginatedPayments
-              payments={filteredPendingPayments}
               type="pending"
+              filters={{ dateFrom: selectedDate, dateTo: selectedDate, waiterId: selectedWaiterId }}
+              paymentChanges={paymentChanges.current}
               onApprove={approvePayment}
-              onDecline={(paymentId, orderId) => setDeclineModal({ paymentId, orderId })}
+              onDecline={(paymentId) => setDeclineModal({ paymentId })}
               onViewImage={setSelectedImage}
               onViewDetails={(order, waiter) => setSelectedOrderDetails({ order, waiter })}
             />
@@ -453,14 +540,16 @@ export function CashierDashboard() {
             <AllOrdersList
               orders={orders}
               onViewDetails={(order, waiter) => setSelectedOrderDetails({ order, waiter })}
+              onTransfer={setTransferringOrder}
+              onDiscount={setDiscountingOrder}
             />
           )}
         </div>
         <div className="bg-white rounded-2xl shadow-lg p-4 sm:p-6 mb-6">
           <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-4 sm:mb-6">Approved Payments</h2>
           <PaginatedPayments
-            payments={approvedPayments}
             type="approved"
+            paymentChanges={paymentChanges.current}
             onViewDetails={(order, waiter) => setSelectedOrderDetails({ order, waiter })}
           />
         </div>
@@ -468,8 +557,8 @@ export function CashierDashboard() {
         <div className="bg-white rounded-2xl shadow-lg p-4 sm:p-6">
           <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-4 sm:mb-6">Declined Payments</h2>
           <PaginatedPayments
-            payments={declinedPayments}
             type="declined"
+            paymentChanges={paymentChanges.current}
           />
         </div>
       </div>
@@ -531,6 +620,25 @@ export function CashierDashboard() {
           onClose={() => setSelectedOrderDetails(null)}
         />
       )}
+
+      {transferringOrder && (
+        <OrderTransferModal
+          order={transferringOrder}
+          onClose={() => setTransferringOrder(null)}
+          onDone={() => {
+            setTransferringOrder(null);
+            loadPayments();
+          }}
+        />
+      )}
+
+      {discountingOrder && (
+        <DiscountForm
+          order={discountingOrder}
+          onClose={() => setDiscountingOrder(null)}
+          onDone={() => setDiscountingOrder(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,262 @@
+import { useState, useEffect } from 'react';
+import { supabase, MenuCategory } from '../lib/supabase';
+import { fetchMenuCategories } from '../lib/data';
+import { useAuth } from '../contexts/AuthContext';
+import { ArrowLeft, ArrowUp, ArrowDown, Plus, Edit2, Trash2, Save, X } from 'lucide-react';
+
+type CategoryManagementProps = {
+  onBack: () => void;
+};
+
+export function CategoryManagement({ onBack }: CategoryManagementProps) {
+  const { profile } = useAuth();
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [newCategoryName, setNewCategoryName] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  const loadCategories = async () => {
+    try {
+      setCategories(await fetchMenuCategories());
+    } catch (err) {
+      console.error('Error loading categories:', err);
+      setError('Failed to load categories');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addCategory = async () => {
+    if (!newCategoryName.trim()) return;
+
+    setError('');
+    try {
+      const lastOrder = categories.reduce((max, c) => Math.max(max, c.display_order), 0);
+      const { error } = await supabase
+        .from('menu_categories')
+        .insert([
+          {
+            name: newCategoryName.trim(),
+            display_order: lastOrder + 1,
+            created_by: profile?.id,
+          },
+        ]);
+
+      if (error) throw error;
+
+      setNewCategoryName('');
+      loadCategories();
+    } catch (err) {
+      console.error('Error adding category:', err);
+      setError('Failed to add category. Category names must be unique.');
+    }
+  };
+
+  const updateCategory = async (categoryId: string) => {
+    if (!editName.trim()) return;
+
+    setError('');
+    try {
+      const { error } = await supabase
+        .from('menu_categories')
+        .update({ name: editName.trim() })
+        .eq('id', categoryId);
+
+      if (error) throw error;
+
+      setEditingId(null);
+      setEditName('');
+      loadCategories();
+    } catch (err) {
+      console.error('Error updating category:', err);
+      setError('Failed to update category');
+    }
+  };
+
+  // Renumbers every category so the stored order always matches the list
+  const moveCategory = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= categories.length) return;
+
+    const reordered = [...categories];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    setError('');
+    setCategories(reordered.map((c, i) => ({ ...c, display_order: i + 1 })));
+    try {
+      const results = await Promise.all(
+        reordered.map((c, i) =>
+          supabase.from('menu_categories').update({ display_order: i + 1 }).eq('id', c.id)
+        )
+      );
+
+      const failed = results.find((r) => r.error);
+      if (failed?.error) throw failed.error;
+    } catch (err) {
+      console.error('Error reordering categories:', err);
+      setError('Failed to reorder categories');
+      loadCategories();
+    }
+  };
+
+  const deleteCategory = async (categoryId: string) => {
+    if (!confirm('Are you sure you want to delete this category? Its menu items will become uncategorized.')) {
+      return;
+    }
+
+    setError('');
+    try {
+      const { error } = await supabase.from('menu_categories').delete().eq('id', categoryId);
+
+      if (error) throw error;
+      loadCategories();
+    } catch (err) {
+      console.error('Error deleting category:', err);
+      setError('Failed to delete category');
+    }
+  };
+
+  const startEdit = (category: MenuCategory) => {
+    setEditingId(category.id);
+    setEditName(category.name);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setEditName('');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-slate-100 p-6">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={onBack}
+                className="p-2 hover:bg-gray-100 rounded-lg transition"
+              >
+                <ArrowLeft className="w-6 h-6 text-gray-600" />
+              </button>
+              <div>
+                <h2 className="text-3xl font-bold text-gray-900">Menu Categories</h2>
+                <p className="text-gray-600 mt-1">Manage categories and the order their tabs appear in</p>
+              </div>
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+              {error}
+            </div>
+          )}
+
+          <div className="mb-8">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Add New Category</h3>
+            <div className="flex gap-3">
+              <input
+                type="text"
+                value={newCategoryName}
+                onChange={(e) => setNewCategoryName(e.target.value)}
+                onKeyPress={(e) => e.key === 'Enter' && addCategory()}
+                placeholder="e.g., Starters, Mains, Drinks..."
+                className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              />
+              <button
+                onClick={addCategory}
+                disabled={!newCategoryName.trim()}
+                className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Plus className="w-5 h-5" />
+                Add Category
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Categories List</h3>
+            {loading ? (
+              <div className="text-center py-12 text-gray-500">Loading categories...</div>
+            ) : categories.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                No categories yet. Add your first category above.
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {categories.map((category, index) => (
+                  <div key={category.id} className="border rounded-lg p-4 bg-white border-gray-200">
+                    {editingId === category.id ? (
+                      <div className="flex items-center gap-3">
+                        <input
+                          type="text"
+                          value={editName}
+                          onChange={(e) => setEditName(e.target.value)}
+                          onKeyPress={(e) => e.key === 'Enter' && updateCategory(category.id)}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                          autoFocus
+                        />
+                        <button
+                          onClick={() => updateCategory(category.id)}
+                          className="p-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition"
+                        >
+                          <Save className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={cancelEdit}
+                          className="p-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition"
+                        >
+                          <X className="w-5 h-5" />
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                          <span className="text-sm font-medium text-gray-500 w-6">{index + 1}.</span>
+                          <span className="text-lg font-semibold text-gray-900">{category.name}</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => moveCategory(index, -1)}
+                            disabled={index === 0}
+                            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition disabled:opacity-30"
+                          >
+                            <ArrowUp className="w-5 h-5" />
+                          </button>
+                          <button
+                            onClick={() => moveCategory(index, 1)}
+                            disabled={index === categories.length - 1}
+                            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition disabled:opacity-30"
+                          >
+                            <ArrowDown className="w-5 h-5" />
+                          </button>
+                          <button
+                            onClick={() => startEdit(category)}
+                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                          >
+                            <Edit2 className="w-5 h-5" />
+                          </button>
+                          <button
+                            onClick={() => deleteCategory(category.id)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                          >
+                            <Trash2 className="w-5 h-5" />
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
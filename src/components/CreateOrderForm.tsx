@@ -1,38 +1,108 @@
-import { useState, useEffect, useMemo } from 'react';
-import { supabase, Menu } from '../lib/supabase';
-import { useAuth } from '../contexts/AuthContext';
-import { X, Save, Plus, Trash2, Search } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import {
+  supabase,
+  Menu,
+  MenuCategory,
+  ModifierGroupWithOptions,
+  Order,
+  OrderItemModifier,
+  RestaurantTable,
+  ServiceChargeRule,
+} from '../lib/supabase';
+import {
+  fetchMenuCategories,
+  fetchModifierGroups,
+  fetchRecipeItems,
+  fetchRestaurantTables,
+  fetchServiceChargeRules,
+} from '../lib/data';
+import { outOfStockMenuIds } from '../lib/inventory';
+import { formatModifiers, orderLineKey } from '../lib/modifiers';
+import { availabilityLabel, isOrderable } from '../lib/availability';
+import { FLOOR_STATUS_LABELS, tableSections } from '../lib/floorPlan';
+import { serviceChargeRateFor } from '../lib/serviceCharge';
+import {
+  byNameAsc,
+  bySectionAndName,
+  changedRowId,
+  removeRow,
+  subscribeToChanges,
+  TableChange,
+  upsertRow,
+} from '../lib/realtime';
+import { errorMessage } from '../lib/errors';
+import { X, Save, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { MenuItemPicker } from './MenuItemPicker';
+import { ModifierPicker } from './ModifierPicker';
 
 type OrderItem = {
+  key: string;
   menu_id: string;
   quantity: number;
   menu: Menu;
+  modifiers: OrderItemModifier[];
+  unitPrice: number;
+  notes: string;
 };
 
 type CreateOrderFormProps = {
+  // Preselects a table, e.g. when the order is started from the floor view
+  initialTableId?: string;
   onClose: () => void;
   onSuccess: () => void;
 };
 
-export function CreateOrderForm({ onClose, onSuccess }: CreateOrderFormProps) {
-  const { user } = useAuth();
+export function CreateOrderForm({ initialTableId, onClose, onSuccess }: CreateOrderFormProps) {
   const [menuItems, setMenuItems] = useState<Menu[]>([]);
-  const [tableNumber, setTableNumber] = useState('');
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [modifierGroups, setModifierGroups] = useState<Record<string, ModifierGroupWithOptions[]>>({});
+  const [pickingModifiersFor, setPickingModifiersFor] = useState<Menu | null>(null);
+  const [outOfStockIds, setOutOfStockIds] = useState<Set<string>>(new Set());
+  const [tables, setTables] = useState<RestaurantTable[]>([]);
+  const [tableId, setTableId] = useState(initialTableId ?? '');
+  const [partySize, setPartySize] = useState('');
+  const [serviceChargeRules, setServiceChargeRules] = useState<ServiceChargeRule[]>([]);
+  const [orderNotes, setOrderNotes] = useState('');
   const [selectedItems, setSelectedItems] = useState<OrderItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [menuLoading, setMenuLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
 
   useEffect(() => {
     loadMenuItems();
+
+    return subscribeToChanges(
+      'create-order-menu',
+      [{ table: 'menu' }, { table: 'restaurant_tables' }, { table: 'ingredients' }, { table: 'recipe_items' }],
+      (change) => {
+        if (change.table === 'menu') {
+          handleMenuChange(change);
+        } else if (change.table === 'restaurant_tables') {
+          handleTableChange(change);
+        } else {
+          refreshStock();
+        }
+      }
+    );
   }, []);
 
   const loadMenuItems = async () => {
     try {
-      const { data, error: err } = await supabase.from('menu').select('*').order('created_at', { ascending: false });
-      if (err) throw err;
-      setMenuItems(data || []);
+      const [menuRes, categoriesData, groupsData, recipeItems, tablesData, rulesData] = await Promise.all([
+        supabase.from('menu').select('*').order('name', { ascending: true }),
+        fetchMenuCategories(),
+        fetchModifierGroups(),
+        fetchRecipeItems(),
+        fetchRestaurantTables(),
+        fetchServiceChargeRules(),
+      ]);
+      if (menuRes.error) throw menuRes.error;
+      setMenuItems(menuRes.data || []);
+      setCategories(categoriesData);
+      setModifierGroups(groupsData);
+      setOutOfStockIds(outOfStockMenuIds(recipeItems));
+      setTables(tablesData);
+      setServiceChargeRules(rulesData);
     } catch (err) {
       console.error('Error loading menu items:', err);
       setError('Failed to load menu items');
@@ -41,97 +111,140 @@ export function CreateOrderForm({ onClose, onSuccess }: CreateOrderFormProps) {
     }
   };
 
-  const filteredMenuItems = useMemo(() => {
-    if (!searchQuery.trim()) {
-      return menuItems;
+  // Whether an item can be made depends on all of its ingredients, so the
+  // recipes are read again rather than patched from the changed row
+  const refreshStock = async () => {
+    try {
+      setOutOfStockIds(outOfStockMenuIds(await fetchRecipeItems()));
+    } catch (err) {
+      console.error('Error refreshing stock:', err);
     }
-    return menuItems.filter((item) =>
-      item.name.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-  }, [menuItems, searchQuery]);
+  };
+
+  const handleMenuChange = (change: TableChange) => {
+    if (change.eventType === 'DELETE') {
+      setMenuItems((rows) => removeRow(rows, changedRowId(change)));
+      return;
+    }
+
+    const menu = change.new as Menu;
+    setMenuItems((rows) => upsertRow(rows, menu, byNameAsc));
+    setSelectedItems((items) => items.map((item) => (item.menu_id === menu.id ? { ...item, menu } : item)));
+  };
+
+  const handleTableChange = (change: TableChange) => {
+    if (change.eventType === 'DELETE') {
+      setTables((rows) => removeRow(rows, changedRowId(change)));
+    } else {
+      setTables((rows) => upsertRow(rows, change.new as RestaurantTable, bySectionAndName));
+    }
+  };
 
   const addItem = (menu: Menu) => {
-    const existingItem = selectedItems.find((item) => item.menu_id === menu.id);
+    if (!isOrderable(menu) || outOfStockIds.has(menu.id)) return;
+
+    if (modifierGroups[menu.id]?.length) {
+      setPickingModifiersFor(menu);
+    } else {
+      addLine(menu, []);
+    }
+  };
+
+  const addLine = (menu: Menu, modifiers: OrderItemModifier[]) => {
+    const key = orderLineKey(menu.id, modifiers.map((modifier) => modifier.option_id));
+    const existingItem = selectedItems.find((item) => item.key === key);
     if (existingItem) {
       setSelectedItems(
         selectedItems.map((item) =>
-          item.menu_id === menu.id ? { ...item, quantity: item.quantity + 1 } : item
+          item.key === key ? { ...item, quantity: item.quantity + 1 } : item
         )
       );
     } else {
-      setSelectedItems([...selectedItems, { menu_id: menu.id, quantity: 1, menu }]);
+      const unitPrice = menu.price + modifiers.reduce((sum, modifier) => sum + modifier.price_delta, 0);
+      setSelectedItems([...selectedItems, { key, menu_id: menu.id, quantity: 1, menu, modifiers, unitPrice, notes: '' }]);
     }
   };
 
-  const removeItem = (menu_id: string) => {
-    setSelectedItems(selectedItems.filter((item) => item.menu_id !== menu_id));
+  const removeItem = (key: string) => {
+    setSelectedItems(selectedItems.filter((item) => item.key !== key));
   };
 
-  const updateQuantity = (menu_id: string, quantity: number) => {
+  const updateQuantity = (key: string, quantity: number) => {
     if (quantity <= 0) {
-      removeItem(menu_id);
+      removeItem(key);
     } else {
       setSelectedItems(
-        selectedItems.map((item) => (item.menu_id === menu_id ? { ...item, quantity } : item))
+        selectedItems.map((item) => (item.key === key ? { ...item, quantity } : item))
       );
     }
   };
 
-  const calculateTotal = () => {
-    return selectedItems.reduce((sum, item) => sum + item.menu.price * item.quantity, 0);
+  const updateNotes = (key: string, notes: string) => {
+    setSelectedItems(selectedItems.map((item) => (item.key === key ? { ...item, notes } : item)));
+  };
+
+  const calculateSubtotal = () => {
+    return selectedItems.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
   };
 
+  const parsedPartySize = partySize ? parseInt(partySize, 10) : null;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setLoading(true);
 
     try {
-      if (!tableNumber.trim()) {
-        throw new Error('Please enter a table number');
+      if (!tableId) {
+        throw new Error('Please choose a table');
       }
 
       if (selectedItems.length === 0) {
         throw new Error('Please add at least one item to the order');
       }
 
-      const total = calculateTotal();
-
-      const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .insert([
-          {
-            waiter_id: user?.id,
-            table_number: tableNumber,
-            total_amount: total,
-            status: 'pending',
-          },
-        ])
-        .select()
-        .maybeSingle();
+      if (parsedPartySize !== null && (isNaN(parsedPartySize) || parsedPartySize <= 0)) {
+        throw new Error('The party size must be at least one guest');
+      }
 
-      if (orderError) throw orderError;
-      if (!orderData) throw new Error('Failed to create order');
+      const unavailable = selectedItems.find((item) => !isOrderable(item.menu));
+      if (unavailable) {
+        throw new Error(`${unavailable.menu.name} is no longer available. Please remove it from the order.`);
+      }
 
       const orderItems = selectedItems.map((item) => ({
-        order_id: orderData.id,
         menu_id: item.menu_id,
         quantity: item.quantity,
-        price_at_purchase: item.menu.price,
+        option_ids: item.modifiers.map((modifier) => modifier.option_id),
+        notes: item.notes,
       }));
 
-      const { error: itemsError } = await supabase.from('order_items').insert(orderItems);
+      const { data: orderData, error: orderError } = await supabase
+        .rpc('create_order_with_items', {
+          p_table_id: tableId,
+          p_items: orderItems,
+          p_notes: orderNotes,
+          p_party_size: parsedPartySize,
+        })
+        .maybeSingle<Order>();
 
-      if (itemsError) throw itemsError;
+      if (orderError) throw orderError;
+      if (!orderData) throw new Error('Failed to create order');
 
       onSuccess();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create order');
+      setError(errorMessage(err, 'Failed to create order'));
     } finally {
       setLoading(false);
     }
   };
 
+  const activeTables = tables.filter((table) => table.active);
+  const selectedTable = tables.find((table) => table.id === tableId);
+  const subtotal = calculateSubtotal();
+  const serviceChargeRate = serviceChargeRateFor(serviceChargeRules, selectedTable?.section, parsedPartySize);
+  const serviceCharge = serviceChargeRate ? Math.round(subtotal * serviceChargeRate) / 100 : 0;
+
   if (menuLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-slate-100 p-6 flex items-center justify-center">
@@ -158,62 +271,15 @@ export function CreateOrderForm({ onClose, onSuccess }: CreateOrderFormProps) {
             <div className="bg-white rounded-2xl shadow-lg p-6">
               <h2 className="text-xl font-bold text-gray-900 mb-4">Select Menu Items</h2>
 
-              <div className="mb-4">
-                <div className="relative">
-                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                    <Search className="h-5 w-5 text-gray-400" />
-                  </div>
-                  <input
-                    type="text"
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    placeholder="Search menu items by name..."
-                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-                  />
-                  {searchQuery && (
-                    <button
-                      type="button"
-                      onClick={() => setSearchQuery('')}
-                      className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600"
-                    >
-                      <X className="h-5 w-5" />
-                    </button>
-                  )}
-                </div>
-                {searchQuery && (
-                  <div className="mt-2 text-sm text-gray-600">
-                    Found {filteredMenuItems.length} item{filteredMenuItems.length !== 1 ? 's' : ''}
-                  </div>
-                )}
-              </div>
-
               {menuLoading ? (
                 <div className="text-center py-8 text-gray-500">Loading menu...</div>
-              ) : menuItems.length === 0 ? (
-                <div className="text-center py-8 text-gray-500">No menu items available</div>
-              ) : filteredMenuItems.length === 0 ? (
-                <div className="text-center py-8 text-gray-500">
-                  No menu items match "{searchQuery}"
-                </div>
               ) : (
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                  {filteredMenuItems.map((item) => (
-                    <button
-                      key={item.id}
-                      onClick={() => addItem(item)}
-                      className="text-left border-2 border-gray-200 rounded-lg p-4 hover:border-blue-500 hover:bg-blue-50 transition"
-                    >
-                      {item.picture_url && (
-                        <div className="h-32 bg-gray-200 rounded mb-2 overflow-hidden">
-                          <img src={item.picture_url} alt={item.name} className="w-full h-full object-cover" />
-                        </div>
-                      )}
-                      <div className="font-semibold text-gray-900">{item.name}</div>
-                      <div className="text-blue-600 font-bold">${item.price.toFixed(2)}</div>
-                      <div className="text-sm text-gray-500 mt-1">Click to add</div>
-                    </button>
-                  ))}
-                </div>
+                <MenuItemPicker
+                  menuItems={menuItems}
+                  categories={categories}
+                  outOfStockIds={outOfStockIds}
+                  onSelect={addItem}
+                />
               )}
             </div>
           </div>
@@ -224,13 +290,54 @@ export function CreateOrderForm({ onClose, onSuccess }: CreateOrderFormProps) {
                 <h2 className="text-xl font-bold text-gray-900 mb-4">Order Summary</h2>
 
                 <div className="mb-4">
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Table Number</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Table</label>
+                  <select
+                    value={tableId}
+                    onChange={(e) => setTableId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  >
+                    <option value="">Choose a table</option>
+                    {tableSections(activeTables).map((section) => (
+                      <optgroup key={section} label={section}>
+                        {activeTables
+                          .filter((table) => table.section === section)
+                          .map((table) => (
+                            <option key={table.id} value={table.id}>
+                              {`${table.name} · ${table.seats} seats${
+                                table.floor_status === 'free' ? '' : ` · ${FLOOR_STATUS_LABELS[table.floor_status]}`
+                              }`}
+                            </option>
+                          ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                  {tables.length === 0 && (
+                    <p className="text-xs text-gray-500 mt-1">No tables yet. Ask a cashier to set up the floor plan.</p>
+                  )}
+                </div>
+
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Party Size</label>
                   <input
-                    type="text"
-                    value={tableNumber}
-                    onChange={(e) => setTableNumber(e.target.value)}
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={partySize}
+                    onChange={(e) => setPartySize(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder="Number of guests"
+                  />
+                </div>
+
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Order Notes</label>
+                  <textarea
+                    value={orderNotes}
+                    onChange={(e) => setOrderNotes(e.target.value)}
+                    maxLength={500}
+                    rows={2}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-                    placeholder="e.g., A1"
+                    placeholder="e.g., Birthday, bring dessert with a candle"
                   />
                 </div>
 
@@ -240,15 +347,24 @@ export function CreateOrderForm({ onClose, onSuccess }: CreateOrderFormProps) {
                   ) : (
                     <div className="space-y-3">
                       {selectedItems.map((item) => (
-                        <div key={item.menu_id} className="bg-white rounded p-3 border border-gray-200">
+                        <div key={item.key} className="bg-white rounded p-3 border border-gray-200">
                           <div className="flex justify-between items-start mb-2">
                             <div className="flex-1">
                               <div className="font-semibold text-gray-900 text-sm">{item.menu.name}</div>
-                              <div className="text-blue-600 font-bold text-sm">${item.menu.price.toFixed(2)}</div>
+                              {!isOrderable(item.menu) && (
+                                <div className="flex items-center gap-1 text-xs font-semibold text-red-600">
+                                  <AlertTriangle className="w-3 h-3" />
+                                  {availabilityLabel(item.menu)}
+                                </div>
+                              )}
+                              {item.modifiers.length > 0 && (
+                                <div className="text-xs text-gray-600">{formatModifiers(item.modifiers)}</div>
+                              )}
+                              <div className="text-blue-600 font-bold text-sm">${item.unitPrice.toFixed(2)}</div>
                             </div>
                             <button
                               type="button"
-                              onClick={() => removeItem(item.menu_id)}
+                              onClick={() => removeItem(item.key)}
                               className="p-1 text-red-600 hover:bg-red-50 rounded transition"
                             >
                               <Trash2 className="w-4 h-4" />
@@ -257,7 +373,7 @@ export function CreateOrderForm({ onClose, onSuccess }: CreateOrderFormProps) {
                           <div className="flex items-center gap-2">
                             <button
                               type="button"
-                              onClick={() => updateQuantity(item.menu_id, item.quantity - 1)}
+                              onClick={() => updateQuantity(item.key, item.quantity - 1)}
                               className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-100 transition text-sm"
                             >
                               -
@@ -265,15 +381,23 @@ export function CreateOrderForm({ onClose, onSuccess }: CreateOrderFormProps) {
                             <span className="px-3 font-semibold text-gray-900">{item.quantity}</span>
                             <button
                               type="button"
-                              onClick={() => updateQuantity(item.menu_id, item.quantity + 1)}
+                              onClick={() => updateQuantity(item.key, item.quantity + 1)}
                               className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-100 transition text-sm"
                             >
                               +
                             </button>
                             <span className="ml-auto font-bold text-gray-900">
-                              ${(item.menu.price * item.quantity).toFixed(2)}
+                              ${(item.unitPrice * item.quantity).toFixed(2)}
                             </span>
                           </div>
+                          <input
+                            type="text"
+                            value={item.notes}
+                            onChange={(e) => updateNotes(item.key, e.target.value)}
+                            maxLength={500}
+                            placeholder="Item notes, e.g. no nuts"
+                            className="mt-2 w-full px-2 py-1 border border-gray-300 rounded text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+                          />
                         </div>
                       ))}
                     </div>
@@ -281,9 +405,21 @@ export function CreateOrderForm({ onClose, onSuccess }: CreateOrderFormProps) {
                 </div>
 
                 <div className="border-t-2 border-gray-200 pt-3 mb-4">
+                  {serviceChargeRate !== null && (
+                    <div className="space-y-1 mb-2 text-sm text-gray-600">
+                      <div className="flex justify-between">
+                        <span>Subtotal</span>
+                        <span>${subtotal.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Service charge ({serviceChargeRate}%)</span>
+                        <span>${serviceCharge.toFixed(2)}</span>
+                      </div>
+                    </div>
+                  )}
                   <div className="flex justify-between items-center">
                     <span className="text-lg font-bold text-gray-900">Total:</span>
-                    <span className="text-2xl font-bold text-blue-600">${calculateTotal().toFixed(2)}</span>
+                    <span className="text-2xl font-bold text-blue-600">${(subtotal + serviceCharge).toFixed(2)}</span>
                   </div>
                 </div>
 
@@ -315,6 +451,18 @@ export function CreateOrderForm({ onClose, onSuccess }: CreateOrderFormProps) {
           </div>
         </div>
       </div>
+
+      {pickingModifiersFor && (
+        <ModifierPicker
+          menu={pickingModifiersFor}
+          groups={modifierGroups[pickingModifiersFor.id] || []}
+          onConfirm={(modifiers) => {
+            addLine(pickingModifiersFor, modifiers);
+            setPickingModifiersFor(null);
+          }}
+          onCancel={() => setPickingModifiersFor(null)}
+        />
+      )}
     </div>
   );
 }
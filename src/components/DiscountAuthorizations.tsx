@@ -0,0 +1,100 @@
+import { useState, useEffect } from 'react';
+import { supabase, PendingDiscount } from '../lib/supabase';
+import { fetchPendingDiscounts } from '../lib/data';
+import { subscribeToChanges } from '../lib/realtime';
+import { discountReasonLabel, discountTargetLabel, formatDiscountValue } from '../lib/discounts';
+import { errorMessage } from '../lib/errors';
+import { Check, X } from 'lucide-react';
+
+// Discounts waiters gave above the authorization threshold; renders nothing when there are none
+export function DiscountAuthorizations() {
+  const [discounts, setDiscounts] = useState<PendingDiscount[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadPendingDiscounts();
+
+    return subscribeToChanges('discount-authorizations', [{ table: 'order_discounts' }], () => {
+      loadPendingDiscounts();
+    });
+  }, []);
+
+  const loadPendingDiscounts = async () => {
+    try {
+      setDiscounts(await fetchPendingDiscounts());
+    } catch (err) {
+      console.error('Error loading pending discounts:', err);
+    }
+  };
+
+  const reviewDiscount = async (discountId: string, authorize: boolean) => {
+    setError('');
+    try {
+      const { error } = await supabase.rpc(authorize ? 'authorize_discount' : 'reject_discount', {
+        p_discount_id: discountId,
+      });
+
+      if (error) throw error;
+
+      setDiscounts((current) => current.filter((discount) => discount.id !== discountId));
+    } catch (err) {
+      console.error('Error reviewing discount:', err);
+      setError(errorMessage(err, 'Failed to review discount'));
+    }
+  };
+
+  if (discounts.length === 0 && !error) return null;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-4 sm:p-6 mb-6">
+      <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-4 sm:mb-6">Discounts to Authorize</h2>
+
+      {error && (
+        <div className="flex items-start justify-between gap-3 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+          <span>{error}</span>
+          <button onClick={() => setError('')} className="p-1 hover:bg-red-100 rounded transition flex-shrink-0">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {discounts.map((discount) => (
+          <div
+            key={discount.id}
+            className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 border border-orange-200 bg-orange-50 rounded-lg p-4"
+          >
+            <div>
+              <div className="font-semibold text-gray-900">
+                Table {discount.order.table_number} · {discountTargetLabel(discount)}
+              </div>
+              <div className="text-sm text-gray-700">
+                {formatDiscountValue(discount.kind, discount.value)} off · -${Number(discount.amount).toFixed(2)} ·{' '}
+                {discountReasonLabel(discount)}
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                {discount.creator?.full_name} · {new Date(discount.created_at).toLocaleString()}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => reviewDiscount(discount.id, true)}
+                className="flex items-center gap-1 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition text-sm font-medium"
+              >
+                <Check className="w-4 h-4" />
+                Authorize
+              </button>
+              <button
+                onClick={() => reviewDiscount(discount.id, false)}
+                className="flex items-center gap-1 px-3 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition text-sm font-medium"
+              >
+                <X className="w-4 h-4" />
+                Reject
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+import { useState, useEffect } from 'react';
+import {
+  supabase,
+  DiscountKind,
+  DiscountReason,
+  Order,
+  OrderDiscountWithDetails,
+  OrderItemWithMenu,
+} from '../lib/supabase';
+import { fetchDiscountReasons, fetchOrderDiscounts, fetchOrderItemsWithMenu, fetchRestaurantSettings } from '../lib/data';
+import { discountReasonLabel, discountTargetLabel, formatDiscountValue } from '../lib/discounts';
+import { errorMessage } from '../lib/errors';
+import { useAuth } from '../contexts/AuthContext';
+import { X, Tag, Trash2 } from 'lucide-react';
+
+type DiscountFormProps = {
+  order: Order;
+  onClose: () => void;
+  onDone: () => void;
+};
+
+export function DiscountForm({ order, onClose, onDone }: DiscountFormProps) {
+  const { profile } = useAuth();
+  const [usePromoCode, setUsePromoCode] = useState(false);
+  const [items, setItems] = useState<OrderItemWithMenu[]>([]);
+  const [reasons, setReasons] = useState<DiscountReason[]>([]);
+  const [discounts, setDiscounts] = useState<OrderDiscountWithDetails[]>([]);
+  const [threshold, setThreshold] = useState<number | null>(null);
+  const [itemId, setItemId] = useState('');
+  const [kind, setKind] = useState<DiscountKind>('percent');
+  const [value, setValue] = useState('');
+  const [reasonId, setReasonId] = useState('');
+  const [promoCode, setPromoCode] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadOptions = async () => {
+      try {
+        const [itemsData, reasonsData, discountsData, settings] = await Promise.all([
+          fetchOrderItemsWithMenu(order.id),
+          fetchDiscountReasons(),
+          fetchOrderDiscounts(order.id),
+          fetchRestaurantSettings(),
+        ]);
+        if (cancelled) return;
+
+        setItems(itemsData);
+        setReasons(reasonsData.filter((reason) => reason.active));
+        setDiscounts(discountsData);
+        setThreshold(settings?.discount_authorization_percent ?? null);
+      } catch (err) {
+        console.error('Error loading discount options:', err);
+        if (!cancelled) setError('Failed to load the order');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadOptions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [order.id]);
+
+  const handleSubmit = async () => {
+    setError('');
+
+    const amount = parseFloat(value);
+    if (usePromoCode) {
+      if (!promoCode.trim()) {
+        setError('Please enter a promo code');
+        return;
+      }
+    } else {
+      if (isNaN(amount) || amount <= 0) {
+        setError('Please enter a discount above zero');
+        return;
+      }
+      if (kind === 'percent' && amount > 100) {
+        setError('A discount cannot be more than 100%');
+        return;
+      }
+      if (!reasonId) {
+        setError('Please choose a reason for the discount');
+        return;
+      }
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('apply_discount', {
+        p_order_id: order.id,
+        p_order_item_id: usePromoCode ? null : itemId || null,
+        p_kind: usePromoCode ? null : kind,
+        p_value: usePromoCode ? null : amount,
+        p_reason_id: usePromoCode ? null : reasonId,
+        p_promo_code: usePromoCode ? promoCode.trim() : null,
+      });
+
+      if (error) throw error;
+
+      onDone();
+    } catch (err) {
+      console.error('Error applying discount:', err);
+      setError(errorMessage(err, 'Failed to apply discount'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeDiscount = async (discountId: string) => {
+    setError('');
+    try {
+      const { error } = await supabase.rpc('remove_discount', { p_discount_id: discountId });
+
+      if (error) throw error;
+
+      setDiscounts((current) => current.filter((discount) => discount.id !== discountId));
+    } catch (err) {
+      console.error('Error removing discount:', err);
+      setError(errorMessage(err, 'Failed to remove discount'));
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 p-4 sm:p-6 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Discount · Table {order.table_number}</h2>
+            <div className="text-blue-600 font-bold">${Number(order.total_amount).toFixed(2)}</div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition">
+            <X className="w-6 h-6 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-4">
+          {discounts.length > 0 && (
+            <div className="space-y-2">
+              {discounts.map((discount) => (
+                <div
+                  key={discount.id}
+                  className="flex items-center justify-between gap-3 bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-sm"
+                >
+                  <div>
+                    <div className="font-medium text-gray-900">
+                      {discountTargetLabel(discount)} · {formatDiscountValue(discount.kind, discount.value)}
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      {discountReasonLabel(discount)} ·{' '}
+                      {discount.status === 'pending' ? (
+                        <span className="text-orange-700 font-medium">Awaiting authorization</span>
+                      ) : (
+                        `-$${Number(discount.amount).toFixed(2)}`
+                      )}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => removeDiscount(discount.id)}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            {[false, true].map((promo) => (
+              <button
+                key={String(promo)}
+                onClick={() => {
+                  setUsePromoCode(promo);
+                  setError('');
+                }}
+                className={`px-2 py-2 rounded-lg text-sm font-medium transition ${
+                  usePromoCode === promo ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {promo ? 'Promo code' : 'Discount'}
+              </button>
+            ))}
+          </div>
+
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading...</div>
+          ) : usePromoCode ? (
+            <label className="block text-sm font-medium text-gray-700">
+              Promo code
+              <input
+                type="text"
+                value={promoCode}
+                onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                placeholder="e.g., SUMMER10"
+                className={`mt-1 ${inputClass} uppercase`}
+              />
+              <span className="block text-xs text-gray-500 mt-1">Applies to the whole order.</span>
+            </label>
+          ) : (
+            <div className="space-y-3">
+              <label className="block text-sm font-medium text-gray-700">
+                Discount on
+                <select value={itemId} onChange={(e) => setItemId(e.target.value)} className={`mt-1 ${inputClass}`}>
+                  <option value="">Whole order</option>
+                  {items.map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {`${item.quantity}× ${item.menu.name} · $${(item.quantity * item.price_at_purchase).toFixed(2)}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="grid grid-cols-2 gap-1 self-end">
+                  {(['percent', 'fixed'] as DiscountKind[]).map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => setKind(option)}
+                      className={`px-2 py-2 rounded-lg text-sm font-medium transition ${
+                        kind === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {option === 'percent' ? '%' : '$'}
+                    </button>
+                  ))}
+                </div>
+                <label className="block text-sm font-medium text-gray-700">
+                  {kind === 'percent' ? 'Percent off' : 'Amount off ($)'}
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max={kind === 'percent' ? '100' : undefined}
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    className={`mt-1 ${inputClass}`}
+                  />
+                </label>
+              </div>
+
+              <label className="block text-sm font-medium text-gray-700">
+                Reason
+                <select value={reasonId} onChange={(e) => setReasonId(e.target.value)} className={`mt-1 ${inputClass}`}>
+                  <option value="">Choose a reason</option>
+                  {reasons.map((reason) => (
+                    <option key={reason.id} value={reason.id}>
+                      {reason.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              {profile?.role !== 'cashier' && threshold !== null && (
+                <p className="text-xs text-gray-500">
+                  Discounts that take the order over {threshold}% off its subtotal, not counting discounts a cashier
+                  authorized or promo codes, wait for a cashier to authorize them.
+                </p>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm">{error}</div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium"
+            >
+              Close
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={saving || loading}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50"
+            >
+              <Tag className="w-5 h-5" />
+              {saving ? 'Saving...' : 'Apply'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
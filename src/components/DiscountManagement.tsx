@@ -0,0 +1,401 @@
+import { useState, useEffect } from 'react';
+import { supabase, DiscountKind, DiscountReason, PromoCode } from '../lib/supabase';
+import { fetchDiscountReasons, fetchPromoCodes, fetchRestaurantSettings } from '../lib/data';
+import { DISCOUNT_KIND_LABELS, formatDiscountValue, isPromoCodeCurrent } from '../lib/discounts';
+import { useAuth } from '../contexts/AuthContext';
+import { ArrowLeft, Plus, Save } from 'lucide-react';
+
+type DiscountManagementProps = {
+  onBack: () => void;
+};
+
+const emptyPromoCode = {
+  code: '',
+  description: '',
+  kind: 'percent' as DiscountKind,
+  value: '',
+  valid_from: '',
+  valid_until: '',
+};
+
+export function DiscountManagement({ onBack }: DiscountManagementProps) {
+  const { profile } = useAuth();
+  const [threshold, setThreshold] = useState('');
+  const [reasons, setReasons] = useState<DiscountReason[]>([]);
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [newReasonName, setNewReasonName] = useState('');
+  const [newPromoCode, setNewPromoCode] = useState(emptyPromoCode);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    loadDiscountSettings();
+  }, []);
+
+  const loadDiscountSettings = async () => {
+    try {
+      const [settings, reasonsData, promoCodesData] = await Promise.all([
+        fetchRestaurantSettings(),
+        fetchDiscountReasons(),
+        fetchPromoCodes(),
+      ]);
+
+      setThreshold(settings?.discount_authorization_percent?.toString() ?? '');
+      setReasons(reasonsData);
+      setPromoCodes(promoCodesData);
+    } catch (err) {
+      console.error('Error loading discount settings:', err);
+      setError('Failed to load discount settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveThreshold = async () => {
+    const percent = threshold.trim() === '' ? null : parseFloat(threshold);
+    if (percent !== null && (isNaN(percent) || percent < 0 || percent > 100)) {
+      setError('The threshold must be between 0 and 100%');
+      return;
+    }
+
+    setError('');
+    setMessage('');
+    try {
+      const { error } = await supabase
+        .from('restaurant_settings')
+        .update({ discount_authorization_percent: percent, updated_at: new Date().toISOString() })
+        .eq('id', true);
+
+      if (error) throw error;
+
+      setMessage('Authorization threshold saved');
+    } catch (err) {
+      console.error('Error saving threshold:', err);
+      setError('Failed to save the threshold');
+    }
+  };
+
+  const addReason = async () => {
+    if (!newReasonName.trim()) return;
+
+    setError('');
+    try {
+      const { error } = await supabase
+        .from('discount_reasons')
+        .insert([{ name: newReasonName.trim(), created_by: profile?.id }]);
+
+      if (error) throw error;
+
+      setNewReasonName('');
+      loadDiscountSettings();
+    } catch (err) {
+      console.error('Error adding reason:', err);
+      setError('Failed to add reason. It may already exist.');
+    }
+  };
+
+  const toggleReasonStatus = async (reason: DiscountReason) => {
+    setError('');
+    try {
+      const { error } = await supabase
+        .from('discount_reasons')
+        .update({ active: !reason.active })
+        .eq('id', reason.id);
+
+      if (error) throw error;
+      loadDiscountSettings();
+    } catch (err) {
+      console.error('Error toggling reason status:', err);
+      setError('Failed to update reason status');
+    }
+  };
+
+  const addPromoCode = async () => {
+    const value = parseFloat(newPromoCode.value);
+    if (!newPromoCode.code.trim()) {
+      setError('Please enter a code');
+      return;
+    }
+    if (isNaN(value) || value <= 0 || (newPromoCode.kind === 'percent' && value > 100)) {
+      setError(newPromoCode.kind === 'percent' ? 'Enter a percentage between 0 and 100' : 'Enter an amount above zero');
+      return;
+    }
+    if (newPromoCode.valid_from && newPromoCode.valid_until && newPromoCode.valid_until <= newPromoCode.valid_from) {
+      setError('The code must end after it starts');
+      return;
+    }
+
+    setError('');
+    try {
+      const { error } = await supabase.from('promo_codes').insert([
+        {
+          code: newPromoCode.code.trim().toUpperCase(),
+          description: newPromoCode.description.trim() || null,
+          kind: newPromoCode.kind,
+          value,
+          // Dates are whole days in local time; the last day is included
+          ...(newPromoCode.valid_from && { valid_from: new Date(`${newPromoCode.valid_from}T00:00`).toISOString() }),
+          valid_until: newPromoCode.valid_until ? dayAfter(newPromoCode.valid_until) : null,
+          created_by: profile?.id,
+        },
+      ]);
+
+      if (error) throw error;
+
+      setNewPromoCode(emptyPromoCode);
+      loadDiscountSettings();
+    } catch (err) {
+      console.error('Error adding promo code:', err);
+      setError('Failed to add promo code. The code may already exist.');
+    }
+  };
+
+  const togglePromoCodeStatus = async (promoCode: PromoCode) => {
+    setError('');
+    try {
+      const { error } = await supabase
+        .from('promo_codes')
+        .update({ active: !promoCode.active })
+        .eq('id', promoCode.id);
+
+      if (error) throw error;
+      loadDiscountSettings();
+    } catch (err) {
+      console.error('Error toggling promo code status:', err);
+      setError('Failed to update promo code status');
+    }
+  };
+
+  const inputClass =
+    'px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-slate-100 p-6">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <div className="flex items-center gap-4 mb-6">
+            <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition">
+              <ArrowLeft className="w-6 h-6 text-gray-600" />
+            </button>
+            <div>
+              <h2 className="text-3xl font-bold text-gray-900">Discounts</h2>
+              <p className="text-gray-600 mt-1">Authorization, reason codes and promo codes</p>
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">{error}</div>
+          )}
+          {message && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg text-sm mb-4">
+              {message}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-12 text-gray-500">Loading discounts...</div>
+          ) : (
+            <>
+              <div className="mb-8">
+                <h3 className="text-lg font-semibold text-gray-900 mb-1">Cashier Authorization</h3>
+                <p className="text-sm text-gray-600 mb-4">
+                  Discounts a waiter gives that take an order's unauthorized discounts above this percentage of its
+                  subtotal wait for a cashier. Leave empty to never ask.
+                </p>
+                <div className="flex gap-3">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    value={threshold}
+                    onChange={(e) => setThreshold(e.target.value)}
+                    placeholder="e.g., 20"
+                    className={`flex-1 ${inputClass}`}
+                  />
+                  <button
+                    onClick={saveThreshold}
+                    className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium"
+                  >
+                    <Save className="w-5 h-5" />
+                    Save
+                  </button>
+                </div>
+              </div>
+
+              <div className="mb-8">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Reason Codes</h3>
+                <div className="flex gap-3 mb-4">
+                  <input
+                    type="text"
+                    value={newReasonName}
+                    onChange={(e) => setNewReasonName(e.target.value)}
+                    onKeyPress={(e) => e.key === 'Enter' && addReason()}
+                    placeholder="Enter reason..."
+                    className={`flex-1 ${inputClass}`}
+                  />
+                  <button
+                    onClick={addReason}
+                    disabled={!newReasonName.trim()}
+                    className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Plus className="w-5 h-5" />
+                    Add Reason
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {reasons.map((reason) => (
+                    <div
+                      key={reason.id}
+                      className={`flex items-center justify-between border rounded-lg px-4 py-3 ${
+                        reason.active ? 'bg-white border-gray-200' : 'bg-gray-50 border-gray-300'
+                      }`}
+                    >
+                      <div className="flex items-center gap-3">
+                        <span className={`font-semibold ${reason.active ? 'text-gray-900' : 'text-gray-500'}`}>
+                          {reason.name}
+                        </span>
+                        {!reason.active && (
+                          <span className="px-2 py-1 bg-gray-200 text-gray-700 rounded text-xs font-medium">
+                            INACTIVE
+                          </span>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => toggleReasonStatus(reason)}
+                        className={`px-3 py-1.5 rounded-lg transition text-sm font-medium ${
+                          reason.active
+                            ? 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200'
+                            : 'bg-green-100 text-green-700 hover:bg-green-200'
+                        }`}
+                      >
+                        {reason.active ? 'Deactivate' : 'Activate'}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Promo Codes</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+                  <input
+                    type="text"
+                    value={newPromoCode.code}
+                    onChange={(e) => setNewPromoCode({ ...newPromoCode, code: e.target.value.toUpperCase() })}
+                    placeholder="Code, e.g., SUMMER10"
+                    className={`${inputClass} uppercase`}
+                  />
+                  <input
+                    type="text"
+                    value={newPromoCode.description}
+                    onChange={(e) => setNewPromoCode({ ...newPromoCode, description: e.target.value })}
+                    placeholder="Description (optional)"
+                    className={inputClass}
+                  />
+                  <select
+                    value={newPromoCode.kind}
+                    onChange={(e) => setNewPromoCode({ ...newPromoCode, kind: e.target.value as DiscountKind })}
+                    className={inputClass}
+                  >
+                    {(Object.keys(DISCOUNT_KIND_LABELS) as DiscountKind[]).map((kind) => (
+                      <option key={kind} value={kind}>
+                        {DISCOUNT_KIND_LABELS[kind]}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={newPromoCode.value}
+                    onChange={(e) => setNewPromoCode({ ...newPromoCode, value: e.target.value })}
+                    placeholder={newPromoCode.kind === 'percent' ? 'Percent off' : 'Amount off ($)'}
+                    className={inputClass}
+                  />
+                  <label className="block text-sm font-medium text-gray-700">
+                    Valid from
+                    <input
+                      type="date"
+                      value={newPromoCode.valid_from}
+                      onChange={(e) => setNewPromoCode({ ...newPromoCode, valid_from: e.target.value })}
+                      className={`mt-1 w-full ${inputClass}`}
+                    />
+                  </label>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Valid until (optional)
+                    <input
+                      type="date"
+                      value={newPromoCode.valid_until}
+                      onChange={(e) => setNewPromoCode({ ...newPromoCode, valid_until: e.target.value })}
+                      className={`mt-1 w-full ${inputClass}`}
+                    />
+                  </label>
+                </div>
+                <button
+                  onClick={addPromoCode}
+                  className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium mb-4"
+                >
+                  <Plus className="w-5 h-5" />
+                  Add Promo Code
+                </button>
+
+                {promoCodes.length === 0 ? (
+                  <div className="text-center py-8 text-gray-500">No promo codes yet</div>
+                ) : (
+                  <div className="space-y-2">
+                    {promoCodes.map((promoCode) => (
+                      <div
+                        key={promoCode.id}
+                        className={`flex items-center justify-between gap-3 border rounded-lg px-4 py-3 ${
+                          promoCode.active ? 'bg-white border-gray-200' : 'bg-gray-50 border-gray-300'
+                        }`}
+                      >
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-mono font-semibold text-gray-900">{promoCode.code}</span>
+                            <span className="text-sm text-gray-700">
+                              {formatDiscountValue(promoCode.kind, promoCode.value)} off
+                            </span>
+                            {!isPromoCodeCurrent(promoCode) && (
+                              <span className="px-2 py-1 bg-gray-200 text-gray-700 rounded text-xs font-medium">
+                                {promoCode.active ? 'NOT CURRENT' : 'INACTIVE'}
+                              </span>
+                            )}
+                          </div>
+                          <div className="text-xs text-gray-500 mt-1">
+                            {promoCode.description && `${promoCode.description} · `}
+                            From {new Date(promoCode.valid_from).toLocaleDateString()}
+                            {promoCode.valid_until &&
+                              ` until ${new Date(new Date(promoCode.valid_until).getTime() - 1).toLocaleDateString()}`}
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => togglePromoCodeStatus(promoCode)}
+                          className={`px-3 py-1.5 rounded-lg transition text-sm font-medium ${
+                            promoCode.active
+                              ? 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200'
+                              : 'bg-green-100 text-green-700 hover:bg-green-200'
+                          }`}
+                        >
+                          {promoCode.active ? 'Deactivate' : 'Activate'}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function dayAfter(date: string) {
+  const next = new Date(`${date}T00:00`);
+  next.setDate(next.getDate() + 1);
+  return next.toISOString();
+}
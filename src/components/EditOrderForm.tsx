@@ -1,15 +1,39 @@
-import { useState, useEffect, useMemo } from 'react';
-import { supabase, Menu, Order, OrderItem as OrderItemType } from '../lib/supabase';
-import { X, Save, Trash2, Search } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import {
+  supabase,
+  Menu,
+  MenuCategory,
+  ModifierGroupWithOptions,
+  Order,
+  OrderDiscount,
+  OrderItem as OrderItemType,
+  OrderItemModifier,
+} from '../lib/supabase';
+import { fetchMenuCategories, fetchModifierGroups, fetchOrderDiscounts, fetchRecipeItems } from '../lib/data';
+import { appliedDiscountTotal } from '../lib/discounts';
+import { outOfStockMenuIds } from '../lib/inventory';
+import { formatModifiers, orderLineKey } from '../lib/modifiers';
+import { availabilityLabel, isOrderable } from '../lib/availability';
+import { byNameAsc, changedRowId, removeRow, subscribeToChanges, TableChange, upsertRow } from '../lib/realtime';
+import { errorMessage } from '../lib/errors';
+import { X, Save, Trash2, AlertTriangle } from 'lucide-react';
+import { MenuItemPicker } from './MenuItemPicker';
+import { ModifierPicker } from './ModifierPicker';
 
 type OrderItem = {
   id: string;
   menu_id: string;
   quantity: number;
   menu: Menu;
+  modifiers: OrderItemModifier[];
+  unitPrice: number;
+  notes: string;
   existing?: boolean;
 };
 
+const lineKey = (item: { menu_id: string; modifiers: OrderItemModifier[] }) =>
+  orderLineKey(item.menu_id, item.modifiers.map((modifier) => modifier.option_id));
+
 type EditOrderFormProps = {
   order: Order;
   onClose: () => void;
@@ -18,34 +42,61 @@ type EditOrderFormProps = {
 
 export function EditOrderForm({ order, onClose, onSuccess }: EditOrderFormProps) {
   const [menuItems, setMenuItems] = useState<Menu[]>([]);
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [modifierGroups, setModifierGroups] = useState<Record<string, ModifierGroupWithOptions[]>>({});
+  const [pickingModifiersFor, setPickingModifiersFor] = useState<Menu | null>(null);
+  const [outOfStockIds, setOutOfStockIds] = useState<Set<string>>(new Set());
   const [selectedItems, setSelectedItems] = useState<OrderItem[]>([]);
+  const [discounts, setDiscounts] = useState<OrderDiscount[]>([]);
+  const [orderNotes, setOrderNotes] = useState(order.notes || '');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [saving, setSaving] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
 
   useEffect(() => {
     loadData();
+
+    return subscribeToChanges(
+      `edit-order-menu-${order.id}`,
+      [{ table: 'menu' }, { table: 'ingredients' }, { table: 'recipe_items' }],
+      (change) => {
+        if (change.table === 'menu') {
+          handleMenuChange(change);
+        } else {
+          refreshStock();
+        }
+      }
+    );
   }, [order.id]);
 
   const loadData = async () => {
     try {
-      const [menuRes, itemsRes] = await Promise.all([
-        supabase.from('menu').select('*').order('created_at', { ascending: false }),
+      const [menuRes, itemsRes, categoriesData, groupsData, recipeItems, discountsData] = await Promise.all([
+        supabase.from('menu').select('*').order('name', { ascending: true }),
         supabase.from('order_items').select('*').eq('order_id', order.id),
+        fetchMenuCategories(),
+        fetchModifierGroups(),
+        fetchRecipeItems(),
+        fetchOrderDiscounts(order.id),
       ]);
 
       if (menuRes.error) throw menuRes.error;
       if (itemsRes.error) throw itemsRes.error;
 
       setMenuItems(menuRes.data || []);
+      setCategories(categoriesData);
+      setModifierGroups(groupsData);
+      setOutOfStockIds(outOfStockMenuIds(recipeItems));
+      setDiscounts(discountsData);
 
       const itemsWithMenu = await Promise.all(
-        (itemsRes.data || []).map(async (item) => {
+        ((itemsRes.data || []) as OrderItemType[]).map(async (item) => {
           const menu = (menuRes.data || []).find((m) => m.id === item.menu_id);
           return {
             ...item,
             menu: menu as Menu,
+            unitPrice: Number(item.price_at_purchase),
+            notes: item.notes || '',
             existing: true,
           };
         })
@@ -60,21 +111,42 @@ export function EditOrderForm({ order, onClose, onSuccess }: EditOrderFormProps)
     }
   };
 
-  const filteredMenuItems = useMemo(() => {
-    if (!searchQuery.trim()) {
-      return menuItems;
+  const refreshStock = async () => {
+    try {
+      setOutOfStockIds(outOfStockMenuIds(await fetchRecipeItems()));
+    } catch (err) {
+      console.error('Error refreshing stock:', err);
+    }
+  };
+
+  const handleMenuChange = (change: TableChange) => {
+    if (change.eventType === 'DELETE') {
+      setMenuItems((rows) => removeRow(rows, changedRowId(change)));
+      return;
     }
-    return menuItems.filter((item) =>
-      item.name.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-  }, [menuItems, searchQuery]);
+
+    const menu = change.new as Menu;
+    setMenuItems((rows) => upsertRow(rows, menu, byNameAsc));
+    setSelectedItems((items) => items.map((item) => (item.menu_id === menu.id ? { ...item, menu } : item)));
+  };
 
   const addItem = (menu: Menu) => {
-    const existingItem = selectedItems.find((item) => item.menu_id === menu.id);
+    if (!isOrderable(menu) || outOfStockIds.has(menu.id)) return;
+
+    if (modifierGroups[menu.id]?.length) {
+      setPickingModifiersFor(menu);
+    } else {
+      addLine(menu, []);
+    }
+  };
+
+  const addLine = (menu: Menu, modifiers: OrderItemModifier[]) => {
+    const key = lineKey({ menu_id: menu.id, modifiers });
+    const existingItem = selectedItems.find((item) => lineKey(item) === key);
     if (existingItem) {
       setSelectedItems(
         selectedItems.map((item) =>
-          item.menu_id === menu.id ? { ...item, quantity: item.quantity + 1 } : item
+          item.id === existingItem.id ? { ...item, quantity: item.quantity + 1 } : item
         )
       );
     } else {
@@ -85,6 +157,9 @@ export function EditOrderForm({ order, onClose, onSuccess }: EditOrderFormProps)
           menu_id: menu.id,
           quantity: 1,
           menu,
+          modifiers,
+          unitPrice: menu.price + modifiers.reduce((sum, modifier) => sum + modifier.price_delta, 0),
+          notes: '',
         },
       ]);
     }
@@ -104,8 +179,12 @@ export function EditOrderForm({ order, onClose, onSuccess }: EditOrderFormProps)
     }
   };
 
-  const calculateTotal = () => {
-    return selectedItems.reduce((sum, item) => sum + item.menu.price * item.quantity, 0);
+  const updateNotes = (itemId: string, notes: string) => {
+    setSelectedItems(selectedItems.map((item) => (item.id === itemId ? { ...item, notes } : item)));
+  };
+
+  const calculateSubtotal = () => {
+    return selectedItems.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -117,67 +196,44 @@ export function EditOrderForm({ order, onClose, onSuccess }: EditOrderFormProps)
         throw new Error('Please add at least one item to the order');
       }
 
-      const existingItems = selectedItems.filter((item) => item.existing);
-      const newItems = selectedItems.filter((item) => !item.existing);
-
-      const allCurrentItems = await supabase
-        .from('order_items')
-        .select('id')
-        .eq('order_id', order.id);
-
-      const existingItemIds = selectedItems.filter((s) => s.existing).map((s) => s.id);
-      const itemsToDelete = allCurrentItems.data?.filter((item) => !existingItemIds.includes(item.id));
-
-      if (itemsToDelete && itemsToDelete.length > 0) {
-        const idsToDelete = itemsToDelete.map((item) => item.id);
-        const { error: deleteError } = await supabase
-          .from('order_items')
-          .delete()
-          .in('id', idsToDelete);
-
-        if (deleteError) throw deleteError;
-      }
-
-      if (existingItems.length > 0) {
-        for (const item of existingItems) {
-          const { error: updateError } = await supabase
-            .from('order_items')
-            .update({ quantity: item.quantity })
-            .eq('id', item.id);
-
-          if (updateError) throw updateError;
-        }
+      // Items already on the order may stay, but new ones must still be available
+      const unavailable = selectedItems.find((item) => !item.existing && !isOrderable(item.menu));
+      if (unavailable) {
+        throw new Error(`${unavailable.menu.name} is no longer available. Please remove it from the order.`);
       }
 
-      if (newItems.length > 0) {
-        const itemsToInsert = newItems.map((item) => ({
-          order_id: order.id,
-          menu_id: item.menu_id,
-          quantity: item.quantity,
-          price_at_purchase: item.menu.price,
-        }));
+      const items = selectedItems.map((item) => ({
+        id: item.existing ? item.id : null,
+        menu_id: item.menu_id,
+        quantity: item.quantity,
+        option_ids: item.modifiers.map((modifier) => modifier.option_id),
+        notes: item.notes,
+      }));
 
-        const { error: insertError } = await supabase.from('order_items').insert(itemsToInsert);
-
-        if (insertError) throw insertError;
-      }
-
-      const total = calculateTotal();
       const { error: orderError } = await supabase
-        .from('orders')
-        .update({ total_amount: total })
-        .eq('id', order.id);
+        .rpc('update_order_with_items', {
+          p_order_id: order.id,
+          p_items: items,
+          p_notes: orderNotes,
+        })
+        .maybeSingle<Order>();
 
       if (orderError) throw orderError;
 
       onSuccess();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update order');
+      setError(errorMessage(err, 'Failed to update order'));
     } finally {
       setSaving(false);
     }
   };
 
+  const subtotal = calculateSubtotal();
+  const discount = Math.min(appliedDiscountTotal(discounts, selectedItems), subtotal);
+  // The rate was fixed when the order was created
+  const serviceChargeRate = order.service_charge_rate != null ? Number(order.service_charge_rate) : null;
+  const serviceCharge = serviceChargeRate ? Math.round((subtotal - discount) * serviceChargeRate) / 100 : 0;
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-slate-100 p-6 flex items-center justify-center">
@@ -201,61 +257,12 @@ export function EditOrderForm({ order, onClose, onSuccess }: EditOrderFormProps)
             <div className="bg-white rounded-2xl shadow-lg p-6">
               <h2 className="text-xl font-bold text-gray-900 mb-4">Select Menu Items</h2>
 
-              <div className="mb-4">
-                <div className="relative">
-                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                    <Search className="h-5 w-5 text-gray-400" />
-                  </div>
-                  <input
-                    type="text"
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    placeholder="Search menu items by name..."
-                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-                  />
-                  {searchQuery && (
-                    <button
-                      type="button"
-                      onClick={() => setSearchQuery('')}
-                      className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600"
-                    >
-                      <X className="h-5 w-5" />
-                    </button>
-                  )}
-                </div>
-                {searchQuery && (
-                  <div className="mt-2 text-sm text-gray-600">
-                    Found {filteredMenuItems.length} item{filteredMenuItems.length !== 1 ? 's' : ''}
-                  </div>
-                )}
-              </div>
-
-              {menuItems.length === 0 ? (
-                <div className="text-center py-8 text-gray-500">No menu items available</div>
-              ) : filteredMenuItems.length === 0 ? (
-                <div className="text-center py-8 text-gray-500">
-                  No menu items match "{searchQuery}"
-                </div>
-              ) : (
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                  {filteredMenuItems.map((item) => (
-                    <button
-                      key={item.id}
-                      onClick={() => addItem(item)}
-                      className="text-left border-2 border-gray-200 rounded-lg p-4 hover:border-blue-500 hover:bg-blue-50 transition"
-                    >
-                      {item.picture_url && (
-                        <div className="h-32 bg-gray-200 rounded mb-2 overflow-hidden">
-                          <img src={item.picture_url} alt={item.name} className="w-full h-full object-cover" />
-                        </div>
-                      )}
-                      <div className="font-semibold text-gray-900">{item.name}</div>
-                      <div className="text-blue-600 font-bold">${item.price.toFixed(2)}</div>
-                      <div className="text-sm text-gray-500 mt-1">Click to add</div>
-                    </button>
-                  ))}
-                </div>
-              )}
+              <MenuItemPicker
+                menuItems={menuItems}
+                categories={categories}
+                outOfStockIds={outOfStockIds}
+                onSelect={addItem}
+              />
             </div>
           </div>
 
@@ -264,6 +271,18 @@ export function EditOrderForm({ order, onClose, onSuccess }: EditOrderFormProps)
               <div className="bg-white rounded-2xl shadow-lg p-6">
                 <h2 className="text-xl font-bold text-gray-900 mb-4">Order Items</h2>
 
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Order Notes</label>
+                  <textarea
+                    value={orderNotes}
+                    onChange={(e) => setOrderNotes(e.target.value)}
+                    maxLength={500}
+                    rows={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder="e.g., Birthday, bring dessert with a candle"
+                  />
+                </div>
+
                 <div className="bg-gray-50 rounded-lg p-4 mb-4 max-h-64 overflow-y-auto">
                   {selectedItems.length === 0 ? (
                     <div className="text-center text-gray-500 py-8">No items added yet</div>
@@ -279,7 +298,17 @@ export function EditOrderForm({ order, onClose, onSuccess }: EditOrderFormProps)
                           <div className="flex justify-between items-start mb-2">
                             <div className="flex-1">
                               <div className="font-semibold text-gray-900 text-sm">{item.menu.name}</div>
-                              <div className="text-blue-600 font-bold text-sm">${item.menu.price.toFixed(2)}</div>
+                              {!isOrderable(item.menu) && (
+                                <div className="flex items-center gap-1 text-xs font-semibold text-red-600">
+                                  <AlertTriangle className="w-3 h-3" />
+                                  {availabilityLabel(item.menu)}
+                                  {item.existing && ' · already ordered, check with the kitchen'}
+                                </div>
+                              )}
+                              {item.modifiers.length > 0 && (
+                                <div className="text-xs text-gray-600">{formatModifiers(item.modifiers)}</div>
+                              )}
+                              <div className="text-blue-600 font-bold text-sm">${item.unitPrice.toFixed(2)}</div>
                             </div>
                             <button
                               type="button"
@@ -306,9 +335,17 @@ export function EditOrderForm({ order, onClose, onSuccess }: EditOrderFormProps)
                               +
                             </button>
                             <span className="ml-auto font-bold text-gray-900">
-                              ${(item.menu.price * item.quantity).toFixed(2)}
+                              ${(item.unitPrice * item.quantity).toFixed(2)}
                             </span>
                           </div>
+                          <input
+                            type="text"
+                            value={item.notes}
+                            onChange={(e) => updateNotes(item.id, e.target.value)}
+                            maxLength={500}
+                            placeholder="Item notes, e.g. no nuts"
+                            className="mt-2 w-full px-2 py-1 border border-gray-300 rounded text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+                          />
                         </div>
                       ))}
                     </div>
@@ -316,9 +353,31 @@ export function EditOrderForm({ order, onClose, onSuccess }: EditOrderFormProps)
                 </div>
 
                 <div className="border-t-2 border-gray-200 pt-3 mb-4">
+                  {(serviceChargeRate !== null || discount > 0) && (
+                    <div className="space-y-1 mb-2 text-sm text-gray-600">
+                      <div className="flex justify-between">
+                        <span>Subtotal</span>
+                        <span>${subtotal.toFixed(2)}</span>
+                      </div>
+                      {discount > 0 && (
+                        <div className="flex justify-between">
+                          <span>Discounts</span>
+                          <span>-${discount.toFixed(2)}</span>
+                        </div>
+                      )}
+                      {serviceChargeRate !== null && (
+                        <div className="flex justify-between">
+                          <span>Service charge ({serviceChargeRate}%)</span>
+                          <span>${serviceCharge.toFixed(2)}</span>
+                        </div>
+                      )}
+                    </div>
+                  )}
                   <div className="flex justify-between items-center">
                     <span className="text-lg font-bold text-gray-900">Total:</span>
-                    <span className="text-2xl font-bold text-blue-600">${calculateTotal().toFixed(2)}</span>
+                    <span className="text-2xl font-bold text-blue-600">
+                      ${(subtotal - discount + serviceCharge).toFixed(2)}
+                    </span>
                   </div>
                 </div>
 
@@ -350,6 +409,18 @@ export function EditOrderForm({ order, onClose, onSuccess }: EditOrderFormProps)
           </div>
         </div>
       </div>
+
+      {pickingModifiersFor && (
+        <ModifierPicker
+          menu={pickingModifiersFor}
+          groups={modifierGroups[pickingModifiersFor.id] || []}
+          onConfirm={(modifiers) => {
+            addLine(pickingModifiersFor, modifiers);
+            setPickingModifiersFor(null);
+          }}
+          onCancel={() => setPickingModifiersFor(null)}
+        />
+      )}
     </div>
   );
 }
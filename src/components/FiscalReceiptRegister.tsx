@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react';
+import { FiscalReceipt } from '../lib/supabase';
+import { fetchFiscalReceipts } from '../lib/data';
+import { toDateInput } from '../lib/dates';
+import { PAYMENT_METHOD_LABELS } from '../lib/payments';
+import { formatReceiptNumber } from '../lib/receipts';
+import { Printer } from 'lucide-react';
+import { FiscalReceiptView } from './FiscalReceiptView';
+
+export function FiscalReceiptRegister() {
+  const [dateFrom, setDateFrom] = useState(() => toDateInput(new Date()));
+  const [dateTo, setDateTo] = useState(() => toDateInput(new Date()));
+  const [receipts, setReceipts] = useState<FiscalReceipt[]>([]);
+  const [viewingReceiptId, setViewingReceiptId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadReceipts = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const data = await fetchFiscalReceipts(dateFrom, dateTo);
+        if (!cancelled) setReceipts(data);
+      } catch (err) {
+        console.error('Error loading receipt register:', err);
+        if (!cancelled) setError('Failed to load the receipt register');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadReceipts();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dateFrom, dateTo]);
+
+  const receiptTax = (receipt: FiscalReceipt) =>
+    receipt.tax_lines.reduce((sum, line) => sum + Number(line.tax_amount), 0);
+
+  const total = receipts.reduce(
+    (sum, receipt) => ({ amount: sum.amount + Number(receipt.amount), tax: sum.tax + receiptTax(receipt) }),
+    { amount: 0, tax: 0 }
+  );
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none';
+
+  return (
+    <div>
+      <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-4">Receipt Register</h2>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-6">
+        <label className="flex-1 text-sm text-gray-700">
+          From
+          <input
+            type="date"
+            value={dateFrom}
+            onChange={(e) => setDateFrom(e.target.value)}
+            className={`w-full mt-1 ${inputClass}`}
+          />
+        </label>
+        <label className="flex-1 text-sm text-gray-700">
+          To
+          <input
+            type="date"
+            value={dateTo}
+            onChange={(e) => setDateTo(e.target.value)}
+            className={`w-full mt-1 ${inputClass}`}
+          />
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-500">Loading receipts...</div>
+      ) : receipts.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">No receipts issued in this period.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b-2 border-gray-200">
+                <th className="py-2 pr-3 font-medium">No.</th>
+                <th className="py-2 pr-3 font-medium">Issued</th>
+                <th className="py-2 pr-3 font-medium">Table</th>
+                <th className="py-2 pr-3 font-medium">Method</th>
+                <th className="py-2 pr-3 font-medium text-right">VAT</th>
+                <th className="py-2 pr-3 font-medium text-right">Amount</th>
+                <th className="py-2 pr-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {receipts.map((receipt) => (
+                <tr key={receipt.id} className="border-b border-gray-100">
+                  <td className="py-2 pr-3 font-mono text-gray-900">{formatReceiptNumber(receipt.receipt_number)}</td>
+                  <td className="py-2 pr-3 text-gray-700">{new Date(receipt.issued_at).toLocaleString()}</td>
+                  <td className="py-2 pr-3 text-gray-700">
+                    {receipt.table_number}
+                    {receipt.split_label && ` · ${receipt.split_label}`}
+                  </td>
+                  <td className="py-2 pr-3 text-gray-700">{PAYMENT_METHOD_LABELS[receipt.payment_method]}</td>
+                  <td className="py-2 pr-3 text-right text-gray-700">${receiptTax(receipt).toFixed(2)}</td>
+                  <td className="py-2 pr-3 text-right font-medium text-gray-900">${Number(receipt.amount).toFixed(2)}</td>
+                  <td className="py-2 pr-3 text-right">
+                    <button
+                      onClick={() => setViewingReceiptId(receipt.id)}
+                      className="p-1 text-blue-600 hover:bg-blue-50 rounded transition"
+                      title="Print receipt"
+                    >
+                      <Printer className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t-2 border-gray-200">
+                <td className="py-2 pr-3 font-bold text-gray-900" colSpan={4}>
+                  {receipts.length} receipts
+                </td>
+                <td className="py-2 pr-3 text-right font-bold text-gray-900">${total.tax.toFixed(2)}</td>
+                <td className="py-2 pr-3 text-right font-bold text-blue-600">${total.amount.toFixed(2)}</td>
+                <td />
+              </tr>
+            </tfoot>
+          </table>
+          <p className="text-xs text-gray-500 mt-3">
+            Numbers are issued in order when a payment is approved and receipts cannot be changed. Amounts exclude
+            tips.
+          </p>
+        </div>
+      )}
+
+      {viewingReceiptId && <FiscalReceiptView receiptId={viewingReceiptId} onClose={() => setViewingReceiptId(null)} />}
+    </div>
+  );
+}
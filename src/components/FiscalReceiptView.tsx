@@ -0,0 +1,183 @@
+import { useState, useEffect } from 'react';
+import { FiscalReceipt } from '../lib/supabase';
+import { fetchFiscalReceipt } from '../lib/data';
+import { formatModifiers } from '../lib/modifiers';
+import { PAYMENT_METHOD_LABELS } from '../lib/payments';
+import { formatReceiptNumber } from '../lib/receipts';
+import { Printer, X } from 'lucide-react';
+
+type FiscalReceiptViewProps = {
+  receiptId: string;
+  onClose: () => void;
+};
+
+export function FiscalReceiptView({ receiptId, onClose }: FiscalReceiptViewProps) {
+  const [receipt, setReceipt] = useState<FiscalReceipt | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadReceipt = async () => {
+      try {
+        const data = await fetchFiscalReceipt(receiptId);
+        if (cancelled) return;
+
+        if (data) {
+          setReceipt(data);
+        } else {
+          setError('Receipt not found');
+        }
+      } catch (err) {
+        console.error('Error loading fiscal receipt:', err);
+        if (!cancelled) setError('Failed to load the receipt');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadReceipt();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [receiptId]);
+
+  const subtotal = receipt
+    ? receipt.lines.reduce((sum, line) => sum + line.quantity * Number(line.unit_price), 0)
+    : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 print:static print:bg-white print:p-0">
+      <div className="bg-white rounded-2xl shadow-xl max-w-sm w-full max-h-[90vh] overflow-y-auto print-area print:shadow-none print:max-h-none">
+        <div className="flex items-center justify-end gap-2 p-3 border-b border-gray-200 print:hidden">
+          <button
+            onClick={() => window.print()}
+            disabled={!receipt}
+            className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition text-sm font-medium disabled:opacity-50"
+          >
+            <Printer className="w-4 h-4" />
+            Print
+          </button>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition">
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="p-6 font-mono text-sm text-gray-900">
+          {loading ? (
+            <div className="text-center py-6 text-gray-500">Loading...</div>
+          ) : error || !receipt ? (
+            <div className="text-center py-6 text-red-700">{error}</div>
+          ) : (
+            <>
+              <div className="text-center mb-4">
+                <div className="text-base font-bold">{receipt.business_name ?? 'Business name not set'}</div>
+                <div>TIN {receipt.tax_id ?? 'not set'}</div>
+                <div className="mt-2 font-bold">FISCAL RECEIPT No. {formatReceiptNumber(receipt.receipt_number)}</div>
+                <div>{new Date(receipt.issued_at).toLocaleString()}</div>
+                <div>
+                  Table {receipt.table_number}
+                  {receipt.split_label && ` · ${receipt.split_label}`}
+                </div>
+                {receipt.waiter_name && <div>Served by {receipt.waiter_name}</div>}
+              </div>
+
+              <div className="border-t border-dashed border-gray-400 py-2 space-y-1">
+                {receipt.lines.map((line, index) => (
+                  <div key={index}>
+                    <div className="flex justify-between gap-2">
+                      <span>
+                        {line.quantity}× {line.name}
+                      </span>
+                      <span>{(line.quantity * Number(line.unit_price)).toFixed(2)}</span>
+                    </div>
+                    {line.modifiers.length > 0 && (
+                      <div className="pl-4 text-xs text-gray-600">{formatModifiers(line.modifiers)}</div>
+                    )}
+                    {line.notes && <div className="pl-4 text-xs text-gray-600">{line.notes}</div>}
+                  </div>
+                ))}
+              </div>
+
+              {(receipt.discounts.length > 0 || Number(receipt.service_charge_amount) > 0) && (
+                <div className="border-t border-dashed border-gray-400 py-2 space-y-1">
+                  <div className="flex justify-between">
+                    <span>Subtotal</span>
+                    <span>{subtotal.toFixed(2)}</span>
+                  </div>
+                  {receipt.discounts.map((discount, index) => (
+                    <div key={index} className="flex justify-between gap-2">
+                      <span>{discount.label}</span>
+                      <span>-{Number(discount.amount).toFixed(2)}</span>
+                    </div>
+                  ))}
+                  {Number(receipt.service_charge_amount) > 0 && (
+                    <div className="flex justify-between gap-2">
+                      <span>Service charge {Number(receipt.service_charge_rate)}%</span>
+                      <span>{Number(receipt.service_charge_amount).toFixed(2)}</span>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="border-t border-dashed border-gray-400 py-2 space-y-1">
+                <div className="flex justify-between">
+                  <span>Order total</span>
+                  <span>{Number(receipt.order_total).toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-base font-bold">
+                  <span>PAID</span>
+                  <span>${Number(receipt.amount).toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>{PAYMENT_METHOD_LABELS[receipt.payment_method]}</span>
+                  <span>{Number(receipt.cash_tendered ?? receipt.amount).toFixed(2)}</span>
+                </div>
+                {receipt.change_given != null && Number(receipt.change_given) > 0 && (
+                  <div className="flex justify-between">
+                    <span>Change</span>
+                    <span>{Number(receipt.change_given).toFixed(2)}</span>
+                  </div>
+                )}
+                {Number(receipt.tip_amount) > 0 && (
+                  <div className="flex justify-between">
+                    <span>Tip</span>
+                    <span>{Number(receipt.tip_amount).toFixed(2)}</span>
+                  </div>
+                )}
+                {Number(receipt.balance_due) > 0 && (
+                  <div className="flex justify-between">
+                    <span>Balance due</span>
+                    <span>{Number(receipt.balance_due).toFixed(2)}</span>
+                  </div>
+                )}
+              </div>
+
+              {receipt.tax_lines.length > 0 && (
+                <div className="border-t border-dashed border-gray-400 py-2">
+                  <div className="grid grid-cols-4 gap-1 text-xs text-gray-600">
+                    <span>Rate</span>
+                    <span className="text-right">Net</span>
+                    <span className="text-right">VAT</span>
+                    <span className="text-right">Gross</span>
+                  </div>
+                  {receipt.tax_lines.map((line) => (
+                    <div key={line.tax_rate} className="grid grid-cols-4 gap-1 text-xs">
+                      <span>{line.tax_rate > 0 ? `${line.tax_rate}%` : 'Exempt'}</span>
+                      <span className="text-right">{Number(line.net_amount).toFixed(2)}</span>
+                      <span className="text-right">{Number(line.tax_amount).toFixed(2)}</span>
+                      <span className="text-right">{Number(line.gross_amount).toFixed(2)}</span>
+                    </div>
+                  ))}
+                  <div className="text-xs text-gray-600 mt-1">VAT on the amount paid; prices include VAT</div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
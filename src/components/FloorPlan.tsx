@@ -0,0 +1,94 @@
+import { useRef, useState } from 'react';
+import { RestaurantTable } from '../lib/supabase';
+import { clampPosition, FLOOR_STATUS_STYLES, TABLE_SHAPE_STYLES } from '../lib/floorPlan';
+
+type FloorPlanProps = {
+  tables: RestaurantTable[];
+  selectedId?: string | null;
+  onSelect?: (table: RestaurantTable) => void;
+  // When given, tables can be dragged and the new position is passed here on drop
+  onMove?: (tableId: string, positionX: number, positionY: number) => void;
+  // Colours tables by their open orders instead of a neutral style
+  showStatus?: boolean;
+  // Tables marked with a dot, e.g. the ones the signed-in waiter is serving
+  markedIds?: Set<string>;
+};
+
+type Drag = {
+  tableId: string;
+  positionX: number;
+  positionY: number;
+  moved: boolean;
+};
+
+export function FloorPlan({ tables, selectedId, onSelect, onMove, showStatus = false, markedIds }: FloorPlanProps) {
+  const floorRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+
+  const handlePointerDown = (e: React.PointerEvent, table: RestaurantTable) => {
+    if (!onMove) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ tableId: table.id, positionX: table.position_x, positionY: table.position_y, moved: false });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag || !floorRef.current) return;
+    const rect = floorRef.current.getBoundingClientRect();
+    setDrag({
+      ...drag,
+      positionX: clampPosition(((e.clientX - rect.left) / rect.width) * 100),
+      positionY: clampPosition(((e.clientY - rect.top) / rect.height) * 100),
+      moved: true,
+    });
+  };
+
+  const handlePointerUp = (table: RestaurantTable) => {
+    if (!drag) return;
+    if (drag.moved) {
+      onMove?.(drag.tableId, drag.positionX, drag.positionY);
+    } else {
+      onSelect?.(table);
+    }
+    setDrag(null);
+  };
+
+  return (
+    <div
+      ref={floorRef}
+      className="relative w-full h-[28rem] bg-gray-50 border-2 border-dashed border-gray-300 rounded-xl overflow-hidden touch-none select-none"
+    >
+      {tables.length === 0 && (
+        <div className="absolute inset-0 flex items-center justify-center text-gray-500">No tables in this section</div>
+      )}
+      {tables.map((table) => {
+        const dragging = drag?.tableId === table.id;
+        const positionX = dragging ? drag.positionX : table.position_x;
+        const positionY = dragging ? drag.positionY : table.position_y;
+        const colours = showStatus ? FLOOR_STATUS_STYLES[table.floor_status] : 'bg-white border-gray-400 text-gray-900';
+
+        return (
+          <button
+            key={table.id}
+            type="button"
+            onClick={onMove ? undefined : () => onSelect?.(table)}
+            onPointerDown={(e) => handlePointerDown(e, table)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => handlePointerUp(table)}
+            style={{ left: `${positionX}%`, top: `${positionY}%` }}
+            className={`absolute -translate-x-1/2 -translate-y-1/2 flex flex-col items-center justify-center border-2 shadow-sm transition-shadow ${
+              TABLE_SHAPE_STYLES[table.shape]
+            } ${colours} ${selectedId === table.id ? 'ring-4 ring-blue-400' : ''} ${
+              table.active ? '' : 'opacity-40'
+            } ${onMove ? (dragging ? 'cursor-grabbing shadow-lg z-10' : 'cursor-grab') : 'hover:shadow-md'}`}
+          >
+            <span className="font-bold text-sm leading-tight">{table.name}</span>
+            <span className="text-xs opacity-75">{table.seats} seats</span>
+            {markedIds?.has(table.id) && (
+              <span className="absolute -top-1 -right-1 w-3 h-3 bg-blue-600 border-2 border-white rounded-full" />
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+import { useState, useEffect } from 'react';
+import { supabase, RestaurantTable, TableShape } from '../lib/supabase';
+import { fetchRestaurantTables } from '../lib/data';
+import { TABLE_SHAPES, TABLE_SHAPE_LABELS, tableSections } from '../lib/floorPlan';
+import { bySectionAndName, changedRowId, removeRow, subscribeToChanges, TableChange, upsertRow } from '../lib/realtime';
+import { useAuth } from '../contexts/AuthContext';
+import { ArrowLeft, Plus, Save, Trash2 } from 'lucide-react';
+import { FloorPlan } from './FloorPlan';
+
+type TableFormData = {
+  name: string;
+  section: string;
+  seats: string;
+  shape: TableShape;
+};
+
+const emptyTableForm: TableFormData = { name: '', section: 'Main', seats: '4', shape: 'square' };
+
+type FloorPlanEditorProps = {
+  onBack: () => void;
+};
+
+export function FloorPlanEditor({ onBack }: FloorPlanEditorProps) {
+  const { profile } = useAuth();
+  const [tables, setTables] = useState<RestaurantTable[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [section, setSection] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<TableFormData>(emptyTableForm);
+
+  useEffect(() => {
+    loadTables();
+
+    return subscribeToChanges('floor-plan-editor', [{ table: 'restaurant_tables' }], handleTableChange);
+  }, []);
+
+  const loadTables = async () => {
+    try {
+      const data = await fetchRestaurantTables();
+      setTables(data);
+      setSection((current) => current || data[0]?.section || 'Main');
+    } catch (err) {
+      console.error('Error loading tables:', err);
+      setError('Failed to load tables');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleTableChange = (change: TableChange) => {
+    if (change.eventType === 'DELETE') {
+      setTables((rows) => removeRow(rows, changedRowId(change)));
+    } else {
+      setTables((rows) => upsertRow(rows, change.new as RestaurantTable, bySectionAndName));
+    }
+  };
+
+  const parseForm = () => {
+    const seats = parseInt(form.seats, 10);
+    if (!form.name.trim() || !form.section.trim()) {
+      setError('Please enter a table name and a section');
+      return null;
+    }
+    if (isNaN(seats) || seats < 1) {
+      setError('A table needs at least one seat');
+      return null;
+    }
+    return { name: form.name.trim(), section: form.section.trim(), seats, shape: form.shape };
+  };
+
+  const saveTable = async () => {
+    setError('');
+    const values = parseForm();
+    if (!values) return;
+
+    try {
+      if (selectedId) {
+        const { error } = await supabase.from('restaurant_tables').update(values).eq('id', selectedId);
+
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('restaurant_tables')
+          .insert([{ ...values, created_by: profile?.id }])
+          .select()
+          .single();
+
+        if (error) throw error;
+        setSelectedId(data.id);
+      }
+
+      setSection(values.section);
+      loadTables();
+    } catch (err) {
+      console.error('Error saving table:', err);
+      setError('Failed to save table. Table names must be unique.');
+    }
+  };
+
+  const moveTable = async (tableId: string, positionX: number, positionY: number) => {
+    setError('');
+    setTables((rows) =>
+      rows.map((table) => (table.id === tableId ? { ...table, position_x: positionX, position_y: positionY } : table))
+    );
+
+    try {
+      const { error } = await supabase
+        .from('restaurant_tables')
+        .update({ position_x: positionX, position_y: positionY })
+        .eq('id', tableId);
+
+      if (error) throw error;
+    } catch (err) {
+      console.error('Error moving table:', err);
+      setError('Failed to save the table position');
+      loadTables();
+    }
+  };
+
+  const toggleTableStatus = async (table: RestaurantTable) => {
+    setError('');
+    try {
+      const { error } = await supabase.from('restaurant_tables').update({ active: !table.active }).eq('id', table.id);
+
+      if (error) throw error;
+      loadTables();
+    } catch (err) {
+      console.error('Error toggling table status:', err);
+      setError('Failed to update table status');
+    }
+  };
+
+  const deleteTable = async (tableId: string) => {
+    if (!confirm('Are you sure you want to delete this table? Past orders keep its name.')) return;
+
+    setError('');
+    try {
+      const { error } = await supabase.from('restaurant_tables').delete().eq('id', tableId);
+
+      if (error) throw error;
+
+      startNew();
+      loadTables();
+    } catch (err) {
+      console.error('Error deleting table:', err);
+      setError('Failed to delete table');
+    }
+  };
+
+  const selectTable = (table: RestaurantTable) => {
+    setError('');
+    setSelectedId(table.id);
+    setForm({ name: table.name, section: table.section, seats: String(table.seats), shape: table.shape });
+  };
+
+  const startNew = () => {
+    setSelectedId(null);
+    setForm({ ...emptyTableForm, section: section || emptyTableForm.section });
+  };
+
+  const sections = tableSections(tables);
+  const sectionTables = tables.filter((table) => table.section === section);
+  const selectedTable = tables.find((table) => table.id === selectedId);
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-slate-100 p-6">
+      <div className="max-w-6xl mx-auto">
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-4">
+              <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition">
+                <ArrowLeft className="w-6 h-6 text-gray-600" />
+              </button>
+              <div>
+                <h2 className="text-3xl font-bold text-gray-900">Floor Plan</h2>
+                <p className="text-gray-600 mt-1">Drag tables to arrange them, click one to edit it</p>
+              </div>
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <div className="flex flex-wrap gap-2 mb-4">
+                {sections.map((name) => (
+                  <button
+                    key={name}
+                    onClick={() => setSection(name)}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+                      section === name ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {name}
+                  </button>
+                ))}
+              </div>
+
+              {loading ? (
+                <div className="text-center py-12 text-gray-500">Loading tables...</div>
+              ) : (
+                <FloorPlan tables={sectionTables} selectedId={selectedId} onSelect={selectTable} onMove={moveTable} />
+              )}
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">
+                  {selectedTable ? `Table ${selectedTable.name}` : 'Add New Table'}
+                </h3>
+                {selectedTable && (
+                  <button
+                    onClick={startNew}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-blue-50 text-blue-700 hover:bg-blue-100 rounded-lg text-sm font-medium transition"
+                  >
+                    <Plus className="w-4 h-4" />
+                    New
+                  </button>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                <label className="block text-sm font-medium text-gray-700">
+                  Name
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                    placeholder="e.g., A1"
+                    className={`mt-1 ${inputClass}`}
+                  />
+                </label>
+                <label className="block text-sm font-medium text-gray-700">
+                  Section
+                  <input
+                    type="text"
+                    value={form.section}
+                    onChange={(e) => setForm((prev) => ({ ...prev, section: e.target.value }))}
+                    list="floor-plan-sections"
+                    placeholder="e.g., Terrace"
+                    className={`mt-1 ${inputClass}`}
+                  />
+                  <datalist id="floor-plan-sections">
+                    {sections.map((name) => (
+                      <option key={name} value={name} />
+                    ))}
+                  </datalist>
+                </label>
+                <label className="block text-sm font-medium text-gray-700">
+                  Seats
+                  <input
+                    type="number"
+                    min="1"
+                    value={form.seats}
+                    onChange={(e) => setForm((prev) => ({ ...prev, seats: e.target.value }))}
+                    className={`mt-1 ${inputClass}`}
+                  />
+                </label>
+                <div>
+                  <div className="text-sm font-medium text-gray-700 mb-1">Shape</div>
+                  <div className="grid grid-cols-3 gap-2">
+                    {TABLE_SHAPES.map((shape) => (
+                      <button
+                        key={shape}
+                        type="button"
+                        onClick={() => setForm((prev) => ({ ...prev, shape }))}
+                        className={`px-2 py-2 rounded-lg text-sm font-medium transition ${
+                          form.shape === shape ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                      >
+                        {TABLE_SHAPE_LABELS[shape]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <button
+                  onClick={saveTable}
+                  disabled={!form.name.trim()}
+                  className="w-full flex items-center justify-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {selectedTable ? <Save className="w-5 h-5" /> : <Plus className="w-5 h-5" />}
+                  {selectedTable ? 'Save Table' : 'Add Table'}
+                </button>
+
+                {selectedTable && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => toggleTableStatus(selectedTable)}
+                      className={`flex-1 px-3 py-2 rounded-lg transition text-sm font-medium ${
+                        selectedTable.active
+                          ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+                          : 'bg-green-100 text-green-800 hover:bg-green-200'
+                      }`}
+                    >
+                      {selectedTable.active ? 'Take out of use' : 'Put back in use'}
+                    </button>
+                    <button
+                      onClick={() => deleteTable(selectedTable.id)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                    >
+                      <Trash2 className="w-5 h-5" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
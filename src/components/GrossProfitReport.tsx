@@ -0,0 +1,195 @@
+import { useState, useEffect, useMemo } from 'react';
+import { fetchGrossProfitByItem, ItemProfit } from '../lib/data';
+import { toDateInput } from '../lib/dates';
+
+type GroupBy = 'item' | 'category';
+
+type ProfitRow = {
+  key: string;
+  name: string;
+  quantitySold: number;
+  revenue: number;
+  // Revenue of the rows that have a cost, so margins ignore uncosted items
+  costedRevenue: number;
+  totalCost: number | null;
+  grossProfit: number | null;
+};
+
+function toProfitRow(key: string, name: string, items: ItemProfit[]): ProfitRow {
+  const costed = items.filter((item) => item.totalCost !== null);
+  return {
+    key,
+    name,
+    quantitySold: items.reduce((sum, item) => sum + item.quantitySold, 0),
+    revenue: items.reduce((sum, item) => sum + item.revenue, 0),
+    costedRevenue: costed.reduce((sum, item) => sum + item.revenue, 0),
+    totalCost: costed.length ? costed.reduce((sum, item) => sum + (item.totalCost ?? 0), 0) : null,
+    grossProfit: costed.length ? costed.reduce((sum, item) => sum + (item.grossProfit ?? 0), 0) : null,
+  };
+}
+
+function formatMargin(row: ProfitRow) {
+  if (row.grossProfit === null || row.costedRevenue <= 0) return '—';
+  return `${((row.grossProfit / row.costedRevenue) * 100).toFixed(1)}%`;
+}
+
+export function GrossProfitReport() {
+  const [dateFrom, setDateFrom] = useState(() => {
+    const start = new Date();
+    start.setDate(1);
+    return toDateInput(start);
+  });
+  const [dateTo, setDateTo] = useState(() => toDateInput(new Date()));
+  const [groupBy, setGroupBy] = useState<GroupBy>('item');
+  const [items, setItems] = useState<ItemProfit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadProfit = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const data = await fetchGrossProfitByItem(dateFrom, dateTo);
+        if (!cancelled) setItems(data);
+      } catch (err) {
+        console.error('Error loading gross profit:', err);
+        if (!cancelled) setError('Failed to load gross profit');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadProfit();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dateFrom, dateTo]);
+
+  const rows = useMemo(() => {
+    if (groupBy === 'item') {
+      return items.map((item) => toProfitRow(item.menuId, item.menuName, [item]));
+    }
+
+    const grouped = new Map<string, ItemProfit[]>();
+    items.forEach((item) => {
+      const key = item.categoryId ?? 'uncategorized';
+      grouped.set(key, [...(grouped.get(key) || []), item]);
+    });
+    return Array.from(grouped.entries()).map(([key, categoryItems]) =>
+      toProfitRow(key, categoryItems[0].categoryName, categoryItems)
+    );
+  }, [items, groupBy]);
+
+  const total = toProfitRow('total', 'Total', items);
+  const uncostedCount = items.filter((item) => item.totalCost === null).length;
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none';
+
+  return (
+    <div>
+      <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-4">Gross Profit</h2>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-6">
+        <label className="flex-1 text-sm text-gray-700">
+          From
+          <input
+            type="date"
+            value={dateFrom}
+            onChange={(e) => setDateFrom(e.target.value)}
+            className={`w-full mt-1 ${inputClass}`}
+          />
+        </label>
+        <label className="flex-1 text-sm text-gray-700">
+          To
+          <input
+            type="date"
+            value={dateTo}
+            onChange={(e) => setDateTo(e.target.value)}
+            className={`w-full mt-1 ${inputClass}`}
+          />
+        </label>
+        <label className="flex-1 text-sm text-gray-700">
+          Group by
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+            className={`w-full mt-1 ${inputClass}`}
+          >
+            <option value="item">Menu item</option>
+            <option value="category">Category</option>
+          </select>
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">{error}</div>
+      )}
+
+      {uncostedCount > 0 && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm mb-4">
+          {uncostedCount} {uncostedCount === 1 ? 'item has' : 'items have'} no cost or recipe and{' '}
+          {uncostedCount === 1 ? 'is' : 'are'} left out of cost and profit.
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-500">Loading gross profit...</div>
+      ) : rows.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">No approved sales in this period.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b-2 border-gray-200">
+                <th className="py-2 pr-3 font-medium">{groupBy === 'item' ? 'Item' : 'Category'}</th>
+                <th className="py-2 pr-3 font-medium text-right">Sold</th>
+                <th className="py-2 pr-3 font-medium text-right">Revenue</th>
+                <th className="py-2 pr-3 font-medium text-right">Cost</th>
+                <th className="py-2 pr-3 font-medium text-right">Gross Profit</th>
+                <th className="py-2 pr-3 font-medium text-right">Margin</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.key} className="border-b border-gray-100">
+                  <td className="py-2 pr-3 text-gray-900">{row.name}</td>
+                  <td className="py-2 pr-3 text-right text-gray-700">{row.quantitySold}</td>
+                  <td className="py-2 pr-3 text-right text-gray-700">${row.revenue.toFixed(2)}</td>
+                  <td className="py-2 pr-3 text-right text-gray-700">
+                    {row.totalCost === null ? '—' : `$${row.totalCost.toFixed(2)}`}
+                  </td>
+                  <td
+                    className={`py-2 pr-3 text-right font-medium ${
+                      row.grossProfit !== null && row.grossProfit < 0 ? 'text-red-600' : 'text-gray-900'
+                    }`}
+                  >
+                    {row.grossProfit === null ? '—' : `$${row.grossProfit.toFixed(2)}`}
+                  </td>
+                  <td className="py-2 pr-3 text-right text-gray-700">{formatMargin(row)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t-2 border-gray-200">
+                <td className="py-2 pr-3 font-bold text-gray-900">Total</td>
+                <td className="py-2 pr-3 text-right font-bold text-gray-900">{total.quantitySold}</td>
+                <td className="py-2 pr-3 text-right font-bold text-gray-900">${total.revenue.toFixed(2)}</td>
+                <td className="py-2 pr-3 text-right font-bold text-gray-900">
+                  {total.totalCost === null ? '—' : `$${total.totalCost.toFixed(2)}`}
+                </td>
+                <td className="py-2 pr-3 text-right font-bold text-blue-600">
+                  {total.grossProfit === null ? '—' : `$${total.grossProfit.toFixed(2)}`}
+                </td>
+                <td className="py-2 pr-3 text-right font-bold text-gray-900">{formatMargin(total)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,408 @@
+import { useState, useEffect } from 'react';
+import { supabase, Ingredient } from '../lib/supabase';
+import { fetchIngredients } from '../lib/data';
+import { formatQuantity, isLowStock } from '../lib/inventory';
+import { errorMessage } from '../lib/errors';
+import { useAuth } from '../contexts/AuthContext';
+import { ArrowLeft, Plus, Edit2, Trash2, Save, X, AlertTriangle, PackagePlus } from 'lucide-react';
+
+type IngredientFormData = {
+  name: string;
+  unit: string;
+  lowStockThreshold: string;
+  unitCost: string;
+};
+
+const emptyIngredientForm: IngredientFormData = { name: '', unit: '', lowStockThreshold: '', unitCost: '' };
+
+type InventoryManagementProps = {
+  onBack: () => void;
+};
+
+export function InventoryManagement({ onBack }: InventoryManagementProps) {
+  const { profile } = useAuth();
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [lowStockOnly, setLowStockOnly] = useState(false);
+  const [newIngredient, setNewIngredient] = useState<IngredientFormData>(emptyIngredientForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<IngredientFormData>(emptyIngredientForm);
+  const [adjustingId, setAdjustingId] = useState<string | null>(null);
+  const [adjustQuantity, setAdjustQuantity] = useState('');
+  const [adjustNote, setAdjustNote] = useState('');
+
+  useEffect(() => {
+    loadIngredients();
+  }, []);
+
+  const loadIngredients = async () => {
+    try {
+      setIngredients(await fetchIngredients());
+    } catch (err) {
+      console.error('Error loading ingredients:', err);
+      setError('Failed to load ingredients');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const parseForm = (form: IngredientFormData) => {
+    const threshold = form.lowStockThreshold.trim() ? parseFloat(form.lowStockThreshold) : 0;
+    const unitCost = form.unitCost.trim() ? parseFloat(form.unitCost) : 0;
+    if (!form.name.trim() || !form.unit.trim()) {
+      setError('Please enter a name and a unit');
+      return null;
+    }
+    if (isNaN(threshold) || threshold < 0) {
+      setError('Low stock level must be zero or more');
+      return null;
+    }
+    if (isNaN(unitCost) || unitCost < 0) {
+      setError('Unit cost must be zero or more');
+      return null;
+    }
+    return { name: form.name.trim(), unit: form.unit.trim(), low_stock_threshold: threshold, unit_cost: unitCost };
+  };
+
+  const addIngredient = async () => {
+    setError('');
+    const values = parseForm(newIngredient);
+    if (!values) return;
+
+    try {
+      const { error } = await supabase.from('ingredients').insert([{ ...values, created_by: profile?.id }]);
+
+      if (error) throw error;
+
+      setNewIngredient(emptyIngredientForm);
+      loadIngredients();
+    } catch (err) {
+      console.error('Error adding ingredient:', err);
+      setError('Failed to add ingredient. Ingredient names must be unique.');
+    }
+  };
+
+  const updateIngredient = async (ingredientId: string) => {
+    setError('');
+    const values = parseForm(editForm);
+    if (!values) return;
+
+    try {
+      const { error } = await supabase.from('ingredients').update(values).eq('id', ingredientId);
+
+      if (error) throw error;
+
+      setEditingId(null);
+      loadIngredients();
+    } catch (err) {
+      console.error('Error updating ingredient:', err);
+      setError('Failed to update ingredient');
+    }
+  };
+
+  const deleteIngredient = async (ingredientId: string) => {
+    if (!confirm('Are you sure you want to delete this ingredient? It will be removed from every recipe.')) {
+      return;
+    }
+
+    setError('');
+    try {
+      const { error } = await supabase.from('ingredients').delete().eq('id', ingredientId);
+
+      if (error) throw error;
+      loadIngredients();
+    } catch (err) {
+      console.error('Error deleting ingredient:', err);
+      setError('Failed to delete ingredient');
+    }
+  };
+
+  const adjustStock = async (ingredientId: string) => {
+    setError('');
+    const quantityChange = parseFloat(adjustQuantity);
+    if (isNaN(quantityChange) || quantityChange === 0) {
+      setError('Enter a positive quantity to add stock or a negative one to remove it');
+      return;
+    }
+
+    try {
+      const { error } = await supabase.rpc('adjust_ingredient_stock', {
+        p_ingredient_id: ingredientId,
+        p_quantity_change: quantityChange,
+        p_note: adjustNote,
+      });
+
+      if (error) throw error;
+
+      cancelAdjust();
+      loadIngredients();
+    } catch (err) {
+      console.error('Error adjusting stock:', err);
+      setError(errorMessage(err, 'Failed to adjust stock'));
+    }
+  };
+
+  const startEdit = (ingredient: Ingredient) => {
+    cancelAdjust();
+    setEditingId(ingredient.id);
+    setEditForm({
+      name: ingredient.name,
+      unit: ingredient.unit,
+      lowStockThreshold: String(ingredient.low_stock_threshold),
+      unitCost: String(ingredient.unit_cost),
+    });
+  };
+
+  const startAdjust = (ingredientId: string) => {
+    setEditingId(null);
+    setAdjustingId(ingredientId);
+    setAdjustQuantity('');
+    setAdjustNote('');
+  };
+
+  const cancelAdjust = () => {
+    setAdjustingId(null);
+    setAdjustQuantity('');
+    setAdjustNote('');
+  };
+
+  const lowStockCount = ingredients.filter(isLowStock).length;
+  const visibleIngredients = lowStockOnly ? ingredients.filter(isLowStock) : ingredients;
+
+  const inputClass =
+    'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-slate-100 p-6">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-4">
+              <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition">
+                <ArrowLeft className="w-6 h-6 text-gray-600" />
+              </button>
+              <div>
+                <h2 className="text-3xl font-bold text-gray-900">Inventory</h2>
+                <p className="text-gray-600 mt-1">Stock is used up automatically when payments are approved</p>
+              </div>
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+              {error}
+            </div>
+          )}
+
+          <div className="mb-8">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Add New Ingredient</h3>
+            <div className="flex flex-col sm:flex-row gap-3">
+              <input
+                type="text"
+                value={newIngredient.name}
+                onChange={(e) => setNewIngredient((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Coffee beans"
+                className={`flex-1 ${inputClass}`}
+              />
+              <input
+                type="text"
+                value={newIngredient.unit}
+                onChange={(e) => setNewIngredient((prev) => ({ ...prev, unit: e.target.value }))}
+                placeholder="Unit, e.g. kg"
+                className={`sm:w-32 ${inputClass}`}
+              />
+              <input
+                type="number"
+                step="any"
+                min="0"
+                value={newIngredient.lowStockThreshold}
+                onChange={(e) => setNewIngredient((prev) => ({ ...prev, lowStockThreshold: e.target.value }))}
+                placeholder="Low stock at"
+                className={`sm:w-36 ${inputClass}`}
+              />
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={newIngredient.unitCost}
+                onChange={(e) => setNewIngredient((prev) => ({ ...prev, unitCost: e.target.value }))}
+                placeholder="$ / unit"
+                className={`sm:w-28 ${inputClass}`}
+              />
+              <button
+                onClick={addIngredient}
+                disabled={!newIngredient.name.trim() || !newIngredient.unit.trim()}
+                className="flex items-center justify-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Plus className="w-5 h-5" />
+                Add
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Stock on Hand</h3>
+              <button
+                onClick={() => setLowStockOnly(!lowStockOnly)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition ${
+                  lowStockOnly ? 'bg-red-600 text-white hover:bg-red-700' : 'bg-red-50 text-red-700 hover:bg-red-100'
+                }`}
+              >
+                <AlertTriangle className="w-4 h-4" />
+                Low stock ({lowStockCount})
+              </button>
+            </div>
+
+            {loading ? (
+              <div className="text-center py-12 text-gray-500">Loading ingredients...</div>
+            ) : visibleIngredients.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                {lowStockOnly ? 'Nothing is running low.' : 'No ingredients yet. Add your first ingredient above.'}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {visibleIngredients.map((ingredient) => {
+                  const low = isLowStock(ingredient);
+                  return (
+                    <div
+                      key={ingredient.id}
+                      className={`border rounded-lg p-4 ${low ? 'bg-red-50 border-red-200' : 'bg-white border-gray-200'}`}
+                    >
+                      {editingId === ingredient.id ? (
+                        <div className="flex flex-col sm:flex-row gap-3">
+                          <input
+                            type="text"
+                            value={editForm.name}
+                            onChange={(e) => setEditForm((prev) => ({ ...prev, name: e.target.value }))}
+                            className={`flex-1 ${inputClass}`}
+                            autoFocus
+                          />
+                          <input
+                            type="text"
+                            value={editForm.unit}
+                            onChange={(e) => setEditForm((prev) => ({ ...prev, unit: e.target.value }))}
+                            className={`sm:w-24 ${inputClass}`}
+                          />
+                          <input
+                            type="number"
+                            step="any"
+                            min="0"
+                            value={editForm.lowStockThreshold}
+                            onChange={(e) => setEditForm((prev) => ({ ...prev, lowStockThreshold: e.target.value }))}
+                            className={`sm:w-28 ${inputClass}`}
+                          />
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={editForm.unitCost}
+                            onChange={(e) => setEditForm((prev) => ({ ...prev, unitCost: e.target.value }))}
+                            className={`sm:w-24 ${inputClass}`}
+                          />
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => updateIngredient(ingredient.id)}
+                              className="p-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition"
+                            >
+                              <Save className="w-5 h-5" />
+                            </button>
+                            <button
+                              onClick={() => setEditingId(null)}
+                              className="p-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition"
+                            >
+                              <X className="w-5 h-5" />
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="flex items-center justify-between gap-3">
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <span className="text-lg font-semibold text-gray-900">{ingredient.name}</span>
+                              {low && (
+                                <span className="px-2 py-1 bg-red-200 text-red-800 rounded text-xs font-medium">
+                                  LOW
+                                </span>
+                              )}
+                            </div>
+                            <div className="text-sm text-gray-600">
+                              Low stock at {formatQuantity(ingredient.low_stock_threshold, ingredient.unit)} · $
+                              {Number(ingredient.unit_cost).toFixed(2)} per {ingredient.unit}
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className={`text-xl font-bold mr-2 ${low ? 'text-red-700' : 'text-gray-900'}`}>
+                              {formatQuantity(ingredient.stock_on_hand, ingredient.unit)}
+                            </span>
+                            <button
+                              onClick={() => startAdjust(ingredient.id)}
+                              title="Adjust stock"
+                              className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition"
+                            >
+                              <PackagePlus className="w-5 h-5" />
+                            </button>
+                            <button
+                              onClick={() => startEdit(ingredient)}
+                              className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                            >
+                              <Edit2 className="w-5 h-5" />
+                            </button>
+                            <button
+                              onClick={() => deleteIngredient(ingredient.id)}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                            >
+                              <Trash2 className="w-5 h-5" />
+                            </button>
+                          </div>
+                        </div>
+                      )}
+
+                      {adjustingId === ingredient.id && (
+                        <div className="flex flex-col sm:flex-row gap-3 mt-3 pt-3 border-t border-gray-200">
+                          <input
+                            type="number"
+                            step="any"
+                            value={adjustQuantity}
+                            onChange={(e) => setAdjustQuantity(e.target.value)}
+                            placeholder={`± ${ingredient.unit}`}
+                            className={`sm:w-32 ${inputClass}`}
+                            autoFocus
+                          />
+                          <input
+                            type="text"
+                            value={adjustNote}
+                            onChange={(e) => setAdjustNote(e.target.value)}
+                            onKeyPress={(e) => e.key === 'Enter' && adjustStock(ingredient.id)}
+                            placeholder="Reason, e.g. delivery, stock count, spillage"
+                            className={`flex-1 ${inputClass}`}
+                          />
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => adjustStock(ingredient.id)}
+                              disabled={!adjustQuantity || !adjustNote.trim()}
+                              className="p-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition disabled:opacity-50"
+                            >
+                              <Save className="w-5 h-5" />
+                            </button>
+                            <button
+                              onClick={cancelAdjust}
+                              className="p-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition"
+                            >
+                              <X className="w-5 h-5" />
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
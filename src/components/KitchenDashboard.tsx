@@ -0,0 +1,334 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase, KitchenItem, OrderItemStatus, Station } from '../lib/supabase';
+import { fetchKitchenItem, fetchKitchenItems } from '../lib/data';
+import { byCreatedAtAsc, changedRowId, removeRow, subscribeToChanges, upsertRow } from '../lib/realtime';
+import { nextOrderItemStatus, ORDER_ITEM_STATUS_STYLES, previousOrderItemStatus } from '../lib/kitchen';
+import { errorMessage } from '../lib/errors';
+import { useAuth } from '../contexts/AuthContext';
+import { LogOut, X, ChevronRight, Undo2, Clock, BookOpen } from 'lucide-react';
+import { MenuManagement } from './MenuManagement';
+
+// How long served items stay on screen so a mistaken bump can be recalled
+const SERVED_WINDOW_MINUTES = 30;
+const SERVED_WINDOW_MS = SERVED_WINDOW_MINUTES * 60 * 1000;
+
+const COLUMNS: { status: OrderItemStatus; title: string; bumpLabel: string }[] = [
+  { status: 'queued', title: 'Queued', bumpLabel: 'Start' },
+  { status: 'preparing', title: 'Preparing', bumpLabel: 'Ready' },
+  { status: 'ready', title: 'Ready', bumpLabel: 'Served' },
+];
+
+type Ticket = {
+  orderId: string;
+  tableNumber: string;
+  notes?: string;
+  createdAt: string;
+  items: KitchenItem[];
+};
+
+function isOnDisplay(item: KitchenItem, now: number) {
+  if (item.status !== 'served') return true;
+  return !!item.status_updated_at && new Date(item.status_updated_at).getTime() >= now - SERVED_WINDOW_MS;
+}
+
+function toTickets(items: KitchenItem[]): Ticket[] {
+  const tickets = new Map<string, Ticket>();
+
+  items.forEach((item) => {
+    const ticket = tickets.get(item.order_id);
+    if (ticket) {
+      ticket.items.push(item);
+    } else {
+      tickets.set(item.order_id, {
+        orderId: item.order_id,
+        tableNumber: item.order.table_number,
+        notes: item.order.notes,
+        createdAt: item.created_at,
+        items: [item],
+      });
+    }
+  });
+
+  return Array.from(tickets.values());
+}
+
+function minutesSince(timestamp: string, now: number) {
+  return Math.max(0, Math.floor((now - new Date(timestamp).getTime()) / 60000));
+}
+
+export function KitchenDashboard() {
+  const { profile, signOut } = useAuth();
+  const [items, setItems] = useState<KitchenItem[]>([]);
+  const [stations, setStations] = useState<Station[]>([]);
+  const [stationFilter, setStationFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [updatingIds, setUpdatingIds] = useState<string[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [showMenu, setShowMenu] = useState(false);
+
+  useEffect(() => {
+    loadItems();
+    loadStations();
+
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+
+    const unsubscribe = subscribeToChanges('kitchen-changes', [{ table: 'order_items' }], async (change) => {
+      const itemId = changedRowId(change);
+      try {
+        const item = change.eventType === 'DELETE' ? null : await fetchKitchenItem(itemId);
+        setItems((rows) =>
+          item && isOnDisplay(item, Date.now()) ? upsertRow(rows, item, byCreatedAtAsc) : removeRow(rows, itemId)
+        );
+      } catch (err) {
+        console.error('Error loading changed kitchen item:', err);
+      }
+    });
+
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+    };
+  }, []);
+
+  const loadItems = async () => {
+    try {
+      setItems(await fetchKitchenItems(new Date(Date.now() - SERVED_WINDOW_MS).toISOString()));
+    } catch (err) {
+      console.error('Error loading kitchen items:', err);
+      setError('Failed to load kitchen items');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadStations = async () => {
+    try {
+      const { data, error: err } = await supabase
+        .from('stations')
+        .select('*')
+        .eq('active', true)
+        .order('name', { ascending: true });
+
+      if (err) throw err;
+      setStations(data || []);
+    } catch (err) {
+      console.error('Error loading stations:', err);
+    }
+  };
+
+  const ticketsByStatus = useMemo(() => {
+    const visible = items.filter(
+      (item) => isOnDisplay(item, now) && (!stationFilter || item.station_id === stationFilter)
+    );
+    return {
+      queued: toTickets(visible.filter((item) => item.status === 'queued')),
+      preparing: toTickets(visible.filter((item) => item.status === 'preparing')),
+      ready: toTickets(visible.filter((item) => item.status === 'ready')),
+      served: toTickets(visible.filter((item) => item.status === 'served')).reverse(),
+    };
+  }, [items, now, stationFilter]);
+
+  const setItemStatus = async (itemIds: string[], status: OrderItemStatus | null) => {
+    if (!status) return;
+
+    setError('');
+    setUpdatingIds((ids) => [...ids, ...itemIds]);
+    try {
+      for (const itemId of itemIds) {
+        const { error: err } = await supabase.rpc('set_order_item_status', {
+          p_item_id: itemId,
+          p_status: status,
+        });
+
+        if (err) throw err;
+      }
+    } catch (err) {
+      console.error('Error updating item status:', err);
+      setError(errorMessage(err, 'Failed to update item'));
+    } finally {
+      setUpdatingIds((ids) => ids.filter((id) => !itemIds.includes(id)));
+    }
+  };
+
+  const renderTicket = (ticket: Ticket, status: OrderItemStatus, bumpLabel?: string) => {
+    const waitMinutes = minutesSince(ticket.createdAt, now);
+    const ticketBusy = ticket.items.some((item) => updatingIds.includes(item.id));
+
+    return (
+      <div key={ticket.orderId} className="bg-white rounded-xl shadow border border-gray-200 overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-2 bg-gray-50 border-b border-gray-200">
+          <div className="font-bold text-gray-900">Table {ticket.tableNumber}</div>
+          <div
+            className={`flex items-center gap-1 text-sm font-medium ${
+              status !== 'served' && waitMinutes >= 15 ? 'text-red-600' : 'text-gray-600'
+            }`}
+          >
+            <Clock className="w-4 h-4" />
+            {waitMinutes} min
+          </div>
+        </div>
+
+        {ticket.notes && (
+          <div className="px-4 py-2 bg-amber-50 border-b border-amber-200 text-sm font-semibold text-amber-900">
+            {ticket.notes}
+          </div>
+        )}
+
+        <div className="divide-y divide-gray-100">
+          {ticket.items.map((item) => {
+            const busy = updatingIds.includes(item.id);
+            const previous = previousOrderItemStatus(item.status);
+            const next = nextOrderItemStatus(item.status);
+
+            return (
+              <div key={item.id} className="flex items-center gap-2 px-4 py-2">
+                <span className="text-lg font-bold text-gray-900 w-8">{item.quantity}×</span>
+                <div className="flex-1">
+                  <div className="font-medium text-gray-900">{item.menu.name}</div>
+                  {item.modifiers.length > 0 && (
+                    <div className="text-sm font-semibold text-orange-700">
+                      {item.modifiers.map((modifier) => modifier.name).join(', ')}
+                    </div>
+                  )}
+                  {item.notes && <div className="text-sm font-semibold text-amber-700">Note: {item.notes}</div>}
+                </div>
+                {previous && (
+                  <button
+                    onClick={() => setItemStatus([item.id], previous)}
+                    disabled={busy}
+                    title={`Recall to ${previous}`}
+                    className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition disabled:opacity-50"
+                  >
+                    <Undo2 className="w-4 h-4" />
+                  </button>
+                )}
+                {next && (
+                  <button
+                    onClick={() => setItemStatus([item.id], next)}
+                    disabled={busy}
+                    title={`Bump to ${next}`}
+                    className="p-2 text-orange-600 hover:bg-orange-50 rounded-lg transition disabled:opacity-50"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {bumpLabel && ticket.items.length > 1 && (
+          <button
+            onClick={() => setItemStatus(ticket.items.map((item) => item.id), nextOrderItemStatus(status))}
+            disabled={ticketBusy}
+            className="w-full py-2 bg-orange-600 text-white text-sm font-medium hover:bg-orange-700 transition disabled:opacity-50"
+          >
+            {bumpLabel} all
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  if (showMenu) {
+    return <MenuManagement onBack={() => setShowMenu(false)} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 to-slate-100">
+      <div className="max-w-7xl mx-auto p-6">
+        <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Kitchen Display</h1>
+              <p className="text-gray-600 mt-1">Welcome, {profile?.full_name}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                value={stationFilter}
+                onChange={(e) => setStationFilter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 outline-none"
+              >
+                <option value="">All stations</option>
+                {stations.map((station) => (
+                  <option key={station.id} value={station.id}>
+                    {station.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => setShowMenu(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition"
+              >
+                <BookOpen className="w-5 h-5" />
+                Menu
+              </button>
+              <button
+                onClick={() => signOut()}
+                className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition"
+              >
+                <LogOut className="w-5 h-5" />
+                Sign Out
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-start justify-between gap-3 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-6">
+            <span>{error}</span>
+            <button onClick={() => setError('')} className="p-1 hover:bg-white rounded transition flex-shrink-0">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-12 text-gray-600">Loading tickets...</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+              {COLUMNS.map((column) => {
+                const tickets = ticketsByStatus[column.status];
+                return (
+                  <div key={column.status} className="bg-white/60 rounded-2xl shadow-lg p-4">
+                    <div className="flex items-center justify-between mb-4">
+                      <h2 className="text-xl font-bold text-gray-900">{column.title}</h2>
+                      <span
+                        className={`px-2 py-1 rounded text-xs font-medium ${ORDER_ITEM_STATUS_STYLES[column.status]}`}
+                      >
+                        {tickets.reduce((sum, ticket) => sum + ticket.items.length, 0)} items
+                      </span>
+                    </div>
+                    {tickets.length === 0 ? (
+                      <div className="text-center py-8 text-gray-500">Nothing here</div>
+                    ) : (
+                      <div className="space-y-4">
+                        {tickets.map((ticket) => renderTicket(ticket, column.status, column.bumpLabel))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="bg-white rounded-2xl shadow-lg p-6">
+              <h2 className="text-xl font-bold text-gray-900 mb-1">Recently Served</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Items served in the last {SERVED_WINDOW_MINUTES} minutes can be recalled.
+              </p>
+              {ticketsByStatus.served.length === 0 ? (
+                <div className="text-center py-6 text-gray-500">No recently served items</div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {ticketsByStatus.served.map((ticket) => renderTicket(ticket, 'served'))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState, useEffect, useMemo } from 'react';
+import { fetchGrossProfitByItem, ItemProfit } from '../lib/data';
+import { toDateInput } from '../lib/dates';
+import {
+  engineerMenu,
+  MenuClass,
+  MENU_CLASSES,
+  MENU_CLASS_DESCRIPTIONS,
+  MENU_CLASS_LABELS,
+  MENU_CLASS_STYLES,
+} from '../lib/menuEngineering';
+import { MenuItemTrend } from './MenuItemTrend';
+
+export function MenuEngineeringReport() {
+  const [dateFrom, setDateFrom] = useState(() => {
+    const start = new Date();
+    start.setDate(start.getDate() - 29);
+    return toDateInput(start);
+  });
+  const [dateTo, setDateTo] = useState(() => toDateInput(new Date()));
+  const [profits, setProfits] = useState<ItemProfit[]>([]);
+  const [classFilter, setClassFilter] = useState<MenuClass | null>(null);
+  const [selectedItem, setSelectedItem] = useState<{ menuId: string; menuName: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSales = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const data = await fetchGrossProfitByItem(dateFrom, dateTo);
+        if (!cancelled) setProfits(data);
+      } catch (err) {
+        console.error('Error loading menu engineering:', err);
+        if (!cancelled) setError('Failed to load menu sales');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadSales();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dateFrom, dateTo]);
+
+  const engineering = useMemo(() => engineerMenu(profits), [profits]);
+
+  const visibleItems = classFilter
+    ? engineering.items.filter((item) => item.menuClass === classFilter)
+    : engineering.items;
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none';
+
+  return (
+    <div>
+      <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-1">Menu Engineering</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Popular items sell at least {engineering.popularityThreshold.toFixed(1)}% of the menu mix. Profitable items
+        contribute at least ${engineering.averageContribution.toFixed(2)} each.
+      </p>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-6">
+        <label className="flex-1 text-sm text-gray-700">
+          From
+          <input
+            type="date"
+            value={dateFrom}
+            onChange={(e) => setDateFrom(e.target.value)}
+            className={`w-full mt-1 ${inputClass}`}
+          />
+        </label>
+        <label className="flex-1 text-sm text-gray-700">
+          To
+          <input
+            type="date"
+            value={dateTo}
+            onChange={(e) => setDateTo(e.target.value)}
+            className={`w-full mt-1 ${inputClass}`}
+          />
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">{error}</div>
+      )}
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-6">
+        {MENU_CLASSES.map((menuClass) => (
+          <button
+            key={menuClass}
+            onClick={() => setClassFilter(classFilter === menuClass ? null : menuClass)}
+            className={`text-left p-4 rounded-xl border-2 transition ${
+              classFilter === menuClass ? 'border-blue-500' : 'border-transparent'
+            } ${MENU_CLASS_STYLES[menuClass]}`}
+          >
+            <div className="text-2xl font-bold">
+              {engineering.items.filter((item) => item.menuClass === menuClass).length}
+            </div>
+            <div className="font-semibold">{MENU_CLASS_LABELS[menuClass]}s</div>
+            <div className="text-xs mt-1 opacity-80">{MENU_CLASS_DESCRIPTIONS[menuClass]}</div>
+          </button>
+        ))}
+      </div>
+
+      {engineering.uncostedItems.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm mb-4">
+          Not classified because they have no cost or recipe:{' '}
+          {engineering.uncostedItems.map((item) => item.menuName).join(', ')}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-500">Loading menu sales...</div>
+      ) : visibleItems.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">No costed items sold in this period.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b-2 border-gray-200">
+                <th className="py-2 pr-3 font-medium">Item</th>
+                <th className="py-2 pr-3 font-medium">Class</th>
+                <th className="py-2 pr-3 font-medium text-right">Sold</th>
+                <th className="py-2 pr-3 font-medium text-right">Menu Mix</th>
+                <th className="py-2 pr-3 font-medium text-right">Contribution / Item</th>
+                <th className="py-2 pr-3 font-medium text-right">Total Contribution</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleItems.map((item) => (
+                <tr
+                  key={item.menuId}
+                  onClick={() => setSelectedItem({ menuId: item.menuId, menuName: item.menuName })}
+                  className={`border-b border-gray-100 cursor-pointer hover:bg-gray-50 ${
+                    selectedItem?.menuId === item.menuId ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <td className="py-2 pr-3">
+                    <div className="text-gray-900">{item.menuName}</div>
+                    <div className="text-xs text-gray-500">{item.categoryName}</div>
+                  </td>
+                  <td className="py-2 pr-3">
+                    <span className={`px-2 py-1 rounded text-xs font-medium ${MENU_CLASS_STYLES[item.menuClass]}`}>
+                      {MENU_CLASS_LABELS[item.menuClass]}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-3 text-right text-gray-700">{item.quantitySold}</td>
+                  <td className="py-2 pr-3 text-right text-gray-700">{item.menuMixPercent.toFixed(1)}%</td>
+                  <td
+                    className={`py-2 pr-3 text-right ${item.unitContribution < 0 ? 'text-red-600' : 'text-gray-700'}`}
+                  >
+                    ${item.unitContribution.toFixed(2)}
+                  </td>
+                  <td className="py-2 pr-3 text-right font-medium text-gray-900">
+                    ${item.totalContribution.toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selectedItem && (
+        <MenuItemTrend
+          menuId={selectedItem.menuId}
+          menuName={selectedItem.menuName}
+          dateFrom={dateFrom}
+          dateTo={dateTo}
+          onClose={() => setSelectedItem(null)}
+        />
+      )}
+    </div>
+  );
+}
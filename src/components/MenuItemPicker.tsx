@@ -0,0 +1,155 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Menu, MenuCategory } from '../lib/supabase';
+import { availabilityLabel, currentAvailability, isOrderable } from '../lib/availability';
+import { X, Search } from 'lucide-react';
+
+const ALL_CATEGORIES = 'all';
+const UNCATEGORIZED = 'none';
+
+type MenuItemPickerProps = {
+  menuItems: Menu[];
+  categories: MenuCategory[];
+  // Items whose ingredients have run out; shown but cannot be picked
+  outOfStockIds?: Set<string>;
+  onSelect: (menu: Menu) => void;
+};
+
+export function MenuItemPicker({ menuItems, categories, outOfStockIds, onSelect }: MenuItemPickerProps) {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [activeCategory, setActiveCategory] = useState(ALL_CATEGORIES);
+  const [now, setNow] = useState(Date.now());
+
+  // Sold out items with a time come back without any realtime event
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const visibleItems = useMemo(
+    () => menuItems.filter((item) => currentAvailability(item, now) !== 'hidden'),
+    [menuItems, now]
+  );
+
+  const hasUncategorized = useMemo(
+    () => visibleItems.some((item) => !item.category_id || !categories.some((c) => c.id === item.category_id)),
+    [visibleItems, categories]
+  );
+
+  const filteredMenuItems = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    const categoryIds = new Set(categories.map((c) => c.id));
+
+    return visibleItems
+      .filter((item) => {
+        if (activeCategory === ALL_CATEGORIES) return true;
+        if (activeCategory === UNCATEGORIZED) return !item.category_id || !categoryIds.has(item.category_id);
+        return item.category_id === activeCategory;
+      })
+      .filter((item) => !query || item.name.toLowerCase().includes(query))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [visibleItems, categories, searchQuery, activeCategory]);
+
+  const tabClass = (category: string) =>
+    `px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition ${
+      activeCategory === category ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+    }`;
+
+  return (
+    <>
+      <div className="mb-4">
+        <div className="relative">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Search className="h-5 w-5 text-gray-400" />
+          </div>
+          <input
+            type="text"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search menu items by name..."
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          />
+          {searchQuery && (
+            <button
+              type="button"
+              onClick={() => setSearchQuery('')}
+              className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+        {searchQuery && (
+          <div className="mt-2 text-sm text-gray-600">
+            Found {filteredMenuItems.length} item{filteredMenuItems.length !== 1 ? 's' : ''}
+          </div>
+        )}
+      </div>
+
+      {categories.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto pb-2 mb-4">
+          <button type="button" onClick={() => setActiveCategory(ALL_CATEGORIES)} className={tabClass(ALL_CATEGORIES)}>
+            All
+          </button>
+          {categories.map((category) => (
+            <button
+              key={category.id}
+              type="button"
+              onClick={() => setActiveCategory(category.id)}
+              className={tabClass(category.id)}
+            >
+              {category.name}
+            </button>
+          ))}
+          {hasUncategorized && (
+            <button type="button" onClick={() => setActiveCategory(UNCATEGORIZED)} className={tabClass(UNCATEGORIZED)}>
+              Other
+            </button>
+          )}
+        </div>
+      )}
+
+      {visibleItems.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">No menu items available</div>
+      ) : filteredMenuItems.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          {searchQuery ? `No menu items match "${searchQuery}"` : 'No menu items in this category'}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {filteredMenuItems.map((item) => {
+            const outOfStock = !!outOfStockIds?.has(item.id);
+            const orderable = isOrderable(item, now) && !outOfStock;
+            return (
+              <button
+                key={item.id}
+                type="button"
+                onClick={() => onSelect(item)}
+                disabled={!orderable}
+                className={`text-left border-2 rounded-lg p-4 transition ${
+                  orderable
+                    ? 'border-gray-200 hover:border-blue-500 hover:bg-blue-50'
+                    : 'border-gray-200 bg-gray-50 opacity-60 cursor-not-allowed'
+                }`}
+              >
+                {item.picture_url && (
+                  <div className="h-32 bg-gray-200 rounded mb-2 overflow-hidden">
+                    <img src={item.picture_url} alt={item.name} className="w-full h-full object-cover" />
+                  </div>
+                )}
+                <div className="font-semibold text-gray-900">{item.name}</div>
+                <div className="text-blue-600 font-bold">${item.price.toFixed(2)}</div>
+                {orderable ? (
+                  <div className="text-sm text-gray-500 mt-1">Click to add</div>
+                ) : (
+                  <div className="text-sm font-semibold text-red-600 mt-1">
+                    {isOrderable(item, now) ? 'Out of stock' : availabilityLabel(item, now)}
+                  </div>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+import { fetchMenuItemDailySales, DailySales } from '../lib/data';
+import { fillDailySales } from '../lib/menuEngineering';
+import { X } from 'lucide-react';
+
+type MenuItemTrendProps = {
+  menuId: string;
+  menuName: string;
+  dateFrom: string;
+  dateTo: string;
+  onClose: () => void;
+};
+
+export function MenuItemTrend({ menuId, menuName, dateFrom, dateTo, onClose }: MenuItemTrendProps) {
+  const [days, setDays] = useState<DailySales[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTrend = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const sales = await fetchMenuItemDailySales(menuId, dateFrom, dateTo);
+        if (!cancelled) setDays(fillDailySales(sales, dateFrom, dateTo));
+      } catch (err) {
+        console.error('Error loading daily sales:', err);
+        if (!cancelled) setError('Failed to load daily sales');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadTrend();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [menuId, dateFrom, dateTo]);
+
+  const maxQuantity = Math.max(1, ...days.map((day) => day.quantitySold));
+  const totalQuantity = days.reduce((sum, day) => sum + day.quantitySold, 0);
+  const totalRevenue = days.reduce((sum, day) => sum + day.revenue, 0);
+
+  return (
+    <div className="border border-gray-200 rounded-xl p-4 mt-4 bg-gray-50">
+      <div className="flex items-start justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">{menuName}</h3>
+          <p className="text-sm text-gray-600">
+            {totalQuantity} sold · ${totalRevenue.toFixed(2)} revenue
+          </p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-gray-200 rounded-lg transition">
+          <X className="w-5 h-5 text-gray-600" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-500">Loading daily sales...</div>
+      ) : days.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">No sales in this period.</div>
+      ) : (
+        <div className="space-y-1 max-h-80 overflow-y-auto">
+          {days.map((day) => (
+            <div key={day.saleDate} className="flex items-center gap-3 text-sm">
+              <span className="w-24 flex-shrink-0 text-gray-600">
+                {new Date(`${day.saleDate}T00:00:00`).toLocaleDateString()}
+              </span>
+              <div className="flex-1 h-4 bg-white rounded">
+                <div
+                  className="h-4 bg-blue-500 rounded"
+                  style={{ width: `${(day.quantitySold / maxQuantity) * 100}%` }}
+                />
+              </div>
+              <span className="w-10 text-right font-medium text-gray-900">{day.quantitySold}</span>
+              <span className="w-20 text-right text-gray-600">${day.revenue.toFixed(2)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,45 @@
 import { useState, useEffect } from 'react';
-import { supabase, Menu } from '../lib/supabase';
-import { Plus, Edit2, Trash2, X, Upload, ArrowLeft } from 'lucide-react';
+import { supabase, Menu, MenuAvailability, MenuCategory, Station, TaxClass } from '../lib/supabase';
+import { fetchMenuCategories, fetchMenuItemCosts, MenuItemCost } from '../lib/data';
+import { foodCostPercent, foodCostStyle } from '../lib/costing';
+import { byCreatedAtDesc, changedRowId, removeRow, subscribeToChanges, upsertRow } from '../lib/realtime';
+import {
+  availabilityLabel,
+  currentAvailability,
+  MENU_AVAILABILITY_LABELS,
+  MENU_AVAILABILITY_OPTIONS,
+  MENU_AVAILABILITY_STYLES,
+  nextOccurrence,
+} from '../lib/availability';
+import { TAX_CLASS_LABELS } from '../lib/tax';
+import { errorMessage } from '../lib/errors';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  Plus,
+  Edit2,
+  Trash2,
+  X,
+  Upload,
+  ArrowLeft,
+  ChefHat,
+  Tags,
+  SlidersHorizontal,
+  ClipboardList,
+  Percent,
+} from 'lucide-react';
+import { StationManagement } from './StationManagement';
+import { CategoryManagement } from './CategoryManagement';
+import { ModifierGroupsEditor } from './ModifierGroupsEditor';
+import { RecipeEditor } from './RecipeEditor';
+import { TaxSettings } from './TaxSettings';
 
 type MenuFormData = {
   name: string;
   price: string;
+  cost: string;
+  stationId: string;
+  categoryId: string;
+  taxClass: TaxClass;
   picture?: File;
 };
 
@@ -13,16 +48,48 @@ type MenuManagementProps = {
 };
 
 export function MenuManagement({ onBack }: MenuManagementProps = {}) {
+  const { profile } = useAuth();
+  // Kitchen staff only switch availability; everything else is for cashiers
+  const canEditMenu = profile?.role === 'cashier';
   const [items, setItems] = useState<Menu[]>([]);
+  const [costs, setCosts] = useState<Record<string, MenuItemCost>>({});
+  const [stations, setStations] = useState<Station[]>([]);
+  const [showStations, setShowStations] = useState(false);
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [showCategories, setShowCategories] = useState(false);
+  const [showTaxSettings, setShowTaxSettings] = useState(false);
+  const [modifiersFor, setModifiersFor] = useState<Menu | null>(null);
+  const [recipeFor, setRecipeFor] = useState<Menu | null>(null);
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [formData, setFormData] = useState<MenuFormData>({ name: '', price: '' });
+  const [formData, setFormData] = useState<MenuFormData>({
+    name: '',
+    price: '',
+    cost: '',
+    stationId: '',
+    categoryId: '',
+    taxClass: 'standard',
+  });
   const [picturePreview, setPicturePreview] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [availabilityError, setAvailabilityError] = useState('');
+  const [soldOutUntil, setSoldOutUntil] = useState<Record<string, string>>({});
+  const [updatingAvailabilityId, setUpdatingAvailabilityId] = useState<string | null>(null);
 
   useEffect(() => {
     loadItems();
+    loadStations();
+    loadCategories();
+    loadCosts();
+
+    return subscribeToChanges('menu-management', [{ table: 'menu' }], (change) => {
+      if (change.eventType === 'DELETE') {
+        setItems((rows) => removeRow(rows, changedRowId(change)));
+      } else {
+        setItems((rows) => upsertRow(rows, change.new as Menu, byCreatedAtDesc));
+      }
+    });
   }, []);
 
   const loadItems = async () => {
@@ -37,6 +104,32 @@ export function MenuManagement({ onBack }: MenuManagementProps = {}) {
     }
   };
 
+  const loadStations = async () => {
+    try {
+      const { data, error: err } = await supabase.from('stations').select('*').order('name', { ascending: true });
+      if (err) throw err;
+      setStations(data || []);
+    } catch (err) {
+      console.error('Error loading stations:', err);
+    }
+  };
+
+  const loadCategories = async () => {
+    try {
+      setCategories(await fetchMenuCategories());
+    } catch (err) {
+      console.error('Error loading categories:', err);
+    }
+  };
+
+  const loadCosts = async () => {
+    try {
+      setCosts(await fetchMenuItemCosts());
+    } catch (err) {
+      console.error('Error loading menu costs:', err);
+    }
+  };
+
   const handlePictureChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -47,14 +140,21 @@ export function MenuManagement({ onBack }: MenuManagementProps = {}) {
   };
 
   const resetForm = () => {
-    setFormData({ name: '', price: '' });
+    setFormData({ name: '', price: '', cost: '', stationId: '', categoryId: '', taxClass: 'standard' });
     setPicturePreview(null);
     setEditingId(null);
     setError('');
   };
 
   const handleEdit = (item: Menu) => {
-    setFormData({ name: item.name, price: item.price.toString() });
+    setFormData({
+      name: item.name,
+      price: item.price.toString(),
+      cost: item.cost != null ? item.cost.toString() : '',
+      stationId: item.station_id || '',
+      categoryId: item.category_id || '',
+      taxClass: item.tax_class,
+    });
     if (item.picture_url) {
       setPicturePreview(item.picture_url);
     }
@@ -77,6 +177,12 @@ export function MenuManagement({ onBack }: MenuManagementProps = {}) {
       return;
     }
 
+    const cost = formData.cost.trim() ? parseFloat(formData.cost) : null;
+    if (cost !== null && (isNaN(cost) || cost < 0)) {
+      setError('Cost must be zero or more');
+      return;
+    }
+
     try {
       let pictureUrl = null;
 
@@ -100,6 +206,10 @@ export function MenuManagement({ onBack }: MenuManagementProps = {}) {
           .update({
             name: formData.name.trim(),
             price,
+            cost,
+            station_id: formData.stationId || null,
+            category_id: formData.categoryId || null,
+            tax_class: formData.taxClass,
             picture_url: pictureUrl || (picturePreview && !formData.picture ? picturePreview : null),
             updated_at: new Date().toISOString(),
           })
@@ -111,6 +221,10 @@ export function MenuManagement({ onBack }: MenuManagementProps = {}) {
           {
             name: formData.name.trim(),
             price,
+            cost,
+            station_id: formData.stationId || null,
+            category_id: formData.categoryId || null,
+            tax_class: formData.taxClass,
             picture_url: pictureUrl,
           },
         ]);
@@ -119,10 +233,33 @@ export function MenuManagement({ onBack }: MenuManagementProps = {}) {
       }
 
       loadItems();
+      loadCosts();
       resetForm();
       setShowForm(false);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to save menu item');
+      setError(errorMessage(err, 'Failed to save menu item'));
+    }
+  };
+
+  const setAvailability = async (item: Menu, availability: MenuAvailability) => {
+    const untilTime = soldOutUntil[item.id];
+
+    setAvailabilityError('');
+    setUpdatingAvailabilityId(item.id);
+    try {
+      const { error: rpcError } = await supabase.rpc('set_menu_availability', {
+        p_menu_id: item.id,
+        p_availability: availability,
+        p_sold_out_until: availability === 'sold_out' && untilTime ? nextOccurrence(untilTime).toISOString() : null,
+      });
+
+      if (rpcError) throw rpcError;
+      setSoldOutUntil((times) => ({ ...times, [item.id]: '' }));
+    } catch (err) {
+      console.error('Error updating availability:', err);
+      setAvailabilityError(errorMessage(err, 'Failed to update availability'));
+    } finally {
+      setUpdatingAvailabilityId(null);
     }
   };
 
@@ -138,6 +275,36 @@ export function MenuManagement({ onBack }: MenuManagementProps = {}) {
     }
   };
 
+  if (showStations) {
+    return (
+      <StationManagement
+        onBack={() => {
+          setShowStations(false);
+          loadStations();
+        }}
+      />
+    );
+  }
+
+  if (showCategories) {
+    return (
+      <CategoryManagement
+        onBack={() => {
+          setShowCategories(false);
+          loadCategories();
+        }}
+      />
+    );
+  }
+
+  if (showTaxSettings) {
+    return <TaxSettings onBack={() => setShowTaxSettings(false)} />;
+  }
+
+  const editingRecipeCost = editingId ? costs[editingId]?.recipeCost ?? null : null;
+  const stationName = (stationId?: string) => stations.find((s) => s.id === stationId)?.name;
+  const categoryName = (categoryId?: string) => categories.find((c) => c.id === categoryId)?.name;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-slate-100 p-4 sm:p-6">
       <div className="max-w-7xl mx-auto">
@@ -153,17 +320,40 @@ export function MenuManagement({ onBack }: MenuManagementProps = {}) {
             )}
             <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Menu Management</h1>
           </div>
-          {!showForm && (
-            <button
-              onClick={() => {
-                resetForm();
-                setShowForm(true);
-              }}
-              className="w-full sm:w-auto flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
-            >
-              <Plus className="w-5 h-5" />
-              Add Menu Item
-            </button>
+          {canEditMenu && !showForm && (
+            <div className="w-full sm:w-auto flex flex-col sm:flex-row gap-2">
+              <button
+                onClick={() => setShowCategories(true)}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition"
+              >
+                <Tags className="w-5 h-5" />
+                Categories
+              </button>
+              <button
+                onClick={() => setShowStations(true)}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition"
+              >
+                <ChefHat className="w-5 h-5" />
+                Stations
+              </button>
+              <button
+                onClick={() => setShowTaxSettings(true)}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-slate-600 text-white rounded-lg hover:bg-slate-700 transition"
+              >
+                <Percent className="w-5 h-5" />
+                VAT
+              </button>
+              <button
+                onClick={() => {
+                  resetForm();
+                  setShowForm(true);
+                }}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+              >
+                <Plus className="w-5 h-5" />
+                Add Menu Item
+              </button>
+            </div>
           )}
         </div>
 
@@ -218,6 +408,75 @@ export function MenuManagement({ onBack }: MenuManagementProps = {}) {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Cost</label>
+                <div className="flex items-center gap-2">
+                  <span className="text-lg font-semibold text-gray-600">$</span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.cost}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, cost: e.target.value }))}
+                    placeholder={
+                      editingRecipeCost !== null
+                        ? `${editingRecipeCost.toFixed(2)} from recipe`
+                        : 'Leave blank to use the recipe cost'
+                    }
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+                <select
+                  value={formData.categoryId}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, categoryId: e.target.value }))}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                  <option value="">No category</option>
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Tax Class</label>
+                <select
+                  value={formData.taxClass}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, taxClass: e.target.value as TaxClass }))}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                  {(Object.keys(TAX_CLASS_LABELS) as TaxClass[]).map((taxClass) => (
+                    <option key={taxClass} value={taxClass}>
+                      {TAX_CLASS_LABELS[taxClass]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Preparation Station</label>
+                <select
+                  value={formData.stationId}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, stationId: e.target.value }))}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                  <option value="">No station</option>
+                  {stations
+                    .filter((station) => station.active || station.id === formData.stationId)
+                    .map((station) => (
+                      <option key={station.id} value={station.id}>
+                        {station.name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Picture (Optional)</label>
                 {picturePreview && !formData.picture ? (
@@ -288,44 +547,154 @@ export function MenuManagement({ onBack }: MenuManagementProps = {}) {
           </div>
         )}
 
+        {availabilityError && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-800 rounded-lg">{availabilityError}</div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {loading ? (
             <div className="col-span-full text-center py-12 text-gray-500">Loading menu items...</div>
           ) : items.length === 0 ? (
             <div className="col-span-full text-center py-12 text-gray-500">No menu items yet. Add one to get started!</div>
           ) : (
-            items.map((item) => (
-              <div key={item.id} className="bg-white rounded-xl shadow-lg overflow-hidden hover:shadow-xl transition">
-                {item.picture_url && (
-                  <div className="h-40 bg-gray-200 overflow-hidden">
-                    <img src={item.picture_url} alt={item.name} className="w-full h-full object-cover" />
-                  </div>
-                )}
-                <div className="p-4">
-                  <h3 className="text-lg font-semibold text-gray-900 mb-2">{item.name}</h3>
-                  <div className="text-2xl font-bold text-blue-600 mb-4">${item.price.toFixed(2)}</div>
-                  <div className="flex gap-2">
-                    <button
-                      onClick={() => handleEdit(item)}
-                      className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition"
-                    >
-                      <Edit2 className="w-4 h-4" />
-                      Edit
-                    </button>
-                    <button
-                      onClick={() => handleDelete(item.id)}
-                      className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                      Delete
-                    </button>
+            items.map((item) => {
+              const availability = currentAvailability(item);
+              const updatingAvailability = updatingAvailabilityId === item.id;
+              const cost = costs[item.id]?.cost ?? null;
+              return (
+                <div key={item.id} className="bg-white rounded-xl shadow-lg overflow-hidden hover:shadow-xl transition">
+                  {item.picture_url && (
+                    <div className="h-40 bg-gray-200 overflow-hidden">
+                      <img src={item.picture_url} alt={item.name} className="w-full h-full object-cover" />
+                    </div>
+                  )}
+                  <div className="p-4">
+                    <div className="flex items-start justify-between gap-2 mb-2">
+                      <h3 className="text-lg font-semibold text-gray-900">{item.name}</h3>
+                      <span
+                        className={`px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap ${MENU_AVAILABILITY_STYLES[availability]}`}
+                      >
+                        {availabilityLabel(item)}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2 mb-2">
+                      <span className="text-2xl font-bold text-blue-600">${item.price.toFixed(2)}</span>
+                      {item.tax_class === 'exempt' && (
+                        <span className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded text-xs font-medium">
+                          {TAX_CLASS_LABELS.exempt}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      Category: {categoryName(item.category_id) || 'None'}
+                    </div>
+                    <div className="text-sm text-gray-600 mb-4">
+                      Station: {stationName(item.station_id) || 'None'}
+                    </div>
+                    {canEditMenu && (
+                      <div className="grid grid-cols-3 gap-2 bg-gray-50 rounded-lg p-2 mb-4 text-center">
+                        <div>
+                          <div className="text-xs text-gray-500">Cost</div>
+                          <div className="font-semibold text-gray-900">
+                            {cost !== null ? `$${cost.toFixed(2)}` : '—'}
+                          </div>
+                        </div>
+                        <div>
+                          <div className="text-xs text-gray-500">Margin</div>
+                          <div className="font-semibold text-gray-900">
+                            {cost !== null ? `$${(item.price - cost).toFixed(2)}` : '—'}
+                          </div>
+                        </div>
+                        <div>
+                          <div className="text-xs text-gray-500">Food cost</div>
+                          <div
+                            className={`font-semibold ${
+                              cost !== null ? foodCostStyle(foodCostPercent(item.price, cost)) : 'text-gray-900'
+                            }`}
+                          >
+                            {cost !== null ? `${foodCostPercent(item.price, cost).toFixed(1)}%` : '—'}
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                    <div className="border-t border-gray-100 pt-3 mb-4">
+                      <div className="grid grid-cols-3 gap-2">
+                        {MENU_AVAILABILITY_OPTIONS.map((option) => (
+                          <button
+                            key={option}
+                            onClick={() => setAvailability(item, option)}
+                            disabled={updatingAvailability}
+                            className={`px-2 py-1.5 rounded-lg text-sm font-medium transition disabled:opacity-50 ${
+                              availability === option
+                                ? MENU_AVAILABILITY_STYLES[option]
+                                : 'bg-gray-50 text-gray-600 hover:bg-gray-100'
+                            }`}
+                          >
+                            {MENU_AVAILABILITY_LABELS[option]}
+                          </button>
+                        ))}
+                      </div>
+                      <label className="flex items-center gap-2 mt-2 text-xs text-gray-600">
+                        Sold out until
+                        <input
+                          type="time"
+                          value={soldOutUntil[item.id] || ''}
+                          onChange={(e) => setSoldOutUntil((times) => ({ ...times, [item.id]: e.target.value }))}
+                          className="px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                        />
+                        <span className="text-gray-400">(optional)</span>
+                      </label>
+                    </div>
+                    {canEditMenu && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <button
+                          onClick={() => handleEdit(item)}
+                          className="flex items-center justify-center gap-2 px-3 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => setModifiersFor(item)}
+                          className="flex items-center justify-center gap-2 px-3 py-2 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 transition"
+                        >
+                          <SlidersHorizontal className="w-4 h-4" />
+                          Modifiers
+                        </button>
+                        <button
+                          onClick={() => setRecipeFor(item)}
+                          className="flex items-center justify-center gap-2 px-3 py-2 bg-green-100 text-green-700 rounded-lg hover:bg-green-200 transition"
+                        >
+                          <ClipboardList className="w-4 h-4" />
+                          Recipe
+                        </button>
+                        <button
+                          onClick={() => handleDelete(item.id)}
+                          className="flex items-center justify-center gap-2 px-3 py-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                          Delete
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
-              </div>
-            ))
+              );
+            })
           )}
         </div>
       </div>
+
+      {modifiersFor && <ModifierGroupsEditor menu={modifiersFor} onClose={() => setModifiersFor(null)} />}
+      {recipeFor && (
+        <RecipeEditor
+          menu={recipeFor}
+          onClose={() => {
+            setRecipeFor(null);
+            loadCosts();
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,308 @@
+import { useState, useEffect } from 'react';
+import { supabase, Menu, ModifierGroupWithOptions } from '../lib/supabase';
+import { fetchModifierGroups } from '../lib/data';
+import { formatPriceDelta } from '../lib/modifiers';
+import { errorMessage } from '../lib/errors';
+import { X, Plus, Trash2 } from 'lucide-react';
+
+type ModifierGroupsEditorProps = {
+  menu: Menu;
+  onClose: () => void;
+};
+
+type GroupFormData = {
+  name: string;
+  required: boolean;
+  minChoices: string;
+  maxChoices: string;
+};
+
+const emptyGroupForm: GroupFormData = { name: '', required: false, minChoices: '0', maxChoices: '1' };
+
+export function ModifierGroupsEditor({ menu, onClose }: ModifierGroupsEditorProps) {
+  const [groups, setGroups] = useState<ModifierGroupWithOptions[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [groupForm, setGroupForm] = useState<GroupFormData>(emptyGroupForm);
+  const [optionForms, setOptionForms] = useState<Record<string, { name: string; priceDelta: string }>>({});
+
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadGroups = async () => {
+      try {
+        const groupsByMenu = await fetchModifierGroups(menu.id);
+        if (!cancelled) setGroups(groupsByMenu[menu.id] || []);
+      } catch (err) {
+        console.error('Error loading modifier groups:', err);
+        setError('Failed to load modifiers');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadGroups();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [menu.id, reloadKey]);
+
+  const loadGroups = () => setReloadKey((key) => key + 1);
+
+  const addGroup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const minChoices = parseInt(groupForm.minChoices, 10);
+    const maxChoices = parseInt(groupForm.maxChoices, 10);
+
+    if (!groupForm.name.trim()) {
+      setError('Please enter a group name');
+      return;
+    }
+    if (isNaN(minChoices) || isNaN(maxChoices) || minChoices < 0 || maxChoices < 1 || maxChoices < minChoices) {
+      setError('Choices must satisfy 0 ≤ min ≤ max and max ≥ 1');
+      return;
+    }
+    if (groupForm.required && minChoices < 1) {
+      setError('Required groups need a minimum of at least 1 choice');
+      return;
+    }
+
+    try {
+      const { error: insertError } = await supabase.from('modifier_groups').insert([
+        {
+          menu_id: menu.id,
+          name: groupForm.name.trim(),
+          required: groupForm.required,
+          min_choices: minChoices,
+          max_choices: maxChoices,
+          display_order: groups.length + 1,
+        },
+      ]);
+
+      if (insertError) throw insertError;
+
+      setGroupForm(emptyGroupForm);
+      loadGroups();
+    } catch (err) {
+      console.error('Error adding modifier group:', err);
+      setError(errorMessage(err, 'Failed to add modifier group'));
+    }
+  };
+
+  const deleteGroup = async (groupId: string) => {
+    if (!confirm('Delete this modifier group and all of its options?')) return;
+
+    setError('');
+    try {
+      const { error: deleteError } = await supabase.from('modifier_groups').delete().eq('id', groupId);
+      if (deleteError) throw deleteError;
+      loadGroups();
+    } catch (err) {
+      console.error('Error deleting modifier group:', err);
+      setError('Failed to delete modifier group');
+    }
+  };
+
+  const addOption = async (group: ModifierGroupWithOptions) => {
+    const form = optionForms[group.id] || { name: '', priceDelta: '' };
+    const priceDelta = form.priceDelta.trim() ? parseFloat(form.priceDelta) : 0;
+
+    setError('');
+    if (!form.name.trim()) {
+      setError('Please enter an option name');
+      return;
+    }
+    if (isNaN(priceDelta)) {
+      setError('Price change must be a valid number');
+      return;
+    }
+
+    try {
+      const { error: insertError } = await supabase.from('modifier_options').insert([
+        {
+          group_id: group.id,
+          name: form.name.trim(),
+          price_delta: priceDelta,
+          display_order: group.options.length + 1,
+        },
+      ]);
+
+      if (insertError) throw insertError;
+
+      setOptionForms((forms) => ({ ...forms, [group.id]: { name: '', priceDelta: '' } }));
+      loadGroups();
+    } catch (err) {
+      console.error('Error adding modifier option:', err);
+      setError('Failed to add option');
+    }
+  };
+
+  const deleteOption = async (optionId: string) => {
+    setError('');
+    try {
+      const { error: deleteError } = await supabase.from('modifier_options').delete().eq('id', optionId);
+      if (deleteError) throw deleteError;
+      loadGroups();
+    } catch (err) {
+      console.error('Error deleting modifier option:', err);
+      setError('Failed to delete option');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 p-4 sm:p-6 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Modifiers</h2>
+            <p className="text-gray-600">{menu.name}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-6">
+          {error && (
+            <div className="p-3 bg-red-100 border border-red-400 text-red-800 rounded-lg">{error}</div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading modifiers...</div>
+          ) : groups.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No modifier groups yet. Add one below.</div>
+          ) : (
+            groups.map((group) => {
+              const optionForm = optionForms[group.id] || { name: '', priceDelta: '' };
+              return (
+                <div key={group.id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <div>
+                      <h3 className="font-semibold text-gray-900">{group.name}</h3>
+                      <div className="text-xs text-gray-500">
+                        {group.required ? 'Required' : 'Optional'} · choose {group.min_choices}–{group.max_choices}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => deleteGroup(group.id)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  <div className="space-y-2 mb-3">
+                    {group.options.map((option) => (
+                      <div key={option.id} className="flex items-center justify-between bg-gray-50 px-3 py-2 rounded">
+                        <span className="text-gray-900">{option.name}</span>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-gray-600">{formatPriceDelta(option.price_delta)}</span>
+                          <button
+                            onClick={() => deleteOption(option.id)}
+                            className="p-1 text-red-600 hover:bg-red-50 rounded transition"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={optionForm.name}
+                      onChange={(e) =>
+                        setOptionForms((forms) => ({ ...forms, [group.id]: { ...optionForm, name: e.target.value } }))
+                      }
+                      placeholder="Option, e.g. Large"
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={optionForm.priceDelta}
+                      onChange={(e) =>
+                        setOptionForms((forms) => ({
+                          ...forms,
+                          [group.id]: { ...optionForm, priceDelta: e.target.value },
+                        }))
+                      }
+                      placeholder="± $"
+                      className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                    <button
+                      onClick={() => addOption(group)}
+                      className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+                    >
+                      <Plus className="w-5 h-5" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+
+          <form onSubmit={addGroup} className="border-t pt-4 space-y-3">
+            <h3 className="font-semibold text-gray-900">Add Modifier Group</h3>
+            <input
+              type="text"
+              value={groupForm.name}
+              onChange={(e) => setGroupForm((prev) => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g., Size, Extras, Remove"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <div className="grid grid-cols-3 gap-3 items-end">
+              <label className="flex items-center gap-2 text-sm text-gray-700 py-2">
+                <input
+                  type="checkbox"
+                  checked={groupForm.required}
+                  onChange={(e) =>
+                    setGroupForm((prev) => ({
+                      ...prev,
+                      required: e.target.checked,
+                      minChoices: e.target.checked && prev.minChoices === '0' ? '1' : prev.minChoices,
+                    }))
+                  }
+                />
+                Required
+              </label>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Min choices</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={groupForm.minChoices}
+                  onChange={(e) => setGroupForm((prev) => ({ ...prev, minChoices: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Max choices</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={groupForm.maxChoices}
+                  onChange={(e) => setGroupForm((prev) => ({ ...prev, maxChoices: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              </div>
+            </div>
+            <button
+              type="submit"
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium"
+            >
+              <Plus className="w-5 h-5" />
+              Add Group
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Menu, ModifierGroupWithOptions, OrderItemModifier } from '../lib/supabase';
+import { formatPriceDelta, modifierSelectionError } from '../lib/modifiers';
+import { X, Check } from 'lucide-react';
+
+type ModifierPickerProps = {
+  menu: Menu;
+  groups: ModifierGroupWithOptions[];
+  onConfirm: (modifiers: OrderItemModifier[]) => void;
+  onCancel: () => void;
+};
+
+export function ModifierPicker({ menu, groups, onConfirm, onCancel }: ModifierPickerProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [error, setError] = useState('');
+
+  const toggleOption = (group: ModifierGroupWithOptions, optionId: string) => {
+    setError('');
+    setSelectedIds((ids) => {
+      if (ids.includes(optionId)) {
+        return ids.filter((id) => id !== optionId);
+      }
+
+      const groupIds = group.options.map((option) => option.id);
+      const chosenInGroup = ids.filter((id) => groupIds.includes(id));
+
+      // Single-choice groups behave like radio buttons
+      if (group.max_choices === 1) {
+        return [...ids.filter((id) => !groupIds.includes(id)), optionId];
+      }
+
+      if (chosenInGroup.length >= group.max_choices) {
+        return ids;
+      }
+
+      return [...ids, optionId];
+    });
+  };
+
+  const modifiers: OrderItemModifier[] = groups.flatMap((group) =>
+    group.options
+      .filter((option) => selectedIds.includes(option.id))
+      .map((option) => ({
+        group_id: group.id,
+        group_name: group.name,
+        option_id: option.id,
+        name: option.name,
+        price_delta: Number(option.price_delta),
+      }))
+  );
+
+  const unitPrice = menu.price + modifiers.reduce((sum, modifier) => sum + modifier.price_delta, 0);
+
+  const handleConfirm = () => {
+    const selectionError = modifierSelectionError(groups, selectedIds);
+    if (selectionError) {
+      setError(selectionError);
+      return;
+    }
+    onConfirm(modifiers);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 p-4 sm:p-6 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">{menu.name}</h2>
+            <div className="text-blue-600 font-bold">${unitPrice.toFixed(2)}</div>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-gray-100 rounded-lg transition">
+            <X className="w-6 h-6 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-6">
+          {groups.map((group) => (
+            <div key={group.id}>
+              <div className="flex items-baseline justify-between mb-2">
+                <h3 className="font-semibold text-gray-900">{group.name}</h3>
+                <span className={`text-xs font-medium ${group.required ? 'text-red-600' : 'text-gray-500'}`}>
+                  {group.required ? 'Required' : 'Optional'}
+                  {group.max_choices > 1 && ` · up to ${group.max_choices}`}
+                  {group.min_choices > 1 && ` · at least ${group.min_choices}`}
+                </span>
+              </div>
+              <div className="space-y-2">
+                {group.options.map((option) => {
+                  const selected = selectedIds.includes(option.id);
+                  return (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => toggleOption(group, option.id)}
+                      className={`w-full flex items-center justify-between px-4 py-3 border-2 rounded-lg transition ${
+                        selected ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-blue-300'
+                      }`}
+                    >
+                      <span className="flex items-center gap-2 font-medium text-gray-900">
+                        {selected && <Check className="w-4 h-4 text-blue-600" />}
+                        {option.name}
+                      </span>
+                      <span className="text-sm text-gray-600">{formatPriceDelta(option.price_delta)}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm">{error}</div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleConfirm}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium"
+            >
+              Add to Order
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
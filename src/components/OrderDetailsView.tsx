@@ -1,6 +1,32 @@
 import { useState, useEffect } from 'react';
-import { supabase, Order, OrderItem as OrderItemType, Menu, Profile } from '../lib/supabase';
-import { X } from 'lucide-react';
+import {
+  Order,
+  OrderDiscountWithDetails,
+  OrderItemWithMenu,
+  OrderTaxLine,
+  OrderTransferWithPeople,
+  PaymentLedgerEntry,
+  Profile,
+} from '../lib/supabase';
+import {
+  fetchOrderDiscounts,
+  fetchOrderItemsWithMenu,
+  fetchOrderItemWithMenu,
+  fetchOrderPayments,
+  fetchOrderTaxBreakdown,
+  fetchOrderTransfers,
+} from '../lib/data';
+import { byCreatedAtAsc, changedRowId, removeRow, subscribeToChanges, upsertRow } from '../lib/realtime';
+import { ORDER_ITEM_STATUS_STYLES } from '../lib/kitchen';
+import { formatModifiers } from '../lib/modifiers';
+import { describeTransfer } from '../lib/orderTransfers';
+import { discountReasonLabel, discountTargetLabel, formatDiscountValue } from '../lib/discounts';
+import { outstandingBalance, paidAmount, PAYMENT_METHOD_LABELS, PAYMENT_STATUS_STYLES } from '../lib/payments';
+import { formatTaxRate } from '../lib/tax';
+import { formatReceiptNumber } from '../lib/receipts';
+import { Printer, X } from 'lucide-react';
+import { OrderReceipt } from './OrderReceipt';
+import { FiscalReceiptView } from './FiscalReceiptView';
 
 type OrderDetailsViewProps = {
   order: Order;
@@ -8,38 +34,79 @@ type OrderDetailsViewProps = {
   onClose: () => void;
 };
 
-type OrderItemWithMenu = OrderItemType & { menu: Menu };
-
 export function OrderDetailsView({ order, waiter, onClose }: OrderDetailsViewProps) {
   const [items, setItems] = useState<OrderItemWithMenu[]>([]);
+  const [transfers, setTransfers] = useState<OrderTransferWithPeople[]>([]);
+  const [payments, setPayments] = useState<PaymentLedgerEntry[]>([]);
+  const [discounts, setDiscounts] = useState<OrderDiscountWithDetails[]>([]);
+  const [taxLines, setTaxLines] = useState<OrderTaxLine[]>([]);
+  const [showReceipt, setShowReceipt] = useState(false);
+  const [viewingReceiptId, setViewingReceiptId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     loadItems();
+
+    return subscribeToChanges(
+      `order-items-${order.id}`,
+      [
+        { table: 'order_items', filter: `order_id=eq.${order.id}` },
+        { table: 'payments', filter: `order_id=eq.${order.id}` },
+        { table: 'order_discounts', filter: `order_id=eq.${order.id}` },
+      ],
+      async (change) => {
+        if (change.table === 'payments') {
+          try {
+            setPayments(await fetchOrderPayments(order.id));
+          } catch (err) {
+            console.error('Error loading order payments:', err);
+          }
+          return;
+        }
+
+        if (change.table === 'order_discounts') {
+          try {
+            const [discountsData, taxData] = await Promise.all([
+              fetchOrderDiscounts(order.id),
+              fetchOrderTaxBreakdown(order.id),
+            ]);
+            setDiscounts(discountsData);
+            setTaxLines(taxData);
+          } catch (err) {
+            console.error('Error loading order discounts:', err);
+          }
+          return;
+        }
+
+        const itemId = changedRowId(change);
+        try {
+          const [item, taxData] = await Promise.all([
+            change.eventType === 'DELETE' ? null : fetchOrderItemWithMenu(itemId),
+            fetchOrderTaxBreakdown(order.id),
+          ]);
+          setItems((rows) => (item ? upsertRow(rows, item, byCreatedAtAsc) : removeRow(rows, itemId)));
+          setTaxLines(taxData);
+        } catch (err) {
+          console.error('Error loading changed order item:', err);
+        }
+      }
+    );
   }, [order.id]);
 
   const loadItems = async () => {
     try {
-      const { data: itemsData, error: itemsError } = await supabase
-        .from('order_items')
-        .select('*')
-        .eq('order_id', order.id);
-
-      if (itemsError) throw itemsError;
-
-      const itemsWithMenu = await Promise.all(
-        (itemsData || []).map(async (item) => {
-          const { data: menuData } = await supabase
-            .from('menu')
-            .select('*')
-            .eq('id', item.menu_id)
-            .maybeSingle();
-
-          return { ...item, menu: menuData as Menu };
-        })
-      );
-
-      setItems(itemsWithMenu);
+      const [itemsData, transfersData, paymentsData, discountsData, taxData] = await Promise.all([
+        fetchOrderItemsWithMenu(order.id),
+        fetchOrderTransfers(order.id),
+        fetchOrderPayments(order.id),
+        fetchOrderDiscounts(order.id),
+        fetchOrderTaxBreakdown(order.id),
+      ]);
+      setItems(itemsData);
+      setTransfers(transfersData);
+      setPayments(paymentsData);
+      setDiscounts(discountsData);
+      setTaxLines(taxData);
     } catch (err) {
       console.error('Error loading order items:', err);
     } finally {
@@ -52,16 +119,33 @@ export function OrderDetailsView({ order, waiter, onClose }: OrderDetailsViewPro
       <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-96 overflow-y-auto">
         <div className="sticky top-0 bg-white border-b border-gray-200 p-4 sm:p-6 flex items-center justify-between">
           <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Order Details</h2>
-          <button onClick={onClose} className="p-2 sm:p-3 hover:bg-gray-100 rounded-lg transition flex-shrink-0">
-            <X className="w-5 h-5 sm:w-6 sm:h-6" />
-          </button>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setShowReceipt(true)}
+              className="p-2 sm:p-3 hover:bg-gray-100 rounded-lg transition flex-shrink-0"
+              title="Bill"
+            >
+              <Printer className="w-5 h-5 sm:w-6 sm:h-6" />
+            </button>
+            <button onClick={onClose} className="p-2 sm:p-3 hover:bg-gray-100 rounded-lg transition flex-shrink-0">
+              <X className="w-5 h-5 sm:w-6 sm:h-6" />
+            </button>
+          </div>
         </div>
 
         <div className="p-6 space-y-6">
+          {order.notes && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+              <div className="text-sm font-medium text-amber-700">Order Notes</div>
+              <div className="text-lg font-semibold text-amber-900">{order.notes}</div>
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <div className="text-sm text-gray-600">Table Number</div>
               <div className="text-xl font-bold text-gray-900">{order.table_number}</div>
+              {order.party_size && <div className="text-sm text-gray-600">Party of {order.party_size}</div>}
             </div>
             <div>
               <div className="text-sm text-gray-600">Waiter</div>
@@ -93,7 +177,18 @@ export function OrderDetailsView({ order, waiter, onClose }: OrderDetailsViewPro
                 {items.map((item) => (
                   <div key={item.id} className="flex items-center justify-between bg-gray-50 p-3 rounded-lg">
                     <div className="flex-1">
-                      <div className="font-semibold text-gray-900">{item.menu.name}</div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold text-gray-900">{item.menu.name}</span>
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${ORDER_ITEM_STATUS_STYLES[item.status]}`}>
+                          {item.status.toUpperCase()}
+                        </span>
+                      </div>
+                      {item.modifiers.length > 0 && (
+                        <div className="text-sm text-gray-700">{formatModifiers(item.modifiers)}</div>
+                      )}
+                      {item.notes && (
+                        <div className="text-sm font-semibold text-amber-700">Note: {item.notes}</div>
+                      )}
                       <div className="text-sm text-gray-600">
                         ${item.price_at_purchase.toFixed(2)} × {item.quantity}
                       </div>
@@ -107,14 +202,157 @@ export function OrderDetailsView({ order, waiter, onClose }: OrderDetailsViewPro
             )}
           </div>
 
-          <div className="border-t pt-4">
+          {discounts.length > 0 && (
+            <div className="border-t pt-4">
+              <h3 className="font-bold text-gray-900 mb-3">Discounts</h3>
+              <div className="space-y-2">
+                {discounts.map((discount) => (
+                  <div key={discount.id} className="flex items-start justify-between gap-3 text-sm">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-900">
+                          {discountTargetLabel(discount)} · {formatDiscountValue(discount.kind, discount.value)}
+                        </span>
+                        {discount.status === 'pending' && (
+                          <span className="px-2 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-800">
+                            AWAITING AUTHORIZATION
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {discountReasonLabel(discount)} · by {discount.creator.full_name}
+                      </div>
+                    </div>
+                    <div className={`font-semibold ${discount.status === 'pending' ? 'text-gray-400' : 'text-green-700'}`}>
+                      -${Number(discount.amount).toFixed(2)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {transfers.length > 0 && (
+            <div className="border-t pt-4">
+              <h3 className="font-bold text-gray-900 mb-3">History</h3>
+              <div className="space-y-2">
+                {transfers.map((transfer) => (
+                  <div key={transfer.id} className="text-sm">
+                    <div className="text-gray-900">{describeTransfer(transfer)}</div>
+                    <div className="text-xs text-gray-500">
+                      by {transfer.performer.full_name} · {new Date(transfer.performed_at).toLocaleString()}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {payments.length > 0 && (
+            <div className="border-t pt-4">
+              <h3 className="font-bold text-gray-900 mb-3">Payments</h3>
+              <div className="space-y-2">
+                {payments.map((payment) => (
+                  <div key={payment.id} className="flex items-start justify-between gap-3 text-sm">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-900">
+                          {PAYMENT_METHOD_LABELS[payment.payment_method]}
+                          {payment.bank && ` · ${payment.bank.name}`}
+                          {payment.split && ` · ${payment.split.label}`}
+                        </span>
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${PAYMENT_STATUS_STYLES[payment.status]}`}>
+                          {payment.status.toUpperCase()}
+                        </span>
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(payment.submitted_at).toLocaleString()}
+                        {payment.declined_reason && ` · ${payment.declined_reason}`}
+                      </div>
+                      {payment.receipt && (
+                        <button
+                          onClick={() => setViewingReceiptId(payment.receipt!.id)}
+                          className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:underline"
+                        >
+                          <Printer className="w-3 h-3" />
+                          Receipt No. {formatReceiptNumber(payment.receipt.receipt_number)}
+                        </button>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <div className={`font-semibold ${payment.status === 'declined' ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                        ${Number(payment.amount).toFixed(2)}
+                      </div>
+                      {Number(payment.tip_amount) > 0 && (
+                        <div className="text-xs text-gray-500">+ ${Number(payment.tip_amount).toFixed(2)} tip</div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="border-t pt-4 space-y-1">
+            {(Number(order.discount_amount) > 0 || Number(order.service_charge_amount) > 0) && (
+              <div className="flex justify-between text-sm text-gray-700">
+                <span>Subtotal</span>
+                <span>
+                  $
+                  {(
+                    Number(order.total_amount) +
+                    Number(order.discount_amount) -
+                    Number(order.service_charge_amount)
+                  ).toFixed(2)}
+                </span>
+              </div>
+            )}
+            {Number(order.discount_amount) > 0 && (
+              <div className="flex justify-between text-sm text-green-700">
+                <span>Discounts</span>
+                <span>-${Number(order.discount_amount).toFixed(2)}</span>
+              </div>
+            )}
+            {Number(order.service_charge_amount) > 0 && (
+              <div className="flex justify-between text-sm text-gray-700">
+                <span>Service charge ({Number(order.service_charge_rate)}%)</span>
+                <span>${Number(order.service_charge_amount).toFixed(2)}</span>
+              </div>
+            )}
             <div className="flex justify-between items-center">
               <span className="text-lg font-bold text-gray-900">Total Amount:</span>
               <span className="text-3xl font-bold text-blue-600">${Number(order.total_amount).toFixed(2)}</span>
             </div>
+            {taxLines.map((line) => (
+              <div key={line.tax_rate} className="flex justify-between text-sm text-gray-500">
+                <span>
+                  {formatTaxRate(line.tax_rate)} · net ${line.net_amount.toFixed(2)}
+                </span>
+                <span>${line.tax_amount.toFixed(2)}</span>
+              </div>
+            ))}
+            {payments.length > 0 && (
+              <>
+                <div className="flex justify-between text-sm text-gray-700">
+                  <span>Approved</span>
+                  <span>${paidAmount(payments, ['approved']).toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-sm text-gray-700">
+                  <span>Awaiting approval</span>
+                  <span>${paidAmount(payments, ['pending']).toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between font-semibold text-gray-900">
+                  <span>Outstanding</span>
+                  <span>${outstandingBalance(order.total_amount, payments).toFixed(2)}</span>
+                </div>
+              </>
+            )}
           </div>
         </div>
       </div>
+
+      {showReceipt && <OrderReceipt order={order} waiter={waiter} onClose={() => setShowReceipt(false)} />}
+      {viewingReceiptId && <FiscalReceiptView receiptId={viewingReceiptId} onClose={() => setViewingReceiptId(null)} />}
     </div>
   );
 }
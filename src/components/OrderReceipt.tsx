@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import { Order, OrderDiscountWithDetails, OrderItemWithMenu, OrderTaxLine, Profile } from '../lib/supabase';
+import { fetchOrderDiscounts, fetchOrderItemsWithMenu, fetchOrderTaxBreakdown } from '../lib/data';
+import { discountReasonLabel, discountTargetLabel } from '../lib/discounts';
+import { formatModifiers } from '../lib/modifiers';
+import { Printer, X } from 'lucide-react';
+
+type OrderReceiptProps = {
+  order: Order;
+  waiter: Profile;
+  onClose: () => void;
+};
+
+export function OrderReceipt({ order, waiter, onClose }: OrderReceiptProps) {
+  const [items, setItems] = useState<OrderItemWithMenu[]>([]);
+  const [discounts, setDiscounts] = useState<OrderDiscountWithDetails[]>([]);
+  const [taxLines, setTaxLines] = useState<OrderTaxLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadReceipt = async () => {
+      try {
+        const [itemsData, discountsData, taxData] = await Promise.all([
+          fetchOrderItemsWithMenu(order.id),
+          fetchOrderDiscounts(order.id),
+          fetchOrderTaxBreakdown(order.id),
+        ]);
+        if (cancelled) return;
+
+        setItems(itemsData);
+        setDiscounts(discountsData.filter((discount) => discount.status === 'applied'));
+        setTaxLines(taxData);
+      } catch (err) {
+        console.error('Error loading receipt:', err);
+        if (!cancelled) setError('Failed to load the receipt');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadReceipt();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [order.id]);
+
+  const subtotal = items.reduce((sum, item) => sum + item.quantity * item.price_at_purchase, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 print:static print:bg-white print:p-0">
+      <div className="bg-white rounded-2xl shadow-xl max-w-sm w-full max-h-[90vh] overflow-y-auto print-area print:shadow-none print:max-h-none">
+        <div className="flex items-center justify-end gap-2 p-3 border-b border-gray-200 print:hidden">
+          <button
+            onClick={() => window.print()}
+            disabled={loading || !!error}
+            className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition text-sm font-medium disabled:opacity-50"
+          >
+            <Printer className="w-4 h-4" />
+            Print
+          </button>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition">
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="p-6 font-mono text-sm text-gray-900">
+          <div className="text-center mb-4">
+            <div className="text-base font-bold">BILL</div>
+            <div>Table {order.table_number}</div>
+            <div>{new Date(order.created_at).toLocaleString()}</div>
+            <div>Served by {waiter.full_name}</div>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-6 text-gray-500">Loading...</div>
+          ) : error ? (
+            <div className="text-center py-6 text-red-700">{error}</div>
+          ) : (
+            <>
+              <div className="border-t border-dashed border-gray-400 py-2 space-y-1">
+                {items.map((item) => (
+                  <div key={item.id}>
+                    <div className="flex justify-between gap-2">
+                      <span>
+                        {item.quantity}× {item.menu.name}
+                      </span>
+                      <span>{(item.quantity * item.price_at_purchase).toFixed(2)}</span>
+                    </div>
+                    {item.modifiers.length > 0 && (
+                      <div className="pl-4 text-xs text-gray-600">{formatModifiers(item.modifiers)}</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {(discounts.length > 0 || Number(order.service_charge_amount) > 0) && (
+                <div className="border-t border-dashed border-gray-400 py-2 space-y-1">
+                  <div className="flex justify-between">
+                    <span>Subtotal</span>
+                    <span>{subtotal.toFixed(2)}</span>
+                  </div>
+                  {discounts.map((discount) => (
+                    <div key={discount.id} className="flex justify-between gap-2">
+                      <span>
+                        {discountReasonLabel(discount)}
+                        {discount.order_item_id && ` (${discountTargetLabel(discount)})`}
+                      </span>
+                      <span>-{Number(discount.amount).toFixed(2)}</span>
+                    </div>
+                  ))}
+                  {Number(order.service_charge_amount) > 0 && (
+                    <div className="flex justify-between gap-2">
+                      <span>Service charge {Number(order.service_charge_rate)}%</span>
+                      <span>{Number(order.service_charge_amount).toFixed(2)}</span>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="border-t border-dashed border-gray-400 py-2 flex justify-between text-base font-bold">
+                <span>TOTAL</span>
+                <span>${Number(order.total_amount).toFixed(2)}</span>
+              </div>
+
+              {taxLines.length > 0 && (
+                <div className="border-t border-dashed border-gray-400 py-2">
+                  <div className="grid grid-cols-4 gap-1 text-xs text-gray-600">
+                    <span>Rate</span>
+                    <span className="text-right">Net</span>
+                    <span className="text-right">VAT</span>
+                    <span className="text-right">Gross</span>
+                  </div>
+                  {taxLines.map((line) => (
+                    <div key={line.tax_rate} className="grid grid-cols-4 gap-1 text-xs">
+                      <span>{line.tax_rate > 0 ? `${line.tax_rate}%` : 'Exempt'}</span>
+                      <span className="text-right">{line.net_amount.toFixed(2)}</span>
+                      <span className="text-right">{line.tax_amount.toFixed(2)}</span>
+                      <span className="text-right">{line.gross_amount.toFixed(2)}</span>
+                    </div>
+                  ))}
+                  <div className="text-xs text-gray-600 mt-1">Prices include VAT</div>
+                </div>
+              )}
+
+              <div className="border-t border-dashed border-gray-400 pt-2 text-center text-xs text-gray-600">
+                This is not a fiscal receipt
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
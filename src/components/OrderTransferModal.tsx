@@ -0,0 +1,201 @@
+import { useState, useEffect } from 'react';
+import { supabase, Order, OrderTransferKind, Profile, RestaurantTable } from '../lib/supabase';
+import { fetchActiveWaiters, fetchRestaurantTables } from '../lib/data';
+import { ORDER_TRANSFER_KIND_LABELS } from '../lib/orderTransfers';
+import { FLOOR_STATUS_LABELS, tableSections } from '../lib/floorPlan';
+import { errorMessage } from '../lib/errors';
+import { X, ArrowRightLeft } from 'lucide-react';
+
+type OrderTransferModalProps = {
+  order: Order;
+  onClose: () => void;
+  onDone: () => void;
+};
+
+export function OrderTransferModal({ order, onClose, onDone }: OrderTransferModalProps) {
+  const [kind, setKind] = useState<OrderTransferKind>('table');
+  const [tables, setTables] = useState<RestaurantTable[]>([]);
+  const [pendingOrders, setPendingOrders] = useState<Order[]>([]);
+  const [waiters, setWaiters] = useState<Profile[]>([]);
+  const [targetId, setTargetId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadOptions = async () => {
+      try {
+        const [tablesData, waitersData, ordersRes] = await Promise.all([
+          fetchRestaurantTables(),
+          fetchActiveWaiters(),
+          // RLS leaves waiters with their own orders, cashiers with every order
+          supabase
+            .from('orders')
+            .select('*')
+            .eq('status', 'pending')
+            .neq('id', order.id)
+            .order('created_at', { ascending: true }),
+        ]);
+        if (ordersRes.error) throw ordersRes.error;
+        if (cancelled) return;
+
+        setTables(tablesData.filter((table) => table.active && table.id !== order.table_id));
+        setWaiters(waitersData.filter((waiter) => waiter.id !== order.waiter_id));
+        setPendingOrders(ordersRes.data || []);
+      } catch (err) {
+        console.error('Error loading transfer options:', err);
+        if (!cancelled) setError('Failed to load tables and waiters');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadOptions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [order.id, order.table_id, order.waiter_id]);
+
+  const availableKinds: OrderTransferKind[] = order.status === 'pending' ? ['table', 'merge', 'waiter'] : ['table', 'waiter'];
+
+  const chooseKind = (nextKind: OrderTransferKind) => {
+    setKind(nextKind);
+    setTargetId('');
+    setError('');
+  };
+
+  const handleSubmit = async () => {
+    if (!targetId) return;
+
+    setError('');
+    setSaving(true);
+    try {
+      const { error } =
+        kind === 'table'
+          ? await supabase.rpc('move_order_to_table', { p_order_id: order.id, p_table_id: targetId })
+          : kind === 'merge'
+          ? await supabase.rpc('merge_orders', { p_target_order_id: order.id, p_source_order_id: targetId })
+          : await supabase.rpc('transfer_order_to_waiter', { p_order_id: order.id, p_waiter_id: targetId });
+
+      if (error) throw error;
+
+      onDone();
+    } catch (err) {
+      console.error('Error transferring order:', err);
+      setError(errorMessage(err, 'Failed to transfer order'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 p-4 sm:p-6 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Table {order.table_number}</h2>
+            <div className="text-blue-600 font-bold">${Number(order.total_amount).toFixed(2)}</div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition">
+            <X className="w-6 h-6 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {availableKinds.map((option) => (
+              <button
+                key={option}
+                onClick={() => chooseKind(option)}
+                className={`px-2 py-2 rounded-lg text-sm font-medium transition ${
+                  kind === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {ORDER_TRANSFER_KIND_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading...</div>
+          ) : kind === 'table' ? (
+            <label className="block text-sm font-medium text-gray-700">
+              Move this order to
+              <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className={`mt-1 ${selectClass}`}>
+                <option value="">Choose a table</option>
+                {tableSections(tables).map((section) => (
+                  <optgroup key={section} label={section}>
+                    {tables
+                      .filter((table) => table.section === section)
+                      .map((table) => (
+                        <option key={table.id} value={table.id}>
+                          {`${table.name} · ${table.seats} seats${
+                            table.floor_status === 'free' ? '' : ` · ${FLOOR_STATUS_LABELS[table.floor_status]}`
+                          }`}
+                        </option>
+                      ))}
+                  </optgroup>
+                ))}
+              </select>
+            </label>
+          ) : kind === 'merge' ? (
+            <label className="block text-sm font-medium text-gray-700">
+              Merge into this order
+              <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className={`mt-1 ${selectClass}`}>
+                <option value="">Choose a pending order</option>
+                {pendingOrders.map((pending) => (
+                  <option key={pending.id} value={pending.id}>
+                    {`Table ${pending.table_number} · $${Number(pending.total_amount).toFixed(2)} · ${new Date(
+                      pending.created_at
+                    ).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                  </option>
+                ))}
+              </select>
+              <span className="block text-xs text-gray-500 mt-1">
+                Its items and notes are added here and the other order is removed.
+              </span>
+            </label>
+          ) : (
+            <label className="block text-sm font-medium text-gray-700">
+              Hand this order over to
+              <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className={`mt-1 ${selectClass}`}>
+                <option value="">Choose a waiter</option>
+                {waiters.map((waiter) => (
+                  <option key={waiter.id} value={waiter.id}>
+                    {waiter.full_name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm">{error}</div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={!targetId || saving}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50"
+            >
+              <ArrowRightLeft className="w-5 h-5" />
+              {saving ? 'Saving...' : ORDER_TRANSFER_KIND_LABELS[kind]}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,13 @@
-import { useState } from 'react';
-import { Payment, Order, Profile, Bank } from '../lib/supabase';
+import { useState, useEffect } from 'react';
+import { Order, Profile } from '../lib/supabase';
+import { fetchPaymentsPage, PaymentFilters, PaymentsPage } from '../lib/data';
+import { applyPaymentChangeToPage, ChangeFeed, PaymentChange } from '../lib/realtime';
 import { CheckCircle, XCircle, Eye, ChevronLeft, ChevronRight } from 'lucide-react';
 
-type PaymentWithDetails = Payment & {
-  order: Order;
-  waiter: Profile;
-  bank?: Bank;
-};
-
 type PaginatedPaymentsProps = {
-  payments: PaymentWithDetails[];
   type: 'pending' | 'approved' | 'declined';
+  filters?: Omit<PaymentFilters, 'status'>;
+  paymentChanges?: ChangeFeed<PaymentChange>;
   onApprove?: (paymentId: string, orderId: string) => void;
   onDecline?: (paymentId: string, orderId: string) => void;
   onViewImage?: (url: string) => void;
@@ -18,20 +15,84 @@ type PaginatedPaymentsProps = {
 };
 
 export function PaginatedPayments({
-  payments,
   type,
+  filters,
+  paymentChanges,
   onApprove,
   onDecline,
   onViewImage,
   onViewDetails,
 }: PaginatedPaymentsProps) {
   const [currentPage, setCurrentPage] = useState(1);
+  const [page, setPage] = useState<PaymentsPage>({ payments: [], count: 0 });
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
   const itemsPerPage = 5;
 
-  const totalPages = Math.ceil(payments.length / itemsPerPage);
-  const paginatedPayments = payments.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
+  const dateFrom = filters?.dateFrom;
+  const dateTo = filters?.dateTo;
+  const waiterId = filters?.waiterId;
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [dateFrom, dateTo, waiterId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadPage = async () => {
+      try {
+        const nextPage = await fetchPaymentsPage(
+          { status: type, dateFrom, dateTo, waiterId },
+          currentPage,
+          itemsPerPage
+        );
 
-  if (payments.length === 0) {
+        if (cancelled) return;
+        if (nextPage.payments.length === 0 && currentPage > 1) {
+          setCurrentPage(Math.max(1, Math.ceil(nextPage.count / itemsPerPage)));
+          return;
+        }
+        setPage(nextPage);
+      } catch (error) {
+        console.error('Error loading payments:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadPage();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [type, dateFrom, dateTo, waiterId, currentPage, reloadKey]);
+
+  useEffect(() => {
+    if (!paymentChanges) return;
+
+    return paymentChanges.subscribe((change) => {
+      setPage((current) =>
+        applyPaymentChangeToPage(current, change, { status: type, dateFrom, dateTo, waiterId }, currentPage, itemsPerPage)
+      );
+    });
+  }, [paymentChanges, type, dateFrom, dateTo, waiterId, currentPage]);
+
+  // Removing the last payments of a page leaves it empty while others remain
+  useEffect(() => {
+    if (page.payments.length === 0 && page.count > 0) {
+      setReloadKey((key) => key + 1);
+    }
+  }, [page]);
+
+  const { payments: paginatedPayments, count: totalCount } = page;
+  const totalPages = Math.ceil(totalCount / itemsPerPage);
+
+  if (loading) {
+    return <div className="text-center py-12 text-gray-500">Loading payments...</div>;
+  }
+
+  if (totalCount === 0) {
     const emptyMessages = {
       pending: 'No pending payments',
       approved: 'No approved payments',
@@ -80,6 +141,18 @@ export function PaginatedPayments({
                         ${Number(payment.tip_amount).toFixed(2)}
                       </div>
                     </div>
+                    {payment.cash_tendered != null && (
+                      <>
+                        <div>
+                          <div className="text-sm text-gray-600">Cash Tendered</div>
+                          <div className="font-semibold text-gray-900">${Number(payment.cash_tendered).toFixed(2)}</div>
+                        </div>
+                        <div>
+                          <div className="text-sm text-gray-600">Change Given</div>
+                          <div className="font-semibold text-gray-900">${Number(payment.change_given ?? 0).toFixed(2)}</div>
+                        </div>
+                      </>
+                    )}
                     {payment.payment_method === 'bank_transfer' && payment.bank && (
                       <div className="col-span-2">
                         <div className="text-sm text-gray-600">Bank</div>
@@ -1,5 +1,8 @@
 import { useState, useEffect } from 'react';
-import { supabase, Order } from '../lib/supabase';
+import { supabase, Order, OrderSplit, PaymentLedgerEntry } from '../lib/supabase';
+import { fetchOrderPayments } from '../lib/data';
+import { changeDue, hasActivePayments, outstandingBalance, paidAmount, roundCents } from '../lib/payments';
+import { errorMessage } from '../lib/errors';
 import { X, Save, Camera } from 'lucide-react';
 
 type Bank = {
@@ -10,13 +13,20 @@ type Bank = {
 
 type PaymentFormProps = {
   order: Order;
+  // When the bill is split, the check being paid
+  split?: OrderSplit;
   onClose: () => void;
   onSuccess: () => void;
 };
 
-export function PaymentForm({ order, onClose, onSuccess }: PaymentFormProps) {
+export function PaymentForm({ order, split, onClose, onSuccess }: PaymentFormProps) {
+  const amountDue = split ? split.amount : order.total_amount;
+  const [earlierPayments, setEarlierPayments] = useState<PaymentLedgerEntry[]>([]);
+  const [amount, setAmount] = useState('');
   const [paymentMethod, setPaymentMethod] = useState<'cash' | 'bank_transfer'>('cash');
   const [tipAmount, setTipAmount] = useState('');
+  const [cashTendered, setCashTendered] = useState('');
+  const [changeToTip, setChangeToTip] = useState('');
   const [screenshot, setScreenshot] = useState<File | null>(null);
   const [receipt, setReceipt] = useState<File | null>(null);
   const [screenshotPreview, setScreenshotPreview] = useState<string | null>(null);
@@ -30,6 +40,39 @@ export function PaymentForm({ order, onClose, onSuccess }: PaymentFormProps) {
     loadBanks();
   }, []);
 
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadEarlierPayments = async () => {
+      try {
+        const data = await fetchOrderPayments(order.id);
+        if (cancelled) return;
+
+        const relevant = split ? data.filter((payment) => payment.split_id === split.id) : data;
+        setEarlierPayments(relevant);
+        setAmount(outstandingBalance(amountDue, relevant).toFixed(2));
+      } catch (err) {
+        console.error('Error loading earlier payments:', err);
+      }
+    };
+
+    loadEarlierPayments();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [order.id, split, amountDue]);
+
+  const alreadyPaid = paidAmount(earlierPayments);
+  const outstanding = outstandingBalance(amountDue, earlierPayments);
+  // A fully discounted bill is closed with a payment of zero
+  const settlesAtZero = Number(amountDue) <= 0 && !hasActivePayments(earlierPayments);
+
+  const tendered = parseFloat(cashTendered);
+  const hasTendered = paymentMethod === 'cash' && !isNaN(tendered);
+  const change = hasTendered ? changeDue(tendered, parseFloat(amount) || 0, parseFloat(tipAmount) || 0) : 0;
+  const keptAsTip = hasTendered ? parseFloat(changeToTip) || 0 : 0;
+
   const loadBanks = async () => {
     try {
       const { data, error } = await supabase
@@ -72,6 +115,25 @@ export function PaymentForm({ order, onClose, onSuccess }: PaymentFormProps) {
       return;
     }
 
+    const paymentAmount = parseFloat(amount);
+    if (isNaN(paymentAmount) || (paymentAmount <= 0 && !settlesAtZero)) {
+      setError('Please enter the amount being paid');
+      return;
+    }
+    if (paymentAmount > outstanding + 0.005) {
+      setError(`The amount cannot be more than the outstanding balance of $${outstanding.toFixed(2)}`);
+      return;
+    }
+
+    if (hasTendered && change < 0) {
+      setError('The cash tendered does not cover the amount and tip');
+      return;
+    }
+    if (keptAsTip < 0 || keptAsTip > change) {
+      setError(`No more than the change of $${change.toFixed(2)} can be kept as tip`);
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -118,8 +180,10 @@ export function PaymentForm({ order, onClose, onSuccess }: PaymentFormProps) {
           {
             order_id: order.id,
             payment_method: paymentMethod,
-            amount: order.total_amount,
-            tip_amount: tipAmount ? parseFloat(tipAmount) : 0,
+            split_id: split?.id ?? null,
+            amount: paymentAmount,
+            tip_amount: roundCents((tipAmount ? parseFloat(tipAmount) : 0) + keptAsTip),
+            cash_tendered: hasTendered ? tendered : null,
             transfer_screenshot_url: screenshotUrl,
             receipt_url: receiptUrl,
             bank_id: paymentMethod === 'bank_transfer' ? selectedBankId : null,
@@ -127,18 +191,12 @@ export function PaymentForm({ order, onClose, onSuccess }: PaymentFormProps) {
           },
         ]);
 
+      // The database moves the order to paid once every check is covered
       if (paymentError) throw paymentError;
 
-      const { error: updateError } = await supabase
-        .from('orders')
-        .update({ status: 'paid' })
-        .eq('id', order.id);
-
-      if (updateError) throw updateError;
-
       onSuccess();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to submit payment');
+      setError(errorMessage(err, 'Failed to submit payment'));
     } finally {
       setLoading(false);
     }
@@ -152,7 +210,8 @@ export function PaymentForm({ order, onClose, onSuccess }: PaymentFormProps) {
             <div>
               <h2 className="text-3xl font-bold text-gray-900">Record Payment</h2>
               <p className="text-gray-600 mt-1">
-                Table {order.table_number} - ${Number(order.total_amount).toFixed(2)}
+                Table {order.table_number}
+                {split && ` - ${split.label}`} - ${Number(amountDue).toFixed(2)}
               </p>
             </div>
             <button
@@ -164,6 +223,40 @@ export function PaymentForm({ order, onClose, onSuccess }: PaymentFormProps) {
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Amount Paid ($)</label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  step="0.01"
+                  min={settlesAtZero ? '0' : '0.01'}
+                  max={outstanding.toFixed(2)}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                  required
+                />
+                <button
+                  type="button"
+                  onClick={() => setAmount(outstanding.toFixed(2))}
+                  className="px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm font-medium"
+                >
+                  Pay the rest
+                </button>
+              </div>
+              {alreadyPaid > 0 && (
+                <p className="text-sm text-gray-600 mt-2">
+                  ${alreadyPaid.toFixed(2)} already paid · ${outstanding.toFixed(2)} outstanding
+                </p>
+              )}
+              {Number(order.service_charge_amount) > 0 && (
+                <p className="text-sm text-gray-600 mt-2">
+                  The bill includes a ${Number(order.service_charge_amount).toFixed(2)} service charge (
+                  {Number(order.service_charge_rate)}%)
+                </p>
+              )}
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-3">
                 Payment Method
@@ -209,8 +302,80 @@ export function PaymentForm({ order, onClose, onSuccess }: PaymentFormProps) {
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
                 placeholder="0.00"
               />
+              {Number(order.service_charge_amount) > 0 && (
+                <p className="text-xs text-gray-500 mt-1">On top of the bill; the service charge is not a tip</p>
+              )}
             </div>
 
+            {paymentMethod === 'cash' && (
+              <div className="space-y-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Cash Tendered ($) - Optional
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={cashTendered}
+                    onChange={(e) => {
+                      setCashTendered(e.target.value);
+                      setChangeToTip('');
+                    }}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                    placeholder="0.00"
+                  />
+                </div>
+
+                {hasTendered && (
+                  <div
+                    className={`rounded-lg px-4 py-3 border ${
+                      change < 0 ? 'bg-red-50 border-red-200 text-red-700' : 'bg-green-50 border-green-200 text-green-900'
+                    }`}
+                  >
+                    {change < 0 ? (
+                      <div className="font-medium">${(-change).toFixed(2)} short of the amount and tip</div>
+                    ) : (
+                      <>
+                        <div className="flex justify-between font-medium">
+                          <span>Change due</span>
+                          <span>${change.toFixed(2)}</span>
+                        </div>
+                        {change > 0 && (
+                          <div className="flex items-center gap-2 mt-3">
+                            <label className="text-sm flex-1">Keep as tip ($)</label>
+                            <input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              max={change.toFixed(2)}
+                              value={changeToTip}
+                              onChange={(e) => setChangeToTip(e.target.value)}
+                              className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-gray-900"
+                              placeholder="0.00"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => setChangeToTip(change.toFixed(2))}
+                              className="px-3 py-2 border border-green-300 rounded-lg hover:bg-green-100 transition text-sm font-medium"
+                            >
+                              Keep all
+                            </button>
+                          </div>
+                        )}
+                        {keptAsTip > 0 && (
+                          <div className="flex justify-between text-sm mt-2">
+                            <span>Change to hand back</span>
+                            <span className="font-semibold">${roundCents(change - keptAsTip).toFixed(2)}</span>
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
             {paymentMethod === 'bank_transfer' && (
               <div className="space-y-4">
                 <div>
@@ -1,93 +1,190 @@
-import { useState, useMemo } from 'react';
-import { Eye, Calendar, ChevronLeft, ChevronRight } from 'lucide-react';
-
-type Payment = {
-  id: string;
-  order_id: string;
-  payment_method: string;
-  amount: number;
-  tip_amount: number;
-  transfer_screenshot_url: string | null;
-  receipt_url: string | null;
-  status: 'pending' | 'approved' | 'declined';
-  submitted_at: string;
-  confirmed_at: string | null;
-  declined_reason: string | null;
-  bank_id: string | null;
-};
-
-type Bank = {
-  id: string;
-  name: string;
-};
-
-type Order = {
-  id: string;
-  table_number: string;
-  waiter_id?: string;
-};
-
-type Waiter = {
-  id: string;
-  full_name: string;
-  active?: boolean;
-};
+import { useState, useEffect, useMemo } from 'react';
+import { Eye, Calendar, ChevronLeft, ChevronRight, PieChart } from 'lucide-react';
+import { supabase, Bank, Order, Profile } from '../lib/supabase';
+import {
+  CategorySales,
+  DiscountTotal,
+  fetchDiscountTotals,
+  fetchPaymentTotals,
+  fetchPaymentsPage,
+  fetchSalesByCategory,
+  PaymentFilters,
+  PaymentsPage,
+  PaymentTotals,
+  sumPaymentTotals,
+} from '../lib/data';
+import {
+  applyPaymentChangeToPage,
+  applyPaymentChangeToTotals,
+  canApplyToTotals,
+  ChangeFeed,
+  PaymentChange,
+} from '../lib/realtime';
 
 type PaymentsListProps = {
-  payments: (Payment & { order: Order; waiter?: Waiter; bank?: Bank })[];
   onViewImage: (url: string) => void;
-  onViewOrderDetails?: (order: Order, waiter: Waiter) => void;
-  isWaiter?: boolean;
+  onViewOrderDetails?: (order: Order, waiter: Profile) => void;
   isCashierReport?: boolean;
+  paymentChanges?: ChangeFeed<PaymentChange>;
 };
 
-export function PaymentsList({ payments, onViewImage, onViewOrderDetails, isWaiter = false, isCashierReport = false }: PaymentsListProps) {
+export function PaymentsList({ onViewImage, onViewOrderDetails, isCashierReport = false, paymentChanges }: PaymentsListProps) {
   const [dateFromFilter, setDateFromFilter] = useState<string>('');
   const [dateToFilter, setDateToFilter] = useState<string>('');
   const [statusFilter, setStatusFilter] = useState<'all' | 'pending' | 'approved' | 'declined'>('all');
   const [waiterFilter, setWaiterFilter] = useState<string>('all');
   const [bankFilter, setBankFilter] = useState<string>('all');
   const [currentPage, setCurrentPage] = useState(1);
+  const [page, setPage] = useState<PaymentsPage>({ payments: [], count: 0 });
+  const [totals, setTotals] = useState<PaymentTotals>({ count: 0, amount: 0, serviceCharge: 0, tip: 0 });
+  const [waiters, setWaiters] = useState<Profile[]>([]);
+  const [banks, setBanks] = useState<Bank[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [showCategorySales, setShowCategorySales] = useState(false);
+  const [categorySales, setCategorySales] = useState<CategorySales[]>([]);
+  const [categorySalesReloadKey, setCategorySalesReloadKey] = useState(0);
+  const [discountTotals, setDiscountTotals] = useState<DiscountTotal[]>([]);
+  const [discountTotalsReloadKey, setDiscountTotalsReloadKey] = useState(0);
   const itemsPerPage = 5;
 
-  const uniqueWaiters = useMemo(() => {
-    const waiters = new Map<string, Waiter>();
-    payments.forEach((p) => {
-      if (p.waiter && !waiters.has(p.waiter.id)) {
-        if (!isCashierReport || p.waiter.active !== false) {
-          waiters.set(p.waiter.id, p.waiter);
+  const filters = useMemo<PaymentFilters>(
+    () => ({
+      dateFrom: dateFromFilter,
+      dateTo: dateToFilter,
+      status: statusFilter === 'all' ? undefined : statusFilter,
+      waiterId: waiterFilter === 'all' ? undefined : waiterFilter,
+      bankFilter: bankFilter === 'all' ? undefined : bankFilter,
+    }),
+    [dateFromFilter, dateToFilter, statusFilter, waiterFilter, bankFilter]
+  );
+
+  useEffect(() => {
+    const loadFilterOptions = async () => {
+      try {
+        const [banksRes, waitersRes] = await Promise.all([
+          supabase.from('banks').select('*').order('name', { ascending: true }),
+          isCashierReport
+            ? supabase.from('profiles').select('*').eq('role', 'waiter').eq('active', true).order('full_name')
+            : Promise.resolve({ data: [], error: null }),
+        ]);
+
+        if (banksRes.error) throw banksRes.error;
+        if (waitersRes.error) throw waitersRes.error;
+
+        setBanks(banksRes.data || []);
+        setWaiters(waitersRes.data || []);
+      } catch (error) {
+        console.error('Error loading filter options:', error);
+      }
+    };
+
+    loadFilterOptions();
+  }, [isCashierReport]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadPayments = async () => {
+      setLoading(true);
+      try {
+        const [nextPage, totalsByStatus] = await Promise.all([
+          fetchPaymentsPage(filters, currentPage, itemsPerPage),
+          fetchPaymentTotals(filters),
+        ]);
+
+        if (cancelled) return;
+        if (nextPage.payments.length === 0 && currentPage > 1) {
+          setCurrentPage(Math.max(1, Math.ceil(nextPage.count / itemsPerPage)));
+          return;
         }
+        setPage(nextPage);
+        setTotals(sumPaymentTotals(totalsByStatus));
+      } catch (error) {
+        console.error('Error loading payments:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
       }
-    });
-    return Array.from(waiters.values());
-  }, [payments, isCashierReport]);
-
-  const uniqueBanks = useMemo(() => {
-    const banks = new Map<string, Bank>();
-    payments.forEach((p) => {
-      if (p.bank && !banks.has(p.bank.id)) {
-        banks.set(p.bank.id, p.bank);
+    };
+
+    loadPayments();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, currentPage, reloadKey]);
+
+  useEffect(() => {
+    if (!showCategorySales) return;
+    let cancelled = false;
+
+    const loadCategorySales = async () => {
+      try {
+        const sales = await fetchSalesByCategory(filters);
+        if (!cancelled) setCategorySales(sales);
+      } catch (error) {
+        console.error('Error loading sales by category:', error);
+      }
+    };
+
+    loadCategorySales();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showCategorySales, filters, categorySalesReloadKey]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadDiscountTotals = async () => {
+      try {
+        const rows = await fetchDiscountTotals(filters);
+        if (!cancelled) setDiscountTotals(rows);
+      } catch (error) {
+        console.error('Error loading discount totals:', error);
+      }
+    };
+
+    loadDiscountTotals();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, discountTotalsReloadKey]);
+
+  useEffect(() => {
+    if (!paymentChanges) return;
+
+    return paymentChanges.subscribe((change) => {
+      setCategorySalesReloadKey((key) => key + 1);
+      setDiscountTotalsReloadKey((key) => key + 1);
+
+      setPage((current) => applyPaymentChangeToPage(current, change, filters, currentPage, itemsPerPage));
+      if (canApplyToTotals(change)) {
+        setTotals((current) => applyPaymentChangeToTotals(current, change, filters) ?? current);
+      } else {
+        setReloadKey((key) => key + 1);
       }
     });
-    return Array.from(banks.values());
-  }, [payments]);
-
-  const filteredPayments = payments.filter((payment) => {
-    const paymentDate = new Date(payment.submitted_at).toISOString().split('T')[0];
-    const matchesDateFrom = !dateFromFilter || paymentDate >= dateFromFilter;
-    const matchesDateTo = !dateToFilter || paymentDate <= dateToFilter;
-    const matchesStatus = statusFilter === 'all' || payment.status === statusFilter;
-    const matchesWaiter = waiterFilter === 'all' || (payment.waiter?.id === waiterFilter);
-    const matchesBank = bankFilter === 'all' || (payment.bank?.id === bankFilter) || (bankFilter === 'cash' && payment.payment_method === 'cash') || (bankFilter === 'no_bank' && payment.payment_method === 'bank_transfer' && !payment.bank_id);
-    return matchesDateFrom && matchesDateTo && matchesStatus && matchesWaiter && matchesBank;
-  });
-
-  const totalAmount = filteredPayments.reduce((sum, p) => sum + Number(p.amount), 0);
-  const totalTip = filteredPayments.reduce((sum, p) => sum + Number(p.tip_amount), 0);
+  }, [paymentChanges, filters, currentPage]);
+
+  // Removing the last payments of a page leaves it empty while others remain
+  useEffect(() => {
+    if (page.payments.length === 0 && page.count > 0) {
+      setReloadKey((key) => key + 1);
+    }
+  }, [page]);
+
+  const { payments: paginatedPayments, count: totalCount } = page;
+  const totalAmount = totals.amount;
+  const totalTip = totals.tip;
+  const totalServiceCharge = totals.serviceCharge;
   const totalSum = totalAmount + totalTip;
+  const categorySalesTotal = categorySales.reduce((sum, row) => sum + row.amount, 0);
+  const totalDiscounts = discountTotals.reduce((sum, row) => sum + row.amount, 0);
 
-  const totalPages = Math.ceil(filteredPayments.length / itemsPerPage);
-  const paginatedPayments = filteredPayments.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
+  const totalPages = Math.ceil(totalCount / itemsPerPage);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -143,7 +240,7 @@ export function PaymentsList({ payments, onViewImage, onViewOrderDetails, isWait
             <select
               value={statusFilter}
               onChange={(e) => {
-                setStatusFilter(e.target.value as any);
+                setStatusFilter(e.target.value as typeof statusFilter);
                 setCurrentPage(1);
               }}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
@@ -167,8 +264,8 @@ export function PaymentsList({ payments, onViewImage, onViewOrderDetails, isWait
             >
               <option value="all">All Payment Methods</option>
               <option value="cash">Cash Only</option>
-              {uniqueBanks.length > 0 && <option value="no_bank">Bank Transfer (No Bank Set)</option>}
-              {uniqueBanks.map((bank) => (
+              {banks.length > 0 && <option value="no_bank">Bank Transfer (No Bank Set)</option>}
+              {banks.map((bank) => (
                 <option key={bank.id} value={bank.id}>
                   {bank.name}
                 </option>
@@ -176,7 +273,7 @@ export function PaymentsList({ payments, onViewImage, onViewOrderDetails, isWait
             </select>
           </div>
 
-          {isCashierReport && uniqueWaiters.length > 0 && (
+          {isCashierReport && waiters.length > 0 && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Filter by Waiter</label>
               <select
@@ -188,7 +285,7 @@ export function PaymentsList({ payments, onViewImage, onViewOrderDetails, isWait
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
               >
                 <option value="all">All Waiters</option>
-                {uniqueWaiters.map((waiter) => (
+                {waiters.map((waiter) => (
                   <option key={waiter.id} value={waiter.id}>
                     {waiter.full_name}
                   </option>
@@ -216,16 +313,19 @@ export function PaymentsList({ payments, onViewImage, onViewOrderDetails, isWait
           </div>
         )}
 
-        {filteredPayments.length > 0 && (
+        {totalCount > 0 && (
           <>
             <div className="text-sm text-gray-600">
               Showing {(currentPage - 1) * itemsPerPage + 1} to{' '}
-              {Math.min(currentPage * itemsPerPage, filteredPayments.length)} of {filteredPayments.length} payments
+              {Math.min(currentPage * itemsPerPage, totalCount)} of {totalCount} payments
             </div>
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-4 p-4 bg-white rounded-lg border border-gray-200">
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 mt-4 p-4 bg-white rounded-lg border border-gray-200">
               <div>
                 <div className="text-xs font-medium text-gray-500 uppercase mb-1">Total Amount</div>
                 <div className="text-xl font-bold text-gray-900">${totalAmount.toFixed(2)}</div>
+                {totalServiceCharge > 0 && (
+                  <div className="text-xs text-gray-500">incl. ${totalServiceCharge.toFixed(2)} service charge</div>
+                )}
               </div>
               <div>
                 <div className="text-xs font-medium text-gray-500 uppercase mb-1">Total Tips</div>
@@ -235,12 +335,70 @@ export function PaymentsList({ payments, onViewImage, onViewOrderDetails, isWait
                 <div className="text-xs font-medium text-gray-500 uppercase mb-1">Grand Total</div>
                 <div className="text-xl font-bold text-emerald-600">${totalSum.toFixed(2)}</div>
               </div>
+              <div>
+                <div className="text-xs font-medium text-gray-500 uppercase mb-1">Discounts Given</div>
+                <div className="text-xl font-bold text-pink-600">${totalDiscounts.toFixed(2)}</div>
+                <div className="text-xs text-gray-500">Not included in the amounts</div>
+              </div>
             </div>
+
+            {discountTotals.length > 0 && (
+              <div className="flex flex-wrap gap-2 text-xs">
+                {discountTotals.map((row) => (
+                  <span key={row.reasonName} className="px-2 py-1 bg-pink-50 text-pink-800 rounded-full font-medium">
+                    {row.reasonName}: {row.count} · ${row.amount.toFixed(2)}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div>
+              <button
+                onClick={() => setShowCategorySales((show) => !show)}
+                className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700 font-medium"
+              >
+                <PieChart className="w-4 h-4" />
+                {showCategorySales ? 'Hide sales by category' : 'Show sales by category'}
+              </button>
+            </div>
+
+            {showCategorySales && (
+              <div className="p-4 bg-white rounded-lg border border-gray-200">
+                {categorySales.length === 0 ? (
+                  <div className="text-center py-4 text-gray-500 text-sm">No items sold for these filters</div>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                        <th className="pb-2">Category</th>
+                        <th className="pb-2 text-right">Items Sold</th>
+                        <th className="pb-2 text-right">Sales</th>
+                        <th className="pb-2 text-right">Share</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {categorySales.map((row) => (
+                        <tr key={row.categoryId ?? 'none'}>
+                          <td className="py-2 font-medium text-gray-900">{row.categoryName}</td>
+                          <td className="py-2 text-right text-gray-700">{row.itemCount}</td>
+                          <td className="py-2 text-right font-semibold text-gray-900">${row.amount.toFixed(2)}</td>
+                          <td className="py-2 text-right text-gray-600">
+                            {categorySalesTotal > 0 ? ((row.amount / categorySalesTotal) * 100).toFixed(1) : '0.0'}%
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
           </>
         )}
       </div>
 
-      {filteredPayments.length === 0 ? (
+      {loading && totalCount === 0 ? (
+        <div className="text-center py-12 text-gray-500">Loading payments...</div>
+      ) : totalCount === 0 ? (
         <div className="text-center py-12 text-gray-500">No payments found</div>
       ) : (
         <>
@@ -322,9 +480,9 @@ export function PaymentsList({ payments, onViewImage, onViewOrderDetails, isWait
                         Receipt
                       </button>
                     )}
-                    {onViewOrderDetails && payment.waiter && (
+                    {onViewOrderDetails && (
                       <button
-                        onClick={() => onViewOrderDetails(payment.order, payment.waiter!)}
+                        onClick={() => onViewOrderDetails(payment.order, payment.waiter)}
                         className="flex items-center gap-2 px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition text-sm"
                       >
                         <Eye className="w-4 h-4" />
@@ -349,19 +507,31 @@ export function PaymentsList({ payments, onViewImage, onViewOrderDetails, isWait
               </button>
 
               <div className="flex items-center gap-2">
-                {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
-                  <button
-                    key={page}
-                    onClick={() => setCurrentPage(page)}
-                    className={`px-3 py-1 rounded-lg font-medium transition ${
-                      currentPage === page
-                        ? 'bg-blue-600 text-white'
-                        : 'border border-gray-300 text-gray-700 hover:bg-gray-100'
-                    }`}
-                  >
-                    {page}
-                  </button>
-                ))}
+                {Array.from({ length: Math.min(totalPages, 5) }, (_, i) => {
+                  let pageNum;
+                  if (totalPages <= 5) {
+                    pageNum = i + 1;
+                  } else if (currentPage <= 3) {
+                    pageNum = i + 1;
+                  } else if (currentPage >= totalPages - 2) {
+                    pageNum = totalPages - 4 + i;
+                  } else {
+                    pageNum = currentPage - 2 + i;
+                  }
+                  return (
+                    <button
+                      key={pageNum}
+                      onClick={() => setCurrentPage(pageNum)}
+                      className={`px-3 py-1 rounded-lg font-medium transition ${
+                        currentPage === pageNum
+                          ? 'bg-blue-600 text-white'
+                          : 'border border-gray-300 text-gray-700 hover:bg-gray-100'
+                      }`}
+                    >
+                      {pageNum}
+                    </button>
+                  );
+                })}
               </div>
 
               <button
@@ -0,0 +1,477 @@
+import { useState, useEffect } from 'react';
+import { supabase, Ingredient, PurchaseOrderStatus, PurchaseOrderWithDetails, Supplier } from '../lib/supabase';
+import { fetchIngredients, fetchPurchaseOrders, fetchSuppliers } from '../lib/data';
+import { formatQuantity } from '../lib/inventory';
+import {
+  expectedTotal,
+  isReceivable,
+  PURCHASE_ORDER_STATUS_LABELS,
+  PURCHASE_ORDER_STATUS_STYLES,
+} from '../lib/purchasing';
+import { errorMessage } from '../lib/errors';
+import { Plus, Trash2, Send, PackageCheck, X, Save } from 'lucide-react';
+
+type DraftLine = {
+  key: string;
+  ingredientId: string;
+  quantity: string;
+  unitCost: string;
+};
+
+type ReceiveLine = {
+  quantity: string;
+  unitCost: string;
+};
+
+const newDraftLine = (): DraftLine => ({
+  key: `line_${Date.now()}_${Math.random()}`,
+  ingredientId: '',
+  quantity: '',
+  unitCost: '',
+});
+
+export function PurchaseOrdersList() {
+  const [orders, setOrders] = useState<PurchaseOrderWithDetails[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [supplierId, setSupplierId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [draftLines, setDraftLines] = useState<DraftLine[]>([newDraftLine()]);
+  const [saving, setSaving] = useState(false);
+  const [receivingId, setReceivingId] = useState<string | null>(null);
+  const [receiveLines, setReceiveLines] = useState<Record<string, ReceiveLine>>({});
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [ordersData, suppliersData, ingredientsData] = await Promise.all([
+        fetchPurchaseOrders(),
+        fetchSuppliers(),
+        fetchIngredients(),
+      ]);
+      setOrders(ordersData);
+      setSuppliers(suppliersData);
+      setIngredients(ingredientsData);
+    } catch (err) {
+      console.error('Error loading purchase orders:', err);
+      setError('Failed to load purchase orders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadOrders = async () => {
+    try {
+      setOrders(await fetchPurchaseOrders());
+    } catch (err) {
+      console.error('Error loading purchase orders:', err);
+    }
+  };
+
+  const resetForm = () => {
+    setSupplierId('');
+    setNotes('');
+    setDraftLines([newDraftLine()]);
+    setShowForm(false);
+  };
+
+  const updateDraftLine = (key: string, changes: Partial<DraftLine>) => {
+    setDraftLines((lines) => lines.map((line) => (line.key === key ? { ...line, ...changes } : line)));
+  };
+
+  const createOrder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const lines = draftLines.filter((line) => line.ingredientId);
+    if (!supplierId) {
+      setError('Please choose a supplier');
+      return;
+    }
+    if (lines.length === 0) {
+      setError('Please add at least one ingredient');
+      return;
+    }
+
+    const items = lines.map((line) => ({
+      ingredient_id: line.ingredientId,
+      quantity: parseFloat(line.quantity),
+      unit_cost: line.unitCost.trim() ? parseFloat(line.unitCost) : 0,
+    }));
+    if (items.some((item) => isNaN(item.quantity) || item.quantity <= 0 || isNaN(item.unit_cost) || item.unit_cost < 0)) {
+      setError('Quantities must be positive and unit costs zero or more');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error: rpcError } = await supabase.rpc('create_purchase_order', {
+        p_supplier_id: supplierId,
+        p_notes: notes,
+        p_items: items,
+      });
+
+      if (rpcError) throw rpcError;
+
+      resetForm();
+      loadOrders();
+    } catch (err) {
+      console.error('Error creating purchase order:', err);
+      setError(errorMessage(err, 'Failed to create purchase order'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setStatus = async (order: PurchaseOrderWithDetails, status: PurchaseOrderStatus) => {
+    if (status === 'cancelled' && !confirm('Cancel this purchase order?')) return;
+
+    setError('');
+    try {
+      const { error: updateError } = await supabase
+        .from('purchase_orders')
+        .update(status === 'ordered' ? { status, ordered_at: new Date().toISOString() } : { status })
+        .eq('id', order.id);
+
+      if (updateError) throw updateError;
+      loadOrders();
+    } catch (err) {
+      console.error('Error updating purchase order:', err);
+      setError(errorMessage(err, 'Failed to update purchase order'));
+    }
+  };
+
+  const deleteOrder = async (orderId: string) => {
+    if (!confirm('Delete this draft purchase order?')) return;
+
+    setError('');
+    try {
+      const { error: deleteError } = await supabase.from('purchase_orders').delete().eq('id', orderId);
+
+      if (deleteError) throw deleteError;
+      loadOrders();
+    } catch (err) {
+      console.error('Error deleting purchase order:', err);
+      setError(errorMessage(err, 'Failed to delete purchase order'));
+    }
+  };
+
+  const startReceiving = (order: PurchaseOrderWithDetails) => {
+    setError('');
+    setReceivingId(order.id);
+    setReceiveLines(
+      Object.fromEntries(
+        order.items.map((item) => {
+          const remaining = Math.max(0, Number(item.quantity_ordered) - Number(item.quantity_received));
+          return [item.id, { quantity: remaining ? String(remaining) : '', unitCost: String(item.expected_unit_cost) }];
+        })
+      )
+    );
+  };
+
+  const receiveOrder = async (order: PurchaseOrderWithDetails) => {
+    setError('');
+
+    const lines = order.items
+      .map((item) => ({
+        item_id: item.id,
+        quantity: parseFloat(receiveLines[item.id]?.quantity || ''),
+        unit_cost: parseFloat(receiveLines[item.id]?.unitCost || ''),
+      }))
+      .filter((line) => !isNaN(line.quantity) && line.quantity !== 0);
+
+    if (lines.length === 0) {
+      setError('Please enter the quantities received');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error: rpcError } = await supabase.rpc('receive_purchase_order', {
+        p_purchase_order_id: order.id,
+        p_lines: lines,
+      });
+
+      if (rpcError) throw rpcError;
+
+      setReceivingId(null);
+      loadOrders();
+    } catch (err) {
+      console.error('Error receiving purchase order:', err);
+      setError(errorMessage(err, 'Failed to record delivery'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none';
+
+  return (
+    <div>
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">{error}</div>
+      )}
+
+      {showForm ? (
+        <form onSubmit={createOrder} className="border border-gray-200 rounded-lg p-4 mb-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">New Purchase Order</h3>
+            <button type="button" onClick={resetForm} className="p-2 hover:bg-gray-100 rounded-lg transition">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <select value={supplierId} onChange={(e) => setSupplierId(e.target.value)} className={inputClass}>
+              <option value="">Choose supplier</option>
+              {suppliers
+                .filter((supplier) => supplier.active)
+                .map((supplier) => (
+                  <option key={supplier.id} value={supplier.id}>
+                    {supplier.name}
+                  </option>
+                ))}
+            </select>
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Notes, e.g. deliver before 10am"
+              className={inputClass}
+            />
+          </div>
+
+          <div className="space-y-2">
+            {draftLines.map((line) => (
+              <div key={line.key} className="flex gap-2">
+                <select
+                  value={line.ingredientId}
+                  onChange={(e) => updateDraftLine(line.key, { ingredientId: e.target.value })}
+                  className={`flex-1 ${inputClass}`}
+                >
+                  <option value="">Choose ingredient</option>
+                  {ingredients.map((ingredient) => (
+                    <option key={ingredient.id} value={ingredient.id}>
+                      {ingredient.name} ({ingredient.unit})
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={line.quantity}
+                  onChange={(e) => updateDraftLine(line.key, { quantity: e.target.value })}
+                  placeholder="Qty"
+                  className={`w-24 ${inputClass}`}
+                />
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={line.unitCost}
+                  onChange={(e) => updateDraftLine(line.key, { unitCost: e.target.value })}
+                  placeholder="$ / unit"
+                  className={`w-28 ${inputClass}`}
+                />
+                <button
+                  type="button"
+                  onClick={() => setDraftLines((lines) => lines.filter((l) => l.key !== line.key))}
+                  disabled={draftLines.length === 1}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition disabled:opacity-30"
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setDraftLines((lines) => [...lines, newDraftLine()])}
+              className="flex items-center gap-2 px-3 py-2 text-sm text-blue-700 hover:bg-blue-50 rounded-lg transition"
+            >
+              <Plus className="w-4 h-4" />
+              Add line
+            </button>
+          </div>
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50"
+          >
+            <Save className="w-5 h-5" />
+            {saving ? 'Saving...' : 'Save as Draft'}
+          </button>
+        </form>
+      ) : (
+        <button
+          onClick={() => setShowForm(true)}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition mb-6"
+        >
+          <Plus className="w-5 h-5" />
+          New Purchase Order
+        </button>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-500">Loading purchase orders...</div>
+      ) : orders.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">No purchase orders yet.</div>
+      ) : (
+        <div className="space-y-4">
+          {orders.map((order) => {
+            const receiving = receivingId === order.id;
+            return (
+              <div key={order.id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-lg font-semibold text-gray-900">{order.supplier.name}</span>
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${PURCHASE_ORDER_STATUS_STYLES[order.status]}`}>
+                        {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                      </span>
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      Created {new Date(order.created_at).toLocaleDateString()}
+                      {order.ordered_at && ` · Sent ${new Date(order.ordered_at).toLocaleDateString()}`}
+                      {` · Expected $${expectedTotal(order).toFixed(2)}`}
+                    </div>
+                    {order.notes && <div className="text-sm text-gray-700 mt-1">{order.notes}</div>}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {order.status === 'draft' && (
+                      <>
+                        <button
+                          onClick={() => setStatus(order, 'ordered')}
+                          className="flex items-center gap-2 px-3 py-1.5 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition text-sm font-medium"
+                        >
+                          <Send className="w-4 h-4" />
+                          Mark as Sent
+                        </button>
+                        <button
+                          onClick={() => deleteOrder(order.id)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                    {isReceivable(order) && !receiving && (
+                      <button
+                        onClick={() => startReceiving(order)}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-green-100 text-green-700 rounded-lg hover:bg-green-200 transition text-sm font-medium"
+                      >
+                        <PackageCheck className="w-4 h-4" />
+                        Receive
+                      </button>
+                    )}
+                    {order.status === 'ordered' && (
+                      <button
+                        onClick={() => setStatus(order, 'cancelled')}
+                        className="px-3 py-1.5 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition text-sm font-medium"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-600 border-b border-gray-200">
+                        <th className="py-2 pr-3 font-medium">Ingredient</th>
+                        <th className="py-2 pr-3 font-medium text-right">Ordered</th>
+                        <th className="py-2 pr-3 font-medium text-right">Received</th>
+                        <th className="py-2 pr-3 font-medium text-right">Unit Cost</th>
+                        {receiving && <th className="py-2 pr-3 font-medium">This Delivery</th>}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {order.items.map((item) => {
+                        const line = receiveLines[item.id] || { quantity: '', unitCost: '' };
+                        return (
+                          <tr key={item.id} className="border-b border-gray-100 last:border-0">
+                            <td className="py-2 pr-3 text-gray-900">{item.ingredient.name}</td>
+                            <td className="py-2 pr-3 text-right text-gray-700">
+                              {formatQuantity(item.quantity_ordered, item.ingredient.unit)}
+                            </td>
+                            <td className="py-2 pr-3 text-right text-gray-700">
+                              {formatQuantity(item.quantity_received, item.ingredient.unit)}
+                            </td>
+                            <td className="py-2 pr-3 text-right text-gray-700">
+                              ${Number(item.expected_unit_cost).toFixed(2)}
+                            </td>
+                            {receiving && (
+                              <td className="py-2 pr-3">
+                                <div className="flex gap-2">
+                                  <input
+                                    type="number"
+                                    step="any"
+                                    min="0"
+                                    value={line.quantity}
+                                    onChange={(e) =>
+                                      setReceiveLines((lines) => ({
+                                        ...lines,
+                                        [item.id]: { ...line, quantity: e.target.value },
+                                      }))
+                                    }
+                                    placeholder="Qty"
+                                    className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                                  />
+                                  <input
+                                    type="number"
+                                    step="0.01"
+                                    min="0"
+                                    value={line.unitCost}
+                                    onChange={(e) =>
+                                      setReceiveLines((lines) => ({
+                                        ...lines,
+                                        [item.id]: { ...line, unitCost: e.target.value },
+                                      }))
+                                    }
+                                    placeholder="$ / unit"
+                                    className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                                  />
+                                </div>
+                              </td>
+                            )}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                {receiving && (
+                  <div className="flex gap-2 mt-3">
+                    <button
+                      onClick={() => setReceivingId(null)}
+                      className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => receiveOrder(order)}
+                      disabled={saving}
+                      className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition font-medium disabled:opacity-50"
+                    >
+                      <PackageCheck className="w-5 h-5" />
+                      {saving ? 'Saving...' : 'Record Delivery'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { ArrowLeft } from 'lucide-react';
+import { PurchaseOrdersList } from './PurchaseOrdersList';
+import { SuppliersList } from './SuppliersList';
+import { SupplierSpendReport } from './SupplierSpendReport';
+
+type PurchasingTab = 'orders' | 'suppliers' | 'spend';
+
+const TABS: { id: PurchasingTab; label: string }[] = [
+  { id: 'orders', label: 'Purchase Orders' },
+  { id: 'suppliers', label: 'Suppliers' },
+  { id: 'spend', label: 'Spend Report' },
+];
+
+type PurchasingManagementProps = {
+  onBack: () => void;
+};
+
+export function PurchasingManagement({ onBack }: PurchasingManagementProps) {
+  const [activeTab, setActiveTab] = useState<PurchasingTab>('orders');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-slate-100 p-4 sm:p-6">
+      <div className="max-w-5xl mx-auto">
+        <div className="bg-white rounded-2xl shadow-xl p-4 sm:p-8">
+          <div className="flex items-center gap-4 mb-6">
+            <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition">
+              <ArrowLeft className="w-6 h-6 text-gray-600" />
+            </button>
+            <div>
+              <h2 className="text-2xl sm:text-3xl font-bold text-gray-900">Purchasing</h2>
+              <p className="text-gray-600 mt-1">Suppliers, purchase orders and deliveries</p>
+            </div>
+          </div>
+
+          <div className="flex gap-2 overflow-x-auto pb-2 mb-6">
+            {TABS.map((tab) => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition ${
+                  activeTab === tab.id ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+
+          {activeTab === 'orders' && <PurchaseOrdersList />}
+          {activeTab === 'suppliers' && <SuppliersList />}
+          {activeTab === 'spend' && <SupplierSpendReport />}
+        </div>
+      </div>
+    </div>
+  );
+}
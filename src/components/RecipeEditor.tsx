@@ -0,0 +1,178 @@
+import { useState, useEffect } from 'react';
+import { supabase, Ingredient, Menu, RecipeItemWithIngredient } from '../lib/supabase';
+import { fetchIngredients, fetchRecipeItems } from '../lib/data';
+import { formatQuantity } from '../lib/inventory';
+import { X, Plus, Trash2 } from 'lucide-react';
+
+type RecipeEditorProps = {
+  menu: Menu;
+  onClose: () => void;
+};
+
+export function RecipeEditor({ menu, onClose }: RecipeEditorProps) {
+  const [recipeItems, setRecipeItems] = useState<RecipeItemWithIngredient[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [ingredientId, setIngredientId] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadRecipe = async () => {
+      try {
+        const [recipeData, ingredientsData] = await Promise.all([fetchRecipeItems(menu.id), fetchIngredients()]);
+        if (cancelled) return;
+        setRecipeItems(recipeData);
+        setIngredients(ingredientsData);
+      } catch (err) {
+        console.error('Error loading recipe:', err);
+        setError('Failed to load recipe');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadRecipe();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [menu.id, reloadKey]);
+
+  const loadRecipe = () => setReloadKey((key) => key + 1);
+
+  const addRecipeItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const amount = parseFloat(quantity);
+    if (!ingredientId) {
+      setError('Please choose an ingredient');
+      return;
+    }
+    if (isNaN(amount) || amount <= 0) {
+      setError('Quantity must be a positive number');
+      return;
+    }
+
+    try {
+      const { error: insertError } = await supabase
+        .from('recipe_items')
+        .insert([{ menu_id: menu.id, ingredient_id: ingredientId, quantity: amount }]);
+
+      if (insertError) throw insertError;
+
+      setIngredientId('');
+      setQuantity('');
+      loadRecipe();
+    } catch (err) {
+      console.error('Error adding recipe ingredient:', err);
+      setError('Failed to add ingredient. Each ingredient can only be added once.');
+    }
+  };
+
+  const deleteRecipeItem = async (recipeItemId: string) => {
+    setError('');
+    try {
+      const { error: deleteError } = await supabase.from('recipe_items').delete().eq('id', recipeItemId);
+      if (deleteError) throw deleteError;
+      loadRecipe();
+    } catch (err) {
+      console.error('Error removing recipe ingredient:', err);
+      setError('Failed to remove ingredient');
+    }
+  };
+
+  const unusedIngredients = ingredients.filter(
+    (ingredient) => !recipeItems.some((item) => item.ingredient_id === ingredient.id)
+  );
+  const selectedUnit = ingredients.find((ingredient) => ingredient.id === ingredientId)?.unit;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 p-4 sm:p-6 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Recipe</h2>
+            <p className="text-gray-600">{menu.name} · per portion</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-6">
+          {error && (
+            <div className="p-3 bg-red-100 border border-red-400 text-red-800 rounded-lg">{error}</div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading recipe...</div>
+          ) : recipeItems.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              No ingredients yet. Stock is not tracked for this item until you add some.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {recipeItems.map((item) => (
+                <div key={item.id} className="flex items-center justify-between bg-gray-50 px-3 py-2 rounded">
+                  <span className="text-gray-900">{item.ingredient.name}</span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-gray-600">{formatQuantity(item.quantity, item.ingredient.unit)}</span>
+                    <button
+                      onClick={() => deleteRecipeItem(item.id)}
+                      className="p-1 text-red-600 hover:bg-red-50 rounded transition"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={addRecipeItem} className="border-t pt-4 space-y-3">
+            <h3 className="font-semibold text-gray-900">Add Ingredient</h3>
+            {ingredients.length === 0 && !loading ? (
+              <div className="text-sm text-gray-500">Add ingredients under Inventory first.</div>
+            ) : (
+              <div className="flex gap-2">
+                <select
+                  value={ingredientId}
+                  onChange={(e) => setIngredientId(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                  <option value="">Choose ingredient</option>
+                  {unusedIngredients.map((ingredient) => (
+                    <option key={ingredient.id} value={ingredient.id}>
+                      {ingredient.name} ({ingredient.unit})
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  placeholder={selectedUnit || 'Qty'}
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+                <button
+                  type="submit"
+                  className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+                >
+                  <Plus className="w-5 h-5" />
+                </button>
+              </div>
+            )}
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
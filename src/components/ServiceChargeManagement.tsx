@@ -0,0 +1,242 @@
+import { useState, useEffect } from 'react';
+import { supabase, RestaurantTable, ServiceChargeRule } from '../lib/supabase';
+import { fetchRestaurantTables, fetchServiceChargeRules } from '../lib/data';
+import { tableSections } from '../lib/floorPlan';
+import { describeServiceChargeRule } from '../lib/serviceCharge';
+import { useAuth } from '../contexts/AuthContext';
+import { ArrowLeft, Plus, Trash2 } from 'lucide-react';
+
+type ServiceChargeManagementProps = {
+  onBack: () => void;
+};
+
+const emptyRule = {
+  name: '',
+  percent: '',
+  min_party_size: '',
+  section: '',
+};
+
+export function ServiceChargeManagement({ onBack }: ServiceChargeManagementProps) {
+  const { profile } = useAuth();
+  const [rules, setRules] = useState<ServiceChargeRule[]>([]);
+  const [tables, setTables] = useState<RestaurantTable[]>([]);
+  const [newRule, setNewRule] = useState(emptyRule);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadServiceCharges();
+  }, []);
+
+  const loadServiceCharges = async () => {
+    try {
+      const [rulesData, tablesData] = await Promise.all([fetchServiceChargeRules(), fetchRestaurantTables()]);
+      setRules(rulesData);
+      setTables(tablesData);
+    } catch (err) {
+      console.error('Error loading service charges:', err);
+      setError('Failed to load service charges');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addRule = async () => {
+    const percent = parseFloat(newRule.percent);
+    const minPartySize = newRule.min_party_size ? parseInt(newRule.min_party_size, 10) : null;
+    if (!newRule.name.trim()) {
+      setError('Please enter a name');
+      return;
+    }
+    if (isNaN(percent) || percent <= 0 || percent > 100) {
+      setError('Enter a percentage between 0 and 100');
+      return;
+    }
+    if (minPartySize !== null && (isNaN(minPartySize) || minPartySize <= 0)) {
+      setError('The party size must be at least one guest');
+      return;
+    }
+
+    setError('');
+    try {
+      const { error } = await supabase.from('service_charge_rules').insert([
+        {
+          name: newRule.name.trim(),
+          percent,
+          min_party_size: minPartySize,
+          section: newRule.section || null,
+          created_by: profile?.id,
+        },
+      ]);
+
+      if (error) throw error;
+
+      setNewRule(emptyRule);
+      loadServiceCharges();
+    } catch (err) {
+      console.error('Error adding service charge rule:', err);
+      setError('Failed to add service charge rule');
+    }
+  };
+
+  const toggleRuleStatus = async (rule: ServiceChargeRule) => {
+    setError('');
+    try {
+      const { error } = await supabase
+        .from('service_charge_rules')
+        .update({ active: !rule.active })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      loadServiceCharges();
+    } catch (err) {
+      console.error('Error toggling service charge rule:', err);
+      setError('Failed to update service charge rule');
+    }
+  };
+
+  const deleteRule = async (rule: ServiceChargeRule) => {
+    if (!confirm(`Delete the service charge "${rule.name}"? Orders already taken keep their service charge.`)) return;
+
+    setError('');
+    try {
+      const { error } = await supabase.from('service_charge_rules').delete().eq('id', rule.id);
+
+      if (error) throw error;
+      loadServiceCharges();
+    } catch (err) {
+      console.error('Error deleting service charge rule:', err);
+      setError('Failed to delete service charge rule');
+    }
+  };
+
+  const inputClass =
+    'px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-slate-100 p-6">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <div className="flex items-center gap-4 mb-6">
+            <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition">
+              <ArrowLeft className="w-6 h-6 text-gray-600" />
+            </button>
+            <div>
+              <h2 className="text-3xl font-bold text-gray-900">Service Charge</h2>
+              <p className="text-gray-600 mt-1">
+                Added to new orders after discounts; when several rules match, the highest applies
+              </p>
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">{error}</div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-12 text-gray-500">Loading service charges...</div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+                <input
+                  type="text"
+                  value={newRule.name}
+                  onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+                  placeholder="Name, e.g., Large parties"
+                  className={inputClass}
+                />
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  value={newRule.percent}
+                  onChange={(e) => setNewRule({ ...newRule, percent: e.target.value })}
+                  placeholder="Percent"
+                  className={inputClass}
+                />
+                <input
+                  type="number"
+                  step="1"
+                  min="1"
+                  value={newRule.min_party_size}
+                  onChange={(e) => setNewRule({ ...newRule, min_party_size: e.target.value })}
+                  placeholder="Minimum party size (optional)"
+                  className={inputClass}
+                />
+                <select
+                  value={newRule.section}
+                  onChange={(e) => setNewRule({ ...newRule, section: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Any section</option>
+                  {tableSections(tables).map((section) => (
+                    <option key={section} value={section}>
+                      {section}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={addRule}
+                className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium mb-4"
+              >
+                <Plus className="w-5 h-5" />
+                Add Rule
+              </button>
+
+              {rules.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">No service charge rules yet</div>
+              ) : (
+                <div className="space-y-2">
+                  {rules.map((rule) => (
+                    <div
+                      key={rule.id}
+                      className={`flex items-center justify-between gap-3 border rounded-lg px-4 py-3 ${
+                        rule.active ? 'bg-white border-gray-200' : 'bg-gray-50 border-gray-300'
+                      }`}
+                    >
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className={`font-semibold ${rule.active ? 'text-gray-900' : 'text-gray-500'}`}>
+                            {rule.name}
+                          </span>
+                          <span className="text-sm text-gray-700">{Number(rule.percent)}%</span>
+                          {!rule.active && (
+                            <span className="px-2 py-1 bg-gray-200 text-gray-700 rounded text-xs font-medium">
+                              INACTIVE
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">{describeServiceChargeRule(rule)}</div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => toggleRuleStatus(rule)}
+                          className={`px-3 py-1.5 rounded-lg transition text-sm font-medium ${
+                            rule.active
+                              ? 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200'
+                              : 'bg-green-100 text-green-700 hover:bg-green-200'
+                          }`}
+                        >
+                          {rule.active ? 'Deactivate' : 'Activate'}
+                        </button>
+                        <button
+                          onClick={() => deleteRule(rule)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import { useState, useEffect } from 'react';
+import { supabase, OrderItemWithMenu, OrderWithItemNotes } from '../lib/supabase';
+import { fetchOrderItemsWithMenu } from '../lib/data';
+import { formatModifiers } from '../lib/modifiers';
+import { equalShares, itemShares, SPLIT_MODE_LABELS, SplitMode } from '../lib/splits';
+import { errorMessage } from '../lib/errors';
+import { X, Save, Minus, Plus, Undo2 } from 'lucide-react';
+
+type SplitBillFormProps = {
+  order: OrderWithItemNotes;
+  // Seats at the order's table, used as the starting number of seats
+  seats?: number;
+  onClose: () => void;
+  onSuccess: () => void;
+};
+
+// One unit of an order item; an item ordered three times can go on three checks
+type Unit = {
+  key: string;
+  item: OrderItemWithMenu;
+};
+
+const MAX_CHECKS = 20;
+
+export function SplitBillForm({ order, seats, onClose, onSuccess }: SplitBillFormProps) {
+  const [mode, setMode] = useState<SplitMode>('items');
+  const [count, setCount] = useState(2);
+  const [units, setUnits] = useState<Unit[]>([]);
+  const [assignments, setAssignments] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadItems = async () => {
+      try {
+        const items = await fetchOrderItemsWithMenu(order.id);
+        if (cancelled) return;
+
+        setUnits(
+          items.flatMap((item) => Array.from({ length: item.quantity }, (_, i) => ({ key: `${item.id}:${i}`, item })))
+        );
+      } catch (err) {
+        console.error('Error loading order items:', err);
+        if (!cancelled) setError('Failed to load the order items');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadItems();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [order.id]);
+
+  const chooseMode = (nextMode: SplitMode) => {
+    setMode(nextMode);
+    setError('');
+    if (nextMode === 'seats' && seats && seats >= 2) {
+      setCount(Math.min(seats, MAX_CHECKS));
+    }
+  };
+
+  const changeCount = (nextCount: number) => {
+    const clamped = Math.max(2, Math.min(MAX_CHECKS, nextCount));
+    setCount(clamped);
+    // Units on a check that no longer exists go back to the first one
+    setAssignments((current) =>
+      Object.fromEntries(Object.entries(current).map(([key, check]) => [key, check < clamped ? check : 0]))
+    );
+  };
+
+  const checkLabel = (index: number) =>
+    mode === 'seats' ? `Seat ${index + 1}` : mode === 'equal' ? `Share ${index + 1} of ${count}` : `Check ${index + 1}`;
+
+  const checkUnits = (index: number) => units.filter((unit) => (assignments[unit.key] ?? 0) === index);
+
+  const checkTotals =
+    mode === 'equal'
+      ? equalShares(Number(order.total_amount), count)
+      : itemShares(
+          Array.from({ length: count }, (_, index) =>
+            checkUnits(index).reduce((sum, unit) => sum + Number(unit.item.price_at_purchase), 0)
+          ),
+          Number(order.total_amount)
+        );
+
+  const buildSplits = () => {
+    if (mode === 'equal') {
+      return Array.from({ length: count }, (_, index) => ({ label: checkLabel(index) }));
+    }
+
+    // Seats and checks without items are left out
+    return Array.from({ length: count }, (_, index) => {
+      const quantities = new Map<string, number>();
+      checkUnits(index).forEach((unit) => quantities.set(unit.item.id, (quantities.get(unit.item.id) ?? 0) + 1));
+      return {
+        label: checkLabel(index),
+        items: Array.from(quantities, ([orderItemId, quantity]) => ({ order_item_id: orderItemId, quantity })),
+      };
+    }).filter((split) => split.items.length > 0);
+  };
+
+  const saveSplit = async (splits: ReturnType<typeof buildSplits>) => {
+    setError('');
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('split_order', {
+        p_order_id: order.id,
+        p_mode: mode === 'equal' ? 'equal' : 'items',
+        p_splits: splits,
+      });
+
+      if (error) throw error;
+
+      onSuccess();
+    } catch (err) {
+      console.error('Error splitting bill:', err);
+      setError(errorMessage(err, 'Failed to split the bill'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const splits = buildSplits();
+    if (splits.length < 2) {
+      setError(`Please put the items on at least two ${mode === 'seats' ? 'seats' : 'checks'}`);
+      return;
+    }
+
+    await saveSplit(splits);
+  };
+
+  const removeSplit = async () => {
+    if (!confirm('Remove the split and pay this order as one bill?')) return;
+    await saveSplit([]);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-slate-100 p-6">
+      <div className="max-w-3xl mx-auto">
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-3xl font-bold text-gray-900">Split Bill</h2>
+              <p className="text-gray-600 mt-1">
+                Table {order.table_number} - ${Number(order.total_amount).toFixed(2)}
+              </p>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition">
+              <X className="w-6 h-6 text-gray-600" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(SPLIT_MODE_LABELS) as SplitMode[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => chooseMode(option)}
+                  className={`px-3 py-2 rounded-lg text-sm font-medium transition ${
+                    mode === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {SPLIT_MODE_LABELS[option]}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-700">
+                {mode === 'seats' ? 'Seats' : mode === 'equal' ? 'Shares' : 'Checks'}
+              </span>
+              <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => changeCount(count - 1)}
+                  disabled={count <= 2}
+                  className="p-2 border border-gray-300 rounded-lg hover:bg-gray-100 transition disabled:opacity-50"
+                >
+                  <Minus className="w-4 h-4" />
+                </button>
+                <span className="w-8 text-center text-lg font-semibold">{count}</span>
+                <button
+                  type="button"
+                  onClick={() => changeCount(count + 1)}
+                  disabled={count >= MAX_CHECKS}
+                  className="p-2 border border-gray-300 rounded-lg hover:bg-gray-100 transition disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {loading ? (
+              <div className="text-center py-8 text-gray-500">Loading items...</div>
+            ) : (
+              mode !== 'equal' && (
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                  {units.map((unit) => (
+                    <div key={unit.key} className="flex items-center justify-between gap-3 px-4 py-2">
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-900 truncate">{unit.item.menu.name}</div>
+                        {unit.item.modifiers.length > 0 && (
+                          <div className="text-xs text-gray-600 truncate">{formatModifiers(unit.item.modifiers)}</div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-3 flex-shrink-0">
+                        <span className="text-sm text-gray-700">${Number(unit.item.price_at_purchase).toFixed(2)}</span>
+                        <select
+                          value={assignments[unit.key] ?? 0}
+                          onChange={(e) =>
+                            setAssignments((current) => ({ ...current, [unit.key]: parseInt(e.target.value, 10) }))
+                          }
+                          className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                        >
+                          {Array.from({ length: count }, (_, index) => (
+                            <option key={index} value={index}>
+                              {checkLabel(index)}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {checkTotals.map((total, index) => (
+                <div
+                  key={index}
+                  className={`border rounded-lg px-3 py-2 ${
+                    total > 0 ? 'border-blue-200 bg-blue-50' : 'border-gray-200 bg-gray-50 text-gray-400'
+                  }`}
+                >
+                  <div className="text-sm font-medium">{checkLabel(index)}</div>
+                  <div className="text-lg font-bold">${total.toFixed(2)}</div>
+                </div>
+              ))}
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-4">
+              {order.splits.length > 0 && (
+                <button
+                  type="button"
+                  onClick={removeSplit}
+                  disabled={saving}
+                  className="flex items-center justify-center gap-2 px-6 py-3 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition font-medium disabled:opacity-50"
+                >
+                  <Undo2 className="w-5 h-5" />
+                  Remove Split
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving || loading}
+                className="flex-1 flex items-center justify-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50"
+              >
+                <Save className="w-5 h-5" />
+                {saving ? 'Saving...' : 'Split Bill'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useState, useEffect } from 'react';
+import { supabase, Station } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { ArrowLeft, Plus, Edit2, Trash2, Save, X } from 'lucide-react';
+
+type StationManagementProps = {
+  onBack: () => void;
+};
+
+export function StationManagement({ onBack }: StationManagementProps) {
+  const { profile } = useAuth();
+  const [stations, setStations] = useState<Station[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [newStationName, setNewStationName] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadStations();
+  }, []);
+
+  const loadStations = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('stations')
+        .select('*')
+        .order('active', { ascending: false })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      setStations(data || []);
+    } catch (err) {
+      console.error('Error loading stations:', err);
+      setError('Failed to load stations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addStation = async () => {
+    if (!newStationName.trim()) return;
+
+    setError('');
+    try {
+      const { error } = await supabase
+        .from('stations')
+        .insert([
+          {
+            name: newStationName.trim(),
+            created_by: profile?.id,
+            active: true,
+          },
+        ]);
+
+      if (error) throw error;
+
+      setNewStationName('');
+      loadStations();
+    } catch (err) {
+      console.error('Error adding station:', err);
+      setError('Failed to add station. Station names must be unique.');
+    }
+  };
+
+  const updateStation = async (stationId: string) => {
+    if (!editName.trim()) return;
+
+    setError('');
+    try {
+      const { error } = await supabase
+        .from('stations')
+        .update({ name: editName.trim() })
+        .eq('id', stationId);
+
+      if (error) throw error;
+
+      setEditingId(null);
+      setEditName('');
+      loadStations();
+    } catch (err) {
+      console.error('Error updating station:', err);
+      setError('Failed to update station');
+    }
+  };
+
+  const toggleStationStatus = async (stationId: string, currentStatus: boolean) => {
+    setError('');
+    try {
+      const { error } = await supabase
+        .from('stations')
+        .update({ active: !currentStatus })
+        .eq('id', stationId);
+
+      if (error) throw error;
+      loadStations();
+    } catch (err) {
+      console.error('Error toggling station status:', err);
+      setError('Failed to update station status');
+    }
+  };
+
+  const deleteStation = async (stationId: string) => {
+    if (!confirm('Are you sure you want to delete this station? Its menu items will no longer be routed anywhere.')) {
+      return;
+    }
+
+    setError('');
+    try {
+      const { error } = await supabase.from('stations').delete().eq('id', stationId);
+
+      if (error) throw error;
+      loadStations();
+    } catch (err) {
+      console.error('Error deleting station:', err);
+      setError('Failed to delete station');
+    }
+  };
+
+  const startEdit = (station: Station) => {
+    setEditingId(station.id);
+    setEditName(station.name);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setEditName('');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-slate-100 p-6">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={onBack}
+                className="p-2 hover:bg-gray-100 rounded-lg transition"
+              >
+                <ArrowLeft className="w-6 h-6 text-gray-600" />
+              </button>
+              <div>
+                <h2 className="text-3xl font-bold text-gray-900">Preparation Stations</h2>
+                <p className="text-gray-600 mt-1">Manage where menu items are prepared</p>
+              </div>
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+              {error}
+            </div>
+          )}
+
+          <div className="mb-8">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Add New Station</h3>
+            <div className="flex gap-3">
+              <input
+                type="text"
+                value={newStationName}
+                onChange={(e) => setNewStationName(e.target.value)}
+                onKeyPress={(e) => e.key === 'Enter' && addStation()}
+                placeholder="e.g., Bar, Grill, Pastry..."
+                className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              />
+              <button
+                onClick={addStation}
+                disabled={!newStationName.trim()}
+                className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Plus className="w-5 h-5" />
+                Add Station
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Stations List</h3>
+            {loading ? (
+              <div className="text-center py-12 text-gray-500">Loading stations...</div>
+            ) : stations.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                No stations yet. Add your first station above.
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {stations.map((station) => (
+                  <div
+                    key={station.id}
+                    className={`border rounded-lg p-4 ${
+                      station.active ? 'bg-white border-gray-200' : 'bg-gray-50 border-gray-300'
+                    }`}
+                  >
+                    {editingId === station.id ? (
+                      <div className="flex items-center gap-3">
+                        <input
+                          type="text"
+                          value={editName}
+                          onChange={(e) => setEditName(e.target.value)}
+                          onKeyPress={(e) => e.key === 'Enter' && updateStation(station.id)}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                          autoFocus
+                        />
+                        <button
+                          onClick={() => updateStation(station.id)}
+                          className="p-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition"
+                        >
+                          <Save className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={cancelEdit}
+                          className="p-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition"
+                        >
+                          <X className="w-5 h-5" />
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                          <span
+                            className={`text-lg font-semibold ${
+                              station.active ? 'text-gray-900' : 'text-gray-500'
+                            }`}
+                          >
+                            {station.name}
+                          </span>
+                          {!station.active && (
+                            <span className="px-2 py-1 bg-gray-200 text-gray-700 rounded text-xs font-medium">
+                              INACTIVE
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => toggleStationStatus(station.id, station.active)}
+                            className={`px-3 py-1.5 rounded-lg transition text-sm font-medium ${
+                              station.active
+                                ? 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200'
+                                : 'bg-green-100 text-green-700 hover:bg-green-200'
+                            }`}
+                          >
+                            {station.active ? 'Deactivate' : 'Activate'}
+                          </button>
+                          <button
+                            onClick={() => startEdit(station)}
+                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                          >
+                            <Edit2 className="w-5 h-5" />
+                          </button>
+                          <button
+                            onClick={() => deleteStation(station.id)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                          >
+                            <Trash2 className="w-5 h-5" />
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState, useEffect, useMemo } from 'react';
+import { fetchSupplierSpend, SpendPeriod, SupplierSpend } from '../lib/data';
+import { toDateInput } from '../lib/dates';
+
+const PERIOD_LABELS: Record<SpendPeriod, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+function formatPeriod(periodStart: string, period: SpendPeriod) {
+  const date = new Date(`${periodStart}T00:00:00`);
+  if (period === 'month') return date.toLocaleDateString([], { month: 'long', year: 'numeric' });
+  if (period === 'week') return `Week of ${date.toLocaleDateString()}`;
+  return date.toLocaleDateString();
+}
+
+export function SupplierSpendReport() {
+  const [dateFrom, setDateFrom] = useState(() => {
+    const start = new Date();
+    start.setMonth(start.getMonth() - 2, 1);
+    return toDateInput(start);
+  });
+  const [dateTo, setDateTo] = useState(() => toDateInput(new Date()));
+  const [period, setPeriod] = useState<SpendPeriod>('month');
+  const [rows, setRows] = useState<SupplierSpend[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSpend = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const data = await fetchSupplierSpend(dateFrom, dateTo, period);
+        if (!cancelled) setRows(data);
+      } catch (err) {
+        console.error('Error loading supplier spend:', err);
+        if (!cancelled) setError('Failed to load supplier spend');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadSpend();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dateFrom, dateTo, period]);
+
+  const periods = useMemo(() => {
+    const grouped = new Map<string, SupplierSpend[]>();
+    rows.forEach((row) => grouped.set(row.periodStart, [...(grouped.get(row.periodStart) || []), row]));
+    return Array.from(grouped.entries());
+  }, [rows]);
+
+  const grandTotal = rows.reduce((sum, row) => sum + row.amount, 0);
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none';
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row gap-3 mb-6">
+        <label className="flex-1 text-sm text-gray-700">
+          From
+          <input
+            type="date"
+            value={dateFrom}
+            onChange={(e) => setDateFrom(e.target.value)}
+            className={`w-full mt-1 ${inputClass}`}
+          />
+        </label>
+        <label className="flex-1 text-sm text-gray-700">
+          To
+          <input
+            type="date"
+            value={dateTo}
+            onChange={(e) => setDateTo(e.target.value)}
+            className={`w-full mt-1 ${inputClass}`}
+          />
+        </label>
+        <label className="flex-1 text-sm text-gray-700">
+          Group by
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as SpendPeriod)}
+            className={`w-full mt-1 ${inputClass}`}
+          >
+            {(Object.keys(PERIOD_LABELS) as SpendPeriod[]).map((option) => (
+              <option key={option} value={option}>
+                {PERIOD_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-500">Loading spend...</div>
+      ) : rows.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">No deliveries received in this period.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b-2 border-gray-200">
+                <th className="py-2 pr-3 font-medium">Supplier</th>
+                <th className="py-2 pr-3 font-medium text-right">Deliveries</th>
+                <th className="py-2 pr-3 font-medium text-right">Spend</th>
+              </tr>
+            </thead>
+            {periods.map(([periodStart, periodRows]) => (
+              <tbody key={periodStart}>
+                <tr className="bg-gray-50">
+                  <td className="py-2 pr-3 font-semibold text-gray-900" colSpan={2}>
+                    {formatPeriod(periodStart, period)}
+                  </td>
+                  <td className="py-2 pr-3 text-right font-semibold text-gray-900">
+                    ${periodRows.reduce((sum, row) => sum + row.amount, 0).toFixed(2)}
+                  </td>
+                </tr>
+                {periodRows.map((row) => (
+                  <tr key={row.supplierId} className="border-b border-gray-100">
+                    <td className="py-2 pr-3 pl-4 text-gray-900">{row.supplierName}</td>
+                    <td className="py-2 pr-3 text-right text-gray-700">{row.deliveryCount}</td>
+                    <td className="py-2 pr-3 text-right text-gray-700">${row.amount.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            ))}
+            <tfoot>
+              <tr className="border-t-2 border-gray-200">
+                <td className="py-2 pr-3 font-bold text-gray-900" colSpan={2}>
+                  Total
+                </td>
+                <td className="py-2 pr-3 text-right font-bold text-blue-600">${grandTotal.toFixed(2)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import { useState, useEffect } from 'react';
+import { supabase, Supplier } from '../lib/supabase';
+import { fetchSuppliers } from '../lib/data';
+import { useAuth } from '../contexts/AuthContext';
+import { Plus, Edit2, Trash2, Save, X } from 'lucide-react';
+
+type SupplierFormData = {
+  name: string;
+  contactName: string;
+  phone: string;
+  email: string;
+};
+
+const emptySupplierForm: SupplierFormData = { name: '', contactName: '', phone: '', email: '' };
+
+const toSupplierValues = (form: SupplierFormData) => ({
+  name: form.name.trim(),
+  contact_name: form.contactName.trim() || null,
+  phone: form.phone.trim() || null,
+  email: form.email.trim() || null,
+});
+
+export function SuppliersList() {
+  const { profile } = useAuth();
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [newSupplier, setNewSupplier] = useState<SupplierFormData>(emptySupplierForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<SupplierFormData>(emptySupplierForm);
+
+  useEffect(() => {
+    loadSuppliers();
+  }, []);
+
+  const loadSuppliers = async () => {
+    try {
+      setSuppliers(await fetchSuppliers());
+    } catch (err) {
+      console.error('Error loading suppliers:', err);
+      setError('Failed to load suppliers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addSupplier = async () => {
+    if (!newSupplier.name.trim()) return;
+
+    setError('');
+    try {
+      const { error } = await supabase
+        .from('suppliers')
+        .insert([{ ...toSupplierValues(newSupplier), created_by: profile?.id, active: true }]);
+
+      if (error) throw error;
+
+      setNewSupplier(emptySupplierForm);
+      loadSuppliers();
+    } catch (err) {
+      console.error('Error adding supplier:', err);
+      setError('Failed to add supplier. Supplier names must be unique.');
+    }
+  };
+
+  const updateSupplier = async (supplierId: string) => {
+    if (!editForm.name.trim()) return;
+
+    setError('');
+    try {
+      const { error } = await supabase.from('suppliers').update(toSupplierValues(editForm)).eq('id', supplierId);
+
+      if (error) throw error;
+
+      setEditingId(null);
+      loadSuppliers();
+    } catch (err) {
+      console.error('Error updating supplier:', err);
+      setError('Failed to update supplier');
+    }
+  };
+
+  const toggleSupplierStatus = async (supplier: Supplier) => {
+    setError('');
+    try {
+      const { error } = await supabase.from('suppliers').update({ active: !supplier.active }).eq('id', supplier.id);
+
+      if (error) throw error;
+      loadSuppliers();
+    } catch (err) {
+      console.error('Error toggling supplier status:', err);
+      setError('Failed to update supplier status');
+    }
+  };
+
+  const deleteSupplier = async (supplierId: string) => {
+    if (!confirm('Are you sure you want to delete this supplier?')) return;
+
+    setError('');
+    try {
+      const { error } = await supabase.from('suppliers').delete().eq('id', supplierId);
+
+      if (error) throw error;
+      loadSuppliers();
+    } catch (err) {
+      console.error('Error deleting supplier:', err);
+      setError('Suppliers with purchase orders cannot be deleted. Deactivate them instead.');
+    }
+  };
+
+  const startEdit = (supplier: Supplier) => {
+    setEditingId(supplier.id);
+    setEditForm({
+      name: supplier.name,
+      contactName: supplier.contact_name || '',
+      phone: supplier.phone || '',
+      email: supplier.email || '',
+    });
+  };
+
+  const inputClass =
+    'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+  const renderFields = (form: SupplierFormData, setForm: (update: (prev: SupplierFormData) => SupplierFormData) => void) => (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 flex-1">
+      <input
+        type="text"
+        value={form.name}
+        onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+        placeholder="Supplier name"
+        className={inputClass}
+      />
+      <input
+        type="text"
+        value={form.contactName}
+        onChange={(e) => setForm((prev) => ({ ...prev, contactName: e.target.value }))}
+        placeholder="Contact person"
+        className={inputClass}
+      />
+      <input
+        type="tel"
+        value={form.phone}
+        onChange={(e) => setForm((prev) => ({ ...prev, phone: e.target.value }))}
+        placeholder="Phone"
+        className={inputClass}
+      />
+      <input
+        type="email"
+        value={form.email}
+        onChange={(e) => setForm((prev) => ({ ...prev, email: e.target.value }))}
+        placeholder="Email"
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <div>
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">{error}</div>
+      )}
+
+      <div className="mb-8">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Add New Supplier</h3>
+        <div className="flex flex-col sm:flex-row gap-3">
+          {renderFields(newSupplier, setNewSupplier)}
+          <button
+            onClick={addSupplier}
+            disabled={!newSupplier.name.trim()}
+            className="flex items-center justify-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed sm:self-start"
+          >
+            <Plus className="w-5 h-5" />
+            Add
+          </button>
+        </div>
+      </div>
+
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Suppliers List</h3>
+      {loading ? (
+        <div className="text-center py-12 text-gray-500">Loading suppliers...</div>
+      ) : suppliers.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">No suppliers yet. Add your first supplier above.</div>
+      ) : (
+        <div className="space-y-3">
+          {suppliers.map((supplier) => (
+            <div
+              key={supplier.id}
+              className={`border rounded-lg p-4 ${
+                supplier.active ? 'bg-white border-gray-200' : 'bg-gray-50 border-gray-300'
+              }`}
+            >
+              {editingId === supplier.id ? (
+                <div className="flex flex-col sm:flex-row gap-3">
+                  {renderFields(editForm, setEditForm)}
+                  <div className="flex gap-2 sm:self-start">
+                    <button
+                      onClick={() => updateSupplier(supplier.id)}
+                      className="p-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition"
+                    >
+                      <Save className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="p-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition"
+                    >
+                      <X className="w-5 h-5" />
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <div className="flex items-center gap-3">
+                      <span
+                        className={`text-lg font-semibold ${supplier.active ? 'text-gray-900' : 'text-gray-500'}`}
+                      >
+                        {supplier.name}
+                      </span>
+                      {!supplier.active && (
+                        <span className="px-2 py-1 bg-gray-200 text-gray-700 rounded text-xs font-medium">
+                          Inactive
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      {[supplier.contact_name, supplier.phone, supplier.email].filter(Boolean).join(' · ') ||
+                        'No contact details'}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => toggleSupplierStatus(supplier)}
+                      className={`px-3 py-1.5 rounded-lg transition text-sm font-medium ${
+                        supplier.active
+                          ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+                          : 'bg-green-100 text-green-800 hover:bg-green-200'
+                      }`}
+                    >
+                      {supplier.active ? 'Deactivate' : 'Activate'}
+                    </button>
+                    <button
+                      onClick={() => startEdit(supplier)}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                    >
+                      <Edit2 className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => deleteSupplier(supplier.id)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                    >
+                      <Trash2 className="w-5 h-5" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
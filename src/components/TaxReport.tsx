@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react';
+import { fetchTaxTotals, TaxTotal } from '../lib/data';
+import { toDateInput } from '../lib/dates';
+import { formatTaxRate } from '../lib/tax';
+
+export function TaxReport() {
+  const [dateFrom, setDateFrom] = useState(() => {
+    const start = new Date();
+    start.setDate(1);
+    return toDateInput(start);
+  });
+  const [dateTo, setDateTo] = useState(() => toDateInput(new Date()));
+  const [rows, setRows] = useState<TaxTotal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTaxTotals = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const data = await fetchTaxTotals(dateFrom, dateTo);
+        if (!cancelled) setRows(data);
+      } catch (err) {
+        console.error('Error loading tax summary:', err);
+        if (!cancelled) setError('Failed to load the tax summary');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadTaxTotals();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dateFrom, dateTo]);
+
+  const total = rows.reduce(
+    (sum, row) => ({ gross: sum.gross + row.gross, net: sum.net + row.net, tax: sum.tax + row.tax }),
+    { gross: 0, net: 0, tax: 0 }
+  );
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none';
+
+  return (
+    <div>
+      <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-4">Tax Summary</h2>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-6">
+        <label className="flex-1 text-sm text-gray-700">
+          From
+          <input
+            type="date"
+            value={dateFrom}
+            onChange={(e) => setDateFrom(e.target.value)}
+            className={`w-full mt-1 ${inputClass}`}
+          />
+        </label>
+        <label className="flex-1 text-sm text-gray-700">
+          To
+          <input
+            type="date"
+            value={dateTo}
+            onChange={(e) => setDateTo(e.target.value)}
+            className={`w-full mt-1 ${inputClass}`}
+          />
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-500">Loading tax summary...</div>
+      ) : rows.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">No approved sales in this period.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b-2 border-gray-200">
+                <th className="py-2 pr-3 font-medium">Rate</th>
+                <th className="py-2 pr-3 font-medium text-right">Orders</th>
+                <th className="py-2 pr-3 font-medium text-right">Net</th>
+                <th className="py-2 pr-3 font-medium text-right">VAT</th>
+                <th className="py-2 pr-3 font-medium text-right">Gross</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.taxRate} className="border-b border-gray-100">
+                  <td className="py-2 pr-3 text-gray-900">{formatTaxRate(row.taxRate)}</td>
+                  <td className="py-2 pr-3 text-right text-gray-700">{row.orderCount}</td>
+                  <td className="py-2 pr-3 text-right text-gray-700">${row.net.toFixed(2)}</td>
+                  <td className="py-2 pr-3 text-right font-medium text-gray-900">${row.tax.toFixed(2)}</td>
+                  <td className="py-2 pr-3 text-right text-gray-700">${row.gross.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t-2 border-gray-200">
+                <td className="py-2 pr-3 font-bold text-gray-900" colSpan={2}>
+                  Total
+                </td>
+                <td className="py-2 pr-3 text-right font-bold text-gray-900">${total.net.toFixed(2)}</td>
+                <td className="py-2 pr-3 text-right font-bold text-blue-600">${total.tax.toFixed(2)}</td>
+                <td className="py-2 pr-3 text-right font-bold text-gray-900">${total.gross.toFixed(2)}</td>
+              </tr>
+            </tfoot>
+          </table>
+          <p className="text-xs text-gray-500 mt-3">
+            Orders with an approved payment in the period, after discounts and excluding tips.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { fetchRestaurantSettings } from '../lib/data';
+import { ArrowLeft, Save } from 'lucide-react';
+
+type TaxSettingsProps = {
+  onBack: () => void;
+};
+
+export function TaxSettings({ onBack }: TaxSettingsProps) {
+  const [vatRate, setVatRate] = useState('');
+  const [businessName, setBusinessName] = useState('');
+  const [taxId, setTaxId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const settings = await fetchRestaurantSettings();
+      setVatRate(settings ? settings.vat_rate.toString() : '');
+      setBusinessName(settings?.business_name ?? '');
+      setTaxId(settings?.tax_id ?? '');
+    } catch (err) {
+      console.error('Error loading tax settings:', err);
+      setError('Failed to load tax settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveSettings = async () => {
+    const rate = parseFloat(vatRate);
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      setError('The VAT rate must be between 0 and 100%');
+      return;
+    }
+
+    setError('');
+    setMessage('');
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('restaurant_settings')
+        .update({
+          vat_rate: rate,
+          business_name: businessName.trim() || null,
+          tax_id: taxId.trim() || null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', true);
+
+      if (error) throw error;
+
+      setMessage('Settings saved. The VAT rate applies to items ordered from now on.');
+    } catch (err) {
+      console.error('Error saving tax settings:', err);
+      setError('Failed to save the tax settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    'px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-slate-100 p-6">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <div className="flex items-center gap-4 mb-6">
+            <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition">
+              <ArrowLeft className="w-6 h-6 text-gray-600" />
+            </button>
+            <div>
+              <h2 className="text-3xl font-bold text-gray-900">VAT and Receipts</h2>
+              <p className="text-gray-600 mt-1">Menu prices include VAT at the standard rate unless an item is exempt</p>
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">{error}</div>
+          )}
+          {message && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg text-sm mb-4">
+              {message}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-12 text-gray-500">Loading settings...</div>
+          ) : (
+            <div className="space-y-6">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Standard VAT Rate (%)</h3>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  value={vatRate}
+                  onChange={(e) => setVatRate(e.target.value)}
+                  className={`w-full ${inputClass}`}
+                />
+              </div>
+
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-1">Fiscal Receipts</h3>
+                <p className="text-sm text-gray-600 mb-4">
+                  Printed on every receipt issued from now on; receipts already issued keep the details they were
+                  issued with.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <input
+                    type="text"
+                    value={businessName}
+                    onChange={(e) => setBusinessName(e.target.value)}
+                    placeholder="Business name"
+                    className={inputClass}
+                  />
+                  <input
+                    type="text"
+                    value={taxId}
+                    onChange={(e) => setTaxId(e.target.value)}
+                    placeholder="Tax identification number (TIN)"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  onClick={saveSettings}
+                  disabled={saving}
+                  className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50"
+                >
+                  <Save className="w-5 h-5" />
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
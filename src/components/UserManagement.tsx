@@ -7,7 +7,7 @@ type UserFormData = {
   email: string;
   password: string;
   full_name: string;
-  role: 'waiter' | 'cashier';
+  role: 'waiter' | 'cashier' | 'kitchen';
 };
 
 type UserManagementProps = {
@@ -30,7 +30,7 @@ export function UserManagement({ onBack }: UserManagementProps) {
   const [error, setError] = useState('');
   const [successMessage, setSuccessMessage] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
-  const [roleFilter, setRoleFilter] = useState<'all' | 'waiter' | 'cashier'>('all');
+  const [roleFilter, setRoleFilter] = useState<'all' | 'waiter' | 'cashier' | 'kitchen'>('all');
   const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'inactive'>('all');
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
@@ -281,11 +281,12 @@ export function UserManagement({ onBack }: UserManagementProps) {
                 <label className="block text-sm font-medium text-gray-700 mb-2">Role *</label>
                 <select
                   value={formData.role}
-                  onChange={(e) => setFormData((prev) => ({ ...prev, role: e.target.value as 'waiter' | 'cashier' }))}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, role: e.target.value as 'waiter' | 'cashier' | 'kitchen' }))}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
                 >
                   <option value="waiter">Waiter</option>
                   <option value="cashier">Cashier</option>
+                  <option value="kitchen">Kitchen</option>
                 </select>
               </div>
 
@@ -350,7 +351,7 @@ export function UserManagement({ onBack }: UserManagementProps) {
               <select
                 value={roleFilter}
                 onChange={(e) => {
-                  setRoleFilter(e.target.value as 'all' | 'waiter' | 'cashier');
+                  setRoleFilter(e.target.value as 'all' | 'waiter' | 'cashier' | 'kitchen');
                   setCurrentPage(1);
                 }}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
@@ -358,6 +359,7 @@ export function UserManagement({ onBack }: UserManagementProps) {
                 <option value="all">All Roles</option>
                 <option value="waiter">Waiter</option>
                 <option value="cashier">Cashier</option>
+                <option value="kitchen">Kitchen</option>
               </select>
             </div>
 
@@ -410,7 +412,9 @@ export function UserManagement({ onBack }: UserManagementProps) {
                             className={`px-2 py-1 rounded text-xs font-medium ${
                               user.role === 'cashier'
                                 ? 'bg-emerald-100 text-emerald-800'
-                                : 'bg-blue-100 text-blue-800'
+                                : user.role === 'kitchen'
+                                  ? 'bg-orange-100 text-orange-800'
+                                  : 'bg-blue-100 text-blue-800'
                             }`}
                           >
                             {user.role.toUpperCase()}
@@ -1,22 +1,69 @@
-import { useState, useEffect, useMemo } from 'react';
-import { supabase, Order, Payment, Profile, Bank } from '../lib/supabase';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { supabase, Order, OrderSplit, OrderWithItemNotes, Profile, RestaurantTable } from '../lib/supabase';
+import {
+  fetchOrdersWithItemNotes,
+  fetchOrderWithItemNotes,
+  fetchPaymentWithDetails,
+  fetchRestaurantTables,
+} from '../lib/data';
+import { FLOOR_STATUS_LABELS, FLOOR_STATUS_STYLES, tableSections } from '../lib/floorPlan';
+import { hasActivePayments, outstandingBalance, paidAmount } from '../lib/payments';
+import { SPLIT_STATUS_LABELS, SPLIT_STATUS_STYLES, splitStatus } from '../lib/splits';
+import {
+  byCreatedAtDesc,
+  bySectionAndName,
+  changedRowId,
+  createChangeFeed,
+  PaymentChange,
+  removeRow,
+  subscribeToChanges,
+  TableChange,
+  toPaymentChange,
+  upsertRow,
+} from '../lib/realtime';
 import { useAuth } from '../contexts/AuthContext';
-import { Plus, DollarSign, LogOut, BarChart3, X, Edit2, Eye, Calendar, ChevronLeft, ChevronRight, Trash2 } from 'lucide-react';
+import {
+  Plus,
+  DollarSign,
+  LogOut,
+  BarChart3,
+  X,
+  Edit2,
+  Eye,
+  Calendar,
+  ChevronLeft,
+  ChevronRight,
+  Trash2,
+  StickyNote,
+  LayoutGrid,
+  ArrowRightLeft,
+  Split,
+  Tag,
+} from 'lucide-react';
 import { CreateOrderForm } from './CreateOrderForm';
 import { PaymentForm } from './PaymentForm';
 import { PaymentsList } from './PaymentsList';
 import { EditOrderForm } from './EditOrderForm';
 import { OrderDetailsView } from './OrderDetailsView';
-
-type PaymentWithOrder = Payment & { order: Order; waiter?: Profile; bank?: Bank };
+import { FloorPlan } from './FloorPlan';
+import { OrderTransferModal } from './OrderTransferModal';
+import { SplitBillForm } from './SplitBillForm';
+import { DiscountForm } from './DiscountForm';
 
 export function WaiterDashboard() {
   const { profile, signOut } = useAuth();
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [payments, setPayments] = useState<PaymentWithOrder[]>([]);
+  const [orders, setOrders] = useState<OrderWithItemNotes[]>([]);
   const [showCreateOrder, setShowCreateOrder] = useState(false);
+  const [newOrderTableId, setNewOrderTableId] = useState<string | undefined>(undefined);
+  const [tables, setTables] = useState<RestaurantTable[]>([]);
+  const [showFloor, setShowFloor] = useState(true);
+  const [floorSection, setFloorSection] = useState('');
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [payingSplit, setPayingSplit] = useState<OrderSplit | null>(null);
+  const [splittingOrder, setSplittingOrder] = useState<OrderWithItemNotes | null>(null);
   const [editingOrder, setEditingOrder] = useState<Order | null>(null);
+  const [transferringOrder, setTransferringOrder] = useState<Order | null>(null);
+  const [discountingOrder, setDiscountingOrder] = useState<Order | null>(null);
   const [showReports, setShowReports] = useState(false);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [selectedOrderDetails, setSelectedOrderDetails] = useState<Order | null>(null);
@@ -25,67 +72,39 @@ export function WaiterDashboard() {
   const [dateFilter, setDateFilter] = useState<string>('');
   const [statusFilter, setStatusFilter] = useState<string>('');
   const [currentPage, setCurrentPage] = useState(1);
+  const paymentChanges = useRef(createChangeFeed<PaymentChange>());
+  const [notices, setNotices] = useState<{ id: string; message: string; declined: boolean }[]>([]);
+  // Realtime only sends the key of the previous row, so the payments still awaiting review are tracked here
+  const pendingPaymentIds = useRef(new Set<string>());
   const itemsPerPage = 5;
 
   useEffect(() => {
     loadData();
+
+    return subscribeToChanges(
+      'waiter-changes',
+      [{ table: 'orders' }, { table: 'payments' }, { table: 'restaurant_tables' }],
+      (change) => {
+        if (change.table === 'orders') {
+          handleOrderChange(change);
+        } else if (change.table === 'restaurant_tables') {
+          handleTableChange(change);
+        } else {
+          handlePaymentChange(change);
+        }
+      }
+    );
   }, []);
 
   const loadData = async () => {
     try {
-      const { data: ordersData, error: ordersError } = await supabase
-        .from('orders')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (ordersError) throw ordersError;
-      setOrders(ordersData || []);
-
-      const { data: paymentsData, error: paymentsError } = await supabase
-        .from('payments')
-        .select('*')
-        .order('submitted_at', { ascending: false });
-
-      if (paymentsError) throw paymentsError;
-
-      const paymentsWithOrders = await Promise.all(
-        (paymentsData || []).map(async (payment) => {
-          const { data: orderData } = await supabase
-            .from('orders')
-            .select('*')
-            .eq('id', payment.order_id)
-            .maybeSingle();
-
-          if (!orderData) {
-            return { ...payment, order: orderData as Order };
-          }
-
-          const { data: waiterData } = await supabase
-            .from('profiles')
-            .select('*')
-            .eq('id', orderData.waiter_id)
-            .maybeSingle();
-
-          let bankData = null;
-          if (payment.bank_id) {
-            const { data } = await supabase
-              .from('banks')
-              .select('*')
-              .eq('id', payment.bank_id)
-              .maybeSingle();
-            bankData = data;
-          }
-
-          return {
-            ...payment,
-            order: orderData as Order,
-            waiter: waiterData as Profile,
-            bank: bankData as Bank | undefined
-          };
-        })
+      const [ordersData, tablesData] = await Promise.all([fetchOrdersWithItemNotes(), fetchRestaurantTables()]);
+      pendingPaymentIds.current = new Set(
+        ordersData.flatMap((order) => order.payments.filter((p) => p.status === 'pending').map((p) => p.id))
       );
-
-      setPayments(paymentsWithOrders.filter((p) => p.order) as PaymentWithOrder[]);
+      setOrders(ordersData);
+      setTables(tablesData);
+      setFloorSection((current) => current || tablesData[0]?.section || '');
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -93,17 +112,85 @@ export function WaiterDashboard() {
     }
   };
 
+  const handleOrderChange = async (change: TableChange) => {
+    const orderId = changedRowId(change);
+    try {
+      // Refetched rather than taken from the payload so the item notes and checks stay current
+      const order = change.eventType === 'DELETE' ? null : await fetchOrderWithItemNotes(orderId);
+      setOrders((rows) => (order ? upsertRow(rows, order, byCreatedAtDesc) : removeRow(rows, orderId)));
+    } catch (error) {
+      console.error('Error loading changed order:', error);
+    }
+  };
+
+  // Floor status comes from every waiter's orders, so it is read from the table rather than derived from ours
+  const handleTableChange = (change: TableChange) => {
+    if (change.eventType === 'DELETE') {
+      setTables((rows) => removeRow(rows, changedRowId(change)));
+    } else {
+      setTables((rows) => upsertRow(rows, change.new as RestaurantTable, bySectionAndName));
+    }
+  };
+
+  const handlePaymentChange = async (change: TableChange) => {
+    try {
+      const current = change.eventType === 'DELETE' ? null : await fetchPaymentWithDetails(changedRowId(change));
+      const nextChange = toPaymentChange(change, current);
+      paymentChanges.current.publish(nextChange);
+
+      // A payment on one check does not always change the order row itself
+      const order = current ? await fetchOrderWithItemNotes(current.order_id) : null;
+      if (order) setOrders((rows) => upsertRow(rows, order, byCreatedAtDesc));
+
+      const payment = nextChange.new;
+      const wasPending = pendingPaymentIds.current.has(nextChange.id);
+      if (payment?.status === 'pending') {
+        pendingPaymentIds.current.add(nextChange.id);
+      } else {
+        pendingPaymentIds.current.delete(nextChange.id);
+      }
+
+      if (payment && wasPending && payment.status !== 'pending') {
+        const declined = payment.status === 'declined';
+        const message = declined
+          ? `Payment for Table ${payment.order.table_number} was declined${payment.declined_reason ? `: ${payment.declined_reason}` : ''}`
+          : `Payment for Table ${payment.order.table_number} was approved`;
+        setNotices((rows) => [{ id: payment.id, message, declined }, ...rows.filter((n) => n.id !== payment.id)]);
+      }
+    } catch (error) {
+      console.error('Error loading changed payment:', error);
+    }
+  };
+
+  const startOrderAtTable = (table: RestaurantTable) => {
+    if (!table.active) return;
+    setNewOrderTableId(table.id);
+    setShowCreateOrder(true);
+  };
+
   const handleOrderCreated = () => {
     setShowCreateOrder(false);
+    setNewOrderTableId(undefined);
     setEditingOrder(null);
     loadData();
   };
 
   const handlePaymentSubmitted = () => {
     setSelectedOrder(null);
+    setPayingSplit(null);
     loadData();
   };
 
+  const handleSplitSaved = () => {
+    setSplittingOrder(null);
+    loadData();
+  };
+
+  const payOrder = (order: Order, split?: OrderSplit) => {
+    setSelectedOrder(order);
+    setPayingSplit(split ?? null);
+  };
+
   const handleDeleteOrder = async (orderId: string) => {
     if (!confirm('Are you sure you want to delete this order?')) {
       return;
@@ -129,11 +216,30 @@ export function WaiterDashboard() {
     });
   }, [orders, dateFilter, statusFilter]);
 
+  const myTableIds = useMemo(
+    () =>
+      new Set(
+        orders
+          .filter((order) => order.table_id && order.status !== 'confirmed')
+          .map((order) => order.table_id as string)
+      ),
+    [orders]
+  );
+
   const totalPages = Math.ceil(filteredOrders.length / itemsPerPage);
   const paginatedOrders = filteredOrders.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
 
   if (showCreateOrder) {
-    return <CreateOrderForm onClose={() => setShowCreateOrder(false)} onSuccess={handleOrderCreated} />;
+    return (
+      <CreateOrderForm
+        initialTableId={newOrderTableId}
+        onClose={() => {
+          setShowCreateOrder(false);
+          setNewOrderTableId(undefined);
+        }}
+        onSuccess={handleOrderCreated}
+      />
+    );
   }
 
   if (editingOrder) {
@@ -141,7 +247,28 @@ export function WaiterDashboard() {
   }
 
   if (selectedOrder) {
-    return <PaymentForm order={selectedOrder} onClose={() => setSelectedOrder(null)} onSuccess={handlePaymentSubmitted} />;
+    return (
+      <PaymentForm
+        order={selectedOrder}
+        split={payingSplit ?? undefined}
+        onClose={() => {
+          setSelectedOrder(null);
+          setPayingSplit(null);
+        }}
+        onSuccess={handlePaymentSubmitted}
+      />
+    );
+  }
+
+  if (splittingOrder) {
+    return (
+      <SplitBillForm
+        order={splittingOrder}
+        seats={tables.find((table) => table.id === splittingOrder.table_id)?.seats}
+        onClose={() => setSplittingOrder(null)}
+        onSuccess={handleSplitSaved}
+      />
+    );
   }
 
   if (showReports) {
@@ -160,13 +287,12 @@ export function WaiterDashboard() {
 
           <div className="bg-white rounded-2xl shadow-lg p-6">
             <PaymentsList
-              payments={payments}
+              paymentChanges={paymentChanges.current}
               onViewImage={setSelectedImage}
               onViewOrderDetails={(order, waiter) => {
                 setSelectedOrderDetails(order);
                 setSelectedWaiter(waiter);
               }}
-              isWaiter={true}
             />
           </div>
         </div>
@@ -227,6 +353,29 @@ export function WaiterDashboard() {
           </div>
         </div>
 
+        {notices.length > 0 && (
+          <div className="space-y-2 mb-6">
+            {notices.map((notice) => (
+              <div
+                key={notice.id}
+                className={`flex items-start justify-between gap-3 px-4 py-3 rounded-lg text-sm border ${
+                  notice.declined
+                    ? 'bg-red-50 border-red-200 text-red-700'
+                    : 'bg-green-50 border-green-200 text-green-700'
+                }`}
+              >
+                <span>{notice.message}</span>
+                <button
+                  onClick={() => setNotices((rows) => rows.filter((n) => n.id !== notice.id))}
+                  className="p-1 hover:bg-white rounded transition flex-shrink-0"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         <button
           onClick={() => setShowCreateOrder(true)}
           className="w-full bg-blue-600 text-white py-4 rounded-xl font-medium hover:bg-blue-700 transition flex items-center justify-center gap-2 mb-6 shadow-lg"
@@ -235,6 +384,57 @@ export function WaiterDashboard() {
           Create New Order
         </button>
 
+        {tables.length > 0 && (
+          <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+              <h2 className="text-2xl font-bold text-gray-900">Floor</h2>
+              <button
+                onClick={() => setShowFloor(!showFloor)}
+                className="flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm font-medium"
+              >
+                <LayoutGrid className="w-4 h-4" />
+                {showFloor ? 'Hide Floor' : 'Show Floor'}
+              </button>
+            </div>
+
+            {showFloor && (
+              <>
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  {tableSections(tables).map((section) => (
+                    <button
+                      key={section}
+                      onClick={() => setFloorSection(section)}
+                      className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+                        floorSection === section ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {section}
+                    </button>
+                  ))}
+                  <div className="flex flex-wrap gap-2 sm:ml-auto text-xs">
+                    {(Object.keys(FLOOR_STATUS_LABELS) as (keyof typeof FLOOR_STATUS_LABELS)[]).map((status) => (
+                      <span key={status} className={`px-2 py-1 border rounded ${FLOOR_STATUS_STYLES[status]}`}>
+                        {FLOOR_STATUS_LABELS[status]}
+                      </span>
+                    ))}
+                    <span className="flex items-center gap-1 px-2 py-1 text-gray-600">
+                      <span className="w-3 h-3 bg-blue-600 rounded-full" />
+                      Your table
+                    </span>
+                  </div>
+                </div>
+                <FloorPlan
+                  tables={tables.filter((table) => table.section === floorSection)}
+                  onSelect={startOrderAtTable}
+                  showStatus
+                  markedIds={myTableIds}
+                />
+                <p className="text-sm text-gray-500 mt-2">Click a table to start an order there.</p>
+              </>
+            )}
+          </div>
+        )}
+
         <div className="bg-white rounded-2xl shadow-lg p-6">
           <h2 className="text-2xl font-bold text-gray-900 mb-6">Recent Orders</h2>
 
@@ -341,9 +541,73 @@ export function WaiterDashboard() {
                       <p className="text-2xl font-bold text-gray-900 mt-2">
                         ${Number(order.total_amount).toFixed(2)}
                       </p>
+                      {Number(order.discount_amount) > 0 && (
+                        <p className="text-sm font-medium text-green-700">
+                          incl. ${Number(order.discount_amount).toFixed(2)} discount
+                        </p>
+                      )}
+                      {Number(order.service_charge_amount) > 0 && (
+                        <p className="text-sm text-gray-600">
+                          incl. ${Number(order.service_charge_amount).toFixed(2)} service charge
+                        </p>
+                      )}
+                      {order.status === 'pending' && paidAmount(order.payments) > 0 && (
+                        <p className="text-sm font-medium text-orange-700">
+                          ${paidAmount(order.payments).toFixed(2)} paid · $
+                          {outstandingBalance(order.total_amount, order.payments).toFixed(2)} outstanding
+                        </p>
+                      )}
                       <p className="text-sm text-gray-500 mt-1">
                         {new Date(order.created_at).toLocaleString()}
                       </p>
+                      {(order.notes || order.item_notes.length > 0) && (
+                        <div className="mt-3 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 text-sm text-amber-900 space-y-1">
+                          {order.notes && (
+                            <div className="flex items-start gap-2 font-medium">
+                              <StickyNote className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                              <span>{order.notes}</span>
+                            </div>
+                          )}
+                          {order.item_notes.map((item) => (
+                            <div key={item.id} className="pl-6">
+                              <span className="font-semibold">
+                                {item.quantity}× {item.menu.name}:
+                              </span>{' '}
+                              {item.notes}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {order.splits.length > 0 && (
+                        <div className="mt-3 space-y-2">
+                          {order.splits.map((split) => {
+                            const status = splitStatus(split);
+                            return (
+                              <div
+                                key={split.id}
+                                className="flex items-center justify-between gap-3 border border-gray-200 rounded-lg px-3 py-2"
+                              >
+                                <div className="flex items-center gap-2 text-sm">
+                                  <span className="font-medium text-gray-900">{split.label}</span>
+                                  <span className="text-gray-700">${Number(split.amount).toFixed(2)}</span>
+                                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SPLIT_STATUS_STYLES[status]}`}>
+                                    {SPLIT_STATUS_LABELS[status]}
+                                  </span>
+                                </div>
+                                {(status === 'unpaid' || status === 'partial') && (
+                                  <button
+                                    onClick={() => payOrder(order, split)}
+                                    className="flex items-center gap-1 px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition text-sm font-medium"
+                                  >
+                                    <DollarSign className="w-4 h-4" />
+                                    Pay
+                                  </button>
+                                )}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
                     </div>
                     <div className="flex flex-wrap gap-2 w-full lg:w-auto">
                       <button
@@ -356,7 +620,16 @@ export function WaiterDashboard() {
                         <Eye className="w-5 h-5" />
                         View Details
                       </button>
-                      {order.status === 'pending' && (
+                      {order.status !== 'confirmed' && (
+                        <button
+                          onClick={() => setTransferringOrder(order)}
+                          className="flex-1 lg:flex-none flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium"
+                        >
+                          <ArrowRightLeft className="w-5 h-5" />
+                          Move
+                        </button>
+                      )}
+                      {order.status === 'pending' && !hasActivePayments(order.payments) && (
                         <>
                           <button
                             onClick={() => setEditingOrder(order)}
@@ -373,14 +646,30 @@ export function WaiterDashboard() {
                             Delete
                           </button>
                           <button
-                            onClick={() => setSelectedOrder(order)}
-                            className="flex-1 lg:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium"
+                            onClick={() => setSplittingOrder(order)}
+                            className="flex-1 lg:flex-none flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium"
                           >
-                            <DollarSign className="w-5 h-5" />
-                            Record Payment
+                            <Split className="w-5 h-5" />
+                            {order.splits.length > 0 ? 'Change Split' : 'Split Bill'}
+                          </button>
+                          <button
+                            onClick={() => setDiscountingOrder(order)}
+                            className="flex-1 lg:flex-none flex items-center justify-center gap-2 px-4 py-2 border border-green-300 text-green-700 rounded-lg hover:bg-green-50 transition font-medium"
+                          >
+                            <Tag className="w-5 h-5" />
+                            Discount
                           </button>
                         </>
                       )}
+                      {order.status === 'pending' && order.splits.length === 0 && (
+                        <button
+                          onClick={() => payOrder(order)}
+                          className="flex-1 lg:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium"
+                        >
+                          <DollarSign className="w-5 h-5" />
+                          Record Payment
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -437,6 +726,28 @@ export function WaiterDashboard() {
           }}
         />
       )}
+
+      {transferringOrder && (
+        <OrderTransferModal
+          order={transferringOrder}
+          onClose={() => setTransferringOrder(null)}
+          onDone={() => {
+            setTransferringOrder(null);
+            loadData();
+          }}
+        />
+      )}
+
+      {discountingOrder && (
+        <DiscountForm
+          order={discountingOrder}
+          onClose={() => setDiscountingOrder(null)}
+          onDone={() => {
+            setDiscountingOrder(null);
+            loadData();
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -7,7 +7,7 @@ type AuthContextType = {
   profile: Profile | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<void>;
-  signUp: (email: string, password: string, fullName: string, role: 'waiter' | 'cashier') => Promise<void>;
+  signUp: (email: string, password: string, fullName: string, role: 'waiter' | 'cashier' | 'kitchen') => Promise<void>;
   signOut: () => Promise<void>;
 };
 
@@ -87,7 +87,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const signUp = async (email: string, password: string, fullName: string, role: 'waiter' | 'cashier') => {
+  const signUp = async (email: string, password: string, fullName: string, role: 'waiter' | 'cashier' | 'kitchen') => {
     const { data, error } = await supabase.auth.signUp({
       email,
       password,
@@ -0,0 +1,48 @@
+import { Menu, MenuAvailability } from './supabase';
+
+export const MENU_AVAILABILITY_OPTIONS: MenuAvailability[] = ['available', 'sold_out', 'hidden'];
+
+export const MENU_AVAILABILITY_LABELS: Record<MenuAvailability, string> = {
+  available: 'Available',
+  sold_out: 'Sold out',
+  hidden: 'Hidden',
+};
+
+export const MENU_AVAILABILITY_STYLES: Record<MenuAvailability, string> = {
+  available: 'bg-green-100 text-green-800',
+  sold_out: 'bg-red-100 text-red-800',
+  hidden: 'bg-gray-200 text-gray-700',
+};
+
+// Mirrors menu_item_is_available() in the database: a sold out item with a
+// time comes back on its own once that time has passed.
+export function currentAvailability(menu: Menu, now = Date.now()): MenuAvailability {
+  if (menu.availability === 'sold_out' && menu.sold_out_until && new Date(menu.sold_out_until).getTime() <= now) {
+    return 'available';
+  }
+  return menu.availability;
+}
+
+export function isOrderable(menu: Menu, now = Date.now()) {
+  return currentAvailability(menu, now) === 'available';
+}
+
+export function availabilityLabel(menu: Menu, now = Date.now()) {
+  const availability = currentAvailability(menu, now);
+  if (availability === 'sold_out' && menu.sold_out_until) {
+    const until = new Date(menu.sold_out_until).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    return `Sold out until ${until}`;
+  }
+  return MENU_AVAILABILITY_LABELS[availability];
+}
+
+// Turns an "HH:MM" input into the next time it occurs, today or tomorrow
+export function nextOccurrence(time: string, now = new Date()): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const next = new Date(now);
+  next.setHours(hours, minutes, 0, 0);
+  if (next.getTime() <= now.getTime()) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next;
+}
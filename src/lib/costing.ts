@@ -0,0 +1,10 @@
+// Food cost above this share of the price is flagged
+export const FOOD_COST_TARGET_PERCENT = 35;
+
+export function foodCostPercent(price: number, cost: number) {
+  return price > 0 ? (cost / price) * 100 : 0;
+}
+
+export function foodCostStyle(percent: number) {
+  return percent > FOOD_COST_TARGET_PERCENT ? 'text-red-600' : 'text-green-600';
+}
@@ -0,0 +1,758 @@
+import {
+  supabase,
+  Bank,
+  DiscountReason,
+  FiscalReceipt,
+  Ingredient,
+  KitchenItem,
+  MenuCategory,
+  ModifierGroupWithOptions,
+  Order,
+  OrderDiscountWithDetails,
+  OrderItemWithMenu,
+  OrderTaxLine,
+  OrderTransferWithPeople,
+  OrderWithItemNotes,
+  OrderWithWaiter,
+  Payment,
+  PaymentLedgerEntry,
+  PaymentWithDetails,
+  PendingDiscount,
+  Profile,
+  PromoCode,
+  PurchaseOrderWithDetails,
+  RecipeItemWithIngredient,
+  RestaurantSettings,
+  RestaurantTable,
+  ServiceChargeRule,
+  Supplier,
+} from './supabase';
+import { endOfLocalDay, localTimeZone, startOfLocalDay, toDateInput } from './dates';
+
+// Each loader fetches its related rows through PostgREST embedded selects,
+// so a whole list costs one request instead of one per row.
+
+const ORDER_WITH_WAITER_SELECT = '*, waiter:profiles!waiter_id(*)';
+
+// Inner embeds leave out payments whose order or waiter cannot be read on
+// the server, so a page holds as many rows as the count says
+const PAYMENT_WITH_DETAILS_SELECT = '*, order:orders!inner(*, waiter:profiles!waiter_id!inner(*)), bank:banks(*)';
+
+type PaymentRow = Payment & {
+  order: OrderWithWaiter | null;
+  bank: Bank | null;
+};
+
+function toPaymentWithDetails(row: PaymentRow): PaymentWithDetails | null {
+  if (!row.order || !row.order.waiter) return null;
+
+  const { waiter, ...order } = row.order;
+  return {
+    ...row,
+    order: order as Order,
+    waiter: waiter as Profile,
+    bank: row.bank ?? undefined,
+  };
+}
+
+export type PaymentFilters = {
+  dateFrom?: string;
+  dateTo?: string;
+  status?: Payment['status'];
+  waiterId?: string;
+  // A bank id, 'cash', or 'no_bank' for transfers without a bank
+  bankFilter?: string;
+  confirmedFrom?: string;
+  confirmedTo?: string;
+};
+
+export type PaymentTotals = {
+  count: number;
+  amount: number;
+  // Included in amount
+  serviceCharge: number;
+  tip: number;
+};
+
+export type PaymentTotalsByStatus = Record<Payment['status'], PaymentTotals>;
+
+type PaymentTotalsRow = {
+  status: Payment['status'];
+  payment_count: number;
+  total_amount: number;
+  total_tip: number;
+  total_service_charge: number;
+};
+
+// Date filters are local days, so they go to the server as the timestamps
+// where those days start and end
+function toSubmittedRange(dateFrom?: string, dateTo?: string) {
+  return {
+    p_submitted_from: dateFrom ? startOfLocalDay(dateFrom) : null,
+    p_submitted_to: dateTo ? endOfLocalDay(dateTo) : null,
+  };
+}
+
+function toSearchParams(filters: PaymentFilters) {
+  return {
+    ...toSubmittedRange(filters.dateFrom, filters.dateTo),
+    p_status: filters.status || null,
+    p_waiter_id: filters.waiterId || null,
+    p_bank_filter: filters.bankFilter || null,
+    p_confirmed_from: filters.confirmedFrom || null,
+    p_confirmed_to: filters.confirmedTo || null,
+  };
+}
+
+export type PaymentsPage = {
+  payments: PaymentWithDetails[];
+  // Matching payments on all pages
+  count: number;
+};
+
+export async function fetchPaymentsPage(filters: PaymentFilters, page: number, pageSize: number): Promise<PaymentsPage> {
+  const from = (page - 1) * pageSize;
+  const { data, error, count } = await supabase
+    .rpc('search_payments', toSearchParams(filters), { count: 'exact' })
+    .select(PAYMENT_WITH_DETAILS_SELECT)
+    .order('submitted_at', { ascending: false })
+    .range(from, from + pageSize - 1);
+
+  if (error) throw error;
+
+  return {
+    payments: ((data || []) as PaymentRow[])
+      .map(toPaymentWithDetails)
+      .filter((p): p is PaymentWithDetails => p !== null),
+    count: count ?? 0,
+  };
+}
+
+export async function fetchPaymentWithDetails(id: string): Promise<PaymentWithDetails | null> {
+  const { data, error } = await supabase
+    .from('payments')
+    .select(PAYMENT_WITH_DETAILS_SELECT)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data ? toPaymentWithDetails(data as PaymentRow) : null;
+}
+
+// Client-side mirror of the filters applied by the search_payments function,
+// used to decide whether a realtime change belongs in a filtered list.
+export function matchesPaymentFilters(payment: Payment & { order?: Order }, filters: PaymentFilters): boolean {
+  const submittedDate = toDateInput(new Date(payment.submitted_at));
+  if (filters.dateFrom && submittedDate < filters.dateFrom) return false;
+  if (filters.dateTo && submittedDate > filters.dateTo) return false;
+  if (filters.status && payment.status !== filters.status) return false;
+  if (filters.waiterId && payment.order?.waiter_id !== filters.waiterId) return false;
+
+  if (filters.bankFilter) {
+    const matchesBank =
+      (filters.bankFilter === 'cash' && payment.payment_method === 'cash') ||
+      (filters.bankFilter === 'no_bank' && payment.payment_method === 'bank_transfer' && !payment.bank_id) ||
+      payment.bank_id === filters.bankFilter;
+    if (!matchesBank) return false;
+  }
+
+  if (filters.confirmedFrom || filters.confirmedTo) {
+    if (!payment.confirmed_at) return false;
+    const confirmedAt = new Date(payment.confirmed_at).getTime();
+    if (filters.confirmedFrom && confirmedAt < new Date(filters.confirmedFrom).getTime()) return false;
+    if (filters.confirmedTo && confirmedAt >= new Date(filters.confirmedTo).getTime()) return false;
+  }
+
+  return true;
+}
+
+export async function fetchPaymentTotals(filters: PaymentFilters): Promise<PaymentTotalsByStatus> {
+  const { data, error } = await supabase.rpc('payment_totals', toSearchParams(filters));
+
+  if (error) throw error;
+
+  const empty = (): PaymentTotals => ({ count: 0, amount: 0, serviceCharge: 0, tip: 0 });
+  const totals: PaymentTotalsByStatus = { pending: empty(), approved: empty(), declined: empty() };
+
+  ((data || []) as PaymentTotalsRow[]).forEach((row) => {
+    totals[row.status] = {
+      count: Number(row.payment_count),
+      amount: Number(row.total_amount),
+      serviceCharge: Number(row.total_service_charge),
+      tip: Number(row.total_tip),
+    };
+  });
+
+  return totals;
+}
+
+export function sumPaymentTotals(totals: PaymentTotalsByStatus): PaymentTotals {
+  return Object.values(totals).reduce(
+    (sum, t) => ({
+      count: sum.count + t.count,
+      amount: sum.amount + t.amount,
+      serviceCharge: sum.serviceCharge + t.serviceCharge,
+      tip: sum.tip + t.tip,
+    }),
+    { count: 0, amount: 0, serviceCharge: 0, tip: 0 }
+  );
+}
+
+export type CategorySales = {
+  // Null for items that have no category
+  categoryId: string | null;
+  categoryName: string;
+  itemCount: number;
+  amount: number;
+};
+
+type CategorySalesRow = {
+  category_id: string | null;
+  category_name: string | null;
+  item_count: number;
+  total_amount: number;
+};
+
+export async function fetchSalesByCategory(filters: PaymentFilters): Promise<CategorySales[]> {
+  const { data, error } = await supabase.rpc('sales_by_category', toSearchParams(filters));
+
+  if (error) throw error;
+
+  return ((data || []) as CategorySalesRow[]).map((row) => ({
+    categoryId: row.category_id,
+    categoryName: row.category_name ?? 'Uncategorized',
+    itemCount: Number(row.item_count),
+    amount: Number(row.total_amount),
+  }));
+}
+
+export type DiscountTotal = {
+  reasonName: string;
+  count: number;
+  amount: number;
+};
+
+type DiscountTotalRow = {
+  reason_name: string | null;
+  discount_count: number;
+  total_amount: number;
+};
+
+export async function fetchDiscountTotals(filters: PaymentFilters): Promise<DiscountTotal[]> {
+  const { data, error } = await supabase.rpc('discount_totals', toSearchParams(filters));
+
+  if (error) throw error;
+
+  return ((data || []) as DiscountTotalRow[]).map((row) => ({
+    // Waiters cannot read promo codes, so the code is missing for them
+    reasonName: row.reason_name ?? 'Promo code',
+    count: Number(row.discount_count),
+    amount: Number(row.total_amount),
+  }));
+}
+
+export async function fetchMenuCategories(): Promise<MenuCategory[]> {
+  const { data, error } = await supabase
+    .from('menu_categories')
+    .select('*')
+    .order('display_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+// Modifier groups keyed by menu id, with options in display order. Pass a
+// menu id to load the groups of a single item.
+export async function fetchModifierGroups(menuId?: string): Promise<Record<string, ModifierGroupWithOptions[]>> {
+  let query = supabase
+    .from('modifier_groups')
+    .select('*, options:modifier_options(*)')
+    .order('display_order', { ascending: true })
+    .order('display_order', { referencedTable: 'modifier_options', ascending: true });
+
+  if (menuId) query = query.eq('menu_id', menuId);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  const groupsByMenu: Record<string, ModifierGroupWithOptions[]> = {};
+  ((data || []) as ModifierGroupWithOptions[]).forEach((group) => {
+    groupsByMenu[group.menu_id] = [...(groupsByMenu[group.menu_id] || []), group];
+  });
+
+  return groupsByMenu;
+}
+
+export async function fetchIngredients(): Promise<Ingredient[]> {
+  const { data, error } = await supabase.from('ingredients').select('*').order('name', { ascending: true });
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+// Recipe lines with their ingredient. Pass a menu id to load a single recipe.
+export async function fetchRecipeItems(menuId?: string): Promise<RecipeItemWithIngredient[]> {
+  let query = supabase
+    .from('recipe_items')
+    .select('*, ingredient:ingredients(*)')
+    .order('created_at', { ascending: true });
+
+  if (menuId) query = query.eq('menu_id', menuId);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []) as RecipeItemWithIngredient[];
+}
+
+export async function fetchRestaurantTables(): Promise<RestaurantTable[]> {
+  const { data, error } = await supabase
+    .from('restaurant_tables')
+    .select('*')
+    .order('section', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+export async function fetchSuppliers(): Promise<Supplier[]> {
+  const { data, error } = await supabase
+    .from('suppliers')
+    .select('*')
+    .order('active', { ascending: false })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+export async function fetchPurchaseOrders(): Promise<PurchaseOrderWithDetails[]> {
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select('*, supplier:suppliers(*), items:purchase_order_items(*, ingredient:ingredients(*))')
+    .order('created_at', { ascending: false })
+    .order('created_at', { referencedTable: 'purchase_order_items', ascending: true });
+
+  if (error) throw error;
+
+  return (data || []) as PurchaseOrderWithDetails[];
+}
+
+export type SpendPeriod = 'day' | 'week' | 'month';
+
+export type SupplierSpend = {
+  periodStart: string;
+  supplierId: string;
+  supplierName: string;
+  deliveryCount: number;
+  amount: number;
+};
+
+type SupplierSpendRow = {
+  period_start: string;
+  supplier_id: string;
+  supplier_name: string;
+  delivery_count: number;
+  total_spend: number;
+};
+
+export async function fetchSupplierSpend(dateFrom: string, dateTo: string, period: SpendPeriod): Promise<SupplierSpend[]> {
+  const { data, error } = await supabase.rpc('supplier_spend', {
+    p_received_from: dateFrom ? startOfLocalDay(dateFrom) : null,
+    p_received_to: dateTo ? endOfLocalDay(dateTo) : null,
+    p_period: period,
+    p_time_zone: localTimeZone(),
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as SupplierSpendRow[]).map((row) => ({
+    periodStart: row.period_start,
+    supplierId: row.supplier_id,
+    supplierName: row.supplier_name,
+    deliveryCount: Number(row.delivery_count),
+    amount: Number(row.total_spend),
+  }));
+}
+
+export type MenuItemCost = {
+  // Null when the item has no recipe
+  recipeCost: number | null;
+  // The cost entered by hand, otherwise the recipe cost
+  cost: number | null;
+};
+
+type MenuItemCostRow = {
+  menu_id: string;
+  recipe_cost: number | null;
+  cost: number | null;
+};
+
+const toNumberOrNull = (value: number | null) => (value === null ? null : Number(value));
+
+// Costs keyed by menu id
+export async function fetchMenuItemCosts(): Promise<Record<string, MenuItemCost>> {
+  const { data, error } = await supabase.rpc('menu_item_costs');
+
+  if (error) throw error;
+
+  const costs: Record<string, MenuItemCost> = {};
+  ((data || []) as MenuItemCostRow[]).forEach((row) => {
+    costs[row.menu_id] = { recipeCost: toNumberOrNull(row.recipe_cost), cost: toNumberOrNull(row.cost) };
+  });
+
+  return costs;
+}
+
+export type ItemProfit = {
+  menuId: string;
+  menuName: string;
+  // Null for items that have no category
+  categoryId: string | null;
+  categoryName: string;
+  quantitySold: number;
+  revenue: number;
+  // Null when the item has no cost
+  unitCost: number | null;
+  totalCost: number | null;
+  grossProfit: number | null;
+};
+
+type ItemProfitRow = {
+  menu_id: string;
+  menu_name: string;
+  category_id: string | null;
+  category_name: string | null;
+  quantity_sold: number;
+  revenue: number;
+  unit_cost: number | null;
+  total_cost: number | null;
+  gross_profit: number | null;
+};
+
+export async function fetchGrossProfitByItem(dateFrom: string, dateTo: string): Promise<ItemProfit[]> {
+  const { data, error } = await supabase.rpc('gross_profit_by_item', toSubmittedRange(dateFrom, dateTo));
+
+  if (error) throw error;
+
+  return ((data || []) as ItemProfitRow[]).map((row) => ({
+    menuId: row.menu_id,
+    menuName: row.menu_name,
+    categoryId: row.category_id,
+    categoryName: row.category_name ?? 'Uncategorized',
+    quantitySold: Number(row.quantity_sold),
+    revenue: Number(row.revenue),
+    unitCost: toNumberOrNull(row.unit_cost),
+    totalCost: toNumberOrNull(row.total_cost),
+    grossProfit: toNumberOrNull(row.gross_profit),
+  }));
+}
+
+export type TaxTotal = {
+  taxRate: number;
+  orderCount: number;
+  gross: number;
+  net: number;
+  tax: number;
+};
+
+type TaxTotalRow = {
+  tax_rate: number;
+  order_count: number;
+  gross_amount: number;
+  net_amount: number;
+  tax_amount: number;
+};
+
+export async function fetchTaxTotals(dateFrom: string, dateTo: string): Promise<TaxTotal[]> {
+  const { data, error } = await supabase.rpc('tax_totals', toSubmittedRange(dateFrom, dateTo));
+
+  if (error) throw error;
+
+  return ((data || []) as TaxTotalRow[]).map((row) => ({
+    taxRate: Number(row.tax_rate),
+    orderCount: Number(row.order_count),
+    gross: Number(row.gross_amount),
+    net: Number(row.net_amount),
+    tax: Number(row.tax_amount),
+  }));
+}
+
+export async function fetchOrderTaxBreakdown(orderId: string): Promise<OrderTaxLine[]> {
+  const { data, error } = await supabase.rpc('order_tax_breakdown', { p_order_id: orderId });
+
+  if (error) throw error;
+
+  return ((data || []) as OrderTaxLine[]).map((row) => ({
+    tax_rate: Number(row.tax_rate),
+    gross_amount: Number(row.gross_amount),
+    net_amount: Number(row.net_amount),
+    tax_amount: Number(row.tax_amount),
+  }));
+}
+
+export type DailySales = {
+  saleDate: string;
+  quantitySold: number;
+  revenue: number;
+};
+
+type DailySalesRow = {
+  sale_date: string;
+  quantity_sold: number;
+  revenue: number;
+};
+
+export async function fetchMenuItemDailySales(menuId: string, dateFrom: string, dateTo: string): Promise<DailySales[]> {
+  const { data, error } = await supabase.rpc('menu_item_daily_sales', {
+    p_menu_id: menuId,
+    ...toSubmittedRange(dateFrom, dateTo),
+    p_time_zone: localTimeZone(),
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as DailySalesRow[]).map((row) => ({
+    saleDate: row.sale_date,
+    quantitySold: Number(row.quantity_sold),
+    revenue: Number(row.revenue),
+  }));
+}
+
+export async function fetchOrdersWithWaiters(): Promise<OrderWithWaiter[]> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select(ORDER_WITH_WAITER_SELECT)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return ((data || []) as OrderWithWaiter[]).filter((o) => o.waiter);
+}
+
+export async function fetchOrderWithWaiter(id: string): Promise<OrderWithWaiter | null> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select(ORDER_WITH_WAITER_SELECT)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const order = data as OrderWithWaiter | null;
+  return order && order.waiter ? order : null;
+}
+
+const ORDER_WITH_ITEM_NOTES_SELECT =
+  '*, item_notes:order_items(id, quantity, notes, menu:menu(name)), splits:order_splits(*, payments(id, amount, status)), payments(id, amount, status)';
+
+// Orders of the signed-in waiter; RLS limits waiters to their own orders
+export async function fetchOrdersWithItemNotes(): Promise<OrderWithItemNotes[]> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select(ORDER_WITH_ITEM_NOTES_SELECT)
+    .not('item_notes.notes', 'is', null)
+    .order('created_at', { ascending: false })
+    .order('position', { referencedTable: 'splits', ascending: true });
+
+  if (error) throw error;
+
+  return (data || []) as OrderWithItemNotes[];
+}
+
+export async function fetchOrderWithItemNotes(id: string): Promise<OrderWithItemNotes | null> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select(ORDER_WITH_ITEM_NOTES_SELECT)
+    .not('item_notes.notes', 'is', null)
+    .order('position', { referencedTable: 'splits', ascending: true })
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data as OrderWithItemNotes | null;
+}
+
+export async function fetchOrderItemsWithMenu(orderId: string): Promise<OrderItemWithMenu[]> {
+  const { data, error } = await supabase
+    .from('order_items')
+    .select('*, menu:menu(*)')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []) as OrderItemWithMenu[];
+}
+
+export async function fetchOrderItemWithMenu(id: string): Promise<OrderItemWithMenu | null> {
+  const { data, error } = await supabase
+    .from('order_items')
+    .select('*, menu:menu(*)')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data as OrderItemWithMenu | null;
+}
+
+export async function fetchOrderTransfers(orderId: string): Promise<OrderTransferWithPeople[]> {
+  const { data, error } = await supabase
+    .from('order_transfers')
+    .select(
+      '*, performer:profiles!performed_by(*), from_waiter:profiles!from_waiter_id(*), to_waiter:profiles!to_waiter_id(*)'
+    )
+    .eq('order_id', orderId)
+    .order('performed_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []) as OrderTransferWithPeople[];
+}
+
+// Every payment on an order, oldest first, declined ones included
+export async function fetchOrderPayments(orderId: string): Promise<PaymentLedgerEntry[]> {
+  const { data, error } = await supabase
+    .from('payments')
+    .select('*, bank:banks(*), split:order_splits(label), receipt:fiscal_receipts(id, receipt_number)')
+    .eq('order_id', orderId)
+    .order('submitted_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []) as PaymentLedgerEntry[];
+}
+
+export async function fetchFiscalReceipt(id: string): Promise<FiscalReceipt | null> {
+  const { data, error } = await supabase.from('fiscal_receipts').select('*').eq('id', id).maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+// Receipts issued between the two local dates, both included, by number
+export async function fetchFiscalReceipts(dateFrom: string, dateTo: string): Promise<FiscalReceipt[]> {
+  const { data, error } = await supabase
+    .from('fiscal_receipts')
+    .select('*')
+    .gte('issued_at', startOfLocalDay(dateFrom))
+    .lt('issued_at', endOfLocalDay(dateTo))
+    .order('receipt_number', { ascending: true });
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+export async function fetchRestaurantSettings(): Promise<RestaurantSettings | null> {
+  const { data, error } = await supabase.from('restaurant_settings').select('*').maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+export async function fetchDiscountReasons(): Promise<DiscountReason[]> {
+  const { data, error } = await supabase.from('discount_reasons').select('*').order('name', { ascending: true });
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+export async function fetchServiceChargeRules(): Promise<ServiceChargeRule[]> {
+  const { data, error } = await supabase.from('service_charge_rules').select('*').order('name', { ascending: true });
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+export async function fetchPromoCodes(): Promise<PromoCode[]> {
+  const { data, error } = await supabase.from('promo_codes').select('*').order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+const ORDER_DISCOUNT_SELECT =
+  '*, reason:discount_reasons(name), promo_code:promo_codes(code), item:order_items(quantity, menu:menu(name)), creator:profiles!created_by(*)';
+
+export async function fetchOrderDiscounts(orderId: string): Promise<OrderDiscountWithDetails[]> {
+  const { data, error } = await supabase
+    .from('order_discounts')
+    .select(ORDER_DISCOUNT_SELECT)
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []) as OrderDiscountWithDetails[];
+}
+
+export async function fetchPendingDiscounts(): Promise<PendingDiscount[]> {
+  const { data, error } = await supabase
+    .from('order_discounts')
+    .select(`${ORDER_DISCOUNT_SELECT}, order:orders(${ORDER_WITH_WAITER_SELECT})`)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []) as PendingDiscount[];
+}
+
+export async function fetchActiveWaiters(): Promise<Profile[]> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('role', 'waiter')
+    .eq('active', true)
+    .order('full_name');
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+const KITCHEN_ITEM_SELECT = '*, menu:menu(*), order:orders(*)';
+
+// Items still being worked on, plus those served since `servedSince` so a
+// bump made by mistake can still be recalled.
+export async function fetchKitchenItems(servedSince: string): Promise<KitchenItem[]> {
+  const { data, error } = await supabase
+    .from('order_items')
+    .select(KITCHEN_ITEM_SELECT)
+    .or(`status.neq.served,status_updated_at.gte.${servedSince}`)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return ((data || []) as KitchenItem[]).filter((item) => item.order && item.menu);
+}
+
+export async function fetchKitchenItem(id: string): Promise<KitchenItem | null> {
+  const { data, error } = await supabase
+    .from('order_items')
+    .select(KITCHEN_ITEM_SELECT)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const item = data as KitchenItem | null;
+  return item && item.order && item.menu ? item : null;
+}
@@ -0,0 +1,23 @@
+// Formats a date as YYYY-MM-DD in local time, the value a date input expects
+export function toDateInput(date: Date) {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+}
+
+// The start of a YYYY-MM-DD day in local time, as an ISO timestamp
+export function startOfLocalDay(date: string) {
+  return new Date(`${date}T00:00`).toISOString();
+}
+
+// The start of the local day after a YYYY-MM-DD day, the exclusive end of a
+// date range that includes that day
+export function endOfLocalDay(date: string) {
+  const end = new Date(`${date}T00:00`);
+  end.setDate(end.getDate() + 1);
+  return end.toISOString();
+}
+
+// The IANA time zone of the browser, e.g. 'Europe/Berlin'
+export function localTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
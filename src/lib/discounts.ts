@@ -0,0 +1,56 @@
+import { DiscountKind, OrderDiscount, OrderDiscountWithDetails } from './supabase';
+
+export const DISCOUNT_KIND_LABELS: Record<DiscountKind, string> = {
+  percent: 'Percentage',
+  fixed: 'Fixed amount',
+};
+
+export function formatDiscountValue(kind: DiscountKind, value: number) {
+  return kind === 'percent' ? `${Number(value)}%` : `$${Number(value).toFixed(2)}`;
+}
+
+export function discountReasonLabel(discount: OrderDiscountWithDetails) {
+  if (discount.promo_code_id) {
+    return discount.promo_code ? `Promo ${discount.promo_code.code}` : 'Promo code';
+  }
+  return discount.reason?.name ?? 'Discount';
+}
+
+export function discountTargetLabel(discount: OrderDiscountWithDetails) {
+  return discount.item ? `${discount.item.quantity}× ${discount.item.menu.name}` : 'Whole order';
+}
+
+// A promo code is usable from valid_from up to, but not including, valid_until
+export function isPromoCodeCurrent(promo: { active: boolean; valid_from: string; valid_until?: string }, now = new Date()) {
+  return (
+    promo.active &&
+    new Date(promo.valid_from) <= now &&
+    (!promo.valid_until || new Date(promo.valid_until) > now)
+  );
+}
+
+// Mirrors discount_amount in the database
+export function discountAmount(kind: DiscountKind, value: number, base: number) {
+  const amount = kind === 'percent' ? Math.round(base * Number(value)) / 100 : Math.min(Number(value), base);
+  return Math.max(amount, 0);
+}
+
+// Mirrors refresh_order_discounts: applied item discounts follow their items
+// and the order discount applies to what is left of the subtotal
+export function appliedDiscountTotal(
+  discounts: OrderDiscount[],
+  items: { id: string; quantity: number; unitPrice: number }[]
+) {
+  const applied = discounts.filter((discount) => discount.status === 'applied');
+  const subtotal = items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+
+  const itemDiscount = applied.reduce((sum, discount) => {
+    const item = discount.order_item_id ? items.find((i) => i.id === discount.order_item_id) : undefined;
+    return item ? sum + discountAmount(discount.kind, discount.value, item.unitPrice * item.quantity) : sum;
+  }, 0);
+
+  const orderDiscount = applied.find((discount) => !discount.order_item_id);
+  return (
+    itemDiscount + (orderDiscount ? discountAmount(orderDiscount.kind, orderDiscount.value, subtotal - itemDiscount) : 0)
+  );
+}
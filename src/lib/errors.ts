@@ -0,0 +1,8 @@
+// Supabase errors (PostgrestError, AuthError, ...) are plain objects rather
+// than Error instances, but carry the database's message all the same.
+export function errorMessage(err: unknown, fallback: string) {
+  if (err instanceof Error) return err.message;
+
+  const message = (err as { message?: unknown } | null)?.message;
+  return typeof message === 'string' && message ? message : fallback;
+}
@@ -0,0 +1,36 @@
+import { FloorStatus, RestaurantTable, TableShape } from './supabase';
+
+export const TABLE_SHAPES: TableShape[] = ['square', 'round', 'rectangle'];
+
+export const TABLE_SHAPE_LABELS: Record<TableShape, string> = {
+  square: 'Square',
+  round: 'Round',
+  rectangle: 'Rectangle',
+};
+
+// Size and corners of each shape on the floor plan
+export const TABLE_SHAPE_STYLES: Record<TableShape, string> = {
+  square: 'w-16 h-16 rounded-lg',
+  round: 'w-16 h-16 rounded-full',
+  rectangle: 'w-28 h-16 rounded-lg',
+};
+
+export const FLOOR_STATUS_LABELS: Record<FloorStatus, string> = {
+  free: 'Free',
+  occupied: 'Open order',
+  awaiting_payment: 'Awaiting payment',
+};
+
+export const FLOOR_STATUS_STYLES: Record<FloorStatus, string> = {
+  free: 'bg-green-100 border-green-500 text-green-900',
+  occupied: 'bg-yellow-100 border-yellow-500 text-yellow-900',
+  awaiting_payment: 'bg-blue-100 border-blue-500 text-blue-900',
+};
+
+export function tableSections(tables: RestaurantTable[]) {
+  return Array.from(new Set(tables.map((table) => table.section))).sort((a, b) => a.localeCompare(b));
+}
+
+export function clampPosition(value: number) {
+  return Math.min(100, Math.max(0, Math.round(value * 10) / 10));
+}
@@ -0,0 +1,18 @@
+import { Ingredient, RecipeItemWithIngredient } from './supabase';
+
+export function isLowStock(ingredient: Ingredient) {
+  return Number(ingredient.stock_on_hand) <= Number(ingredient.low_stock_threshold);
+}
+
+export function formatQuantity(quantity: number, unit: string) {
+  return `${Number(Number(quantity).toFixed(3))} ${unit}`;
+}
+
+// Menu items that cannot be made even once from the stock on hand
+export function outOfStockMenuIds(recipeItems: RecipeItemWithIngredient[]): Set<string> {
+  return new Set(
+    recipeItems
+      .filter((item) => Number(item.ingredient.stock_on_hand) < Number(item.quantity))
+      .map((item) => item.menu_id)
+  );
+}
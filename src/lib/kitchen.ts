@@ -0,0 +1,19 @@
+import { OrderItemStatus } from './supabase';
+
+// Preparation steps in order; the database only allows moving one step at a time.
+export const ORDER_ITEM_STEPS: OrderItemStatus[] = ['queued', 'preparing', 'ready', 'served'];
+
+export const ORDER_ITEM_STATUS_STYLES: Record<OrderItemStatus, string> = {
+  queued: 'bg-gray-100 text-gray-800',
+  preparing: 'bg-yellow-100 text-yellow-800',
+  ready: 'bg-green-100 text-green-800',
+  served: 'bg-blue-100 text-blue-800',
+};
+
+export function nextOrderItemStatus(status: OrderItemStatus): OrderItemStatus | null {
+  return ORDER_ITEM_STEPS[ORDER_ITEM_STEPS.indexOf(status) + 1] ?? null;
+}
+
+export function previousOrderItemStatus(status: OrderItemStatus): OrderItemStatus | null {
+  return ORDER_ITEM_STEPS[ORDER_ITEM_STEPS.indexOf(status) - 1] ?? null;
+}
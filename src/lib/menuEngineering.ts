@@ -0,0 +1,95 @@
+import { DailySales, ItemProfit } from './data';
+import { toDateInput } from './dates';
+
+export type MenuClass = 'star' | 'plowhorse' | 'puzzle' | 'dog';
+
+export const MENU_CLASSES: MenuClass[] = ['star', 'plowhorse', 'puzzle', 'dog'];
+
+export const MENU_CLASS_LABELS: Record<MenuClass, string> = {
+  star: 'Star',
+  plowhorse: 'Plowhorse',
+  puzzle: 'Puzzle',
+  dog: 'Dog',
+};
+
+export const MENU_CLASS_DESCRIPTIONS: Record<MenuClass, string> = {
+  star: 'Popular and profitable, keep as is',
+  plowhorse: 'Popular but low margin, review price or cost',
+  puzzle: 'Profitable but rarely ordered, promote or reposition',
+  dog: 'Unpopular and low margin, consider dropping',
+};
+
+export const MENU_CLASS_STYLES: Record<MenuClass, string> = {
+  star: 'bg-green-100 text-green-800',
+  plowhorse: 'bg-blue-100 text-blue-800',
+  puzzle: 'bg-yellow-100 text-yellow-800',
+  dog: 'bg-red-100 text-red-800',
+};
+
+// An item is popular when it sells at least this share of an even split of the menu mix
+const POPULARITY_FACTOR = 0.7;
+
+export type EngineeredItem = {
+  menuId: string;
+  menuName: string;
+  categoryName: string;
+  quantitySold: number;
+  menuMixPercent: number;
+  // Average price charged minus the item's cost
+  unitContribution: number;
+  totalContribution: number;
+  menuClass: MenuClass;
+};
+
+export type MenuEngineering = {
+  items: EngineeredItem[];
+  popularityThreshold: number;
+  averageContribution: number;
+  // Items sold in the period that have no cost and cannot be classified
+  uncostedItems: ItemProfit[];
+};
+
+export function engineerMenu(profits: ItemProfit[]): MenuEngineering {
+  const costed = profits.filter((item) => item.unitCost !== null && item.quantitySold > 0);
+  const uncostedItems = profits.filter((item) => item.unitCost === null);
+  const totalQuantity = costed.reduce((sum, item) => sum + item.quantitySold, 0);
+  const totalContribution = costed.reduce((sum, item) => sum + (item.grossProfit ?? 0), 0);
+
+  const popularityThreshold = costed.length ? (100 / costed.length) * POPULARITY_FACTOR : 0;
+  const averageContribution = totalQuantity ? totalContribution / totalQuantity : 0;
+
+  const items = costed.map((item): EngineeredItem => {
+    const menuMixPercent = (item.quantitySold / totalQuantity) * 100;
+    const unitContribution = (item.grossProfit ?? 0) / item.quantitySold;
+    const popular = menuMixPercent >= popularityThreshold;
+    const profitable = unitContribution >= averageContribution;
+
+    return {
+      menuId: item.menuId,
+      menuName: item.menuName,
+      categoryName: item.categoryName,
+      quantitySold: item.quantitySold,
+      menuMixPercent,
+      unitContribution,
+      totalContribution: item.grossProfit ?? 0,
+      menuClass: popular ? (profitable ? 'star' : 'plowhorse') : profitable ? 'puzzle' : 'dog',
+    };
+  });
+
+  return { items, popularityThreshold, averageContribution, uncostedItems };
+}
+
+// Fills in the days without sales so the trend shows gaps
+export function fillDailySales(sales: DailySales[], dateFrom: string, dateTo: string): DailySales[] {
+  const first = dateFrom || sales[0]?.saleDate;
+  const last = dateTo || sales[sales.length - 1]?.saleDate;
+  if (!first || !last) return sales;
+
+  const byDate = new Map(sales.map((day) => [day.saleDate, day]));
+  const days: DailySales[] = [];
+  for (let date = new Date(`${first}T00:00:00`); toDateInput(date) <= last; date.setDate(date.getDate() + 1)) {
+    const saleDate = toDateInput(date);
+    days.push(byDate.get(saleDate) ?? { saleDate, quantitySold: 0, revenue: 0 });
+  }
+  return days;
+}
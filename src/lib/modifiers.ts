@@ -0,0 +1,36 @@
+import { ModifierGroupWithOptions, OrderItemModifier } from './supabase';
+
+export function formatPriceDelta(delta: number) {
+  const value = Number(delta);
+  if (value === 0) return '';
+  return `${value > 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+}
+
+export function formatModifiers(modifiers: OrderItemModifier[]) {
+  return modifiers
+    .map((modifier) => {
+      const delta = formatPriceDelta(modifier.price_delta);
+      return delta ? `${modifier.name} (${delta})` : modifier.name;
+    })
+    .join(', ');
+}
+
+// Client-side mirror of the checks in build_order_item_modifiers, so the
+// picker can explain what is missing before the order is sent.
+export function modifierSelectionError(groups: ModifierGroupWithOptions[], optionIds: string[]): string | null {
+  for (const group of groups) {
+    const chosen = group.options.filter((option) => optionIds.includes(option.id)).length;
+    if (chosen < group.min_choices) {
+      return `Please choose at least ${group.min_choices} option(s) for ${group.name}`;
+    }
+    if (chosen > group.max_choices) {
+      return `Please choose at most ${group.max_choices} option(s) for ${group.name}`;
+    }
+  }
+  return null;
+}
+
+// Items with the same menu id and the same options are merged into one line
+export function orderLineKey(menuId: string, optionIds: string[]) {
+  return [menuId, ...[...optionIds].sort()].join(':');
+}
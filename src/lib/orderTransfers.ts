@@ -0,0 +1,19 @@
+import { OrderTransferKind, OrderTransferWithPeople } from './supabase';
+
+export const ORDER_TRANSFER_KIND_LABELS: Record<OrderTransferKind, string> = {
+  table: 'Move table',
+  merge: 'Merge orders',
+  waiter: 'Hand over',
+};
+
+export function describeTransfer(transfer: OrderTransferWithPeople) {
+  if (transfer.kind === 'table') {
+    return `Moved from table ${transfer.from_table_number} to ${transfer.to_table_number}`;
+  }
+  if (transfer.kind === 'merge') {
+    return `Merged in the order from table ${transfer.from_table_number}`;
+  }
+  return `Handed over from ${transfer.from_waiter?.full_name ?? 'a former waiter'} to ${
+    transfer.to_waiter?.full_name ?? 'a former waiter'
+  }`;
+}
@@ -0,0 +1,40 @@
+import { Payment } from './supabase';
+
+type PaymentAmount = Pick<Payment, 'amount' | 'status'>;
+
+export const PAYMENT_STATUS_STYLES: Record<Payment['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  declined: 'bg-red-100 text-red-800',
+};
+
+export const PAYMENT_METHOD_LABELS: Record<Payment['payment_method'], string> = {
+  cash: 'Cash',
+  bank_transfer: 'Bank Transfer',
+};
+
+// Pending payments count towards what has been paid until they are declined
+export function paidAmount(payments: PaymentAmount[], statuses: Payment['status'][] = ['pending', 'approved']) {
+  return payments
+    .filter((payment) => statuses.includes(payment.status))
+    .reduce((sum, payment) => sum + Number(payment.amount), 0);
+}
+
+export function roundCents(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+// Mirrors order_outstanding_balance
+export function outstandingBalance(due: number, payments: PaymentAmount[]) {
+  return Math.max(0, roundCents(Number(due) - paidAmount(payments)));
+}
+
+// Change for cash tendered against the amount and tip, before any of it is kept as tip
+export function changeDue(tendered: number, amount: number, tip: number) {
+  return roundCents(tendered - amount - tip);
+}
+
+// Once anything is paid the order's items and split are fixed
+export function hasActivePayments(payments: PaymentAmount[]) {
+  return payments.some((payment) => payment.status !== 'declined');
+}
@@ -0,0 +1,25 @@
+import { PurchaseOrderStatus, PurchaseOrderWithDetails } from './supabase';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  partially_received: 'Partially received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+export const PURCHASE_ORDER_STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  ordered: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+export function isReceivable(order: PurchaseOrderWithDetails) {
+  return order.status === 'ordered' || order.status === 'partially_received';
+}
+
+export function expectedTotal(order: PurchaseOrderWithDetails) {
+  return order.items.reduce((sum, item) => sum + Number(item.quantity_ordered) * Number(item.expected_unit_cost), 0);
+}
@@ -0,0 +1,171 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase, Payment, PaymentWithDetails } from './supabase';
+import { matchesPaymentFilters, PaymentFilters, PaymentsPage, PaymentTotals } from './data';
+
+// Helpers for applying realtime changes to lists already held in component
+// state, so a change costs at most one single-row fetch instead of a reload.
+
+type Row = { [key: string]: unknown };
+
+export type TableChange = RealtimePostgresChangesPayload<Row> & { table: string };
+
+type TableSubscription = {
+  table: string;
+  filter?: string;
+};
+
+export function subscribeToChanges(
+  channelName: string,
+  tables: TableSubscription[],
+  onChange: (change: TableChange) => void
+) {
+  const channel = supabase.channel(channelName);
+
+  tables.forEach(({ table, filter }) => {
+    channel.on<Row>('postgres_changes', { event: '*', schema: 'public', table, filter }, (payload) => {
+      onChange({ ...payload, table });
+    });
+  });
+
+  channel.subscribe();
+
+  return () => {
+    channel.unsubscribe();
+  };
+}
+
+// Hands each change to every listener as it arrives. Passed down to the
+// components that keep their own copy of the rows, so none of a burst of
+// changes is lost between renders the way a single state slot would lose it.
+export type ChangeFeed<T> = {
+  publish: (change: T) => void;
+  subscribe: (listener: (change: T) => void) => () => void;
+};
+
+export function createChangeFeed<T>(): ChangeFeed<T> {
+  const listeners = new Set<(change: T) => void>();
+
+  return {
+    publish: (change) => {
+      listeners.forEach((listener) => listener(change));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export function changedRowId(change: TableChange): string {
+  return (change.eventType === 'DELETE' ? change.old.id : change.new.id) as string;
+}
+
+export function upsertRow<T extends { id: string }>(rows: T[], row: T, compare: (a: T, b: T) => number): T[] {
+  const exists = rows.some((r) => r.id === row.id);
+  const next = exists ? rows.map((r) => (r.id === row.id ? row : r)) : [...rows, row];
+  return next.sort(compare);
+}
+
+export function removeRow<T extends { id: string }>(rows: T[], id: string): T[] {
+  return rows.filter((r) => r.id !== id);
+}
+
+export const byCreatedAtAsc = (a: { created_at: string }, b: { created_at: string }) =>
+  new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+
+export const byCreatedAtDesc = (a: { created_at: string }, b: { created_at: string }) =>
+  new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+export const byNameAsc = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+export const bySectionAndName = (a: { section: string; name: string }, b: { section: string; name: string }) =>
+  a.section.localeCompare(b.section) || a.name.localeCompare(b.name);
+
+export const bySubmittedAtDesc = (a: { submitted_at: string }, b: { submitted_at: string }) =>
+  new Date(b.submitted_at).getTime() - new Date(a.submitted_at).getTime();
+
+export type PaymentChange = {
+  id: string;
+  eventType: TableChange['eventType'];
+  // Previous row, or null for inserts and whenever realtime only sent the key
+  old: Payment | null;
+  // Current row with its details, or null once deleted or no longer visible
+  new: PaymentWithDetails | null;
+};
+
+export function toPaymentChange(change: TableChange, current: PaymentWithDetails | null): PaymentChange {
+  const old = change.eventType !== 'INSERT' && change.old.status ? (change.old as unknown as Payment) : null;
+  return {
+    id: changedRowId(change),
+    eventType: change.eventType,
+    old,
+    new: change.eventType === 'DELETE' ? null : current,
+  };
+}
+
+function oldMatches(change: PaymentChange, filters: PaymentFilters) {
+  return !!change.old && matchesPaymentFilters({ ...change.old, order: change.new?.order }, filters);
+}
+
+export function applyPaymentChangeToPage(
+  page: PaymentsPage,
+  change: PaymentChange,
+  filters: PaymentFilters,
+  currentPage: number,
+  pageSize: number
+): PaymentsPage {
+  const inPage = page.payments.some((p) => p.id === change.id);
+  const wasMatch = inPage || oldMatches(change, filters);
+  const isMatch = !!change.new && matchesPaymentFilters(change.new, filters);
+
+  if (isMatch && inPage) {
+    return { payments: upsertRow(page.payments, change.new!, bySubmittedAtDesc), count: page.count };
+  }
+
+  if (isMatch && !wasMatch) {
+    const payments =
+      currentPage === 1 ? upsertRow(page.payments, change.new!, bySubmittedAtDesc).slice(0, pageSize) : page.payments;
+    return { payments, count: page.count + 1 };
+  }
+
+  if (!isMatch && wasMatch) {
+    return { payments: removeRow(page.payments, change.id), count: Math.max(0, page.count - 1) };
+  }
+
+  return page;
+}
+
+// Totals can only be adjusted when realtime sent the previous row; otherwise
+// the caller should reload them.
+export function canApplyToTotals(change: PaymentChange) {
+  return !!change.old || change.eventType === 'INSERT';
+}
+
+// Returns null when the change cannot be applied without the previous row.
+export function applyPaymentChangeToTotals(
+  totals: PaymentTotals,
+  change: PaymentChange,
+  filters: PaymentFilters
+): PaymentTotals | null {
+  if (!canApplyToTotals(change)) return null;
+
+  const next = { ...totals };
+
+  if (oldMatches(change, filters)) {
+    next.count -= 1;
+    next.amount -= Number(change.old!.amount);
+    next.serviceCharge -= Number(change.old!.service_charge_amount);
+    next.tip -= Number(change.old!.tip_amount);
+  }
+
+  if (change.new && matchesPaymentFilters(change.new, filters)) {
+    next.count += 1;
+    next.amount += Number(change.new.amount);
+    next.serviceCharge += Number(change.new.service_charge_amount);
+    next.tip += Number(change.new.tip_amount);
+  }
+
+  return next;
+}
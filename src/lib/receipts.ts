@@ -0,0 +1,3 @@
+export function formatReceiptNumber(receiptNumber: number) {
+  return String(receiptNumber).padStart(6, '0');
+}
@@ -0,0 +1,24 @@
+import { ServiceChargeRule } from './supabase';
+
+// Mirrors service_charge_rate_for in the database, which has the final say
+export function serviceChargeRateFor(rules: ServiceChargeRule[], section: string | undefined, partySize: number | null) {
+  const rates = rules
+    .filter(
+      (rule) =>
+        rule.active &&
+        (rule.min_party_size == null || (partySize != null && partySize >= rule.min_party_size)) &&
+        (rule.section == null || (section != null && rule.section.toLowerCase() === section.toLowerCase()))
+    )
+    .map((rule) => Number(rule.percent));
+
+  return rates.length > 0 ? Math.max(...rates) : null;
+}
+
+export function describeServiceChargeRule(rule: ServiceChargeRule) {
+  const conditions = [
+    rule.min_party_size != null && `parties of ${rule.min_party_size}+`,
+    rule.section != null && `tables in ${rule.section}`,
+  ].filter(Boolean);
+
+  return conditions.length > 0 ? `For ${conditions.join(' at ')}` : 'Every order';
+}
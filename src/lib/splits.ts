@@ -0,0 +1,54 @@
+import { OrderSplitWithPayments } from './supabase';
+import { paidAmount } from './payments';
+
+export type SplitMode = 'items' | 'seats' | 'equal';
+
+export const SPLIT_MODE_LABELS: Record<SplitMode, string> = {
+  items: 'By item',
+  seats: 'By seat',
+  equal: 'Equal shares',
+};
+
+export type SplitStatus = 'unpaid' | 'partial' | 'pending' | 'approved';
+
+export const SPLIT_STATUS_LABELS: Record<SplitStatus, string> = {
+  unpaid: 'Unpaid',
+  partial: 'Part paid',
+  pending: 'Awaiting approval',
+  approved: 'Paid',
+};
+
+export const SPLIT_STATUS_STYLES: Record<SplitStatus, string> = {
+  unpaid: 'bg-yellow-100 text-yellow-800',
+  partial: 'bg-orange-100 text-orange-800',
+  pending: 'bg-blue-100 text-blue-800',
+  approved: 'bg-green-100 text-green-800',
+};
+
+// Declined payments leave their part of the check unpaid so it can be paid again
+export function splitStatus(split: OrderSplitWithPayments): SplitStatus {
+  const amount = Number(split.amount);
+  if (paidAmount(split.payments, ['approved']) >= amount) return 'approved';
+  if (paidAmount(split.payments) >= amount) return 'pending';
+  if (paidAmount(split.payments) > 0) return 'partial';
+  return 'unpaid';
+}
+
+// Mirrors split_order: every share is rounded down to the cent and the last one takes the difference
+export function equalShares(total: number, count: number) {
+  const share = Math.floor((total * 100) / count) / 100;
+  return Array.from({ length: count }, (_, i) => (i === count - 1 ? total - share * (count - 1) : share));
+}
+
+// Mirrors split_order: item checks are priced at their share of the order
+// total, so discounts and the service charge are spread over them, and the
+// last check with items takes the rounding
+export function itemShares(itemTotals: number[], total: number) {
+  const subtotal = itemTotals.reduce((sum, amount) => sum + amount, 0);
+  if (subtotal <= 0) return itemTotals.map(() => 0);
+
+  const last = itemTotals.reduce((found, amount, i) => (amount > 0 ? i : found), -1);
+  const shares = itemTotals.map((amount) => Math.round((amount * total * 100) / subtotal) / 100);
+  shares[last] = total - shares.reduce((sum, share, i) => (i === last ? sum : sum + share), 0);
+  return shares;
+}
@@ -13,7 +13,7 @@ export type Profile = {
   id: string;
   email: string;
   full_name: string;
-  role: 'waiter' | 'cashier';
+  role: 'waiter' | 'cashier' | 'kitchen';
   active?: boolean;
   created_at: string;
 };
@@ -21,9 +21,25 @@ export type Profile = {
 export type Order = {
   id: string;
   waiter_id: string;
+  // Unset only for orders whose table has since been deleted
+  table_id?: string;
+  // The table's name when the order was taken
   table_number: string;
+  // Computed by the database from order_items less discount_amount plus
+  // service_charge_amount; never written by the client
   total_amount: number;
+  // The applied discounts, computed by the database
+  discount_amount: number;
+  // Number of guests, given when the order is created
+  party_size?: number;
+  // Percent of the service charge rule that matched when the order was created
+  service_charge_rate?: number;
+  service_charge_amount: number;
+  // total_amount split into its net amount and VAT, computed by the database
+  net_amount: number;
+  tax_amount: number;
   status: 'pending' | 'paid' | 'confirmed';
+  notes?: string;
   created_at: string;
 };
 
@@ -32,10 +48,17 @@ export type Payment = {
   order_id: string;
   payment_method: 'cash' | 'bank_transfer';
   amount: number;
+  // The part of amount that is service charge, computed by the database
+  service_charge_amount: number;
   tip_amount: number;
+  // Cash payments only; the change is computed by the database
+  cash_tendered?: number;
+  change_given?: number;
   transfer_screenshot_url?: string;
   receipt_url?: string;
   bank_id?: string;
+  // Set when the order's bill is split; the payment covers only this check
+  split_id?: string;
   status: 'pending' | 'approved' | 'declined';
   submitted_at: string;
   confirmed_at?: string;
@@ -57,15 +80,380 @@ export type Menu = {
   name: string;
   price: number;
   picture_url?: string;
+  station_id?: string;
+  category_id?: string;
+  // Entered by hand; when unset the cost comes from the recipe
+  cost?: number;
+  availability: MenuAvailability;
+  tax_class: TaxClass;
+  // Only set while sold out; the item is orderable again once it has passed
+  sold_out_until?: string;
   created_at: string;
   updated_at: string;
 };
 
+export type MenuAvailability = 'available' | 'sold_out' | 'hidden';
+
+export type TaxClass = 'standard' | 'exempt';
+
+export type MenuCategory = {
+  id: string;
+  name: string;
+  display_order: number;
+  created_at: string;
+  created_by: string;
+};
+
+export type Station = {
+  id: string;
+  name: string;
+  created_at: string;
+  created_by: string;
+  active: boolean;
+};
+
 export type OrderItem = {
   id: string;
   order_id: string;
   menu_id: string;
   quantity: number;
+  // Copied from menu.price plus the modifier price deltas by the database
+  // when the item is inserted
   price_at_purchase: number;
+  modifiers: OrderItemModifier[];
+  notes?: string;
+  status: OrderItemStatus;
+  status_updated_at?: string;
+  // Copied from menu.station_id by the database when the item is inserted
+  station_id?: string;
+  // The VAT rate in percent when the item was ordered, set by the database
+  tax_rate: number;
+  created_at: string;
+};
+
+// Snapshot of a chosen modifier option, kept as it was when ordered
+export type OrderItemModifier = {
+  group_id: string;
+  group_name: string;
+  option_id: string;
+  name: string;
+  price_delta: number;
+};
+
+export type ModifierGroup = {
+  id: string;
+  menu_id: string;
+  name: string;
+  required: boolean;
+  min_choices: number;
+  max_choices: number;
+  display_order: number;
+  created_at: string;
+};
+
+export type ModifierOption = {
+  id: string;
+  group_id: string;
+  name: string;
+  price_delta: number;
+  display_order: number;
+  created_at: string;
+};
+
+export type ModifierGroupWithOptions = ModifierGroup & {
+  options: ModifierOption[];
+};
+
+export type OrderItemStatus = 'queued' | 'preparing' | 'ready' | 'served';
+
+export type Ingredient = {
+  id: string;
+  name: string;
+  unit: string;
+  // Only changed through stock movements
+  stock_on_hand: number;
+  low_stock_threshold: number;
+  // Updated to the cost charged on each delivery
+  unit_cost: number;
+  created_at: string;
+  created_by?: string;
+};
+
+// Quantity of an ingredient used by one portion of a menu item
+export type RecipeItem = {
+  id: string;
+  menu_id: string;
+  ingredient_id: string;
+  quantity: number;
+  created_at: string;
+};
+
+export type RecipeItemWithIngredient = RecipeItem & {
+  ingredient: Ingredient;
+};
+
+export type Supplier = {
+  id: string;
+  name: string;
+  contact_name?: string;
+  phone?: string;
+  email?: string;
+  active: boolean;
+  created_at: string;
+  created_by?: string;
+};
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export type PurchaseOrder = {
+  id: string;
+  supplier_id: string;
+  status: PurchaseOrderStatus;
+  notes?: string;
+  ordered_at?: string;
+  created_at: string;
+  created_by?: string;
+};
+
+export type PurchaseOrderItem = {
+  id: string;
+  purchase_order_id: string;
+  ingredient_id: string;
+  quantity_ordered: number;
+  expected_unit_cost: number;
+  // Running total of every delivery, kept by the database
+  quantity_received: number;
+  created_at: string;
+};
+
+export type PurchaseOrderWithDetails = PurchaseOrder & {
+  supplier: Supplier;
+  items: (PurchaseOrderItem & { ingredient: Ingredient })[];
+};
+
+export type StockMovement = {
+  id: string;
+  ingredient_id: string;
+  quantity_change: number;
+  kind: 'order' | 'adjustment' | 'purchase';
+  order_id?: string;
+  purchase_order_id?: string;
+  note?: string;
+  created_at: string;
+  created_by?: string;
+};
+
+export type TableShape = 'square' | 'round' | 'rectangle';
+
+export type FloorStatus = 'free' | 'occupied' | 'awaiting_payment';
+
+export type RestaurantTable = {
+  id: string;
+  name: string;
+  section: string;
+  seats: number;
+  shape: TableShape;
+  // Centre of the table as a percentage of the floor plan's width and height
+  position_x: number;
+  position_y: number;
+  active: boolean;
+  // Kept by the database from the table's open orders
+  floor_status: FloorStatus;
+  created_at: string;
+  created_by?: string;
+};
+
+export type OrderTransferKind = 'table' | 'merge' | 'waiter';
+
+export type OrderTransfer = {
+  id: string;
+  order_id: string;
+  kind: OrderTransferKind;
+  from_table_number?: string;
+  to_table_number?: string;
+  from_waiter_id?: string;
+  to_waiter_id?: string;
+  // The order folded into this one; it no longer exists
+  merged_order_id?: string;
+  performed_by: string;
+  performed_at: string;
+};
+
+export type OrderTransferWithPeople = OrderTransfer & {
+  performer: Profile;
+  from_waiter?: Profile;
+  to_waiter?: Profile;
+};
+
+export type OrderSplit = {
+  id: string;
+  order_id: string;
+  label: string;
+  // Computed by the database from the split items or the equal share
+  amount: number;
+  position: number;
+  created_at: string;
+  created_by?: string;
+};
+
+export type OrderSplitWithPayments = OrderSplit & {
+  payments: Pick<Payment, 'id' | 'amount' | 'status'>[];
+};
+
+export type RestaurantSettings = {
+  // Discounts by waiters above this percentage wait for a cashier; unset means never
+  discount_authorization_percent?: number;
+  // The standard VAT rate in percent; menu prices include it
+  vat_rate: number;
+  // Printed on fiscal receipts
+  business_name?: string;
+  tax_id?: string;
+  updated_at: string;
+};
+
+export type DiscountKind = 'percent' | 'fixed';
+
+export type DiscountReason = {
+  id: string;
+  name: string;
+  active: boolean;
+  created_at: string;
+  created_by?: string;
+};
+
+// A rule with neither min_party_size nor section applies to every order
+export type ServiceChargeRule = {
+  id: string;
+  name: string;
+  percent: number;
+  min_party_size?: number;
+  section?: string;
+  active: boolean;
+  created_at: string;
+  created_by?: string;
+};
+
+export type PromoCode = {
+  id: string;
+  code: string;
+  description?: string;
+  kind: DiscountKind;
+  value: number;
+  valid_from: string;
+  // Exclusive; unset means the code does not expire
+  valid_until?: string;
+  active: boolean;
   created_at: string;
+  created_by?: string;
+};
+
+export type OrderDiscount = {
+  id: string;
+  order_id: string;
+  // Unset for a discount on the whole order
+  order_item_id?: string;
+  kind: DiscountKind;
+  value: number;
+  // Kept by the database from the current items
+  amount: number;
+  reason_id?: string;
+  promo_code_id?: string;
+  // Pending while awaiting a cashier's authorization; only applied discounts count
+  status: 'pending' | 'applied';
+  created_by: string;
+  created_at: string;
+  authorized_by?: string;
+  authorized_at?: string;
+};
+
+export type OrderDiscountWithDetails = OrderDiscount & {
+  reason?: { name: string };
+  // Null for waiters, who cannot read promo codes
+  promo_code?: { code: string };
+  item?: { quantity: number; menu: { name: string } };
+  creator: Profile;
+};
+
+export type PendingDiscount = OrderDiscountWithDetails & {
+  order: OrderWithWaiter;
+};
+
+// One tax rate of an order, as returned by order_tax_breakdown
+export type OrderTaxLine = {
+  tax_rate: number;
+  gross_amount: number;
+  net_amount: number;
+  tax_amount: number;
+};
+
+export type OrderWithItemNotes = Order & {
+  // Only the items that have notes
+  item_notes: { id: string; quantity: number; notes: string; menu: { name: string } }[];
+  // Empty unless the bill is split
+  splits: OrderSplitWithPayments[];
+  // Every payment on the order, including those on its checks
+  payments: Pick<Payment, 'id' | 'amount' | 'status'>[];
+};
+
+export type OrderWithWaiter = Order & {
+  waiter: Profile;
+};
+
+export type PaymentLedgerEntry = Payment & {
+  bank?: Bank;
+  split?: Pick<OrderSplit, 'label'>;
+  // Set once the payment is approved
+  receipt?: Pick<FiscalReceipt, 'id' | 'receipt_number'> | null;
+};
+
+export type PaymentWithDetails = Payment & {
+  order: Order;
+  waiter: Profile;
+  bank?: Bank;
+};
+
+export type OrderItemWithMenu = OrderItem & {
+  menu: Menu;
+};
+
+export type KitchenItem = OrderItemWithMenu & {
+  order: Order;
+};
+
+export type FiscalReceiptLine = {
+  name: string;
+  quantity: number;
+  unit_price: number;
+  modifiers: OrderItemModifier[];
+  notes?: string;
+};
+
+// A copy of the order and payment when the receipt was issued; never changes
+export type FiscalReceipt = {
+  id: string;
+  // Sequential with no gaps, assigned when the payment is approved
+  receipt_number: number;
+  payment_id: string;
+  order_id: string;
+  issued_at: string;
+  issued_by?: string;
+  business_name?: string;
+  tax_id?: string;
+  table_number: string;
+  waiter_name?: string;
+  split_label?: string;
+  lines: FiscalReceiptLine[];
+  discounts: { label: string; amount: number }[];
+  order_total: number;
+  service_charge_rate?: number;
+  service_charge_amount: number;
+  payment_method: Payment['payment_method'];
+  amount: number;
+  tip_amount: number;
+  cash_tendered?: number;
+  change_given?: number;
+  // What was left to approve on the order after this payment
+  balance_due: number;
+  // The VAT breakdown of amount
+  tax_lines: OrderTaxLine[];
 };
@@ -0,0 +1,10 @@
+import { TaxClass } from './supabase';
+
+export const TAX_CLASS_LABELS: Record<TaxClass, string> = {
+  standard: 'Standard rate',
+  exempt: 'VAT exempt',
+};
+
+export function formatTaxRate(rate: number) {
+  return Number(rate) === 0 ? 'VAT exempt' : `VAT ${Number(rate)}%`;
+}
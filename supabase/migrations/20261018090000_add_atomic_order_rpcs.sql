@@ -0,0 +1,103 @@
+/*
+  # Atomic order creation and editing
+
+  1. New Functions
+    - `create_order_with_items(p_table_number, p_total_amount, p_items)`
+      - Inserts the order and all of its `order_items` in a single transaction
+      - `p_items` is a JSON array of `{ menu_id, quantity, price_at_purchase }`
+      - Returns the created `orders` row
+    - `update_order_with_items(p_order_id, p_total_amount, p_items)`
+      - Replaces the items of a pending order in a single transaction
+      - Items carrying an `id` are updated, items without one are inserted,
+        and items missing from `p_items` are deleted
+      - Returns the updated `orders` row
+
+  2. Security
+    - Both functions run as SECURITY INVOKER, so the existing RLS policies on
+      `orders` and `order_items` still apply to the calling waiter
+*/
+
+CREATE OR REPLACE FUNCTION public.create_order_with_items(
+  p_table_number text,
+  p_total_amount numeric,
+  p_items jsonb
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Please add at least one item to the order';
+  END IF;
+
+  INSERT INTO orders (waiter_id, table_number, total_amount, status)
+  VALUES (auth.uid(), p_table_number, p_total_amount, 'pending')
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, menu_id, quantity, price_at_purchase)
+  SELECT
+    v_order.id,
+    (item->>'menu_id')::uuid,
+    (item->>'quantity')::integer,
+    (item->>'price_at_purchase')::numeric
+  FROM jsonb_array_elements(p_items) AS item;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.update_order_with_items(
+  p_order_id uuid,
+  p_total_amount numeric,
+  p_items jsonb
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Please add at least one item to the order';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending orders can be edited';
+  END IF;
+
+  DELETE FROM order_items
+  WHERE order_id = p_order_id
+  AND id NOT IN (
+    SELECT (item->>'id')::uuid
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'id' IS NOT NULL
+  );
+
+  UPDATE order_items
+  SET quantity = (item->>'quantity')::integer
+  FROM jsonb_array_elements(p_items) AS item
+  WHERE item->>'id' IS NOT NULL
+  AND order_items.id = (item->>'id')::uuid
+  AND order_items.order_id = p_order_id;
+
+  INSERT INTO order_items (order_id, menu_id, quantity, price_at_purchase)
+  SELECT
+    p_order_id,
+    (item->>'menu_id')::uuid,
+    (item->>'quantity')::integer,
+    (item->>'price_at_purchase')::numeric
+  FROM jsonb_array_elements(p_items) AS item
+  WHERE item->>'id' IS NULL;
+
+  UPDATE orders
+  SET total_amount = p_total_amount
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,184 @@
+/*
+  # Server-computed order totals
+
+  1. New Functions
+    - `compute_order_total(p_order_id)` - sum of quantity × price_at_purchase
+    - `set_order_item_price()` trigger function
+      - On insert, `price_at_purchase` is always read from `menu.price`
+      - On update, `menu_id` and `price_at_purchase` are kept from the old row,
+        so only the quantity of an existing item can change
+    - `set_order_total()` trigger function
+      - `orders.total_amount` is always recomputed from `order_items`,
+        ignoring whatever value the client sent
+    - `refresh_order_total()` trigger function
+      - Recomputes the parent order whenever its items change
+
+  2. Changes
+    - `create_order_with_items` and `update_order_with_items` no longer accept
+      a client total or client prices
+    - Totals of pending orders are recomputed from their items; confirmed
+      and paid orders keep the total their payments were made against
+
+  3. Important Notes
+    - A modified client can no longer under-charge: the total of every order
+      is provably the sum of its items at menu prices
+    - `compute_order_total` runs with the caller's rights, so it only sees
+      the items of orders the caller can already see; the triggers run it as
+      the owner
+*/
+
+CREATE OR REPLACE FUNCTION public.compute_order_total(p_order_id uuid)
+RETURNS numeric AS $$
+  SELECT COALESCE(SUM(quantity * price_at_purchase), 0)
+  FROM order_items
+  WHERE order_id = p_order_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.set_order_item_price()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT price INTO NEW.price_at_purchase FROM menu WHERE id = NEW.menu_id;
+
+    IF NEW.price_at_purchase IS NULL THEN
+      RAISE EXCEPTION 'Menu item % does not exist', NEW.menu_id;
+    END IF;
+  ELSE
+    NEW.menu_id := OLD.menu_id;
+    NEW.price_at_purchase := OLD.price_at_purchase;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS order_items_set_price ON order_items;
+
+CREATE TRIGGER order_items_set_price
+  BEFORE INSERT OR UPDATE ON order_items
+  FOR EACH ROW EXECUTE FUNCTION public.set_order_item_price();
+
+CREATE OR REPLACE FUNCTION public.set_order_total()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.total_amount := 0;
+  ELSE
+    NEW.total_amount := public.compute_order_total(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS orders_set_total ON orders;
+
+CREATE TRIGGER orders_set_total
+  BEFORE INSERT OR UPDATE ON orders
+  FOR EACH ROW EXECUTE FUNCTION public.set_order_total();
+
+CREATE OR REPLACE FUNCTION public.refresh_order_total()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE orders
+  SET total_amount = public.compute_order_total(id)
+  WHERE id = COALESCE(NEW.order_id, OLD.order_id);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS order_items_refresh_total ON order_items;
+
+CREATE TRIGGER order_items_refresh_total
+  AFTER INSERT OR UPDATE OR DELETE ON order_items
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_order_total();
+
+-- Replace the RPCs so they no longer accept client totals or prices
+DROP FUNCTION IF EXISTS public.create_order_with_items(text, numeric, jsonb);
+DROP FUNCTION IF EXISTS public.update_order_with_items(uuid, numeric, jsonb);
+
+CREATE OR REPLACE FUNCTION public.create_order_with_items(
+  p_table_number text,
+  p_items jsonb
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Please add at least one item to the order';
+  END IF;
+
+  INSERT INTO orders (waiter_id, table_number, total_amount, status)
+  VALUES (auth.uid(), p_table_number, 0, 'pending')
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, menu_id, quantity, price_at_purchase)
+  SELECT
+    v_order.id,
+    (item->>'menu_id')::uuid,
+    (item->>'quantity')::integer,
+    0
+  FROM jsonb_array_elements(p_items) AS item;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_order.id;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.update_order_with_items(
+  p_order_id uuid,
+  p_items jsonb
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Please add at least one item to the order';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending orders can be edited';
+  END IF;
+
+  DELETE FROM order_items
+  WHERE order_id = p_order_id
+  AND id NOT IN (
+    SELECT (item->>'id')::uuid
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'id' IS NOT NULL
+  );
+
+  UPDATE order_items
+  SET quantity = (item->>'quantity')::integer
+  FROM jsonb_array_elements(p_items) AS item
+  WHERE item->>'id' IS NOT NULL
+  AND order_items.id = (item->>'id')::uuid
+  AND order_items.order_id = p_order_id;
+
+  INSERT INTO order_items (order_id, menu_id, quantity, price_at_purchase)
+  SELECT
+    p_order_id,
+    (item->>'menu_id')::uuid,
+    (item->>'quantity')::integer,
+    0
+  FROM jsonb_array_elements(p_items) AS item
+  WHERE item->>'id' IS NULL;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Recompute the totals of open orders from their items
+UPDATE orders SET total_amount = total_amount WHERE status = 'pending';
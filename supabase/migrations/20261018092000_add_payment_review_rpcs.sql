@@ -0,0 +1,114 @@
+/*
+  # Atomic payment approval and decline
+
+  1. New Functions
+    - `approve_payment(p_payment_id)`
+      - Marks the payment approved and its order confirmed in one transaction
+    - `decline_payment(p_payment_id, p_reason)`
+      - Marks the payment declined and moves its order back to pending
+    - `enforce_payment_status_transition()` trigger function
+      - Only pending → approved and pending → declined are allowed
+
+  2. Security
+    - Both RPCs are SECURITY DEFINER and check that the caller is an active
+      cashier, since cashiers have no UPDATE policy on `orders`
+    - The payment row is locked with FOR UPDATE, so when two cashiers act on
+      the same payment the second one gets an "already handled" error
+*/
+
+CREATE OR REPLACE FUNCTION public.enforce_payment_status_transition()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT (OLD.status = 'pending' AND NEW.status IN ('approved', 'declined'))
+  THEN
+    RAISE EXCEPTION 'Payment cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS payments_enforce_status_transition ON payments;
+
+CREATE TRIGGER payments_enforce_status_transition
+  BEFORE UPDATE ON payments
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_payment_status_transition();
+
+CREATE OR REPLACE FUNCTION public.lock_pending_payment(p_payment_id uuid)
+RETURNS payments AS $$
+DECLARE
+  v_payment payments;
+  v_handled_by text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'cashier'
+    AND profiles.active IS NOT FALSE
+  ) THEN
+    RAISE EXCEPTION 'Only cashiers can review payments';
+  END IF;
+
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF v_payment.status <> 'pending' THEN
+    SELECT full_name INTO v_handled_by FROM profiles WHERE id = v_payment.confirmed_by;
+    RAISE EXCEPTION 'This payment was already % by %',
+      v_payment.status, COALESCE(v_handled_by, 'another cashier');
+  END IF;
+
+  RETURN v_payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.lock_pending_payment(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.approve_payment(p_payment_id uuid)
+RETURNS payments AS $$
+DECLARE
+  v_payment payments;
+BEGIN
+  v_payment := public.lock_pending_payment(p_payment_id);
+
+  UPDATE payments
+  SET status = 'approved',
+      confirmed_at = now(),
+      confirmed_by = auth.uid()
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  UPDATE orders SET status = 'confirmed' WHERE id = v_payment.order_id;
+
+  RETURN v_payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.decline_payment(p_payment_id uuid, p_reason text)
+RETURNS payments AS $$
+DECLARE
+  v_payment payments;
+BEGIN
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'Please provide a reason for declining this payment';
+  END IF;
+
+  v_payment := public.lock_pending_payment(p_payment_id);
+
+  UPDATE payments
+  SET status = 'declined',
+      declined_at = now(),
+      declined_reason = btrim(p_reason),
+      confirmed_by = auth.uid()
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  UPDATE orders SET status = 'pending' WHERE id = v_payment.order_id;
+
+  RETURN v_payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,86 @@
+/*
+  # Server-side payment filtering and totals
+
+  1. New Functions
+    - `search_payments(...)` - returns the `payments` rows matching the filters
+      - Called through `supabase.rpc(...).select(...)` so the client can embed
+        orders, waiters and banks and paginate with `range` and an exact count
+    - `payment_totals(...)` - same filters, aggregated per payment status
+      - Returns `status`, `payment_count`, `total_amount` and `total_tip`
+
+  2. Filters (all optional, NULL means "any")
+    - `p_submitted_from`, `p_submitted_to` - half-open range on `submitted_at`;
+      the client passes the bounds of its local days, so a day means the
+      restaurant's day rather than a UTC one
+    - `p_status` - 'pending', 'approved' or 'declined'
+    - `p_waiter_id` - waiter of the paid order
+    - `p_bank_filter` - a bank id, 'cash', or 'no_bank' for transfers without a bank
+    - `p_confirmed_from`, `p_confirmed_to` - half-open range on `confirmed_at`
+
+  3. Security
+    - Both functions are SECURITY INVOKER, so waiters still only see payments
+      for their own orders
+
+  4. Indexes
+    - `payments(submitted_at)`, `payments(status)`, `payments(order_id)`,
+      `orders(waiter_id)`
+*/
+
+CREATE INDEX IF NOT EXISTS payments_submitted_at_idx ON payments(submitted_at);
+CREATE INDEX IF NOT EXISTS payments_status_idx ON payments(status);
+CREATE INDEX IF NOT EXISTS payments_order_id_idx ON payments(order_id);
+CREATE INDEX IF NOT EXISTS orders_waiter_id_idx ON orders(waiter_id);
+
+CREATE OR REPLACE FUNCTION public.search_payments(
+  p_submitted_from timestamptz DEFAULT NULL,
+  p_submitted_to timestamptz DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_waiter_id uuid DEFAULT NULL,
+  p_bank_filter text DEFAULT NULL,
+  p_confirmed_from timestamptz DEFAULT NULL,
+  p_confirmed_to timestamptz DEFAULT NULL
+)
+RETURNS SETOF payments AS $$
+  SELECT payments.*
+  FROM payments
+  JOIN orders ON orders.id = payments.order_id
+  WHERE (p_submitted_from IS NULL OR payments.submitted_at >= p_submitted_from)
+  AND (p_submitted_to IS NULL OR payments.submitted_at < p_submitted_to)
+  AND (p_status IS NULL OR payments.status = p_status)
+  AND (p_waiter_id IS NULL OR orders.waiter_id = p_waiter_id)
+  AND (
+    p_bank_filter IS NULL
+    OR (p_bank_filter = 'cash' AND payments.payment_method = 'cash')
+    OR (p_bank_filter = 'no_bank' AND payments.payment_method = 'bank_transfer' AND payments.bank_id IS NULL)
+    OR payments.bank_id::text = p_bank_filter
+  )
+  AND (p_confirmed_from IS NULL OR payments.confirmed_at >= p_confirmed_from)
+  AND (p_confirmed_to IS NULL OR payments.confirmed_at < p_confirmed_to);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.payment_totals(
+  p_submitted_from timestamptz DEFAULT NULL,
+  p_submitted_to timestamptz DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_waiter_id uuid DEFAULT NULL,
+  p_bank_filter text DEFAULT NULL,
+  p_confirmed_from timestamptz DEFAULT NULL,
+  p_confirmed_to timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  status text,
+  payment_count bigint,
+  total_amount numeric,
+  total_tip numeric
+) AS $$
+  SELECT
+    p.status,
+    COUNT(*),
+    COALESCE(SUM(p.amount), 0),
+    COALESCE(SUM(p.tip_amount), 0)
+  FROM public.search_payments(
+    p_submitted_from, p_submitted_to, p_status, p_waiter_id,
+    p_bank_filter, p_confirmed_from, p_confirmed_to
+  ) AS p
+  GROUP BY p.status;
+$$ LANGUAGE sql STABLE SET search_path = public;
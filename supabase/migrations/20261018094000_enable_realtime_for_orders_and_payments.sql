@@ -0,0 +1,36 @@
+/*
+  # Realtime for orders, payments and order items
+
+  1. Changes
+    - Add `orders`, `payments` and `order_items` to the `supabase_realtime`
+      publication if they are not already part of it
+    - Set REPLICA IDENTITY FULL on the three tables so DELETE events and
+      filtered subscriptions can be matched on columns other than the key
+
+  2. Important Notes
+    - Realtime still applies RLS, so waiters only receive changes for their
+      own orders and payments
+    - Because RLS is enabled on these tables, realtime sends only the primary
+      key in the `old` record of UPDATE and DELETE events; clients must not
+      rely on any other previous value such as `old.status`
+*/
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['orders', 'payments', 'order_items'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END $$;
+
+ALTER TABLE orders REPLICA IDENTITY FULL;
+ALTER TABLE payments REPLICA IDENTITY FULL;
+ALTER TABLE order_items REPLICA IDENTITY FULL;
@@ -0,0 +1,136 @@
+/*
+  # Kitchen display system
+
+  1. Changes
+    - `profiles.role` now also accepts 'kitchen'
+    - `order_items`
+      - `status` (text) - 'queued', 'preparing', 'ready' or 'served', defaults to 'queued'
+      - `status_updated_at` (timestamptz) - when the item last changed state
+
+  2. New Functions
+    - `enforce_order_item_status_transition()` trigger function
+      - An item can only move one step forward (bump) or one step back (recall)
+      - Keeps `status_updated_at` in sync with `status`
+    - `set_order_item_status(p_item_id, p_status)`
+      - Bumps or recalls a single item; callable by active kitchen staff and cashiers
+    - `requeue_added_order_item_units()` trigger function
+      - Raising the quantity of an item the kitchen has already started puts
+        the extra units on a new queued line, so they are prepared too
+
+  3. Important Notes
+    - Items created before this migration are marked 'served' so they don't
+      flood the kitchen display
+
+  4. Security
+    - Kitchen staff can view all orders and their items
+    - `set_order_item_status` is SECURITY DEFINER, since the kitchen has no
+      UPDATE policy on `order_items`
+*/
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_role_check CHECK (role IN ('waiter', 'cashier', 'kitchen'));
+
+-- Items that existed before the kitchen display are treated as already served
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'served'
+    CHECK (status IN ('queued', 'preparing', 'ready', 'served')),
+  ADD COLUMN IF NOT EXISTS status_updated_at timestamptz;
+
+ALTER TABLE order_items ALTER COLUMN status SET DEFAULT 'queued';
+ALTER TABLE order_items ALTER COLUMN status_updated_at SET DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS order_items_status_idx ON order_items(status);
+
+CREATE POLICY "Kitchen staff can view orders"
+  ON orders FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'kitchen'
+    )
+  );
+
+CREATE POLICY "Kitchen staff can view order items"
+  ON order_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'kitchen'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.enforce_order_item_status_transition()
+RETURNS trigger AS $$
+DECLARE
+  v_steps text[] := ARRAY['queued', 'preparing', 'ready', 'served'];
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF abs(array_position(v_steps, NEW.status) - array_position(v_steps, OLD.status)) <> 1 THEN
+      RAISE EXCEPTION 'Item cannot move from % to %', OLD.status, NEW.status;
+    END IF;
+
+    NEW.status_updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS order_items_enforce_status_transition ON order_items;
+
+CREATE TRIGGER order_items_enforce_status_transition
+  BEFORE UPDATE ON order_items
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_order_item_status_transition();
+
+CREATE OR REPLACE FUNCTION public.requeue_added_order_item_units()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.quantity > OLD.quantity AND OLD.status <> 'queued' THEN
+    INSERT INTO order_items (order_id, menu_id, quantity, price_at_purchase)
+    VALUES (OLD.order_id, OLD.menu_id, NEW.quantity - OLD.quantity, 0);
+
+    NEW.quantity := OLD.quantity;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS order_items_requeue_added_units ON order_items;
+
+CREATE TRIGGER order_items_requeue_added_units
+  BEFORE UPDATE OF quantity ON order_items
+  FOR EACH ROW EXECUTE FUNCTION public.requeue_added_order_item_units();
+
+CREATE OR REPLACE FUNCTION public.set_order_item_status(p_item_id uuid, p_status text)
+RETURNS order_items AS $$
+DECLARE
+  v_item order_items;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('kitchen', 'cashier')
+    AND profiles.active IS NOT FALSE
+  ) THEN
+    RAISE EXCEPTION 'Only kitchen staff can update item preparation';
+  END IF;
+
+  SELECT * INTO v_item FROM order_items WHERE id = p_item_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  UPDATE order_items
+  SET status = p_status
+  WHERE id = p_item_id
+  RETURNING * INTO v_item;
+
+  RETURN v_item;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
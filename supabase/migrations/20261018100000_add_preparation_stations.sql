@@ -0,0 +1,118 @@
+/*
+  # Preparation stations
+
+  1. New Tables
+    - `stations`
+      - `id` (uuid, primary key)
+      - `name` (text, unique) - e.g. 'Bar', 'Grill', 'Pastry'
+      - `created_at` (timestamptz)
+      - `created_by` (uuid, references auth.users)
+      - `active` (boolean, default true)
+
+  2. Changes to Existing Tables
+    - `menu`
+      - Add `station_id` (uuid, nullable, references stations) - where the item is prepared
+    - `order_items`
+      - Add `station_id` (uuid, nullable, references stations) - where this item was routed
+
+  3. Changes to Functions
+    - `set_order_item_price()` now also copies `menu.station_id` onto new
+      order items, so items added by `create_order_with_items` and
+      `update_order_with_items` are routed the same way
+    - On update the routed station is kept, like the price, except that
+      deleting the station may still clear it
+
+  4. Security
+    - Enable RLS on `stations`
+    - All authenticated users can view stations
+    - Only cashiers can create, update and delete stations
+
+  5. Important Notes
+    - Deleting a station unassigns its menu items and leaves already routed
+      order items without a station; they still show in the "All stations" view
+*/
+
+CREATE TABLE IF NOT EXISTS stations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES auth.users(id),
+  active boolean DEFAULT true
+);
+
+ALTER TABLE menu ADD COLUMN IF NOT EXISTS station_id uuid REFERENCES stations(id) ON DELETE SET NULL;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS station_id uuid REFERENCES stations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS order_items_station_id_idx ON order_items(station_id);
+
+ALTER TABLE stations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Stations are viewable by all authenticated users"
+  ON stations FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only cashiers can create stations"
+  ON stations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Only cashiers can update stations"
+  ON stations FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Only cashiers can delete stations"
+  ON stations FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.set_order_item_price()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT price, station_id INTO NEW.price_at_purchase, NEW.station_id
+    FROM menu WHERE id = NEW.menu_id;
+
+    IF NEW.price_at_purchase IS NULL THEN
+      RAISE EXCEPTION 'Menu item % does not exist', NEW.menu_id;
+    END IF;
+  ELSE
+    NEW.menu_id := OLD.menu_id;
+    NEW.price_at_purchase := OLD.price_at_purchase;
+    -- Only cleared when its station is deleted (ON DELETE SET NULL)
+    IF NEW.station_id IS NOT NULL
+      OR EXISTS (SELECT 1 FROM stations WHERE id = OLD.station_id)
+    THEN
+      NEW.station_id := OLD.station_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
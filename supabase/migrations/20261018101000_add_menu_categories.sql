@@ -0,0 +1,122 @@
+/*
+  # Menu categories
+
+  1. New Tables
+    - `menu_categories`
+      - `id` (uuid, primary key)
+      - `name` (text, unique) - e.g. 'Starters', 'Mains', 'Drinks'
+      - `display_order` (integer) - position of the category tab, lowest first
+      - `created_at` (timestamptz)
+      - `created_by` (uuid, references auth.users)
+
+  2. Changes to Existing Tables
+    - `menu`
+      - Add `category_id` (uuid, nullable, references menu_categories)
+
+  3. New Functions
+    - `sales_by_category(...)` - takes the same filters as `search_payments`
+      and sums the items of the orders with a matching approved payment per
+      menu category
+      - Returns `category_id`, `category_name`, `item_count` and `total_amount`
+      - Items without a category are grouped under a NULL `category_id`
+
+  4. Security
+    - Enable RLS on `menu_categories`
+    - All authenticated users can view categories
+    - Only cashiers can create, update and delete categories
+    - `sales_by_category` is SECURITY INVOKER, so waiters only see their own sales
+*/
+
+CREATE TABLE IF NOT EXISTS menu_categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES auth.users(id)
+);
+
+ALTER TABLE menu ADD COLUMN IF NOT EXISTS category_id uuid REFERENCES menu_categories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS menu_category_id_idx ON menu(category_id);
+
+ALTER TABLE menu_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Menu categories are viewable by all authenticated users"
+  ON menu_categories FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only cashiers can create menu categories"
+  ON menu_categories FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Only cashiers can update menu categories"
+  ON menu_categories FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Only cashiers can delete menu categories"
+  ON menu_categories FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.sales_by_category(
+  p_submitted_from timestamptz DEFAULT NULL,
+  p_submitted_to timestamptz DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_waiter_id uuid DEFAULT NULL,
+  p_bank_filter text DEFAULT NULL,
+  p_confirmed_from timestamptz DEFAULT NULL,
+  p_confirmed_to timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  category_id uuid,
+  category_name text,
+  item_count bigint,
+  total_amount numeric
+) AS $$
+  SELECT
+    menu_categories.id,
+    menu_categories.name,
+    COALESCE(SUM(order_items.quantity), 0),
+    COALESCE(SUM(order_items.quantity * order_items.price_at_purchase), 0)
+  FROM order_items
+  JOIN menu ON menu.id = order_items.menu_id
+  LEFT JOIN menu_categories ON menu_categories.id = menu.category_id
+  WHERE order_items.order_id IN (
+    SELECT p.order_id
+    FROM public.search_payments(
+      p_submitted_from, p_submitted_to, p_status, p_waiter_id,
+      p_bank_filter, p_confirmed_from, p_confirmed_to
+    ) AS p
+    WHERE p.status = 'approved'
+  )
+  GROUP BY menu_categories.id, menu_categories.name, menu_categories.display_order
+  ORDER BY menu_categories.display_order NULLS LAST, menu_categories.name;
+$$ LANGUAGE sql STABLE SET search_path = public;
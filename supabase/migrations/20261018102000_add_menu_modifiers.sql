@@ -0,0 +1,333 @@
+/*
+  # Menu item modifiers
+
+  1. New Tables
+    - `modifier_groups`
+      - `id` (uuid, primary key)
+      - `menu_id` (uuid, references menu) - the item the group belongs to
+      - `name` (text) - e.g. 'Size', 'Extras', 'Remove'
+      - `required` (boolean) - at least `min_choices` options must be picked
+      - `min_choices` (integer) - 0 for optional groups
+      - `max_choices` (integer)
+      - `display_order` (integer)
+      - `created_at` (timestamptz)
+    - `modifier_options`
+      - `id` (uuid, primary key)
+      - `group_id` (uuid, references modifier_groups)
+      - `name` (text) - e.g. 'Large', 'Extra shot', 'No onions'
+      - `price_delta` (numeric) - added to the item price, may be 0 or negative
+      - `display_order` (integer)
+      - `created_at` (timestamptz)
+
+  2. Changes to Existing Tables
+    - `order_items`
+      - Add `modifiers` (jsonb) - the chosen options as they were when ordered:
+        `[{ group_id, group_name, option_id, name, price_delta }]`
+
+  3. New Functions
+    - `build_order_item_modifiers(p_menu_id, p_option_ids)`
+      - Resolves option ids into the snapshot stored on `order_items` and
+        checks every group's min/max choices
+
+  4. Changes to Functions
+    - `set_order_item_price()` treats `modifiers` on insert as a list of option
+      ids, replaces it with the snapshot and sets `price_at_purchase` to the
+      menu price plus the price deltas
+    - `create_order_with_items` and `update_order_with_items` accept an
+      optional `option_ids` array on each new item
+    - `requeue_added_order_item_units()` gives the new line the price and
+      options of the line it was split from; `set_order_item_price()` copies
+      them instead of resolving the options again, so the added units cost
+      the same as the first ones even if an option was changed or removed
+
+  5. Security
+    - Enable RLS on both tables
+    - All authenticated users can view modifiers
+    - Only cashiers can manage modifiers
+*/
+
+CREATE TABLE IF NOT EXISTS modifier_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_id uuid NOT NULL REFERENCES menu(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  required boolean NOT NULL DEFAULT false,
+  min_choices integer NOT NULL DEFAULT 0 CHECK (min_choices >= 0),
+  max_choices integer NOT NULL DEFAULT 1 CHECK (max_choices >= 1),
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  CHECK (max_choices >= min_choices),
+  CHECK (NOT required OR min_choices >= 1)
+);
+
+CREATE TABLE IF NOT EXISTS modifier_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  price_delta numeric NOT NULL DEFAULT 0,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS modifier_groups_menu_id_idx ON modifier_groups(menu_id);
+CREATE INDEX IF NOT EXISTS modifier_options_group_id_idx ON modifier_options(group_id);
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS modifiers jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE modifier_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Modifier groups are viewable by all authenticated users"
+  ON modifier_groups FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only cashiers can manage modifier groups"
+  ON modifier_groups FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Modifier options are viewable by all authenticated users"
+  ON modifier_options FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only cashiers can manage modifier options"
+  ON modifier_options FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.build_order_item_modifiers(p_menu_id uuid, p_option_ids uuid[])
+RETURNS jsonb AS $$
+DECLARE
+  v_group record;
+  v_modifiers jsonb;
+  v_found integer;
+BEGIN
+  p_option_ids := ARRAY(SELECT DISTINCT unnest(COALESCE(p_option_ids, '{}')));
+
+  SELECT
+    COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'group_id', modifier_groups.id,
+        'group_name', modifier_groups.name,
+        'option_id', modifier_options.id,
+        'name', modifier_options.name,
+        'price_delta', modifier_options.price_delta
+      )
+      ORDER BY modifier_groups.display_order, modifier_options.display_order
+    ), '[]'::jsonb),
+    COUNT(*)
+  INTO v_modifiers, v_found
+  FROM modifier_options
+  JOIN modifier_groups ON modifier_groups.id = modifier_options.group_id
+  WHERE modifier_options.id = ANY (p_option_ids)
+  AND modifier_groups.menu_id = p_menu_id;
+
+  IF v_found <> cardinality(p_option_ids) THEN
+    RAISE EXCEPTION 'Some of the chosen options are not available for this item';
+  END IF;
+
+  FOR v_group IN
+    SELECT
+      modifier_groups.name,
+      modifier_groups.min_choices,
+      modifier_groups.max_choices,
+      COUNT(modifier_options.id) FILTER (WHERE modifier_options.id = ANY (p_option_ids)) AS chosen
+    FROM modifier_groups
+    LEFT JOIN modifier_options ON modifier_options.group_id = modifier_groups.id
+    WHERE modifier_groups.menu_id = p_menu_id
+    GROUP BY modifier_groups.id
+  LOOP
+    IF v_group.chosen < v_group.min_choices THEN
+      RAISE EXCEPTION 'Please choose at least % option(s) for %', v_group.min_choices, v_group.name;
+    END IF;
+
+    IF v_group.chosen > v_group.max_choices THEN
+      RAISE EXCEPTION 'Please choose at most % option(s) for %', v_group.max_choices, v_group.name;
+    END IF;
+  END LOOP;
+
+  RETURN v_modifiers;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.set_order_item_price()
+RETURNS trigger AS $$
+DECLARE
+  v_option_ids uuid[];
+  v_source_id uuid;
+BEGIN
+  v_source_id := NULLIF(current_setting('app.requeue_order_item', true), '')::uuid;
+
+  -- Units added to a started item are more of the same line, so they keep its price and options
+  IF TG_OP = 'INSERT' AND v_source_id IS NOT NULL THEN
+    SELECT price_at_purchase, station_id, modifiers
+    INTO NEW.price_at_purchase, NEW.station_id, NEW.modifiers
+    FROM order_items WHERE id = v_source_id;
+
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT price, station_id INTO NEW.price_at_purchase, NEW.station_id
+    FROM menu WHERE id = NEW.menu_id;
+
+    IF NEW.price_at_purchase IS NULL THEN
+      RAISE EXCEPTION 'Menu item % does not exist', NEW.menu_id;
+    END IF;
+
+    SELECT ARRAY(SELECT jsonb_array_elements_text(COALESCE(NEW.modifiers, '[]'::jsonb))::uuid)
+    INTO v_option_ids;
+
+    NEW.modifiers := public.build_order_item_modifiers(NEW.menu_id, v_option_ids);
+    NEW.price_at_purchase := NEW.price_at_purchase + COALESCE((
+      SELECT SUM((modifier->>'price_delta')::numeric)
+      FROM jsonb_array_elements(NEW.modifiers) AS modifier
+    ), 0);
+
+    IF NEW.price_at_purchase <= 0 THEN
+      RAISE EXCEPTION 'The chosen options make the price of this item zero or less';
+    END IF;
+  ELSE
+    NEW.menu_id := OLD.menu_id;
+    NEW.price_at_purchase := OLD.price_at_purchase;
+    -- Only cleared when its station is deleted (ON DELETE SET NULL)
+    IF NEW.station_id IS NOT NULL
+      OR EXISTS (SELECT 1 FROM stations WHERE id = OLD.station_id)
+    THEN
+      NEW.station_id := OLD.station_id;
+    END IF;
+    NEW.modifiers := OLD.modifiers;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.create_order_with_items(
+  p_table_number text,
+  p_items jsonb
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Please add at least one item to the order';
+  END IF;
+
+  INSERT INTO orders (waiter_id, table_number, total_amount, status)
+  VALUES (auth.uid(), p_table_number, 0, 'pending')
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, menu_id, quantity, price_at_purchase, modifiers)
+  SELECT
+    v_order.id,
+    (item->>'menu_id')::uuid,
+    (item->>'quantity')::integer,
+    0,
+    COALESCE(item->'option_ids', '[]'::jsonb)
+  FROM jsonb_array_elements(p_items) AS item;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_order.id;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.update_order_with_items(
+  p_order_id uuid,
+  p_items jsonb
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Please add at least one item to the order';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending orders can be edited';
+  END IF;
+
+  DELETE FROM order_items
+  WHERE order_id = p_order_id
+  AND id NOT IN (
+    SELECT (item->>'id')::uuid
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'id' IS NOT NULL
+  );
+
+  UPDATE order_items
+  SET quantity = (item->>'quantity')::integer
+  FROM jsonb_array_elements(p_items) AS item
+  WHERE item->>'id' IS NOT NULL
+  AND order_items.id = (item->>'id')::uuid
+  AND order_items.order_id = p_order_id;
+
+  INSERT INTO order_items (order_id, menu_id, quantity, price_at_purchase, modifiers)
+  SELECT
+    p_order_id,
+    (item->>'menu_id')::uuid,
+    (item->>'quantity')::integer,
+    0,
+    COALESCE(item->'option_ids', '[]'::jsonb)
+  FROM jsonb_array_elements(p_items) AS item
+  WHERE item->>'id' IS NULL;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.requeue_added_order_item_units()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.quantity > OLD.quantity AND OLD.status <> 'queued' THEN
+    PERFORM set_config('app.requeue_order_item', OLD.id::text, true);
+
+    INSERT INTO order_items (order_id, menu_id, quantity, price_at_purchase)
+    VALUES (OLD.order_id, OLD.menu_id, NEW.quantity - OLD.quantity, 0);
+
+    PERFORM set_config('app.requeue_order_item', '', true);
+
+    NEW.quantity := OLD.quantity;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,136 @@
+/*
+  # Special instructions on orders and items
+
+  1. Changes
+    - `orders`
+      - Add `notes` (text, nullable) - instructions for the whole order
+    - `order_items`
+      - Add `notes` (text, nullable) - instructions for a single item, e.g. allergies
+
+  2. Changes to Functions
+    - `create_order_with_items(p_table_number, p_items, p_notes)`
+      - New `p_notes` argument; each item may carry a `notes` field
+    - `update_order_with_items(p_order_id, p_items, p_notes)`
+      - Replaces the order notes, and the notes of existing and new items,
+        while the order is still pending
+    - `requeue_added_order_item_units()` gives the new line the same notes
+
+  3. Important Notes
+    - Blank notes are stored as NULL
+    - Notes are limited to 500 characters
+*/
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS notes text CHECK (char_length(notes) <= 500);
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS notes text CHECK (char_length(notes) <= 500);
+
+DROP FUNCTION IF EXISTS public.create_order_with_items(text, jsonb);
+DROP FUNCTION IF EXISTS public.update_order_with_items(uuid, jsonb);
+
+CREATE OR REPLACE FUNCTION public.create_order_with_items(
+  p_table_number text,
+  p_items jsonb,
+  p_notes text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Please add at least one item to the order';
+  END IF;
+
+  INSERT INTO orders (waiter_id, table_number, total_amount, status, notes)
+  VALUES (auth.uid(), p_table_number, 0, 'pending', NULLIF(btrim(p_notes), ''))
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, menu_id, quantity, price_at_purchase, modifiers, notes)
+  SELECT
+    v_order.id,
+    (item->>'menu_id')::uuid,
+    (item->>'quantity')::integer,
+    0,
+    COALESCE(item->'option_ids', '[]'::jsonb),
+    NULLIF(btrim(item->>'notes'), '')
+  FROM jsonb_array_elements(p_items) AS item;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_order.id;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.update_order_with_items(
+  p_order_id uuid,
+  p_items jsonb,
+  p_notes text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Please add at least one item to the order';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending orders can be edited';
+  END IF;
+
+  UPDATE orders SET notes = NULLIF(btrim(p_notes), '') WHERE id = p_order_id;
+
+  DELETE FROM order_items
+  WHERE order_id = p_order_id
+  AND id NOT IN (
+    SELECT (item->>'id')::uuid
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'id' IS NOT NULL
+  );
+
+  UPDATE order_items
+  SET quantity = (item->>'quantity')::integer,
+      notes = NULLIF(btrim(item->>'notes'), '')
+  FROM jsonb_array_elements(p_items) AS item
+  WHERE item->>'id' IS NOT NULL
+  AND order_items.id = (item->>'id')::uuid
+  AND order_items.order_id = p_order_id;
+
+  INSERT INTO order_items (order_id, menu_id, quantity, price_at_purchase, modifiers, notes)
+  SELECT
+    p_order_id,
+    (item->>'menu_id')::uuid,
+    (item->>'quantity')::integer,
+    0,
+    COALESCE(item->'option_ids', '[]'::jsonb),
+    NULLIF(btrim(item->>'notes'), '')
+  FROM jsonb_array_elements(p_items) AS item
+  WHERE item->>'id' IS NULL;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.requeue_added_order_item_units()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.quantity > OLD.quantity AND OLD.status <> 'queued' THEN
+    PERFORM set_config('app.requeue_order_item', OLD.id::text, true);
+
+    INSERT INTO order_items (order_id, menu_id, quantity, price_at_purchase, notes)
+    VALUES (OLD.order_id, OLD.menu_id, NEW.quantity - OLD.quantity, 0, NEW.notes);
+
+    PERFORM set_config('app.requeue_order_item', '', true);
+
+    NEW.quantity := OLD.quantity;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,147 @@
+/*
+  # Menu item availability
+
+  1. Changes
+    - `menu`
+      - Add `availability` (text) - 'available', 'sold_out' or 'hidden'
+      - Add `sold_out_until` (timestamptz, nullable) - when a sold out item
+        becomes orderable again; NULL means until it is switched back
+
+  2. New Functions
+    - `menu_item_is_available(p_menu menu)`
+      - True when the item is available, or sold out with a time that has passed
+    - `set_menu_availability(p_menu_id, p_availability, p_sold_out_until)`
+      - Callable by active kitchen staff and cashiers
+
+  3. Changes to Functions
+    - `set_order_item_price()` rejects new order items for unavailable menu
+      items; items already on an order are left untouched
+
+  4. Realtime
+    - Add `menu` to the `supabase_realtime` publication so order forms see
+      availability changes as they happen
+
+  5. Security
+    - `set_menu_availability` is SECURITY DEFINER, since the kitchen has no
+      UPDATE policy on `menu`
+*/
+
+ALTER TABLE menu
+  ADD COLUMN IF NOT EXISTS availability text NOT NULL DEFAULT 'available'
+    CHECK (availability IN ('available', 'sold_out', 'hidden')),
+  ADD COLUMN IF NOT EXISTS sold_out_until timestamptz;
+
+CREATE OR REPLACE FUNCTION public.menu_item_is_available(p_menu menu)
+RETURNS boolean AS $$
+  SELECT p_menu.availability = 'available'
+    OR (p_menu.availability = 'sold_out' AND p_menu.sold_out_until IS NOT NULL AND p_menu.sold_out_until <= now());
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.set_menu_availability(
+  p_menu_id uuid,
+  p_availability text,
+  p_sold_out_until timestamptz DEFAULT NULL
+)
+RETURNS menu AS $$
+DECLARE
+  v_menu menu;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('kitchen', 'cashier')
+    AND profiles.active IS NOT FALSE
+  ) THEN
+    RAISE EXCEPTION 'Only kitchen staff and cashiers can change item availability';
+  END IF;
+
+  IF p_availability = 'sold_out' AND p_sold_out_until IS NOT NULL AND p_sold_out_until <= now() THEN
+    RAISE EXCEPTION 'The sold out time must be in the future';
+  END IF;
+
+  UPDATE menu
+  SET availability = p_availability,
+      sold_out_until = CASE WHEN p_availability = 'sold_out' THEN p_sold_out_until END,
+      updated_at = now()
+  WHERE id = p_menu_id
+  RETURNING * INTO v_menu;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Menu item not found';
+  END IF;
+
+  RETURN v_menu;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.set_order_item_price()
+RETURNS trigger AS $$
+DECLARE
+  v_menu menu;
+  v_option_ids uuid[];
+  v_source_id uuid;
+BEGIN
+  v_source_id := NULLIF(current_setting('app.requeue_order_item', true), '')::uuid;
+
+  -- Units added to a started item are more of the same line, so they keep its price and options
+  IF TG_OP = 'INSERT' AND v_source_id IS NOT NULL THEN
+    SELECT price_at_purchase, station_id, modifiers
+    INTO NEW.price_at_purchase, NEW.station_id, NEW.modifiers
+    FROM order_items WHERE id = v_source_id;
+
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT * INTO v_menu FROM menu WHERE id = NEW.menu_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not exist', NEW.menu_id;
+    END IF;
+
+    IF NOT public.menu_item_is_available(v_menu) THEN
+      RAISE EXCEPTION '% is not available right now', v_menu.name;
+    END IF;
+
+    NEW.price_at_purchase := v_menu.price;
+    NEW.station_id := v_menu.station_id;
+
+    SELECT ARRAY(SELECT jsonb_array_elements_text(COALESCE(NEW.modifiers, '[]'::jsonb))::uuid)
+    INTO v_option_ids;
+
+    NEW.modifiers := public.build_order_item_modifiers(NEW.menu_id, v_option_ids);
+    NEW.price_at_purchase := NEW.price_at_purchase + COALESCE((
+      SELECT SUM((modifier->>'price_delta')::numeric)
+      FROM jsonb_array_elements(NEW.modifiers) AS modifier
+    ), 0);
+
+    IF NEW.price_at_purchase <= 0 THEN
+      RAISE EXCEPTION 'The chosen options make the price of this item zero or less';
+    END IF;
+  ELSE
+    NEW.menu_id := OLD.menu_id;
+    NEW.price_at_purchase := OLD.price_at_purchase;
+    -- Only cleared when its station is deleted (ON DELETE SET NULL)
+    IF NEW.station_id IS NOT NULL
+      OR EXISTS (SELECT 1 FROM stations WHERE id = OLD.station_id)
+    THEN
+      NEW.station_id := OLD.station_id;
+    END IF;
+    NEW.modifiers := OLD.modifiers;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'menu'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.menu;
+  END IF;
+END $$;
@@ -0,0 +1,347 @@
+/*
+  # Inventory and recipes
+
+  1. New Tables
+    - `ingredients`
+      - `id` (uuid, primary key)
+      - `name` (text, unique)
+      - `unit` (text) - e.g. 'kg', 'l', 'pcs'
+      - `stock_on_hand` (numeric) - only changed through stock movements
+      - `low_stock_threshold` (numeric) - at or below this the ingredient is low
+      - `created_at` (timestamptz)
+      - `created_by` (uuid, references profiles)
+    - `recipe_items`
+      - `id` (uuid, primary key)
+      - `menu_id` (uuid, references menu)
+      - `ingredient_id` (uuid, references ingredients)
+      - `quantity` (numeric) - used per single menu item, in the ingredient's unit
+    - `stock_movements`
+      - `id` (uuid, primary key)
+      - `ingredient_id` (uuid, references ingredients)
+      - `quantity_change` (numeric) - negative when stock is used
+      - `kind` (text) - 'order' or 'adjustment'
+      - `order_id` (uuid, nullable) - the order that used the stock
+      - `note` (text, nullable) - reason given for a manual adjustment
+      - `created_at` (timestamptz)
+      - `created_by` (uuid, references profiles)
+
+  2. New Functions
+    - `deduct_order_stock(p_order_id)`
+      - Records an 'order' movement per ingredient used by the order's items;
+        does nothing if the order's stock was already deducted
+    - `adjust_ingredient_stock(p_ingredient_id, p_quantity_change, p_note)`
+      - Manual correction, e.g. after a delivery, a stock count or waste
+    - `check_order_item_stock()` trigger function
+      - Refuses new order items that cannot be made even once from the stock
+        on hand, the same rule the order forms use to grey items out
+
+  3. Changes to Functions
+    - `approve_payment` deducts the order's stock when it confirms the order
+
+  4. Important Notes
+    - Modifiers do not change recipes; only the base item's recipe is used
+    - Stock may go below zero, so counts show what was actually sold
+    - `ingredients` and `recipe_items` are added to the `supabase_realtime`
+      publication so open order forms see stock run out
+
+  5. Security
+    - Enable RLS on all three tables
+    - All authenticated users can view ingredients and recipes, so order
+      forms can flag items that are out of stock
+    - Only cashiers can manage ingredients and recipes and view movements
+    - Stock is only changed through the SECURITY DEFINER functions
+*/
+
+CREATE TABLE IF NOT EXISTS ingredients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  unit text NOT NULL DEFAULT 'pcs',
+  stock_on_hand numeric NOT NULL DEFAULT 0,
+  low_stock_threshold numeric NOT NULL DEFAULT 0 CHECK (low_stock_threshold >= 0),
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id)
+);
+
+CREATE TABLE IF NOT EXISTS recipe_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_id uuid NOT NULL REFERENCES menu(id) ON DELETE CASCADE,
+  ingredient_id uuid NOT NULL REFERENCES ingredients(id) ON DELETE CASCADE,
+  quantity numeric NOT NULL CHECK (quantity > 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (menu_id, ingredient_id)
+);
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ingredient_id uuid NOT NULL REFERENCES ingredients(id) ON DELETE CASCADE,
+  quantity_change numeric NOT NULL CHECK (quantity_change <> 0),
+  kind text NOT NULL CHECK (kind IN ('order', 'adjustment')),
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  note text,
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id)
+);
+
+CREATE INDEX IF NOT EXISTS recipe_items_menu_id_idx ON recipe_items(menu_id);
+CREATE INDEX IF NOT EXISTS stock_movements_ingredient_id_idx ON stock_movements(ingredient_id);
+CREATE INDEX IF NOT EXISTS stock_movements_order_id_idx ON stock_movements(order_id);
+
+ALTER TABLE ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipe_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Ingredients are viewable by all authenticated users"
+  ON ingredients FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only cashiers can create ingredients"
+  ON ingredients FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    stock_on_hand = 0
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Only cashiers can update ingredients"
+  ON ingredients FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Only cashiers can delete ingredients"
+  ON ingredients FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Recipes are viewable by all authenticated users"
+  ON recipe_items FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only cashiers can manage recipes"
+  ON recipe_items FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Only cashiers can view stock movements"
+  ON stock_movements FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+-- Stock on hand may only be changed by the functions below, which also
+-- record the movement
+CREATE OR REPLACE FUNCTION public.protect_ingredient_stock()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.stock_on_hand IS DISTINCT FROM OLD.stock_on_hand
+    AND current_setting('app.stock_movement', true) IS DISTINCT FROM 'on'
+  THEN
+    RAISE EXCEPTION 'Stock can only be changed through a stock adjustment';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS ingredients_protect_stock ON ingredients;
+
+CREATE TRIGGER ingredients_protect_stock
+  BEFORE UPDATE ON ingredients
+  FOR EACH ROW EXECUTE FUNCTION public.protect_ingredient_stock();
+
+CREATE OR REPLACE FUNCTION public.apply_stock_movement(
+  p_ingredient_id uuid,
+  p_quantity_change numeric,
+  p_kind text,
+  p_order_id uuid,
+  p_note text
+)
+RETURNS ingredients AS $$
+DECLARE
+  v_ingredient ingredients;
+BEGIN
+  INSERT INTO stock_movements (ingredient_id, quantity_change, kind, order_id, note, created_by)
+  VALUES (p_ingredient_id, p_quantity_change, p_kind, p_order_id, p_note, auth.uid());
+
+  PERFORM set_config('app.stock_movement', 'on', true);
+
+  UPDATE ingredients
+  SET stock_on_hand = stock_on_hand + p_quantity_change
+  WHERE id = p_ingredient_id
+  RETURNING * INTO v_ingredient;
+
+  PERFORM set_config('app.stock_movement', 'off', true);
+
+  RETURN v_ingredient;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_stock_movement(uuid, numeric, text, uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.deduct_order_stock(p_order_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_usage record;
+BEGIN
+  IF EXISTS (SELECT 1 FROM stock_movements WHERE order_id = p_order_id AND kind = 'order') THEN
+    RETURN;
+  END IF;
+
+  FOR v_usage IN
+    SELECT recipe_items.ingredient_id, SUM(recipe_items.quantity * order_items.quantity) AS used
+    FROM order_items
+    JOIN recipe_items ON recipe_items.menu_id = order_items.menu_id
+    WHERE order_items.order_id = p_order_id
+    GROUP BY recipe_items.ingredient_id
+  LOOP
+    PERFORM public.apply_stock_movement(v_usage.ingredient_id, -v_usage.used, 'order', p_order_id, NULL);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.deduct_order_stock(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.adjust_ingredient_stock(
+  p_ingredient_id uuid,
+  p_quantity_change numeric,
+  p_note text
+)
+RETURNS ingredients AS $$
+DECLARE
+  v_ingredient ingredients;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'cashier'
+    AND profiles.active IS NOT FALSE
+  ) THEN
+    RAISE EXCEPTION 'Only cashiers can adjust stock';
+  END IF;
+
+  IF p_quantity_change IS NULL OR p_quantity_change = 0 THEN
+    RAISE EXCEPTION 'Please enter a quantity to add or remove';
+  END IF;
+
+  IF p_note IS NULL OR btrim(p_note) = '' THEN
+    RAISE EXCEPTION 'Please give a reason for the adjustment';
+  END IF;
+
+  PERFORM 1 FROM ingredients WHERE id = p_ingredient_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ingredient not found';
+  END IF;
+
+  v_ingredient := public.apply_stock_movement(p_ingredient_id, p_quantity_change, 'adjustment', NULL, btrim(p_note));
+
+  RETURN v_ingredient;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.approve_payment(p_payment_id uuid)
+RETURNS payments AS $$
+DECLARE
+  v_payment payments;
+BEGIN
+  v_payment := public.lock_pending_payment(p_payment_id);
+
+  UPDATE payments
+  SET status = 'approved',
+      confirmed_at = now(),
+      confirmed_by = auth.uid()
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  UPDATE orders SET status = 'confirmed' WHERE id = v_payment.order_id;
+
+  PERFORM public.deduct_order_stock(v_payment.order_id);
+
+  RETURN v_payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.check_order_item_stock()
+RETURNS trigger AS $$
+DECLARE
+  v_menu_name text;
+BEGIN
+  SELECT menu.name INTO v_menu_name
+  FROM menu
+  JOIN recipe_items ON recipe_items.menu_id = menu.id
+  JOIN ingredients ON ingredients.id = recipe_items.ingredient_id
+  WHERE menu.id = NEW.menu_id
+  AND ingredients.stock_on_hand < recipe_items.quantity
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION '% is out of stock', v_menu_name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS order_items_check_stock ON order_items;
+
+CREATE TRIGGER order_items_check_stock
+  BEFORE INSERT ON order_items
+  FOR EACH ROW EXECUTE FUNCTION public.check_order_item_stock();
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['ingredients', 'recipe_items'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END $$;
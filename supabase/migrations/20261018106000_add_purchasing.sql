@@ -0,0 +1,427 @@
+/*
+  # Suppliers, purchase orders and receiving
+
+  1. New Tables
+    - `suppliers`
+      - `id` (uuid, primary key)
+      - `name` (text, unique)
+      - `contact_name`, `phone`, `email` (text, nullable)
+      - `active` (boolean)
+      - `created_at` (timestamptz)
+      - `created_by` (uuid, references profiles)
+    - `purchase_orders`
+      - `id` (uuid, primary key)
+      - `supplier_id` (uuid, references suppliers)
+      - `status` (text) - 'draft', 'ordered', 'partially_received',
+        'received' or 'cancelled'
+      - `notes` (text, nullable)
+      - `ordered_at` (timestamptz, nullable) - set when the order is sent
+      - `created_at` (timestamptz)
+      - `created_by` (uuid, references profiles)
+    - `purchase_order_items`
+      - `id` (uuid, primary key)
+      - `purchase_order_id` (uuid, references purchase_orders)
+      - `ingredient_id` (uuid, references ingredients)
+      - `quantity_ordered` (numeric)
+      - `expected_unit_cost` (numeric) - price agreed when ordering
+      - `quantity_received` (numeric) - running total of all deliveries
+    - `purchase_receipt_lines`
+      - `id` (uuid, primary key)
+      - `purchase_order_item_id` (uuid, references purchase_order_items)
+      - `quantity` (numeric) - quantity delivered
+      - `unit_cost` (numeric) - cost actually charged per unit
+      - `received_at` (timestamptz)
+      - `received_by` (uuid, references profiles)
+
+  2. Changes to Existing Tables
+    - `stock_movements`
+      - `kind` also allows 'purchase'
+      - Add `purchase_order_id` (uuid, nullable)
+
+  3. New Functions
+    - `create_purchase_order(p_supplier_id, p_notes, p_items)`
+      - Creates a draft purchase order with its lines in one transaction
+    - `receive_purchase_order(p_purchase_order_id, p_lines)`
+      - Records a delivery of `[{ item_id, quantity, unit_cost }]`, adds the
+        quantities to stock and marks the order partially or fully received
+    - `supplier_spend(p_received_from, p_received_to, p_period, p_time_zone)`
+      - Received value per supplier per day, week or month, with periods
+        counted in the client's time zone
+    - `enforce_purchase_order_status()` trigger function
+      - Allows draft -> ordered or cancelled, ordered -> partially received,
+        received or cancelled, and partially received -> received; the
+        received statuses must match the quantities received
+      - Received and cancelled purchase orders cannot be changed, and only
+        drafts can be deleted
+
+  4. Important Notes
+    - Line items can only be changed while the purchase order is a draft,
+      and a purchase order never goes back to draft, so received lines and
+      their receipts stay as they were delivered
+    - Spend is based on what was received, at the cost charged on delivery
+
+  5. Security
+    - Enable RLS on all four tables; only cashiers can view or manage them
+    - Receiving goes through the SECURITY DEFINER function so the stock
+      movement is recorded with it
+*/
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  contact_name text,
+  phone text,
+  email text,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id)
+);
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id uuid NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'ordered', 'partially_received', 'received', 'cancelled')),
+  notes text,
+  ordered_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id)
+);
+
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id uuid NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  ingredient_id uuid NOT NULL REFERENCES ingredients(id) ON DELETE RESTRICT,
+  quantity_ordered numeric NOT NULL CHECK (quantity_ordered > 0),
+  expected_unit_cost numeric NOT NULL DEFAULT 0 CHECK (expected_unit_cost >= 0),
+  quantity_received numeric NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS purchase_receipt_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_item_id uuid NOT NULL REFERENCES purchase_order_items(id) ON DELETE CASCADE,
+  quantity numeric NOT NULL CHECK (quantity > 0),
+  unit_cost numeric NOT NULL CHECK (unit_cost >= 0),
+  received_at timestamptz DEFAULT now(),
+  received_by uuid REFERENCES profiles(id)
+);
+
+CREATE INDEX IF NOT EXISTS purchase_orders_supplier_id_idx ON purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS purchase_order_items_purchase_order_id_idx ON purchase_order_items(purchase_order_id);
+CREATE INDEX IF NOT EXISTS purchase_receipt_lines_item_id_idx ON purchase_receipt_lines(purchase_order_item_id);
+CREATE INDEX IF NOT EXISTS purchase_receipt_lines_received_at_idx ON purchase_receipt_lines(received_at);
+
+ALTER TABLE stock_movements DROP CONSTRAINT IF EXISTS stock_movements_kind_check;
+ALTER TABLE stock_movements ADD CONSTRAINT stock_movements_kind_check
+  CHECK (kind IN ('order', 'adjustment', 'purchase'));
+ALTER TABLE stock_movements
+  ADD COLUMN IF NOT EXISTS purchase_order_id uuid REFERENCES purchase_orders(id) ON DELETE SET NULL;
+
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_receipt_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only cashiers can manage suppliers"
+  ON suppliers FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Only cashiers can manage purchase orders"
+  ON purchase_orders FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Cashiers can view purchase order items"
+  ON purchase_order_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Cashiers can manage items of draft purchase orders"
+  ON purchase_order_items FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+    AND EXISTS (
+      SELECT 1 FROM purchase_orders
+      WHERE purchase_orders.id = purchase_order_items.purchase_order_id
+      AND purchase_orders.status = 'draft'
+    )
+  )
+  WITH CHECK (
+    quantity_received = 0
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+    AND EXISTS (
+      SELECT 1 FROM purchase_orders
+      WHERE purchase_orders.id = purchase_order_items.purchase_order_id
+      AND purchase_orders.status = 'draft'
+    )
+  );
+
+CREATE POLICY "Cashiers can view purchase receipts"
+  ON purchase_receipt_lines FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.enforce_purchase_order_status()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status <> 'draft' THEN
+      RAISE EXCEPTION 'Only draft purchase orders can be deleted';
+    END IF;
+
+    RETURN OLD;
+  END IF;
+
+  IF OLD.status IN ('received', 'cancelled') THEN
+    RAISE EXCEPTION 'A % purchase order cannot be changed', OLD.status;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    (OLD.status = 'draft' AND NEW.status IN ('ordered', 'cancelled'))
+    OR (OLD.status = 'ordered' AND NEW.status IN ('partially_received', 'received', 'cancelled'))
+    OR (OLD.status = 'partially_received' AND NEW.status = 'received')
+  ) THEN
+    RAISE EXCEPTION 'A purchase order cannot go from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'partially_received' AND NOT EXISTS (
+    SELECT 1 FROM purchase_order_items
+    WHERE purchase_order_id = NEW.id
+    AND quantity_received > 0
+  ) THEN
+    RAISE EXCEPTION 'Nothing has been received on this purchase order yet';
+  END IF;
+
+  IF NEW.status = 'received' AND EXISTS (
+    SELECT 1 FROM purchase_order_items
+    WHERE purchase_order_id = NEW.id
+    AND quantity_received < quantity_ordered
+  ) THEN
+    RAISE EXCEPTION 'Not everything on this purchase order has been received';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS purchase_orders_enforce_status ON purchase_orders;
+
+CREATE TRIGGER purchase_orders_enforce_status
+  BEFORE UPDATE OR DELETE ON purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_purchase_order_status();
+
+CREATE OR REPLACE FUNCTION public.apply_stock_movement(
+  p_ingredient_id uuid,
+  p_quantity_change numeric,
+  p_kind text,
+  p_order_id uuid,
+  p_note text,
+  p_purchase_order_id uuid DEFAULT NULL
+)
+RETURNS ingredients AS $$
+DECLARE
+  v_ingredient ingredients;
+BEGIN
+  INSERT INTO stock_movements (ingredient_id, quantity_change, kind, order_id, purchase_order_id, note, created_by)
+  VALUES (p_ingredient_id, p_quantity_change, p_kind, p_order_id, p_purchase_order_id, p_note, auth.uid());
+
+  PERFORM set_config('app.stock_movement', 'on', true);
+
+  UPDATE ingredients
+  SET stock_on_hand = stock_on_hand + p_quantity_change
+  WHERE id = p_ingredient_id
+  RETURNING * INTO v_ingredient;
+
+  PERFORM set_config('app.stock_movement', 'off', true);
+
+  RETURN v_ingredient;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS public.apply_stock_movement(uuid, numeric, text, uuid, text);
+
+REVOKE EXECUTE ON FUNCTION public.apply_stock_movement(uuid, numeric, text, uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_purchase_order(
+  p_supplier_id uuid,
+  p_notes text,
+  p_items jsonb
+)
+RETURNS purchase_orders AS $$
+DECLARE
+  v_order purchase_orders;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Please add at least one item to the purchase order';
+  END IF;
+
+  INSERT INTO purchase_orders (supplier_id, notes, created_by)
+  VALUES (p_supplier_id, NULLIF(btrim(p_notes), ''), auth.uid())
+  RETURNING * INTO v_order;
+
+  INSERT INTO purchase_order_items (purchase_order_id, ingredient_id, quantity_ordered, expected_unit_cost)
+  SELECT
+    v_order.id,
+    (item->>'ingredient_id')::uuid,
+    (item->>'quantity')::numeric,
+    COALESCE((item->>'unit_cost')::numeric, 0)
+  FROM jsonb_array_elements(p_items) AS item;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(p_purchase_order_id uuid, p_lines jsonb)
+RETURNS purchase_orders AS $$
+DECLARE
+  v_order purchase_orders;
+  v_line jsonb;
+  v_item purchase_order_items;
+  v_quantity numeric;
+  v_unit_cost numeric;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'cashier'
+    AND profiles.active IS NOT FALSE
+  ) THEN
+    RAISE EXCEPTION 'Only cashiers can receive deliveries';
+  END IF;
+
+  SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF v_order.status NOT IN ('ordered', 'partially_received') THEN
+    RAISE EXCEPTION 'Only sent purchase orders can be received';
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'Please enter at least one quantity received';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    v_quantity := (v_line->>'quantity')::numeric;
+    v_unit_cost := (v_line->>'unit_cost')::numeric;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantities received must be positive';
+    END IF;
+
+    IF v_unit_cost IS NULL OR v_unit_cost < 0 THEN
+      RAISE EXCEPTION 'Unit costs must be zero or more';
+    END IF;
+
+    UPDATE purchase_order_items
+    SET quantity_received = quantity_received + v_quantity
+    WHERE id = (v_line->>'item_id')::uuid
+    AND purchase_order_id = p_purchase_order_id
+    RETURNING * INTO v_item;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item is not part of this purchase order';
+    END IF;
+
+    INSERT INTO purchase_receipt_lines (purchase_order_item_id, quantity, unit_cost, received_by)
+    VALUES (v_item.id, v_quantity, v_unit_cost, auth.uid());
+
+    PERFORM public.apply_stock_movement(v_item.ingredient_id, v_quantity, 'purchase', NULL, NULL, p_purchase_order_id);
+  END LOOP;
+
+  UPDATE purchase_orders
+  SET status = CASE
+    WHEN EXISTS (
+      SELECT 1 FROM purchase_order_items
+      WHERE purchase_order_id = p_purchase_order_id
+      AND quantity_received < quantity_ordered
+    ) THEN 'partially_received'
+    ELSE 'received'
+  END
+  WHERE id = p_purchase_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.supplier_spend(
+  p_received_from timestamptz DEFAULT NULL,
+  p_received_to timestamptz DEFAULT NULL,
+  p_period text DEFAULT 'month',
+  p_time_zone text DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  period_start date,
+  supplier_id uuid,
+  supplier_name text,
+  delivery_count bigint,
+  total_spend numeric
+) AS $$
+  SELECT
+    date_trunc(p_period, purchase_receipt_lines.received_at AT TIME ZONE p_time_zone)::date,
+    suppliers.id,
+    suppliers.name,
+    COUNT(DISTINCT (purchase_orders.id, purchase_receipt_lines.received_at)),
+    SUM(purchase_receipt_lines.quantity * purchase_receipt_lines.unit_cost)
+  FROM purchase_receipt_lines
+  JOIN purchase_order_items ON purchase_order_items.id = purchase_receipt_lines.purchase_order_item_id
+  JOIN purchase_orders ON purchase_orders.id = purchase_order_items.purchase_order_id
+  JOIN suppliers ON suppliers.id = purchase_orders.supplier_id
+  WHERE p_period IN ('day', 'week', 'month')
+  AND (p_received_from IS NULL OR purchase_receipt_lines.received_at >= p_received_from)
+  AND (p_received_to IS NULL OR purchase_receipt_lines.received_at < p_received_to)
+  GROUP BY 1, suppliers.id, suppliers.name
+  ORDER BY 1 DESC, 5 DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,105 @@
+/*
+  # Food cost and gross profit
+
+  1. Changes
+    - `ingredients`
+      - Add `unit_cost` (numeric) - cost per unit; updated to the cost charged
+        on each delivery and editable by cashiers
+    - `menu`
+      - Add `cost` (numeric, nullable) - cost entered by hand; when NULL the
+        cost is derived from the item's recipe
+
+  2. New Functions
+    - `menu_item_costs()`
+      - Recipe cost and effective cost of every menu item
+    - `gross_profit_by_item(p_submitted_from, p_submitted_to)`
+      - Quantity sold, revenue, cost and gross profit per menu item for orders
+        with an approved payment submitted in the date range
+
+  3. New Triggers
+    - `purchase_receipt_lines_set_ingredient_cost` copies the delivered unit
+      cost onto the ingredient
+
+  4. Important Notes
+    - Costs are theoretical: the report uses today's cost of each item, not
+      the cost at the time it was sold
+    - Modifiers are priced but have no recipe, so they add revenue but no cost
+    - Items without a manual cost or a recipe have a NULL cost and are left
+      out of the profit totals
+*/
+
+ALTER TABLE ingredients ADD COLUMN IF NOT EXISTS unit_cost numeric NOT NULL DEFAULT 0 CHECK (unit_cost >= 0);
+ALTER TABLE menu ADD COLUMN IF NOT EXISTS cost numeric CHECK (cost >= 0);
+
+CREATE OR REPLACE FUNCTION public.set_ingredient_cost_from_receipt()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE ingredients
+  SET unit_cost = NEW.unit_cost
+  WHERE id = (SELECT ingredient_id FROM purchase_order_items WHERE id = NEW.purchase_order_item_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS purchase_receipt_lines_set_ingredient_cost ON purchase_receipt_lines;
+
+CREATE TRIGGER purchase_receipt_lines_set_ingredient_cost
+  AFTER INSERT ON purchase_receipt_lines
+  FOR EACH ROW EXECUTE FUNCTION public.set_ingredient_cost_from_receipt();
+
+CREATE OR REPLACE FUNCTION public.menu_item_costs()
+RETURNS TABLE (
+  menu_id uuid,
+  recipe_cost numeric,
+  cost numeric
+) AS $$
+  SELECT
+    menu.id,
+    recipes.recipe_cost,
+    COALESCE(menu.cost, recipes.recipe_cost)
+  FROM menu
+  LEFT JOIN (
+    SELECT recipe_items.menu_id, SUM(recipe_items.quantity * ingredients.unit_cost) AS recipe_cost
+    FROM recipe_items
+    JOIN ingredients ON ingredients.id = recipe_items.ingredient_id
+    GROUP BY recipe_items.menu_id
+  ) AS recipes ON recipes.menu_id = menu.id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.gross_profit_by_item(
+  p_submitted_from timestamptz DEFAULT NULL,
+  p_submitted_to timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  menu_id uuid,
+  menu_name text,
+  category_id uuid,
+  category_name text,
+  quantity_sold bigint,
+  revenue numeric,
+  unit_cost numeric,
+  total_cost numeric,
+  gross_profit numeric
+) AS $$
+  SELECT
+    menu.id,
+    menu.name,
+    menu_categories.id,
+    menu_categories.name,
+    SUM(order_items.quantity),
+    SUM(order_items.quantity * order_items.price_at_purchase),
+    costs.cost,
+    SUM(order_items.quantity) * costs.cost,
+    SUM(order_items.quantity * order_items.price_at_purchase) - SUM(order_items.quantity) * costs.cost
+  FROM order_items
+  JOIN menu ON menu.id = order_items.menu_id
+  LEFT JOIN menu_categories ON menu_categories.id = menu.category_id
+  LEFT JOIN public.menu_item_costs() AS costs ON costs.menu_id = menu.id
+  WHERE order_items.order_id IN (
+    SELECT p.order_id
+    FROM public.search_payments(p_submitted_from, p_submitted_to, 'approved', NULL, NULL, NULL, NULL) AS p
+  )
+  GROUP BY menu.id, menu.name, menu_categories.id, menu_categories.name, menu_categories.display_order, costs.cost
+  ORDER BY menu_categories.display_order NULLS LAST, menu_categories.name, menu.name;
+$$ LANGUAGE sql STABLE SET search_path = public;
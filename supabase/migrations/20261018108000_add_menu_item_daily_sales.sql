@@ -0,0 +1,40 @@
+/*
+  # Daily sales per menu item
+
+  1. New Functions
+    - `menu_item_daily_sales(p_menu_id, p_submitted_from, p_submitted_to, p_time_zone)`
+      - Quantity sold and revenue of one menu item per day, for orders with an
+        approved payment submitted in the range
+      - Days are counted in `p_time_zone`, the client's time zone
+
+  2. Important Notes
+    - An order counts on the day its first approved payment was submitted, the
+      same date the other sales reports filter on
+    - Days without sales are not returned
+*/
+
+CREATE OR REPLACE FUNCTION public.menu_item_daily_sales(
+  p_menu_id uuid,
+  p_submitted_from timestamptz DEFAULT NULL,
+  p_submitted_to timestamptz DEFAULT NULL,
+  p_time_zone text DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  sale_date date,
+  quantity_sold bigint,
+  revenue numeric
+) AS $$
+  SELECT
+    paid.sale_date,
+    SUM(order_items.quantity),
+    SUM(order_items.quantity * order_items.price_at_purchase)
+  FROM order_items
+  JOIN (
+    SELECT p.order_id, (MIN(p.submitted_at) AT TIME ZONE p_time_zone)::date AS sale_date
+    FROM public.search_payments(p_submitted_from, p_submitted_to, 'approved', NULL, NULL, NULL, NULL) AS p
+    GROUP BY p.order_id
+  ) AS paid ON paid.order_id = order_items.order_id
+  WHERE order_items.menu_id = p_menu_id
+  GROUP BY paid.sale_date
+  ORDER BY paid.sale_date;
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,233 @@
+/*
+  # Floor plan and tables
+
+  1. New Tables
+    - `restaurant_tables`
+      - `id` (uuid, primary key)
+      - `name` (text) - unique regardless of case, e.g. 'A1'
+      - `section` (text) - e.g. 'Main', 'Terrace'
+      - `seats` (integer)
+      - `shape` (text) - 'square', 'round' or 'rectangle'
+      - `position_x`, `position_y` (numeric) - centre of the table on the
+        floor plan, as a percentage of its width and height
+      - `active` (boolean) - inactive tables cannot take new orders
+      - `floor_status` (text) - 'free', 'occupied' or 'awaiting_payment';
+        maintained from the table's open orders
+      - `created_at` (timestamptz)
+      - `created_by` (uuid, references profiles)
+
+  2. Changes
+    - `orders`
+      - Add `table_id` (uuid, references restaurant_tables) - `table_number`
+        is kept as a copy of the table name at the time of the order
+
+  3. Data Migration
+    - One table is created for every distinct table number already used,
+      ignoring case, spaces and punctuation, so 'A1', 'a1' and 'A-1' become
+      the same table; open orders are linked to it
+    - Closed orders are left as they are, without a table and with the table
+      number they were taken with
+
+  4. Changes to Functions
+    - `create_order_with_items(p_table_id, p_items, p_notes)` takes a table
+      instead of free text; the text version is dropped
+
+  5. New Triggers
+    - `orders_refresh_floor_status` recomputes the floor status of the
+      tables an order is moved from and to
+
+  6. Realtime
+    - Add `restaurant_tables` to the `supabase_realtime` publication; since
+      every signed-in user can read tables, waiters see the floor status of
+      tables served by others
+
+  7. Security
+    - Enable RLS on `restaurant_tables`
+    - All authenticated users can view tables; only cashiers can manage them
+*/
+
+CREATE TABLE IF NOT EXISTS restaurant_tables (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  section text NOT NULL DEFAULT 'Main',
+  seats integer NOT NULL DEFAULT 4 CHECK (seats > 0),
+  shape text NOT NULL DEFAULT 'square' CHECK (shape IN ('square', 'round', 'rectangle')),
+  position_x numeric NOT NULL DEFAULT 50 CHECK (position_x BETWEEN 0 AND 100),
+  position_y numeric NOT NULL DEFAULT 50 CHECK (position_y BETWEEN 0 AND 100),
+  active boolean NOT NULL DEFAULT true,
+  floor_status text NOT NULL DEFAULT 'free' CHECK (floor_status IN ('free', 'occupied', 'awaiting_payment')),
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS restaurant_tables_name_key ON restaurant_tables (lower(name));
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS table_id uuid REFERENCES restaurant_tables(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS orders_table_id_idx ON orders(table_id);
+
+ALTER TABLE restaurant_tables ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tables"
+  ON restaurant_tables FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Cashiers can insert tables"
+  ON restaurant_tables FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Cashiers can update tables"
+  ON restaurant_tables FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Cashiers can delete tables"
+  ON restaurant_tables FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+-- Laid out in rows of six so the cashier can drag them into place afterwards
+INSERT INTO restaurant_tables (name, position_x, position_y)
+SELECT
+  normalized.name,
+  10 + ((normalized.n - 1) % 6) * 16,
+  LEAST(90, 10 + ((normalized.n - 1) / 6) * 16)
+FROM (
+  SELECT name, row_number() OVER (ORDER BY name) AS n
+  FROM (
+    SELECT DISTINCT upper(regexp_replace(table_number, '[^[:alnum:]]', '', 'g')) AS name
+    FROM orders
+  ) AS names
+  WHERE name <> ''
+) AS normalized
+ON CONFLICT DO NOTHING;
+
+UPDATE orders
+SET table_id = restaurant_tables.id,
+    table_number = restaurant_tables.name
+FROM restaurant_tables
+WHERE orders.table_id IS NULL
+AND orders.status IN ('pending', 'paid')
+AND lower(restaurant_tables.name) = lower(regexp_replace(orders.table_number, '[^[:alnum:]]', '', 'g'));
+
+CREATE OR REPLACE FUNCTION public.refresh_table_floor_status(p_table_id uuid)
+RETURNS void AS $$
+  UPDATE restaurant_tables
+  SET floor_status = CASE
+    WHEN EXISTS (SELECT 1 FROM orders WHERE table_id = p_table_id AND status = 'pending') THEN 'occupied'
+    WHEN EXISTS (SELECT 1 FROM orders WHERE table_id = p_table_id AND status = 'paid') THEN 'awaiting_payment'
+    ELSE 'free'
+  END
+  WHERE id = p_table_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_table_floor_status(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.orders_refresh_floor_status()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.table_id IS NOT NULL THEN
+    PERFORM public.refresh_table_floor_status(OLD.table_id);
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.table_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.table_id IS DISTINCT FROM OLD.table_id OR NEW.status <> OLD.status) THEN
+    PERFORM public.refresh_table_floor_status(NEW.table_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS orders_refresh_floor_status ON orders;
+
+CREATE TRIGGER orders_refresh_floor_status
+  AFTER INSERT OR UPDATE OF status, table_id OR DELETE ON orders
+  FOR EACH ROW EXECUTE FUNCTION public.orders_refresh_floor_status();
+
+SELECT public.refresh_table_floor_status(id) FROM restaurant_tables;
+
+DROP FUNCTION IF EXISTS public.create_order_with_items(text, jsonb, text);
+
+CREATE OR REPLACE FUNCTION public.create_order_with_items(
+  p_table_id uuid,
+  p_items jsonb,
+  p_notes text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_table restaurant_tables;
+  v_order orders;
+BEGIN
+  SELECT * INTO v_table FROM restaurant_tables WHERE id = p_table_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Please choose a table';
+  END IF;
+
+  IF NOT v_table.active THEN
+    RAISE EXCEPTION 'Table % is not in use', v_table.name;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Please add at least one item to the order';
+  END IF;
+
+  INSERT INTO orders (waiter_id, table_id, table_number, total_amount, status, notes)
+  VALUES (auth.uid(), v_table.id, v_table.name, 0, 'pending', NULLIF(btrim(p_notes), ''))
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, menu_id, quantity, price_at_purchase, modifiers, notes)
+  SELECT
+    v_order.id,
+    (item->>'menu_id')::uuid,
+    (item->>'quantity')::integer,
+    0,
+    COALESCE(item->'option_ids', '[]'::jsonb),
+    NULLIF(btrim(item->>'notes'), '')
+  FROM jsonb_array_elements(p_items) AS item;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_order.id;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'restaurant_tables'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.restaurant_tables;
+  END IF;
+END $$;
@@ -0,0 +1,269 @@
+/*
+  # Move, merge and hand over orders
+
+  1. New Tables
+    - `order_transfers`
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, references orders) - the order that was moved,
+        handed over or merged into
+      - `kind` (text) - 'table', 'merge' or 'waiter'
+      - `from_table_number`, `to_table_number` (text) - for moves
+      - `from_waiter_id`, `to_waiter_id` (uuid, references profiles) - for
+        hand overs
+      - `merged_order_id` (uuid) - for merges, the order that was folded in;
+        not a foreign key since that order is deleted
+      - `performed_by` (uuid, references profiles)
+      - `performed_at` (timestamptz)
+
+  2. New Functions
+    - `move_order_to_table(p_order_id, p_table_id)`
+    - `merge_orders(p_target_order_id, p_source_order_id)` - moves the items
+      and notes of the source order onto the target and deletes the source
+    - `transfer_order_to_waiter(p_order_id, p_waiter_id)`
+    - `protect_order_columns()` trigger function
+      - Rejects changes to an order's table or waiter that do not come from
+        the functions above, which are the only ones to set
+        `app.order_update`; the table may still be cleared when it is
+        deleted (ON DELETE SET NULL)
+
+  3. Important Notes
+    - Confirmed orders cannot be changed; merging is limited to pending
+      orders without payments so no payment ends up on the wrong order
+    - Merged items keep the price, modifiers and kitchen status they were
+      ordered with
+    - The merged order keeps its own table and waiter, and takes over the
+      transfer records of the order folded into it
+
+  4. Security
+    - Enable RLS on `order_transfers`; cashiers see every record, waiters the
+      records of the orders they serve or handed over
+    - Records are only written by the functions above
+    - The functions are SECURITY DEFINER so a waiter can give an order away,
+      which the orders UPDATE policy does not allow; each checks that the
+      caller is the order's waiter or a cashier
+*/
+
+CREATE TABLE IF NOT EXISTS order_transfers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('table', 'merge', 'waiter')),
+  from_table_number text,
+  to_table_number text,
+  from_waiter_id uuid REFERENCES profiles(id),
+  to_waiter_id uuid REFERENCES profiles(id),
+  merged_order_id uuid,
+  performed_by uuid NOT NULL REFERENCES profiles(id),
+  performed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS order_transfers_order_id_idx ON order_transfers(order_id);
+
+ALTER TABLE order_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view order transfers"
+  ON order_transfers FOR SELECT
+  TO authenticated
+  USING (
+    from_waiter_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_transfers.order_id
+      AND orders.waiter_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.can_manage_order(p_order orders)
+RETURNS boolean AS $$
+  SELECT p_order.waiter_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+      AND profiles.active IS NOT FALSE
+    );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.protect_order_columns()
+RETURNS trigger AS $$
+BEGIN
+  IF current_setting('app.order_update', true) IS NOT DISTINCT FROM 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.table_id IS DISTINCT FROM OLD.table_id
+    AND (NEW.table_id IS NOT NULL OR EXISTS (SELECT 1 FROM restaurant_tables WHERE id = OLD.table_id))
+  THEN
+    RAISE EXCEPTION 'Orders can only be moved to another table with move_order_to_table';
+  END IF;
+
+  IF NEW.table_number IS DISTINCT FROM OLD.table_number THEN
+    RAISE EXCEPTION 'Orders can only be moved to another table with move_order_to_table';
+  END IF;
+
+  IF NEW.waiter_id IS DISTINCT FROM OLD.waiter_id THEN
+    RAISE EXCEPTION 'Orders can only be handed over with transfer_order_to_waiter';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS orders_protect_columns ON orders;
+
+CREATE TRIGGER orders_protect_columns
+  BEFORE UPDATE ON orders
+  FOR EACH ROW EXECUTE FUNCTION public.protect_order_columns();
+
+CREATE OR REPLACE FUNCTION public.move_order_to_table(
+  p_order_id uuid,
+  p_table_id uuid
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+  v_table restaurant_tables;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_manage_order(v_order) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status = 'confirmed' THEN
+    RAISE EXCEPTION 'Confirmed orders cannot be moved';
+  END IF;
+
+  SELECT * INTO v_table FROM restaurant_tables WHERE id = p_table_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Please choose a table';
+  END IF;
+
+  IF NOT v_table.active THEN
+    RAISE EXCEPTION 'Table % is not in use', v_table.name;
+  END IF;
+
+  IF v_order.table_id = v_table.id THEN
+    RAISE EXCEPTION 'The order is already at table %', v_table.name;
+  END IF;
+
+  INSERT INTO order_transfers (order_id, kind, from_table_number, to_table_number, performed_by)
+  VALUES (v_order.id, 'table', v_order.table_number, v_table.name, auth.uid());
+
+  PERFORM set_config('app.order_update', 'on', true);
+
+  UPDATE orders
+  SET table_id = v_table.id, table_number = v_table.name
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  PERFORM set_config('app.order_update', 'off', true);
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.merge_orders(
+  p_target_order_id uuid,
+  p_source_order_id uuid
+)
+RETURNS orders AS $$
+DECLARE
+  v_target orders;
+  v_source orders;
+BEGIN
+  IF p_target_order_id = p_source_order_id THEN
+    RAISE EXCEPTION 'An order cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO v_target FROM orders WHERE id = p_target_order_id FOR UPDATE;
+  IF NOT FOUND OR NOT public.can_manage_order(v_target) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  SELECT * INTO v_source FROM orders WHERE id = p_source_order_id FOR UPDATE;
+  IF NOT FOUND OR NOT public.can_manage_order(v_source) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_target.status <> 'pending' OR v_source.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending orders can be merged';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM payments WHERE order_id IN (v_target.id, v_source.id)) THEN
+    RAISE EXCEPTION 'Orders that already have payments cannot be merged';
+  END IF;
+
+  UPDATE order_items SET order_id = v_target.id WHERE order_id = v_source.id;
+  UPDATE order_transfers SET order_id = v_target.id WHERE order_id = v_source.id;
+
+  INSERT INTO order_transfers (
+    order_id, kind, from_table_number, to_table_number, from_waiter_id, to_waiter_id, merged_order_id, performed_by
+  )
+  VALUES (
+    v_target.id, 'merge', v_source.table_number, v_target.table_number,
+    v_source.waiter_id, v_target.waiter_id, v_source.id, auth.uid()
+  );
+
+  DELETE FROM orders WHERE id = v_source.id;
+
+  UPDATE orders
+  SET notes = NULLIF(left(concat_ws(' / ', v_target.notes, v_source.notes), 500), '')
+  WHERE id = v_target.id
+  RETURNING * INTO v_target;
+
+  RETURN v_target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.transfer_order_to_waiter(
+  p_order_id uuid,
+  p_waiter_id uuid
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_manage_order(v_order) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status = 'confirmed' THEN
+    RAISE EXCEPTION 'Confirmed orders cannot be handed over';
+  END IF;
+
+  IF v_order.waiter_id = p_waiter_id THEN
+    RAISE EXCEPTION 'The order already belongs to this waiter';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = p_waiter_id
+    AND profiles.role = 'waiter'
+    AND profiles.active IS NOT FALSE
+  ) THEN
+    RAISE EXCEPTION 'Orders can only be handed over to an active waiter';
+  END IF;
+
+  INSERT INTO order_transfers (order_id, kind, from_waiter_id, to_waiter_id, performed_by)
+  VALUES (v_order.id, 'waiter', v_order.waiter_id, p_waiter_id, auth.uid());
+
+  PERFORM set_config('app.order_update', 'on', true);
+
+  UPDATE orders
+  SET waiter_id = p_waiter_id
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  PERFORM set_config('app.order_update', 'off', true);
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
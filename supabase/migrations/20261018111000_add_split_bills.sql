@@ -0,0 +1,400 @@
+/*
+  # Split bills
+
+  1. New Tables
+    - `order_splits` - the separate checks an order is paid with
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, references orders)
+      - `label` (text) - e.g. 'Seat 2' or 'Share 1 of 3'
+      - `amount` (numeric) - computed by `split_order`
+      - `position` (integer) - display order
+      - `created_at` (timestamptz)
+      - `created_by` (uuid, references profiles)
+    - `order_split_items` - which units of which items each check pays for
+      - `split_id` (uuid, references order_splits)
+      - `order_item_id` (uuid, references order_items)
+      - `quantity` (integer)
+
+  2. Changes
+    - `payments`
+      - Add `split_id` (uuid, nullable, references order_splits) - the check
+        the payment is for
+
+  3. New Functions
+    - `split_order(p_order_id, p_mode, p_splits)`
+      - 'items' mode: every unit of every item must be on exactly one check;
+        used for splitting by item and by seat. Each check pays its items'
+        share of the order total, so anything that makes the total differ
+        from the item prices is shared the same way; the last check takes
+        the rounding difference
+      - 'equal' mode: the total is shared evenly, the last check takes the
+        rounding difference
+      - An empty `p_splits` removes the split
+    - `refresh_order_payment_status(p_order_id)`
+      - The single place the order status follows its payments: confirmed
+        once every check (or the whole order) has an approved payment, paid
+        once every check has a pending or approved payment, pending otherwise;
+        stock is used up when the order is confirmed
+
+  4. Changes to Functions
+    - `approve_payment` and `decline_payment` update the order through
+      `refresh_order_payment_status`, so approving one check no longer
+      confirms the whole order
+
+  5. New Triggers
+    - `payments_check_split` sets the payment amount from its check (or the
+      order total) and rejects a second payment for something already paid
+    - `payments_refresh_order_status` replaces the client marking the order
+      as paid
+    - `order_items_clear_splits` removes the split when the items change,
+      and refuses the change once a check has been paid
+
+  6. Security
+    - Enable RLS on both tables; they can be viewed by whoever can view the
+      order and are only written through `split_order`
+*/
+
+CREATE TABLE IF NOT EXISTS order_splits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  label text NOT NULL,
+  amount numeric NOT NULL CHECK (amount > 0),
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id)
+);
+
+CREATE TABLE IF NOT EXISTS order_split_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  split_id uuid NOT NULL REFERENCES order_splits(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  UNIQUE (split_id, order_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS order_splits_order_id_idx ON order_splits(order_id);
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS split_id uuid REFERENCES order_splits(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS payments_split_id_idx ON payments(split_id);
+
+ALTER TABLE order_splits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_split_items ENABLE ROW LEVEL SECURITY;
+
+-- The orders policies already limit waiters to their own orders
+CREATE POLICY "Staff can view order splits"
+  ON order_splits FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM orders WHERE orders.id = order_splits.order_id));
+
+CREATE POLICY "Staff can view order split items"
+  ON order_split_items FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM order_splits WHERE order_splits.id = order_split_items.split_id));
+
+CREATE OR REPLACE FUNCTION public.refresh_order_payment_status(p_order_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_order orders;
+  v_has_splits boolean;
+  v_approved boolean;
+  v_covered boolean;
+  v_status text;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR v_order.status = 'confirmed' THEN
+    RETURN;
+  END IF;
+
+  v_has_splits := EXISTS (SELECT 1 FROM order_splits WHERE order_id = p_order_id);
+
+  IF v_has_splits THEN
+    v_approved := NOT EXISTS (
+      SELECT 1 FROM order_splits
+      WHERE order_id = p_order_id
+      AND NOT EXISTS (SELECT 1 FROM payments WHERE split_id = order_splits.id AND status = 'approved')
+    );
+    v_covered := NOT EXISTS (
+      SELECT 1 FROM order_splits
+      WHERE order_id = p_order_id
+      AND NOT EXISTS (SELECT 1 FROM payments WHERE split_id = order_splits.id AND status IN ('pending', 'approved'))
+    );
+  ELSE
+    v_approved := EXISTS (SELECT 1 FROM payments WHERE order_id = p_order_id AND status = 'approved');
+    v_covered := EXISTS (SELECT 1 FROM payments WHERE order_id = p_order_id AND status IN ('pending', 'approved'));
+  END IF;
+
+  v_status := CASE WHEN v_approved THEN 'confirmed' WHEN v_covered THEN 'paid' ELSE 'pending' END;
+
+  IF v_status <> v_order.status THEN
+    UPDATE orders SET status = v_status WHERE id = p_order_id;
+  END IF;
+
+  IF v_status = 'confirmed' THEN
+    PERFORM public.deduct_order_stock(p_order_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_order_payment_status(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.check_split_payment()
+RETURNS trigger AS $$
+DECLARE
+  v_split order_splits;
+BEGIN
+  IF NEW.split_id IS NOT NULL THEN
+    SELECT * INTO v_split FROM order_splits WHERE id = NEW.split_id AND order_id = NEW.order_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This check does not belong to the order';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM payments WHERE split_id = NEW.split_id AND status IN ('pending', 'approved')) THEN
+      RAISE EXCEPTION '% has already been paid', v_split.label;
+    END IF;
+
+    NEW.amount := v_split.amount;
+  ELSE
+    IF EXISTS (SELECT 1 FROM order_splits WHERE order_id = NEW.order_id) THEN
+      RAISE EXCEPTION 'This bill is split; please pay each check separately';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM payments WHERE order_id = NEW.order_id AND status IN ('pending', 'approved')) THEN
+      RAISE EXCEPTION 'This order has already been paid';
+    END IF;
+
+    NEW.amount := (SELECT total_amount FROM orders WHERE id = NEW.order_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS payments_check_split ON payments;
+
+CREATE TRIGGER payments_check_split
+  BEFORE INSERT ON payments
+  FOR EACH ROW EXECUTE FUNCTION public.check_split_payment();
+
+CREATE OR REPLACE FUNCTION public.payments_refresh_order_status()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM public.refresh_order_payment_status(NEW.order_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS payments_refresh_order_status ON payments;
+
+CREATE TRIGGER payments_refresh_order_status
+  AFTER INSERT ON payments
+  FOR EACH ROW EXECUTE FUNCTION public.payments_refresh_order_status();
+
+CREATE OR REPLACE FUNCTION public.clear_order_splits(p_order_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM orders WHERE id = p_order_id) THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM payments
+    WHERE payments.split_id IN (SELECT id FROM order_splits WHERE order_id = p_order_id)
+    AND payments.status IN ('pending', 'approved')
+  ) THEN
+    RAISE EXCEPTION 'Part of this bill has already been paid, so it can no longer be changed';
+  END IF;
+
+  DELETE FROM order_splits WHERE order_id = p_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.clear_order_splits(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.order_items_clear_splits()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.clear_order_splits(OLD.order_id);
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.order_id <> OLD.order_id) THEN
+    PERFORM public.clear_order_splits(NEW.order_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS order_items_clear_splits ON order_items;
+
+CREATE TRIGGER order_items_clear_splits
+  AFTER INSERT OR UPDATE OF quantity, order_id OR DELETE ON order_items
+  FOR EACH ROW EXECUTE FUNCTION public.order_items_clear_splits();
+
+CREATE OR REPLACE FUNCTION public.split_order(
+  p_order_id uuid,
+  p_mode text,
+  p_splits jsonb
+)
+RETURNS SETOF order_splits AS $$
+DECLARE
+  v_order orders;
+  v_count integer;
+  v_share numeric;
+  v_split order_splits;
+  v_position integer := 0;
+  v_entry jsonb;
+  v_subtotal numeric;
+  v_allocated numeric := 0;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_manage_order(v_order) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending orders can be split';
+  END IF;
+
+  PERFORM public.clear_order_splits(p_order_id);
+
+  v_count := COALESCE(jsonb_array_length(p_splits), 0);
+  IF v_count = 0 THEN
+    RETURN;
+  END IF;
+
+  IF v_count < 2 THEN
+    RAISE EXCEPTION 'A split needs at least two checks';
+  END IF;
+
+  IF p_mode = 'equal' THEN
+    v_share := floor(v_order.total_amount * 100 / v_count) / 100;
+
+    IF v_share <= 0 THEN
+      RAISE EXCEPTION 'The total is too small to share between % checks', v_count;
+    END IF;
+
+    FOR v_entry IN SELECT * FROM jsonb_array_elements(p_splits) LOOP
+      v_position := v_position + 1;
+      INSERT INTO order_splits (order_id, label, amount, position, created_by)
+      VALUES (
+        p_order_id,
+        COALESCE(NULLIF(btrim(v_entry->>'label'), ''), 'Share ' || v_position),
+        CASE WHEN v_position = v_count THEN v_order.total_amount - v_share * (v_count - 1) ELSE v_share END,
+        v_position,
+        auth.uid()
+      );
+    END LOOP;
+  ELSIF p_mode = 'items' THEN
+    SELECT COALESCE(SUM(quantity * price_at_purchase), 0) INTO v_subtotal
+    FROM order_items
+    WHERE order_id = p_order_id;
+
+    IF v_subtotal <= 0 OR v_order.total_amount <= 0 THEN
+      RAISE EXCEPTION 'There is nothing to pay on this order';
+    END IF;
+
+    FOR v_entry IN SELECT * FROM jsonb_array_elements(p_splits) LOOP
+      v_position := v_position + 1;
+      INSERT INTO order_splits (order_id, label, amount, position, created_by)
+      VALUES (
+        p_order_id,
+        COALESCE(NULLIF(btrim(v_entry->>'label'), ''), 'Check ' || v_position),
+        CASE
+          WHEN v_position = v_count THEN v_order.total_amount - v_allocated
+          ELSE round(COALESCE((
+            SELECT SUM((item->>'quantity')::integer * order_items.price_at_purchase)
+            FROM jsonb_array_elements(v_entry->'items') AS item
+            JOIN order_items ON order_items.id = (item->>'order_item_id')::uuid AND order_items.order_id = p_order_id
+          ), 0) * v_order.total_amount / v_subtotal, 2)
+        END,
+        v_position,
+        auth.uid()
+      )
+      RETURNING * INTO v_split;
+
+      v_allocated := v_allocated + v_split.amount;
+
+      INSERT INTO order_split_items (split_id, order_item_id, quantity)
+      SELECT v_split.id, (item->>'order_item_id')::uuid, (item->>'quantity')::integer
+      FROM jsonb_array_elements(v_entry->'items') AS item;
+    END LOOP;
+
+    IF EXISTS (
+      SELECT 1
+      FROM order_items
+      LEFT JOIN (
+        SELECT order_split_items.order_item_id, SUM(order_split_items.quantity) AS quantity
+        FROM order_split_items
+        JOIN order_splits ON order_splits.id = order_split_items.split_id
+        WHERE order_splits.order_id = p_order_id
+        GROUP BY order_split_items.order_item_id
+      ) AS allocated ON allocated.order_item_id = order_items.id
+      WHERE order_items.order_id = p_order_id
+      AND COALESCE(allocated.quantity, 0) <> order_items.quantity
+    ) OR EXISTS (
+      SELECT 1
+      FROM order_split_items
+      JOIN order_splits ON order_splits.id = order_split_items.split_id
+      JOIN order_items ON order_items.id = order_split_items.order_item_id
+      WHERE order_splits.order_id = p_order_id
+      AND order_items.order_id <> p_order_id
+    ) THEN
+      RAISE EXCEPTION 'Every item must be on exactly one check';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown split mode %', p_mode;
+  END IF;
+
+  RETURN QUERY SELECT * FROM order_splits WHERE order_id = p_order_id ORDER BY position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.approve_payment(p_payment_id uuid)
+RETURNS payments AS $$
+DECLARE
+  v_payment payments;
+BEGIN
+  v_payment := public.lock_pending_payment(p_payment_id);
+
+  UPDATE payments
+  SET status = 'approved',
+      confirmed_at = now(),
+      confirmed_by = auth.uid()
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  PERFORM public.refresh_order_payment_status(v_payment.order_id);
+
+  RETURN v_payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.decline_payment(p_payment_id uuid, p_reason text)
+RETURNS payments AS $$
+DECLARE
+  v_payment payments;
+BEGIN
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'Please provide a reason for declining this payment';
+  END IF;
+
+  v_payment := public.lock_pending_payment(p_payment_id);
+
+  UPDATE payments
+  SET status = 'declined',
+      declined_at = now(),
+      declined_reason = btrim(p_reason),
+      confirmed_by = auth.uid()
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  PERFORM public.refresh_order_payment_status(v_payment.order_id);
+
+  RETURN v_payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,193 @@
+/*
+  # Multiple and partial payments per order
+
+  1. Changes to Functions
+    - `check_split_payment` is replaced by `check_payment_amount`
+      - The amount is now chosen by the waiter; left empty it defaults to
+        the outstanding balance of the order, or of the check when the bill
+        is split
+      - It is rejected when it is not positive or is more than the
+        outstanding balance
+    - `refresh_order_payment_status` compares amounts instead of counting
+      payments: the order is paid once pending and approved payments cover
+      the total (or every check), and confirmed once approved payments alone
+      do
+    - `clear_order_splits` refuses item changes once any part of the order
+      has been paid, split or not, so the total cannot drop below what has
+      been paid
+    - `protect_order_columns()` also rejects changes to an order's status
+      that do not come from `refresh_order_payment_status`, so an order
+      cannot be marked paid or confirmed without its payments
+
+  2. New Functions
+    - `order_outstanding_balance(p_order_id, p_split_id)` - what is still to
+      be paid on an order or check; declined payments do not count
+
+  3. Important Notes
+    - A check can now be paid in parts too, e.g. part cash, part transfer
+*/
+
+CREATE OR REPLACE FUNCTION public.order_outstanding_balance(p_order_id uuid, p_split_id uuid DEFAULT NULL)
+RETURNS numeric AS $$
+  SELECT GREATEST(
+    CASE
+      WHEN p_split_id IS NULL THEN (SELECT total_amount FROM orders WHERE id = p_order_id)
+      ELSE (SELECT amount FROM order_splits WHERE id = p_split_id)
+    END
+    - COALESCE((
+      SELECT SUM(amount) FROM payments
+      WHERE order_id = p_order_id
+      AND (p_split_id IS NULL OR split_id = p_split_id)
+      AND status IN ('pending', 'approved')
+    ), 0),
+    0
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+DROP TRIGGER IF EXISTS payments_check_split ON payments;
+DROP FUNCTION IF EXISTS public.check_split_payment();
+
+CREATE OR REPLACE FUNCTION public.check_payment_amount()
+RETURNS trigger AS $$
+DECLARE
+  v_outstanding numeric;
+BEGIN
+  IF NEW.split_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM order_splits WHERE id = NEW.split_id AND order_id = NEW.order_id) THEN
+      RAISE EXCEPTION 'This check does not belong to the order';
+    END IF;
+  ELSIF EXISTS (SELECT 1 FROM order_splits WHERE order_id = NEW.order_id) THEN
+    RAISE EXCEPTION 'This bill is split; please pay each check separately';
+  END IF;
+
+  -- Serialises payments on the same order so two cannot both take the last of the balance
+  PERFORM 1 FROM orders WHERE id = NEW.order_id FOR UPDATE;
+
+  v_outstanding := public.order_outstanding_balance(NEW.order_id, NEW.split_id);
+
+  IF v_outstanding <= 0 THEN
+    RAISE EXCEPTION 'This has already been paid in full';
+  END IF;
+
+  NEW.amount := round(COALESCE(NEW.amount, v_outstanding), 2);
+
+  IF NEW.amount <= 0 THEN
+    RAISE EXCEPTION 'The payment amount must be more than zero';
+  END IF;
+
+  IF NEW.amount > v_outstanding THEN
+    RAISE EXCEPTION 'The payment amount is more than the outstanding balance of $%', to_char(v_outstanding, 'FM999999990.00');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS payments_check_amount ON payments;
+
+CREATE TRIGGER payments_check_amount
+  BEFORE INSERT ON payments
+  FOR EACH ROW EXECUTE FUNCTION public.check_payment_amount();
+
+CREATE OR REPLACE FUNCTION public.protect_order_columns()
+RETURNS trigger AS $$
+BEGIN
+  IF current_setting('app.order_update', true) IS NOT DISTINCT FROM 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'The order status follows its payments and cannot be changed directly';
+  END IF;
+
+  IF NEW.table_id IS DISTINCT FROM OLD.table_id
+    AND (NEW.table_id IS NOT NULL OR EXISTS (SELECT 1 FROM restaurant_tables WHERE id = OLD.table_id))
+  THEN
+    RAISE EXCEPTION 'Orders can only be moved to another table with move_order_to_table';
+  END IF;
+
+  IF NEW.table_number IS DISTINCT FROM OLD.table_number THEN
+    RAISE EXCEPTION 'Orders can only be moved to another table with move_order_to_table';
+  END IF;
+
+  IF NEW.waiter_id IS DISTINCT FROM OLD.waiter_id THEN
+    RAISE EXCEPTION 'Orders can only be handed over with transfer_order_to_waiter';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.refresh_order_payment_status(p_order_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_order orders;
+  v_approved boolean;
+  v_covered boolean;
+  v_status text;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR v_order.status = 'confirmed' THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM order_splits WHERE order_id = p_order_id) THEN
+    SELECT
+      bool_and(COALESCE(paid.approved, 0) >= order_splits.amount),
+      bool_and(COALESCE(paid.covered, 0) >= order_splits.amount)
+    INTO v_approved, v_covered
+    FROM order_splits
+    LEFT JOIN (
+      SELECT
+        split_id,
+        SUM(amount) FILTER (WHERE status = 'approved') AS approved,
+        SUM(amount) FILTER (WHERE status IN ('pending', 'approved')) AS covered
+      FROM payments
+      WHERE order_id = p_order_id
+      GROUP BY split_id
+    ) AS paid ON paid.split_id = order_splits.id
+    WHERE order_splits.order_id = p_order_id;
+  ELSE
+    SELECT
+      COALESCE(SUM(amount) FILTER (WHERE status = 'approved'), 0) >= v_order.total_amount,
+      COALESCE(SUM(amount) FILTER (WHERE status IN ('pending', 'approved')), 0) >= v_order.total_amount
+    INTO v_approved, v_covered
+    FROM payments
+    WHERE order_id = p_order_id;
+
+    -- An order nothing has been paid on stays pending, even with a zero total
+    IF NOT EXISTS (SELECT 1 FROM payments WHERE order_id = p_order_id AND status IN ('pending', 'approved')) THEN
+      v_approved := false;
+      v_covered := false;
+    END IF;
+  END IF;
+
+  v_status := CASE WHEN v_approved THEN 'confirmed' WHEN v_covered THEN 'paid' ELSE 'pending' END;
+
+  IF v_status <> v_order.status THEN
+    PERFORM set_config('app.order_update', 'on', true);
+    UPDATE orders SET status = v_status WHERE id = p_order_id;
+    PERFORM set_config('app.order_update', 'off', true);
+  END IF;
+
+  IF v_status = 'confirmed' THEN
+    PERFORM public.deduct_order_stock(p_order_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.clear_order_splits(p_order_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM orders WHERE id = p_order_id) THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM payments WHERE order_id = p_order_id AND status IN ('pending', 'approved')) THEN
+    RAISE EXCEPTION 'Part of this bill has already been paid, so it can no longer be changed';
+  END IF;
+
+  DELETE FROM order_splits WHERE order_id = p_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,53 @@
+/*
+  # Cash tendered and change due
+
+  1. Changes
+    - `payments`
+      - Add `cash_tendered` (numeric, nullable) - the cash the guest handed
+        over; only for cash payments and optional
+      - Add `change_given` (numeric, nullable) - the change handed back,
+        computed by the database
+
+  2. New Triggers
+    - `payments_set_change` computes `change_given` as the amount tendered
+      less the payment amount and tip, after `payments_check_amount` has
+      settled the amount
+
+  3. Important Notes
+    - Change the guest lets the waiter keep is recorded as part of
+      `tip_amount`, so the drawer takes in `cash_tendered - change_given`,
+      which is always the amount plus the tip
+*/
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS cash_tendered numeric CHECK (cash_tendered > 0);
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS change_given numeric CHECK (change_given >= 0);
+
+CREATE OR REPLACE FUNCTION public.set_payment_change()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.cash_tendered IS NULL THEN
+    NEW.change_given := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.payment_method <> 'cash' THEN
+    RAISE EXCEPTION 'Only cash payments have an amount tendered';
+  END IF;
+
+  NEW.cash_tendered := round(NEW.cash_tendered, 2);
+  NEW.change_given := NEW.cash_tendered - NEW.amount - COALESCE(NEW.tip_amount, 0);
+
+  IF NEW.change_given < 0 THEN
+    RAISE EXCEPTION 'The cash tendered does not cover the payment and tip';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Named to fire after payments_check_amount, since triggers run in name order
+DROP TRIGGER IF EXISTS payments_set_change ON payments;
+
+CREATE TRIGGER payments_set_change
+  BEFORE INSERT ON payments
+  FOR EACH ROW EXECUTE FUNCTION public.set_payment_change();
@@ -0,0 +1,885 @@
+/*
+  # Discounts, comps and promo codes
+
+  1. New Tables
+    - `restaurant_settings` - a single row of settings the cashier can change
+      - `discount_authorization_percent` (numeric, nullable) - a discount by
+        a waiter that takes the order's applied discounts no cashier
+        authorized above this share of its subtotal waits for a cashier;
+        unset means no authorization is needed
+    - `discount_reasons` - the reason codes a discount is given for
+      - `id` (uuid, primary key)
+      - `name` (text, unique) - e.g. 'Staff meal', 'Complaint'
+      - `active` (boolean)
+      - `created_at` (timestamptz)
+      - `created_by` (uuid, references profiles)
+    - `promo_codes`
+      - `id` (uuid, primary key)
+      - `code` (text) - unique regardless of case
+      - `description` (text, nullable)
+      - `kind` (text) - 'percent' or 'fixed'
+      - `value` (numeric) - the percentage or the amount off
+      - `valid_from` (timestamptz)
+      - `valid_until` (timestamptz, nullable) - exclusive; unset means no end
+      - `active` (boolean)
+      - `created_at` (timestamptz)
+      - `created_by` (uuid, references profiles)
+    - `order_discounts`
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, references orders)
+      - `order_item_id` (uuid, nullable, references order_items) - unset for
+        a discount on the whole order
+      - `kind` (text) - 'percent' or 'fixed'
+      - `value` (numeric)
+      - `amount` (numeric) - the money taken off, kept by the database
+      - `reason_id` (uuid, nullable, references discount_reasons)
+      - `promo_code_id` (uuid, nullable, references promo_codes)
+      - `status` (text) - 'pending' while awaiting authorization, 'applied'
+      - `created_by`, `authorized_by` (uuid, references profiles)
+      - `created_at`, `authorized_at` (timestamptz)
+
+  2. Changes
+    - `orders`
+      - Add `discount_amount` (numeric) - the applied discounts; computed by
+        the database like `total_amount`, which now has it taken off
+
+  3. New Functions
+    - `apply_discount(p_order_id, p_order_item_id, p_kind, p_value, p_reason_id, p_promo_code)`
+      - Gives a discount on an item or on the whole order, replacing the one
+        already there; with a promo code the kind and value come from the
+        code and no reason is needed
+    - `authorize_discount(p_discount_id)`, `reject_discount(p_discount_id)` -
+      for cashiers
+    - `remove_discount(p_discount_id)`
+    - `unauthorized_discount_amount(p_order_id)` - the applied discounts that
+      count against the threshold, used both when a discount is given and
+      when the order changes
+    - `discount_totals(...)` - applied discounts per reason, with the same
+      filters as `search_payments`
+    - `merge_orders` moves item discounts onto the merged order with their
+      items, and refuses orders that have a discount on the whole order
+    - `check_payment_amount` accepts a payment of zero on an order (or
+      check) that is fully discounted and has no payment yet
+    - `order_item_sales(p_order_ids)` - what each item on the orders was
+      sold for once its applied discounts are taken off
+    - `sales_by_category`, `gross_profit_by_item` and `menu_item_daily_sales`
+      count revenue from `order_item_sales` instead of the menu prices
+
+  4. Important Notes
+    - Item discounts are taken off the item first; an order discount applies
+      to what is left
+    - A fixed discount never takes off more than what it discounts
+    - In the reports an order discount is shared across the order's items in
+      proportion to what is left of each after its own discount
+    - Discounts given by a cashier and promo codes need no authorization
+    - Until something is paid, a waiter's discounts are weighed again
+      whenever the order changes; if removing items takes them above the
+      threshold they wait for a cashier again
+    - Like item changes, discounts cannot change once part of the order has
+      been paid, and giving one removes a split
+    - A fully discounted order is closed like any other: the waiter submits
+      a payment of zero and the cashier approves it, which confirms the
+      order, deducts its stock and frees the table
+
+  5. Security
+    - Enable RLS on all new tables
+    - Everyone can view the settings and reason codes; only cashiers can
+      change them and manage promo codes
+    - Discounts can be viewed by whoever can view the order and are only
+      written through the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS restaurant_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  discount_authorization_percent numeric DEFAULT 20 CHECK (discount_authorization_percent BETWEEN 0 AND 100),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO restaurant_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS discount_reasons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE CHECK (btrim(name) <> ''),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id)
+);
+
+INSERT INTO discount_reasons (name)
+VALUES ('Staff meal'), ('Complaint'), ('Manager comp'), ('Regular guest')
+ON CONFLICT (name) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL CHECK (btrim(code) <> ''),
+  description text,
+  kind text NOT NULL CHECK (kind IN ('percent', 'fixed')),
+  value numeric NOT NULL CHECK (value > 0 AND (kind = 'fixed' OR value <= 100)),
+  valid_from timestamptz NOT NULL DEFAULT now(),
+  valid_until timestamptz CHECK (valid_until > valid_from),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS promo_codes_code_key ON promo_codes (upper(code));
+
+CREATE TABLE IF NOT EXISTS order_discounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_item_id uuid REFERENCES order_items(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('percent', 'fixed')),
+  value numeric NOT NULL CHECK (value > 0 AND (kind = 'fixed' OR value <= 100)),
+  amount numeric NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  reason_id uuid REFERENCES discount_reasons(id),
+  promo_code_id uuid REFERENCES promo_codes(id),
+  status text NOT NULL DEFAULT 'applied' CHECK (status IN ('pending', 'applied')),
+  created_by uuid NOT NULL REFERENCES profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  authorized_by uuid REFERENCES profiles(id),
+  authorized_at timestamptz,
+  CHECK (reason_id IS NOT NULL OR promo_code_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS order_discounts_order_id_idx ON order_discounts(order_id);
+CREATE UNIQUE INDEX IF NOT EXISTS order_discounts_item_key ON order_discounts(order_item_id) WHERE order_item_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS order_discounts_order_key ON order_discounts(order_id) WHERE order_item_id IS NULL;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_amount numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE restaurant_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE discount_reasons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_discounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view restaurant settings"
+  ON restaurant_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Cashiers can update restaurant settings"
+  ON restaurant_settings FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Anyone can view discount reasons"
+  ON discount_reasons FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Cashiers can insert discount reasons"
+  ON discount_reasons FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Cashiers can update discount reasons"
+  ON discount_reasons FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+-- Waiters redeem codes through apply_discount and never see the list
+CREATE POLICY "Cashiers can view promo codes"
+  ON promo_codes FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Cashiers can insert promo codes"
+  ON promo_codes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Cashiers can update promo codes"
+  ON promo_codes FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+-- The orders policies already limit waiters to their own orders
+CREATE POLICY "Staff can view order discounts"
+  ON order_discounts FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM orders WHERE orders.id = order_discounts.order_id));
+
+CREATE OR REPLACE FUNCTION public.discount_amount(p_kind text, p_value numeric, p_base numeric)
+RETURNS numeric AS $$
+  SELECT GREATEST(
+    CASE
+      WHEN p_kind = 'percent' THEN round(p_base * p_value / 100, 2)
+      ELSE LEAST(p_value, p_base)
+    END,
+    0
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.compute_order_subtotal(p_order_id uuid)
+RETURNS numeric AS $$
+  SELECT COALESCE(SUM(quantity * price_at_purchase), 0)
+  FROM order_items
+  WHERE order_id = p_order_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- What an order discount applies to: the subtotal less the applied item discounts
+CREATE OR REPLACE FUNCTION public.order_discount_base(p_order_id uuid)
+RETURNS numeric AS $$
+  SELECT public.compute_order_subtotal(p_order_id) - COALESCE((
+    SELECT SUM(amount) FROM order_discounts
+    WHERE order_id = p_order_id
+    AND order_item_id IS NOT NULL
+    AND status = 'applied'
+  ), 0);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.compute_order_discount(p_order_id uuid)
+RETURNS numeric AS $$
+  SELECT COALESCE(SUM(amount), 0)
+  FROM order_discounts
+  WHERE order_id = p_order_id
+  AND status = 'applied';
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.compute_order_total(p_order_id uuid)
+RETURNS numeric AS $$
+  SELECT GREATEST(public.compute_order_subtotal(p_order_id) - public.compute_order_discount(p_order_id), 0);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- The applied discounts that count against the authorization threshold: not
+-- authorized by a cashier and not from a promo code
+CREATE OR REPLACE FUNCTION public.unauthorized_discount_amount(p_order_id uuid)
+RETURNS numeric AS $$
+  SELECT COALESCE(SUM(amount), 0)
+  FROM order_discounts
+  WHERE order_id = p_order_id
+  AND status = 'applied'
+  AND authorized_by IS NULL
+  AND promo_code_id IS NULL;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Brings discount amounts in line with the current items; item discounts first
+CREATE OR REPLACE FUNCTION public.refresh_order_discounts(p_order_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_threshold numeric;
+BEGIN
+  UPDATE order_discounts
+  SET amount = public.discount_amount(order_discounts.kind, order_discounts.value, order_items.quantity * order_items.price_at_purchase)
+  FROM order_items
+  WHERE order_discounts.order_id = p_order_id
+  AND order_items.id = order_discounts.order_item_id
+  AND order_discounts.amount IS DISTINCT FROM
+    public.discount_amount(order_discounts.kind, order_discounts.value, order_items.quantity * order_items.price_at_purchase);
+
+  UPDATE order_discounts
+  SET amount = public.discount_amount(kind, value, public.order_discount_base(p_order_id))
+  WHERE order_id = p_order_id
+  AND order_item_id IS NULL
+  AND amount IS DISTINCT FROM public.discount_amount(kind, value, public.order_discount_base(p_order_id));
+
+  SELECT discount_authorization_percent INTO v_threshold FROM restaurant_settings;
+
+  -- Removing items makes a fixed discount a bigger share of the order, so the
+  -- discounts no cashier authorized are weighed again until something is paid
+  IF v_threshold IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM payments WHERE order_id = p_order_id AND status IN ('pending', 'approved'))
+    AND public.unauthorized_discount_amount(p_order_id) * 100 > v_threshold * public.compute_order_subtotal(p_order_id)
+  THEN
+    PERFORM set_config('app.refreshing_discounts', 'on', true);
+
+    UPDATE order_discounts
+    SET status = 'pending'
+    WHERE order_id = p_order_id
+    AND status = 'applied'
+    AND authorized_by IS NULL
+    AND promo_code_id IS NULL;
+
+    PERFORM set_config('app.refreshing_discounts', 'off', true);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_order_discounts(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_order_total()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.total_amount := 0;
+    NEW.discount_amount := 0;
+  ELSE
+    PERFORM public.refresh_order_discounts(NEW.id);
+    NEW.discount_amount := public.compute_order_discount(NEW.id);
+    NEW.total_amount := public.compute_order_total(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Not on amount changes, nor on the statuses refresh_order_discounts resets,
+-- which set_order_total makes itself
+DROP TRIGGER IF EXISTS order_discounts_refresh_total ON order_discounts;
+
+CREATE TRIGGER order_discounts_refresh_total
+  AFTER INSERT OR DELETE OR UPDATE OF status ON order_discounts
+  FOR EACH ROW
+  WHEN (current_setting('app.refreshing_discounts', true) IS DISTINCT FROM 'on')
+  EXECUTE FUNCTION public.refresh_order_total();
+
+CREATE OR REPLACE FUNCTION public.check_payment_amount()
+RETURNS trigger AS $$
+DECLARE
+  v_outstanding numeric;
+BEGIN
+  IF NEW.split_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM order_splits WHERE id = NEW.split_id AND order_id = NEW.order_id) THEN
+      RAISE EXCEPTION 'This check does not belong to the order';
+    END IF;
+  ELSIF EXISTS (SELECT 1 FROM order_splits WHERE order_id = NEW.order_id) THEN
+    RAISE EXCEPTION 'This bill is split; please pay each check separately';
+  END IF;
+
+  -- Serialises payments on the same order so two cannot both take the last of the balance
+  PERFORM 1 FROM orders WHERE id = NEW.order_id FOR UPDATE;
+
+  v_outstanding := public.order_outstanding_balance(NEW.order_id, NEW.split_id);
+
+  -- Nothing is due on a fully discounted order, which is closed with one payment of zero
+  IF v_outstanding <= 0 AND NOT EXISTS (
+    SELECT 1 FROM payments
+    WHERE order_id = NEW.order_id
+    AND split_id IS NOT DISTINCT FROM NEW.split_id
+    AND status IN ('pending', 'approved')
+  ) THEN
+    NEW.amount := 0;
+    RETURN NEW;
+  END IF;
+
+  IF v_outstanding <= 0 THEN
+    RAISE EXCEPTION 'This has already been paid in full';
+  END IF;
+
+  NEW.amount := round(COALESCE(NEW.amount, v_outstanding), 2);
+
+  IF NEW.amount <= 0 THEN
+    RAISE EXCEPTION 'The payment amount must be more than zero';
+  END IF;
+
+  IF NEW.amount > v_outstanding THEN
+    RAISE EXCEPTION 'The payment amount is more than the outstanding balance of $%', to_char(v_outstanding, 'FM999999990.00');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_active_cashier()
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'cashier'
+    AND profiles.active IS NOT FALSE
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.apply_discount(
+  p_order_id uuid,
+  p_order_item_id uuid,
+  p_kind text,
+  p_value numeric,
+  p_reason_id uuid,
+  p_promo_code text DEFAULT NULL
+)
+RETURNS order_discounts AS $$
+DECLARE
+  v_order orders;
+  v_item order_items;
+  v_promo promo_codes;
+  v_kind text := p_kind;
+  v_value numeric := p_value;
+  v_reason_id uuid := p_reason_id;
+  v_base numeric;
+  v_amount numeric;
+  v_order_discount numeric;
+  v_threshold numeric;
+  v_is_cashier boolean := public.is_active_cashier();
+  v_discount order_discounts;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_manage_order(v_order) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Discounts can only be given on pending orders';
+  END IF;
+
+  IF NULLIF(btrim(p_promo_code), '') IS NOT NULL THEN
+    IF p_order_item_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Promo codes apply to the whole order';
+    END IF;
+
+    SELECT * INTO v_promo FROM promo_codes WHERE upper(code) = upper(btrim(p_promo_code));
+
+    IF NOT FOUND OR NOT v_promo.active THEN
+      RAISE EXCEPTION 'Promo code % does not exist', upper(btrim(p_promo_code));
+    END IF;
+
+    IF now() < v_promo.valid_from OR (v_promo.valid_until IS NOT NULL AND now() >= v_promo.valid_until) THEN
+      RAISE EXCEPTION 'Promo code % is not valid today', v_promo.code;
+    END IF;
+
+    v_kind := v_promo.kind;
+    v_value := v_promo.value;
+    v_reason_id := NULL;
+  ELSIF NOT EXISTS (SELECT 1 FROM discount_reasons WHERE id = p_reason_id AND active) THEN
+    RAISE EXCEPTION 'Please choose a reason for the discount';
+  END IF;
+
+  IF v_kind NOT IN ('percent', 'fixed') OR v_value IS NULL OR v_value <= 0 THEN
+    RAISE EXCEPTION 'Please enter a discount above zero';
+  END IF;
+
+  IF v_kind = 'percent' AND v_value > 100 THEN
+    RAISE EXCEPTION 'A discount cannot be more than 100%%';
+  END IF;
+
+  IF p_order_item_id IS NOT NULL THEN
+    SELECT * INTO v_item FROM order_items WHERE id = p_order_item_id AND order_id = p_order_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item not found on this order';
+    END IF;
+
+    v_base := v_item.quantity * v_item.price_at_purchase;
+  ELSE
+    v_base := public.order_discount_base(p_order_id);
+  END IF;
+
+  v_amount := public.discount_amount(v_kind, v_value, v_base);
+
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'There is nothing left to discount';
+  END IF;
+
+  PERFORM public.clear_order_splits(p_order_id);
+
+  DELETE FROM order_discounts
+  WHERE order_id = p_order_id
+  AND order_item_id IS NOT DISTINCT FROM p_order_item_id;
+
+  SELECT discount_authorization_percent INTO v_threshold FROM restaurant_settings;
+
+  -- Weighed with the order's other unauthorized discounts, so stacking small ones cannot avoid authorization
+  v_order_discount := v_amount + public.unauthorized_discount_amount(p_order_id);
+
+  INSERT INTO order_discounts (
+    order_id, order_item_id, kind, value, amount, reason_id, promo_code_id, status,
+    created_by, authorized_by, authorized_at
+  )
+  VALUES (
+    p_order_id, p_order_item_id, v_kind, v_value, v_amount, v_reason_id, v_promo.id,
+    CASE
+      WHEN v_is_cashier OR v_promo.id IS NOT NULL OR v_threshold IS NULL
+        OR v_order_discount * 100 <= v_threshold * public.compute_order_subtotal(p_order_id)
+      THEN 'applied'
+      ELSE 'pending'
+    END,
+    auth.uid(),
+    CASE WHEN v_is_cashier THEN auth.uid() END,
+    CASE WHEN v_is_cashier THEN now() END
+  )
+  RETURNING * INTO v_discount;
+
+  RETURN v_discount;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.authorize_discount(p_discount_id uuid)
+RETURNS order_discounts AS $$
+DECLARE
+  v_discount order_discounts;
+BEGIN
+  IF NOT public.is_active_cashier() THEN
+    RAISE EXCEPTION 'Only cashiers can authorize discounts';
+  END IF;
+
+  SELECT * INTO v_discount FROM order_discounts WHERE id = p_discount_id FOR UPDATE;
+
+  IF NOT FOUND OR v_discount.status <> 'pending' THEN
+    RAISE EXCEPTION 'This discount is not awaiting authorization';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM orders WHERE id = v_discount.order_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'Discounts can only be given on pending orders';
+  END IF;
+
+  PERFORM public.clear_order_splits(v_discount.order_id);
+
+  UPDATE order_discounts
+  SET status = 'applied', authorized_by = auth.uid(), authorized_at = now()
+  WHERE id = p_discount_id
+  RETURNING * INTO v_discount;
+
+  RETURN v_discount;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.reject_discount(p_discount_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT public.is_active_cashier() THEN
+    RAISE EXCEPTION 'Only cashiers can reject discounts';
+  END IF;
+
+  DELETE FROM order_discounts WHERE id = p_discount_id AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This discount is not awaiting authorization';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.remove_discount(p_discount_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_discount order_discounts;
+  v_order orders;
+BEGIN
+  SELECT * INTO v_discount FROM order_discounts WHERE id = p_discount_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Discount not found';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_discount.order_id FOR UPDATE;
+
+  IF NOT public.can_manage_order(v_order) THEN
+    RAISE EXCEPTION 'Discount not found';
+  END IF;
+
+  IF v_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Discounts can only be removed from pending orders';
+  END IF;
+
+  -- Only an applied discount changes the total
+  IF v_discount.status = 'applied' THEN
+    PERFORM public.clear_order_splits(v_order.id);
+  END IF;
+
+  DELETE FROM order_discounts WHERE id = p_discount_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.merge_orders(
+  p_target_order_id uuid,
+  p_source_order_id uuid
+)
+RETURNS orders AS $$
+DECLARE
+  v_target orders;
+  v_source orders;
+BEGIN
+  IF p_target_order_id = p_source_order_id THEN
+    RAISE EXCEPTION 'An order cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO v_target FROM orders WHERE id = p_target_order_id FOR UPDATE;
+  IF NOT FOUND OR NOT public.can_manage_order(v_target) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  SELECT * INTO v_source FROM orders WHERE id = p_source_order_id FOR UPDATE;
+  IF NOT FOUND OR NOT public.can_manage_order(v_source) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_target.status <> 'pending' OR v_source.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending orders can be merged';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM payments WHERE order_id IN (v_target.id, v_source.id)) THEN
+    RAISE EXCEPTION 'Orders that already have payments cannot be merged';
+  END IF;
+
+  -- It would cover the other order's items too, so it is removed by hand first
+  IF EXISTS (
+    SELECT 1 FROM order_discounts
+    WHERE order_id IN (v_target.id, v_source.id)
+    AND order_item_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Orders with a discount on the whole order cannot be merged; please remove it first';
+  END IF;
+
+  -- Item discounts go with their items, so the source's delete cannot take them
+  UPDATE order_discounts SET order_id = v_target.id WHERE order_id = v_source.id;
+  UPDATE order_items SET order_id = v_target.id WHERE order_id = v_source.id;
+  UPDATE order_transfers SET order_id = v_target.id WHERE order_id = v_source.id;
+
+  INSERT INTO order_transfers (
+    order_id, kind, from_table_number, to_table_number, from_waiter_id, to_waiter_id, merged_order_id, performed_by
+  )
+  VALUES (
+    v_target.id, 'merge', v_source.table_number, v_target.table_number,
+    v_source.waiter_id, v_target.waiter_id, v_source.id, auth.uid()
+  );
+
+  DELETE FROM orders WHERE id = v_source.id;
+
+  PERFORM public.refresh_order_discounts(v_target.id);
+
+  UPDATE orders
+  SET notes = NULLIF(left(concat_ws(' / ', v_target.notes, v_source.notes), 500), '')
+  WHERE id = v_target.id
+  RETURNING * INTO v_target;
+
+  RETURN v_target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.discount_totals(
+  p_submitted_from timestamptz DEFAULT NULL,
+  p_submitted_to timestamptz DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_waiter_id uuid DEFAULT NULL,
+  p_bank_filter text DEFAULT NULL,
+  p_confirmed_from timestamptz DEFAULT NULL,
+  p_confirmed_to timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  reason_name text,
+  discount_count bigint,
+  total_amount numeric
+) AS $$
+  SELECT
+    COALESCE(discount_reasons.name, 'Promo ' || promo_codes.code),
+    COUNT(*),
+    COALESCE(SUM(order_discounts.amount), 0)
+  FROM order_discounts
+  LEFT JOIN discount_reasons ON discount_reasons.id = order_discounts.reason_id
+  LEFT JOIN promo_codes ON promo_codes.id = order_discounts.promo_code_id
+  WHERE order_discounts.status = 'applied'
+  AND order_discounts.order_id IN (
+    SELECT p.order_id
+    FROM public.search_payments(
+      p_submitted_from, p_submitted_to, p_status, p_waiter_id,
+      p_bank_filter, p_confirmed_from, p_confirmed_to
+    ) AS p
+  )
+  GROUP BY 1
+  ORDER BY 3 DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- The order discount is shared in proportion to what is left of each item after its own discount
+CREATE OR REPLACE FUNCTION public.order_item_sales(p_order_ids uuid[])
+RETURNS TABLE (
+  order_item_id uuid,
+  amount numeric
+) AS $$
+  WITH lines AS (
+    SELECT
+      order_items.id,
+      order_items.order_id,
+      order_items.quantity * order_items.price_at_purchase - COALESCE(item_discounts.amount, 0) AS amount
+    FROM order_items
+    LEFT JOIN (
+      SELECT order_item_id, SUM(amount) AS amount
+      FROM order_discounts
+      WHERE order_id = ANY(p_order_ids)
+      AND order_item_id IS NOT NULL
+      AND status = 'applied'
+      GROUP BY order_item_id
+    ) AS item_discounts ON item_discounts.order_item_id = order_items.id
+    WHERE order_items.order_id = ANY(p_order_ids)
+  ),
+  orders_base AS (
+    SELECT
+      lines.order_id,
+      SUM(lines.amount) AS base,
+      COALESCE((
+        SELECT SUM(order_discounts.amount) FROM order_discounts
+        WHERE order_discounts.order_id = lines.order_id
+        AND order_item_id IS NULL
+        AND status = 'applied'
+      ), 0) AS discount
+    FROM lines
+    GROUP BY lines.order_id
+  )
+  SELECT
+    lines.id,
+    CASE
+      WHEN orders_base.base > 0 THEN lines.amount - lines.amount * orders_base.discount / orders_base.base
+      ELSE lines.amount
+    END
+  FROM lines
+  JOIN orders_base ON orders_base.order_id = lines.order_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.sales_by_category(
+  p_submitted_from timestamptz DEFAULT NULL,
+  p_submitted_to timestamptz DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_waiter_id uuid DEFAULT NULL,
+  p_bank_filter text DEFAULT NULL,
+  p_confirmed_from timestamptz DEFAULT NULL,
+  p_confirmed_to timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  category_id uuid,
+  category_name text,
+  item_count bigint,
+  total_amount numeric
+) AS $$
+  SELECT
+    menu_categories.id,
+    menu_categories.name,
+    COALESCE(SUM(order_items.quantity), 0),
+    COALESCE(SUM(sales.amount), 0)
+  FROM public.order_item_sales(ARRAY(
+    SELECT p.order_id
+    FROM public.search_payments(
+      p_submitted_from, p_submitted_to, p_status, p_waiter_id,
+      p_bank_filter, p_confirmed_from, p_confirmed_to
+    ) AS p
+    WHERE p.status = 'approved'
+  )) AS sales
+  JOIN order_items ON order_items.id = sales.order_item_id
+  JOIN menu ON menu.id = order_items.menu_id
+  LEFT JOIN menu_categories ON menu_categories.id = menu.category_id
+  GROUP BY menu_categories.id, menu_categories.name, menu_categories.display_order
+  ORDER BY menu_categories.display_order NULLS LAST, menu_categories.name;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.gross_profit_by_item(
+  p_submitted_from timestamptz DEFAULT NULL,
+  p_submitted_to timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  menu_id uuid,
+  menu_name text,
+  category_id uuid,
+  category_name text,
+  quantity_sold bigint,
+  revenue numeric,
+  unit_cost numeric,
+  total_cost numeric,
+  gross_profit numeric
+) AS $$
+  SELECT
+    menu.id,
+    menu.name,
+    menu_categories.id,
+    menu_categories.name,
+    SUM(order_items.quantity),
+    SUM(sales.amount),
+    costs.cost,
+    SUM(order_items.quantity) * costs.cost,
+    SUM(sales.amount) - SUM(order_items.quantity) * costs.cost
+  FROM public.order_item_sales(ARRAY(
+    SELECT p.order_id
+    FROM public.search_payments(p_submitted_from, p_submitted_to, 'approved', NULL, NULL, NULL, NULL) AS p
+  )) AS sales
+  JOIN order_items ON order_items.id = sales.order_item_id
+  JOIN menu ON menu.id = order_items.menu_id
+  LEFT JOIN menu_categories ON menu_categories.id = menu.category_id
+  LEFT JOIN public.menu_item_costs() AS costs ON costs.menu_id = menu.id
+  GROUP BY menu.id, menu.name, menu_categories.id, menu_categories.name, menu_categories.display_order, costs.cost
+  ORDER BY menu_categories.display_order NULLS LAST, menu_categories.name, menu.name;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.menu_item_daily_sales(
+  p_menu_id uuid,
+  p_submitted_from timestamptz DEFAULT NULL,
+  p_submitted_to timestamptz DEFAULT NULL,
+  p_time_zone text DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  sale_date date,
+  quantity_sold bigint,
+  revenue numeric
+) AS $$
+  WITH paid AS (
+    SELECT p.order_id, (MIN(p.submitted_at) AT TIME ZONE p_time_zone)::date AS sale_date
+    FROM public.search_payments(p_submitted_from, p_submitted_to, 'approved', NULL, NULL, NULL, NULL) AS p
+    WHERE p.order_id IN (SELECT order_id FROM order_items WHERE menu_id = p_menu_id)
+    GROUP BY p.order_id
+  )
+  SELECT
+    paid.sale_date,
+    SUM(order_items.quantity),
+    SUM(sales.amount)
+  FROM public.order_item_sales(ARRAY(SELECT order_id FROM paid)) AS sales
+  JOIN order_items ON order_items.id = sales.order_item_id
+  JOIN paid ON paid.order_id = order_items.order_id
+  WHERE order_items.menu_id = p_menu_id
+  GROUP BY paid.sale_date
+  ORDER BY paid.sale_date;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'order_discounts'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.order_discounts;
+  END IF;
+END $$;
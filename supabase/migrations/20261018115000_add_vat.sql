@@ -0,0 +1,247 @@
+/*
+  # VAT breakdown on orders
+
+  1. Changes
+    - `restaurant_settings`
+      - Add `vat_rate` (numeric) - the standard VAT rate in percent
+    - `menu`
+      - Add `tax_class` (text) - 'standard' or 'exempt'
+    - `order_items`
+      - Add `tax_rate` (numeric) - the VAT rate in percent when the item was
+        ordered; set by the database
+    - `orders`
+      - Add `net_amount` and `tax_amount` (numeric) - `total_amount` split
+        into its net amount and VAT, computed by the database
+
+  2. New Functions
+    - `order_tax_breakdown(p_order_id)`
+      - Gross, net and VAT of an order per tax rate
+    - `tax_totals(p_submitted_from, p_submitted_to)`
+      - The same per tax rate over orders with an approved payment submitted
+        in the date range, for filing
+
+  3. Important Notes
+    - Menu prices include VAT, so VAT is taken out of the gross amount rather
+      than added on top: tax = gross × rate / (100 + rate)
+    - Item discounts reduce the item they are on; an order discount is
+      shared across the tax rates in proportion to what is left of each
+    - Changing the VAT rate or an item's tax class does not change items
+      already ordered
+    - Menu prices have always included VAT, so every existing item is given
+      today's rate for its tax class and every existing order its VAT
+    - Taking VAT out of a price does not change it, so `net_amount` and
+      `tax_amount` of existing orders are filled in directly and their
+      `total_amount` is not recomputed
+*/
+
+ALTER TABLE restaurant_settings ADD COLUMN IF NOT EXISTS vat_rate numeric NOT NULL DEFAULT 15 CHECK (vat_rate BETWEEN 0 AND 100);
+
+ALTER TABLE menu ADD COLUMN IF NOT EXISTS tax_class text NOT NULL DEFAULT 'standard' CHECK (tax_class IN ('standard', 'exempt'));
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS tax_rate numeric NOT NULL DEFAULT 0 CHECK (tax_rate >= 0);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS net_amount numeric NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_amount numeric NOT NULL DEFAULT 0;
+
+-- Before set_order_item_price starts keeping tax_rate on updates; the order
+-- totals are left alone, so refresh_order_total is kept out of it
+ALTER TABLE order_items DISABLE TRIGGER order_items_refresh_total;
+
+UPDATE order_items
+SET tax_rate = (SELECT vat_rate FROM restaurant_settings)
+FROM menu
+WHERE menu.id = order_items.menu_id
+AND menu.tax_class = 'standard';
+
+ALTER TABLE order_items ENABLE TRIGGER order_items_refresh_total;
+
+CREATE OR REPLACE FUNCTION public.set_order_item_price()
+RETURNS trigger AS $$
+DECLARE
+  v_menu menu;
+  v_option_ids uuid[];
+  v_source_id uuid;
+BEGIN
+  v_source_id := NULLIF(current_setting('app.requeue_order_item', true), '')::uuid;
+
+  -- Units added to a started item are more of the same line, so they keep its price and options
+  IF TG_OP = 'INSERT' AND v_source_id IS NOT NULL THEN
+    SELECT price_at_purchase, station_id, modifiers, tax_rate
+    INTO NEW.price_at_purchase, NEW.station_id, NEW.modifiers, NEW.tax_rate
+    FROM order_items WHERE id = v_source_id;
+
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT * INTO v_menu FROM menu WHERE id = NEW.menu_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not exist', NEW.menu_id;
+    END IF;
+
+    IF NOT public.menu_item_is_available(v_menu) THEN
+      RAISE EXCEPTION '% is not available right now', v_menu.name;
+    END IF;
+
+    NEW.price_at_purchase := v_menu.price;
+    NEW.station_id := v_menu.station_id;
+    NEW.tax_rate := CASE
+      WHEN v_menu.tax_class = 'exempt' THEN 0
+      ELSE COALESCE((SELECT vat_rate FROM restaurant_settings), 0)
+    END;
+
+    SELECT ARRAY(SELECT jsonb_array_elements_text(COALESCE(NEW.modifiers, '[]'::jsonb))::uuid)
+    INTO v_option_ids;
+
+    NEW.modifiers := public.build_order_item_modifiers(NEW.menu_id, v_option_ids);
+    NEW.price_at_purchase := NEW.price_at_purchase + COALESCE((
+      SELECT SUM((modifier->>'price_delta')::numeric)
+      FROM jsonb_array_elements(NEW.modifiers) AS modifier
+    ), 0);
+
+    IF NEW.price_at_purchase <= 0 THEN
+      RAISE EXCEPTION 'The chosen options make the price of this item zero or less';
+    END IF;
+  ELSE
+    NEW.menu_id := OLD.menu_id;
+    NEW.price_at_purchase := OLD.price_at_purchase;
+    -- Only cleared when its station is deleted (ON DELETE SET NULL)
+    IF NEW.station_id IS NOT NULL
+      OR EXISTS (SELECT 1 FROM stations WHERE id = OLD.station_id)
+    THEN
+      NEW.station_id := OLD.station_id;
+    END IF;
+    NEW.modifiers := OLD.modifiers;
+    NEW.tax_rate := OLD.tax_rate;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Rounding is settled on the highest rate so the gross amounts add up to total_amount
+CREATE OR REPLACE FUNCTION public.order_tax_breakdown(p_order_id uuid)
+RETURNS TABLE (
+  tax_rate numeric,
+  gross_amount numeric,
+  net_amount numeric,
+  tax_amount numeric
+) AS $$
+  WITH rates AS (
+    SELECT
+      order_items.tax_rate,
+      SUM(order_items.quantity * order_items.price_at_purchase - COALESCE(item_discounts.amount, 0)) AS gross
+    FROM order_items
+    LEFT JOIN (
+      SELECT order_item_id, SUM(amount) AS amount
+      FROM order_discounts
+      WHERE order_id = p_order_id
+      AND order_item_id IS NOT NULL
+      AND status = 'applied'
+      GROUP BY order_item_id
+    ) AS item_discounts ON item_discounts.order_item_id = order_items.id
+    WHERE order_items.order_id = p_order_id
+    GROUP BY order_items.tax_rate
+  ),
+  totals AS (
+    SELECT
+      SUM(rates.gross) AS base,
+      SUM(rates.gross) - COALESCE((
+        SELECT SUM(amount) FROM order_discounts
+        WHERE order_id = p_order_id
+        AND order_item_id IS NULL
+        AND status = 'applied'
+      ), 0) AS total
+    FROM rates
+  ),
+  shares AS (
+    SELECT
+      rates.tax_rate,
+      CASE WHEN totals.base > 0 THEN round(rates.gross * totals.total / totals.base, 2) ELSE 0 END AS gross,
+      totals.total,
+      row_number() OVER (ORDER BY rates.tax_rate DESC) AS position
+    FROM rates, totals
+  ),
+  grosses AS (
+    SELECT
+      shares.tax_rate,
+      CASE
+        WHEN shares.position = 1 THEN shares.total - (SUM(shares.gross) OVER () - shares.gross)
+        ELSE shares.gross
+      END AS gross
+    FROM shares
+  )
+  SELECT
+    grosses.tax_rate,
+    grosses.gross,
+    grosses.gross - round(grosses.gross * grosses.tax_rate / (100 + grosses.tax_rate), 2),
+    round(grosses.gross * grosses.tax_rate / (100 + grosses.tax_rate), 2)
+  FROM grosses
+  ORDER BY grosses.tax_rate DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.set_order_total()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.total_amount := 0;
+    NEW.discount_amount := 0;
+    NEW.net_amount := 0;
+    NEW.tax_amount := 0;
+  ELSE
+    PERFORM public.refresh_order_discounts(NEW.id);
+    NEW.discount_amount := public.compute_order_discount(NEW.id);
+    NEW.total_amount := public.compute_order_total(NEW.id);
+
+    SELECT COALESCE(SUM(breakdown.net_amount), 0), COALESCE(SUM(breakdown.tax_amount), 0)
+    INTO NEW.net_amount, NEW.tax_amount
+    FROM public.order_tax_breakdown(NEW.id) AS breakdown;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Existing orders keep the total they have, so set_order_total is kept out of the backfill
+ALTER TABLE orders DISABLE TRIGGER orders_set_total;
+
+UPDATE orders
+SET tax_amount = COALESCE(taxes.tax_amount, 0),
+    net_amount = orders.total_amount - COALESCE(taxes.tax_amount, 0)
+FROM (
+  SELECT existing.id, SUM(breakdown.tax_amount) AS tax_amount
+  FROM orders AS existing
+  LEFT JOIN LATERAL public.order_tax_breakdown(existing.id) AS breakdown ON true
+  GROUP BY existing.id
+) AS taxes
+WHERE taxes.id = orders.id;
+
+ALTER TABLE orders ENABLE TRIGGER orders_set_total;
+
+CREATE OR REPLACE FUNCTION public.tax_totals(
+  p_submitted_from timestamptz DEFAULT NULL,
+  p_submitted_to timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  tax_rate numeric,
+  order_count bigint,
+  gross_amount numeric,
+  net_amount numeric,
+  tax_amount numeric
+) AS $$
+  SELECT
+    breakdown.tax_rate,
+    COUNT(DISTINCT orders.id),
+    SUM(breakdown.gross_amount),
+    SUM(breakdown.net_amount),
+    SUM(breakdown.tax_amount)
+  FROM orders
+  CROSS JOIN LATERAL public.order_tax_breakdown(orders.id) AS breakdown
+  WHERE orders.id IN (
+    SELECT p.order_id
+    FROM public.search_payments(p_submitted_from, p_submitted_to, 'approved', NULL, NULL, NULL, NULL) AS p
+  )
+  GROUP BY breakdown.tax_rate
+  ORDER BY breakdown.tax_rate DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
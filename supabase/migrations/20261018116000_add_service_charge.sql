@@ -0,0 +1,475 @@
+/*
+  # Configurable service charge
+
+  1. New Tables
+    - `service_charge_rules`
+      - `id` (uuid, primary key)
+      - `name` (text) - shown to staff, e.g. "Large parties"
+      - `percent` (numeric) - charged on the order after discounts
+      - `min_party_size` (integer, nullable) - only for parties of at least
+        this many guests
+      - `section` (text, nullable) - only for tables in this floor section
+      - `active` (boolean)
+      - `created_at` (timestamptz)
+      - `created_by` (uuid) - the cashier who added it
+
+  2. Changes
+    - `orders`
+      - Add `party_size` (integer, nullable) - number of guests, given when
+        the order is created
+      - Add `service_charge_rate` (numeric, nullable) - the percent of the
+        rule that matched when the order was created
+      - Add `service_charge_amount` (numeric) - computed by the database and
+        included in `total_amount`
+    - `payments`
+      - Add `service_charge_amount` (numeric) - the part of `amount` that is
+        service charge, so reports can show it apart from sales and tips
+
+  3. New Functions
+    - `service_charge_rate_for(p_table_id, p_party_size)` - the highest
+      percent among the active rules that match
+    - `compute_order_service_charge(p_order_id)`
+    - `create_order_with_items(p_table_id, p_items, p_notes, p_party_size)`
+      replaces the three-argument version
+    - `payment_totals(...)` also returns `total_service_charge`
+
+  4. New Triggers
+    - `payments_set_service_charge` sets the service charge share of a
+      payment; the payment that settles the order takes whatever is left so
+      the shares add up to the order's service charge
+
+  5. Important Notes
+    - A rule with neither a party size nor a section applies to every order
+    - The rate is fixed when the order is created; changing the rules or the
+      party size later does not change it
+    - The service charge is part of what the guest owes, unlike `tip_amount`
+      which is on top of it
+    - Checks split by item now carry their share of discounts and the
+      service charge, so the checks add up to the order total
+
+  6. Security
+    - Enable RLS on `service_charge_rules`
+    - All authenticated users can view rules; only cashiers can manage them
+*/
+
+CREATE TABLE IF NOT EXISTS service_charge_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  percent numeric NOT NULL CHECK (percent > 0 AND percent <= 100),
+  min_party_size integer CHECK (min_party_size > 0),
+  section text CHECK (btrim(section) <> ''),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id)
+);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS party_size integer CHECK (party_size > 0);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS service_charge_rate numeric CHECK (service_charge_rate > 0);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS service_charge_amount numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS service_charge_amount numeric NOT NULL DEFAULT 0 CHECK (service_charge_amount >= 0);
+
+ALTER TABLE service_charge_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view service charge rules"
+  ON service_charge_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Cashiers can insert service charge rules"
+  ON service_charge_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Cashiers can update service charge rules"
+  ON service_charge_rules FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE POLICY "Cashiers can delete service charge rules"
+  ON service_charge_rules FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'cashier'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.service_charge_rate_for(p_table_id uuid, p_party_size integer)
+RETURNS numeric AS $$
+  SELECT MAX(service_charge_rules.percent)
+  FROM service_charge_rules
+  LEFT JOIN restaurant_tables ON restaurant_tables.id = p_table_id
+  WHERE service_charge_rules.active
+  AND (service_charge_rules.min_party_size IS NULL OR p_party_size >= service_charge_rules.min_party_size)
+  AND (service_charge_rules.section IS NULL OR lower(service_charge_rules.section) = lower(restaurant_tables.section));
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.compute_order_service_charge(p_order_id uuid)
+RETURNS numeric AS $$
+  SELECT COALESCE(round(
+    GREATEST(public.compute_order_subtotal(p_order_id) - public.compute_order_discount(p_order_id), 0)
+    * orders.service_charge_rate / 100,
+    2
+  ), 0)
+  FROM orders
+  WHERE orders.id = p_order_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.compute_order_total(p_order_id uuid)
+RETURNS numeric AS $$
+  SELECT GREATEST(public.compute_order_subtotal(p_order_id) - public.compute_order_discount(p_order_id), 0)
+    + public.compute_order_service_charge(p_order_id);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- The service charge follows the items it is charged on, so it is shared
+-- across the tax rates like everything else
+CREATE OR REPLACE FUNCTION public.order_tax_breakdown(p_order_id uuid)
+RETURNS TABLE (
+  tax_rate numeric,
+  gross_amount numeric,
+  net_amount numeric,
+  tax_amount numeric
+) AS $$
+  WITH rates AS (
+    SELECT
+      order_items.tax_rate,
+      SUM(order_items.quantity * order_items.price_at_purchase - COALESCE(item_discounts.amount, 0)) AS gross
+    FROM order_items
+    LEFT JOIN (
+      SELECT order_item_id, SUM(amount) AS amount
+      FROM order_discounts
+      WHERE order_id = p_order_id
+      AND order_item_id IS NOT NULL
+      AND status = 'applied'
+      GROUP BY order_item_id
+    ) AS item_discounts ON item_discounts.order_item_id = order_items.id
+    WHERE order_items.order_id = p_order_id
+    GROUP BY order_items.tax_rate
+  ),
+  totals AS (
+    SELECT
+      SUM(rates.gross) AS base,
+      SUM(rates.gross) - COALESCE((
+        SELECT SUM(amount) FROM order_discounts
+        WHERE order_id = p_order_id
+        AND order_item_id IS NULL
+        AND status = 'applied'
+      ), 0) + public.compute_order_service_charge(p_order_id) AS total
+    FROM rates
+  ),
+  shares AS (
+    SELECT
+      rates.tax_rate,
+      CASE WHEN totals.base > 0 THEN round(rates.gross * totals.total / totals.base, 2) ELSE 0 END AS gross,
+      totals.total,
+      row_number() OVER (ORDER BY rates.tax_rate DESC) AS position
+    FROM rates, totals
+  ),
+  grosses AS (
+    SELECT
+      shares.tax_rate,
+      CASE
+        WHEN shares.position = 1 THEN shares.total - (SUM(shares.gross) OVER () - shares.gross)
+        ELSE shares.gross
+      END AS gross
+    FROM shares
+  )
+  SELECT
+    grosses.tax_rate,
+    grosses.gross,
+    grosses.gross - round(grosses.gross * grosses.tax_rate / (100 + grosses.tax_rate), 2),
+    round(grosses.gross * grosses.tax_rate / (100 + grosses.tax_rate), 2)
+  FROM grosses
+  ORDER BY grosses.tax_rate DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.set_order_total()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.service_charge_rate := public.service_charge_rate_for(NEW.table_id, NEW.party_size);
+    NEW.total_amount := 0;
+    NEW.discount_amount := 0;
+    NEW.service_charge_amount := 0;
+    NEW.net_amount := 0;
+    NEW.tax_amount := 0;
+  ELSE
+    NEW.party_size := OLD.party_size;
+    NEW.service_charge_rate := OLD.service_charge_rate;
+
+    PERFORM public.refresh_order_discounts(NEW.id);
+    NEW.discount_amount := public.compute_order_discount(NEW.id);
+    NEW.service_charge_amount := public.compute_order_service_charge(NEW.id);
+    NEW.total_amount := public.compute_order_total(NEW.id);
+
+    SELECT COALESCE(SUM(breakdown.net_amount), 0), COALESCE(SUM(breakdown.tax_amount), 0)
+    INTO NEW.net_amount, NEW.tax_amount
+    FROM public.order_tax_breakdown(NEW.id) AS breakdown;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS public.create_order_with_items(uuid, jsonb, text);
+
+CREATE OR REPLACE FUNCTION public.create_order_with_items(
+  p_table_id uuid,
+  p_items jsonb,
+  p_notes text DEFAULT NULL,
+  p_party_size integer DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_table restaurant_tables;
+  v_order orders;
+BEGIN
+  SELECT * INTO v_table FROM restaurant_tables WHERE id = p_table_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Please choose a table';
+  END IF;
+
+  IF NOT v_table.active THEN
+    RAISE EXCEPTION 'Table % is not in use', v_table.name;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Please add at least one item to the order';
+  END IF;
+
+  IF p_party_size IS NOT NULL AND p_party_size <= 0 THEN
+    RAISE EXCEPTION 'The party size must be at least one guest';
+  END IF;
+
+  INSERT INTO orders (waiter_id, table_id, table_number, total_amount, status, notes, party_size)
+  VALUES (auth.uid(), v_table.id, v_table.name, 0, 'pending', NULLIF(btrim(p_notes), ''), p_party_size)
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, menu_id, quantity, price_at_purchase, modifiers, notes)
+  SELECT
+    v_order.id,
+    (item->>'menu_id')::uuid,
+    (item->>'quantity')::integer,
+    0,
+    COALESCE(item->'option_ids', '[]'::jsonb),
+    NULLIF(btrim(item->>'notes'), '')
+  FROM jsonb_array_elements(p_items) AS item;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_order.id;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Item checks are priced at their share of the order total, so discounts and
+-- the service charge are spread over them; the last check takes the rounding
+CREATE OR REPLACE FUNCTION public.split_order(
+  p_order_id uuid,
+  p_mode text,
+  p_splits jsonb
+)
+RETURNS SETOF order_splits AS $$
+DECLARE
+  v_order orders;
+  v_count integer;
+  v_share numeric;
+  v_split order_splits;
+  v_position integer := 0;
+  v_entry jsonb;
+  v_subtotal numeric;
+  v_allocated numeric := 0;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_manage_order(v_order) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending orders can be split';
+  END IF;
+
+  PERFORM public.clear_order_splits(p_order_id);
+
+  v_count := COALESCE(jsonb_array_length(p_splits), 0);
+  IF v_count = 0 THEN
+    RETURN;
+  END IF;
+
+  IF v_count < 2 THEN
+    RAISE EXCEPTION 'A split needs at least two checks';
+  END IF;
+
+  IF p_mode = 'equal' THEN
+    v_share := floor(v_order.total_amount * 100 / v_count) / 100;
+
+    IF v_share <= 0 THEN
+      RAISE EXCEPTION 'The total is too small to share between % checks', v_count;
+    END IF;
+
+    FOR v_entry IN SELECT * FROM jsonb_array_elements(p_splits) LOOP
+      v_position := v_position + 1;
+      INSERT INTO order_splits (order_id, label, amount, position, created_by)
+      VALUES (
+        p_order_id,
+        COALESCE(NULLIF(btrim(v_entry->>'label'), ''), 'Share ' || v_position),
+        CASE WHEN v_position = v_count THEN v_order.total_amount - v_share * (v_count - 1) ELSE v_share END,
+        v_position,
+        auth.uid()
+      );
+    END LOOP;
+  ELSIF p_mode = 'items' THEN
+    v_subtotal := public.compute_order_subtotal(p_order_id);
+
+    IF v_subtotal <= 0 OR v_order.total_amount <= 0 THEN
+      RAISE EXCEPTION 'There is nothing to pay on this order';
+    END IF;
+
+    FOR v_entry IN SELECT * FROM jsonb_array_elements(p_splits) LOOP
+      v_position := v_position + 1;
+      INSERT INTO order_splits (order_id, label, amount, position, created_by)
+      VALUES (
+        p_order_id,
+        COALESCE(NULLIF(btrim(v_entry->>'label'), ''), 'Check ' || v_position),
+        CASE
+          WHEN v_position = v_count THEN v_order.total_amount - v_allocated
+          ELSE round(COALESCE((
+            SELECT SUM((item->>'quantity')::integer * order_items.price_at_purchase)
+            FROM jsonb_array_elements(v_entry->'items') AS item
+            JOIN order_items ON order_items.id = (item->>'order_item_id')::uuid AND order_items.order_id = p_order_id
+          ), 0) * v_order.total_amount / v_subtotal, 2)
+        END,
+        v_position,
+        auth.uid()
+      )
+      RETURNING * INTO v_split;
+
+      v_allocated := v_allocated + v_split.amount;
+
+      INSERT INTO order_split_items (split_id, order_item_id, quantity)
+      SELECT v_split.id, (item->>'order_item_id')::uuid, (item->>'quantity')::integer
+      FROM jsonb_array_elements(v_entry->'items') AS item;
+    END LOOP;
+
+    IF EXISTS (
+      SELECT 1
+      FROM order_items
+      LEFT JOIN (
+        SELECT order_split_items.order_item_id, SUM(order_split_items.quantity) AS quantity
+        FROM order_split_items
+        JOIN order_splits ON order_splits.id = order_split_items.split_id
+        WHERE order_splits.order_id = p_order_id
+        GROUP BY order_split_items.order_item_id
+      ) AS allocated ON allocated.order_item_id = order_items.id
+      WHERE order_items.order_id = p_order_id
+      AND COALESCE(allocated.quantity, 0) <> order_items.quantity
+    ) OR EXISTS (
+      SELECT 1
+      FROM order_split_items
+      JOIN order_splits ON order_splits.id = order_split_items.split_id
+      JOIN order_items ON order_items.id = order_split_items.order_item_id
+      WHERE order_splits.order_id = p_order_id
+      AND order_items.order_id <> p_order_id
+    ) THEN
+      RAISE EXCEPTION 'Every item must be on exactly one check';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown split mode %', p_mode;
+  END IF;
+
+  RETURN QUERY SELECT * FROM order_splits WHERE order_id = p_order_id ORDER BY position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.set_payment_service_charge()
+RETURNS trigger AS $$
+DECLARE
+  v_order orders;
+  v_remaining numeric;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = NEW.order_id;
+
+  IF v_order.service_charge_amount <= 0 OR v_order.total_amount <= 0 THEN
+    NEW.service_charge_amount := 0;
+    RETURN NEW;
+  END IF;
+
+  v_remaining := v_order.service_charge_amount - COALESCE((
+    SELECT SUM(service_charge_amount) FROM payments
+    WHERE order_id = NEW.order_id
+    AND status IN ('pending', 'approved')
+  ), 0);
+
+  IF NEW.amount >= public.order_outstanding_balance(NEW.order_id) THEN
+    NEW.service_charge_amount := GREATEST(v_remaining, 0);
+  ELSE
+    NEW.service_charge_amount := GREATEST(
+      LEAST(round(NEW.amount * v_order.service_charge_amount / v_order.total_amount, 2), v_remaining),
+      0
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Named to fire after payments_check_amount, since triggers run in name order
+DROP TRIGGER IF EXISTS payments_set_service_charge ON payments;
+
+CREATE TRIGGER payments_set_service_charge
+  BEFORE INSERT ON payments
+  FOR EACH ROW EXECUTE FUNCTION public.set_payment_service_charge();
+
+DROP FUNCTION IF EXISTS public.payment_totals(timestamptz, timestamptz, text, uuid, text, timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.payment_totals(
+  p_submitted_from timestamptz DEFAULT NULL,
+  p_submitted_to timestamptz DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_waiter_id uuid DEFAULT NULL,
+  p_bank_filter text DEFAULT NULL,
+  p_confirmed_from timestamptz DEFAULT NULL,
+  p_confirmed_to timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  status text,
+  payment_count bigint,
+  total_amount numeric,
+  total_tip numeric,
+  total_service_charge numeric
+) AS $$
+  SELECT
+    p.status,
+    COUNT(*),
+    COALESCE(SUM(p.amount), 0),
+    COALESCE(SUM(p.tip_amount), 0),
+    COALESCE(SUM(p.service_charge_amount), 0)
+  FROM public.search_payments(
+    p_submitted_from, p_submitted_to, p_status, p_waiter_id,
+    p_bank_filter, p_confirmed_from, p_confirmed_to
+  ) AS p
+  GROUP BY p.status;
+$$ LANGUAGE sql STABLE SET search_path = public;
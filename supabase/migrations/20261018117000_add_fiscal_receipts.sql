@@ -0,0 +1,304 @@
+/*
+  # Sequential fiscal receipts
+
+  1. New Tables
+    - `fiscal_receipt_counter` - a single row holding the last receipt number
+      issued; only written by `issue_fiscal_receipt`
+    - `fiscal_receipts` - the register of issued receipts, one per approved
+      payment
+      - `id` (uuid, primary key)
+      - `receipt_number` (bigint, unique) - 1, 2, 3, ... with no gaps
+      - `payment_id` (uuid, unique), `order_id` (uuid)
+      - `issued_at` (timestamptz), `issued_by` (uuid) - the approving cashier
+      - `business_name`, `tax_id` (text) - copied from the settings
+      - `table_number`, `waiter_name`, `split_label` (text)
+      - `lines` (jsonb) - name, quantity, unit price, modifiers and notes of
+        every item the payment covers: the units on its check when the bill
+        is split by item or seat, otherwise every item on the order
+      - `discounts` (jsonb) - label and amount of every applied discount
+      - `order_total`, `service_charge_rate`, `service_charge_amount`
+      - `payment_method`, `amount`, `tip_amount`, `cash_tendered`,
+        `change_given` - copied from the payment
+      - `balance_due` (numeric) - what was left to approve on the order after
+        this payment
+      - `tax_lines` (jsonb) - the VAT breakdown of `amount`, from the same
+        items as `lines`
+
+  2. Changes
+    - `restaurant_settings`
+      - Add `business_name` and `tax_id` (text, nullable) - printed on every
+        receipt
+
+  3. New Functions
+    - `issue_fiscal_receipt(p_payment_id)` - takes the next number and
+      records the receipt; called only by `approve_payment`
+    - `approve_payment` issues a receipt for the payment it approves
+
+  4. Important Notes
+    - The counter is updated in the same transaction as the approval, so an
+      approval that fails gives its number back and no number is skipped
+    - Receipts are a copy of the order and payment when they were issued;
+      later changes to the menu or settings do not change them
+    - A partly paid order gets one receipt per payment; the VAT breakdown of
+      each receipt is the order's breakdown in proportion to the payment, or
+      for a check split by item or seat, the breakdown of its own items
+    - Payments approved before this migration have no receipt
+    - A trigger refuses every update, delete or truncate of the register,
+      whoever asks, and orders and payments with a receipt cannot be deleted
+
+  5. Security
+    - Enable RLS on both tables
+    - Receipts can be viewed by whoever can view the order; there are no
+      write policies, so they are only written by `issue_fiscal_receipt`
+    - The counter has no policies at all
+*/
+
+ALTER TABLE restaurant_settings ADD COLUMN IF NOT EXISTS business_name text CHECK (btrim(business_name) <> '');
+ALTER TABLE restaurant_settings ADD COLUMN IF NOT EXISTS tax_id text CHECK (btrim(tax_id) <> '');
+
+CREATE TABLE IF NOT EXISTS fiscal_receipt_counter (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  last_number bigint NOT NULL DEFAULT 0 CHECK (last_number >= 0)
+);
+
+INSERT INTO fiscal_receipt_counter (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS fiscal_receipts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_number bigint NOT NULL UNIQUE CHECK (receipt_number > 0),
+  payment_id uuid NOT NULL UNIQUE REFERENCES payments(id) ON DELETE RESTRICT,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE RESTRICT,
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  issued_by uuid REFERENCES profiles(id),
+  business_name text,
+  tax_id text,
+  table_number text NOT NULL,
+  waiter_name text,
+  split_label text,
+  lines jsonb NOT NULL DEFAULT '[]'::jsonb,
+  discounts jsonb NOT NULL DEFAULT '[]'::jsonb,
+  order_total numeric NOT NULL,
+  service_charge_rate numeric,
+  service_charge_amount numeric NOT NULL DEFAULT 0,
+  payment_method text NOT NULL,
+  amount numeric NOT NULL,
+  tip_amount numeric NOT NULL DEFAULT 0,
+  cash_tendered numeric,
+  change_given numeric,
+  balance_due numeric NOT NULL DEFAULT 0,
+  tax_lines jsonb NOT NULL DEFAULT '[]'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS fiscal_receipts_order_id_idx ON fiscal_receipts(order_id);
+CREATE INDEX IF NOT EXISTS fiscal_receipts_issued_at_idx ON fiscal_receipts(issued_at);
+
+ALTER TABLE fiscal_receipt_counter ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fiscal_receipts ENABLE ROW LEVEL SECURITY;
+
+-- The orders policies already limit waiters to their own orders
+CREATE POLICY "Staff can view fiscal receipts"
+  ON fiscal_receipts FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM orders WHERE orders.id = fiscal_receipts.order_id));
+
+CREATE OR REPLACE FUNCTION public.prevent_fiscal_receipt_changes()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'Issued receipts cannot be changed or deleted';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS fiscal_receipts_immutable ON fiscal_receipts;
+
+CREATE TRIGGER fiscal_receipts_immutable
+  BEFORE UPDATE OR DELETE ON fiscal_receipts
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_fiscal_receipt_changes();
+
+DROP TRIGGER IF EXISTS fiscal_receipts_no_truncate ON fiscal_receipts;
+
+CREATE TRIGGER fiscal_receipts_no_truncate
+  BEFORE TRUNCATE ON fiscal_receipts
+  FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_fiscal_receipt_changes();
+
+-- Rounding is settled on the highest rate so the gross amounts add up to the payment
+CREATE OR REPLACE FUNCTION public.issue_fiscal_receipt(p_payment_id uuid)
+RETURNS fiscal_receipts AS $$
+DECLARE
+  v_payment payments;
+  v_order orders;
+  v_settings restaurant_settings;
+  v_number bigint;
+  v_receipt fiscal_receipts;
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id;
+
+  IF NOT FOUND OR v_payment.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved payments get a receipt';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_payment.order_id;
+  SELECT * INTO v_settings FROM restaurant_settings;
+
+  -- The row lock makes concurrent approvals wait for each other's number
+  UPDATE fiscal_receipt_counter
+  SET last_number = last_number + 1
+  WHERE id
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO fiscal_receipts (
+    receipt_number, payment_id, order_id, issued_by,
+    business_name, tax_id, table_number, waiter_name, split_label,
+    lines, discounts, order_total, service_charge_rate, service_charge_amount,
+    payment_method, amount, tip_amount, cash_tendered, change_given,
+    balance_due, tax_lines
+  )
+  VALUES (
+    v_number,
+    v_payment.id,
+    v_order.id,
+    auth.uid(),
+    v_settings.business_name,
+    v_settings.tax_id,
+    v_order.table_number,
+    (SELECT full_name FROM profiles WHERE id = v_order.waiter_id),
+    (SELECT label FROM order_splits WHERE id = v_payment.split_id),
+    -- A check split by item or seat lists only its own units; an equal share lists the whole order
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'name', menu.name,
+          'quantity', COALESCE(order_split_items.quantity, order_items.quantity),
+          'unit_price', order_items.price_at_purchase,
+          'modifiers', order_items.modifiers,
+          'notes', order_items.notes
+        )
+        ORDER BY order_items.created_at
+      )
+      FROM order_items
+      JOIN menu ON menu.id = order_items.menu_id
+      LEFT JOIN order_split_items
+        ON order_split_items.order_item_id = order_items.id
+        AND order_split_items.split_id = v_payment.split_id
+      WHERE order_items.order_id = v_order.id
+      AND (
+        order_split_items.id IS NOT NULL
+        OR NOT EXISTS (SELECT 1 FROM order_split_items WHERE split_id = v_payment.split_id)
+      )
+    ), '[]'::jsonb),
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'label', COALESCE('Promo ' || promo_codes.code, discount_reasons.name, 'Discount')
+            || COALESCE(' (' || item.quantity || '× ' || item_menu.name || ')', ''),
+          'amount', order_discounts.amount
+        )
+        ORDER BY order_discounts.created_at
+      )
+      FROM order_discounts
+      LEFT JOIN promo_codes ON promo_codes.id = order_discounts.promo_code_id
+      LEFT JOIN discount_reasons ON discount_reasons.id = order_discounts.reason_id
+      LEFT JOIN order_items AS item ON item.id = order_discounts.order_item_id
+      LEFT JOIN menu AS item_menu ON item_menu.id = item.menu_id
+      WHERE order_discounts.order_id = v_order.id
+      AND order_discounts.status = 'applied'
+    ), '[]'::jsonb),
+    v_order.total_amount,
+    v_order.service_charge_rate,
+    v_order.service_charge_amount,
+    v_payment.payment_method,
+    v_payment.amount,
+    COALESCE(v_payment.tip_amount, 0),
+    v_payment.cash_tendered,
+    v_payment.change_given,
+    GREATEST(v_order.total_amount - COALESCE((
+      SELECT SUM(amount) FROM payments
+      WHERE order_id = v_order.id
+      AND status = 'approved'
+    ), 0), 0),
+    -- A check split by item or seat is weighed by its own units after their
+    -- item discounts; its amount already carries its share of the order
+    -- discount and service charge. Otherwise the whole order is weighed.
+    COALESCE((
+      WITH rates AS (
+        SELECT breakdown.tax_rate, breakdown.gross_amount AS gross
+        FROM public.order_tax_breakdown(v_order.id) AS breakdown
+        WHERE NOT EXISTS (SELECT 1 FROM order_split_items WHERE split_id = v_payment.split_id)
+        UNION ALL
+        SELECT
+          order_items.tax_rate,
+          SUM(
+            (order_items.quantity * order_items.price_at_purchase - COALESCE(item_discounts.amount, 0))
+            * order_split_items.quantity / order_items.quantity
+          )
+        FROM order_split_items
+        JOIN order_items ON order_items.id = order_split_items.order_item_id
+        LEFT JOIN (
+          SELECT order_item_id, SUM(amount) AS amount
+          FROM order_discounts
+          WHERE order_id = v_order.id
+          AND order_item_id IS NOT NULL
+          AND status = 'applied'
+          GROUP BY order_item_id
+        ) AS item_discounts ON item_discounts.order_item_id = order_items.id
+        WHERE order_split_items.split_id = v_payment.split_id
+        GROUP BY order_items.tax_rate
+      ),
+      shares AS (
+        SELECT
+          rates.tax_rate,
+          CASE
+            WHEN SUM(rates.gross) OVER () > 0 THEN round(rates.gross * v_payment.amount / SUM(rates.gross) OVER (), 2)
+            ELSE 0
+          END AS gross,
+          row_number() OVER (ORDER BY rates.tax_rate DESC) AS position
+        FROM rates
+      ),
+      grosses AS (
+        SELECT
+          shares.tax_rate,
+          CASE
+            WHEN shares.position = 1 THEN v_payment.amount - (SUM(shares.gross) OVER () - shares.gross)
+            ELSE shares.gross
+          END AS gross
+        FROM shares
+      )
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'tax_rate', grosses.tax_rate,
+          'gross_amount', grosses.gross,
+          'net_amount', grosses.gross - round(grosses.gross * grosses.tax_rate / (100 + grosses.tax_rate), 2),
+          'tax_amount', round(grosses.gross * grosses.tax_rate / (100 + grosses.tax_rate), 2)
+        )
+        ORDER BY grosses.tax_rate DESC
+      )
+      FROM grosses
+    ), '[]'::jsonb)
+  )
+  RETURNING * INTO v_receipt;
+
+  RETURN v_receipt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.issue_fiscal_receipt(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.approve_payment(p_payment_id uuid)
+RETURNS payments AS $$
+DECLARE
+  v_payment payments;
+BEGIN
+  v_payment := public.lock_pending_payment(p_payment_id);
+
+  UPDATE payments
+  SET status = 'approved',
+      confirmed_at = now(),
+      confirmed_by = auth.uid()
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  PERFORM public.issue_fiscal_receipt(v_payment.id);
+  PERFORM public.refresh_order_payment_status(v_payment.order_id);
+
+  RETURN v_payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;